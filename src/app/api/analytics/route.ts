@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/session';
 import { UserService } from '@/lib/database/services/userService';
 import { ChatService } from '@/lib/database/services/chatService';
+import { getSatisfactionRate } from '@/lib/chat/feedback';
 import { db } from '@/lib/database/config';
 import { studySessions, userProgress, conversations, messages } from '@/lib/database/schema';
 import { eq, and, sql } from 'drizzle-orm';
@@ -75,7 +76,7 @@ async function getStudyAnalytics(userId: string) {
       avgScore: sql<number>`avg(${studySessions.score})`,
     })
     .from(studySessions)
-    .where(eq(studySessions.userId, userId))
+    .where(and(eq(studySessions.userId, userId), eq(studySessions.status, 'completed')))
     .groupBy(studySessions.sessionType);
   
   // Daily study pattern (last 30 days)
@@ -92,6 +93,7 @@ async function getStudyAnalytics(userId: string) {
     .where(
       and(
         eq(studySessions.userId, userId),
+        eq(studySessions.status, 'completed'),
         sql`date(${studySessions.createdAt}) >= date(${thirtyDaysAgo.toISOString()})`
       )
     )
@@ -110,6 +112,7 @@ async function getStudyAnalytics(userId: string) {
     .where(
       and(
         eq(studySessions.userId, userId),
+        eq(studySessions.status, 'completed'),
         sql`${studySessions.difficultyLevel} IS NOT NULL`
       )
     )
@@ -177,6 +180,18 @@ async function getChatAnalytics(userId: string) {
     )
     .groupBy(messages.feedback);
   
+  // Picks between regenerated answers; already counted in the feedback above
+  const [comparisonStats] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(messages)
+    .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+    .where(
+      and(
+        eq(conversations.userId, userId),
+        eq(messages.preferred, true)
+      )
+    );
+  
   // Weekly chat activity
   const weeklyActivity = await db
     .select({
@@ -206,6 +221,7 @@ async function getChatAnalytics(userId: string) {
       positive: feedbackStats.find(f => f.feedback === 'positive')?.count || 0,
       negative: feedbackStats.find(f => f.feedback === 'negative')?.count || 0,
       satisfactionRate: calculateSatisfactionRate(feedbackStats),
+      comparisons: comparisonStats?.count || 0,
     },
     weeklyActivity: weeklyActivity.map(wa => ({
       week: wa.week,
@@ -241,7 +257,7 @@ async function getPerformanceTrends(userId: string) {
       createdAt: studySessions.createdAt,
     })
     .from(studySessions)
-    .where(eq(studySessions.userId, userId))
+    .where(and(eq(studySessions.userId, userId), eq(studySessions.status, 'completed')))
     .orderBy(sql`${studySessions.createdAt} DESC`)
     .limit(10);
   
@@ -281,7 +297,7 @@ async function generateRecommendations(userId: string) {
   const recentSessions = await db
     .select()
     .from(studySessions)
-    .where(eq(studySessions.userId, userId))
+    .where(and(eq(studySessions.userId, userId), eq(studySessions.status, 'completed')))
     .orderBy(sql`${studySessions.createdAt} DESC`)
     .limit(5);
   
@@ -347,7 +363,6 @@ async function generateRecommendations(userId: string) {
 function calculateSatisfactionRate(feedbackStats: any[]) {
   const positive = feedbackStats.find(f => f.feedback === 'positive')?.count || 0;
   const negative = feedbackStats.find(f => f.feedback === 'negative')?.count || 0;
-  const total = positive + negative;
   
-  return total > 0 ? Math.round((positive / total) * 100) : 0;
+  return getSatisfactionRate(positive, negative);
 }
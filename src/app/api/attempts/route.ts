@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ProgressService, ATTEMPT_VERDICTS, type AttemptVerdict } from '@/lib/database/services/progressService';
+import type { QuestionAttempt } from '@/lib/database/schema';
+
+const MAX_CODE_LENGTH = 100_000;
+const MAX_TIME_SPENT = 24 * 60 * 60; // one day, in seconds
+
+function toAttemptResponse(attempt: QuestionAttempt) {
+  return {
+    id: attempt.id,
+    questionId: attempt.questionId,
+    verdict: attempt.verdict,
+    timeSpent: attempt.timeSpent,
+    language: attempt.language,
+    code: attempt.code,
+    createdAt: attempt.createdAt,
+  };
+}
+
+/**
+ * List the user's question attempts
+ * 
+ * GET /api/attempts?questionId=...&category=dsa&verdict=accepted&limit=20&before=<ISO timestamp>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const attempts = await ProgressService.getAttempts(user.id, {
+      questionId: searchParams.get('questionId') || undefined,
+      category: searchParams.get('category') || undefined,
+      verdict: searchParams.get('verdict') || undefined,
+      before: searchParams.get('before') || undefined,
+      limit: limit + 1,
+    });
+
+    return NextResponse.json({
+      success: true,
+      attempts: attempts.slice(0, limit).map(attempt => ({
+        ...toAttemptResponse(attempt),
+        questionTitle: attempt.questionTitle,
+        category: attempt.category,
+        difficulty: attempt.difficulty,
+      })),
+      hasMore: attempts.length > limit,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get attempts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get attempts' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Record an attempt at a question
+ * 
+ * POST /api/attempts
+ * Body: { questionId: string, verdict: AttemptVerdict, timeSpent: number (seconds), language?: string, code?: string }
+ * 
+ * The user's progress for the question's category is recalculated from attempts in the same transaction.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    if (!body.questionId || typeof body.questionId !== 'string') {
+      return NextResponse.json(
+        { error: 'questionId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ATTEMPT_VERDICTS.includes(body.verdict)) {
+      return NextResponse.json(
+        { error: `verdict must be one of ${ATTEMPT_VERDICTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.timeSpent !== 'number' || !Number.isFinite(body.timeSpent) || body.timeSpent < 0 || body.timeSpent > MAX_TIME_SPENT) {
+      return NextResponse.json(
+        { error: 'timeSpent must be a number of seconds between 0 and 86400' },
+        { status: 400 }
+      );
+    }
+
+    if (body.code !== undefined && (typeof body.code !== 'string' || body.code.length > MAX_CODE_LENGTH)) {
+      return NextResponse.json(
+        { error: `code must be a string of at most ${MAX_CODE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { attempt, progress } = await ProgressService.recordAttempt({
+      userId: user.id,
+      questionId: body.questionId,
+      verdict: body.verdict as AttemptVerdict,
+      timeSpent: body.timeSpent,
+      language: typeof body.language === 'string' ? body.language.slice(0, 32) : null,
+      code: body.code,
+    });
+
+    return NextResponse.json({
+      success: true,
+      attempt: toAttemptResponse(attempt),
+      progress: progress && {
+        category: progress.category,
+        subcategory: progress.subcategory,
+        totalQuestions: progress.totalQuestions,
+        completedQuestions: progress.completedQuestions,
+        correctAnswers: progress.correctAnswers,
+        averageTime: progress.averageTime,
+        streak: progress.currentStreak,
+        bestStreak: progress.bestStreak,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Question not found') {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Record attempt error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record attempt' },
+      { status: 500 }
+    );
+  }
+}
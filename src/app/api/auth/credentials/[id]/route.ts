@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { CredentialService } from '@/lib/database/services/credentialService';
+
+/**
+ * Remove one of the current user's sign-in methods
+ *
+ * DELETE /api/auth/credentials/:id
+ * The last remaining credential cannot be removed
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const credentials = await CredentialService.getUserCredentials(user.id);
+
+    if (!credentials.some(credential => credential.id === id)) {
+      return NextResponse.json({ error: 'Credential not found' }, { status: 404 });
+    }
+
+    if (credentials.length <= 1) {
+      return NextResponse.json(
+        { error: 'You need at least one way to sign in. Add another passkey or a password first.' },
+        { status: 400 }
+      );
+    }
+
+    await CredentialService.deleteCredential(user.id, id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Credential removed',
+    });
+  } catch (error) {
+    console.error('Error deleting credential:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove credential' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { CredentialService } from '@/lib/database/services/credentialService';
+
+/**
+ * List the current user's sign-in methods
+ *
+ * GET /api/auth/credentials
+ * Never returns password hashes or public keys
+ */
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const credentials = await CredentialService.getUserCredentials(user.id);
+
+    return NextResponse.json({
+      success: true,
+      hasPassword: credentials.some(credential => credential.type === 'password'),
+      credentials: credentials.map(credential => ({
+        id: credential.id,
+        type: credential.type,
+        name: credential.type === 'password' ? 'Password' : credential.name,
+        deviceType: credential.deviceType,
+        backedUp: credential.backedUp,
+        lastUsedAt: credential.lastUsedAt,
+        createdAt: credential.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching credentials:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch credentials' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,47 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { UserService } from '@/lib/database/services/userService';
-import { createSession } from '@/lib/auth/session';
+import { UserService, normalizeEmail } from '@/lib/database/services/userService';
+import { CredentialService } from '@/lib/database/services/credentialService';
+import { createSession, toSessionUser } from '@/lib/auth/session';
+import { hashPassword, verifyPassword } from '@/lib/auth/password';
+import { checkLoginRateLimit, recordLoginResult } from '@/lib/auth/rateLimit';
 
 /**
- * Simple login endpoint
- * 
+ * Password login endpoint
+ *
  * POST /api/auth/login
- * Body: { name: string, email?: string }
- * 
- * Creates a new user if doesn't exist, or logs in existing user
+ * Body: { email: string, password: string }
+ *
+ * Failed attempts are rate limited per account and per client address.
+ * The same error is returned for unknown emails and wrong passwords.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, email } = body;
+    const { password } = body;
+    const email = typeof body.email === 'string' ? normalizeEmail(body.email) : '';
 
-    if (!name || typeof name !== 'string' || name.trim().length < 2) {
+    if (!email || typeof password !== 'string' || !password) {
       return NextResponse.json(
-        { error: 'Name is required and must be at least 2 characters' },
+        { error: 'Email and password are required' },
         { status: 400 }
       );
     }
 
-    // For demo purposes, we'll create a user with minimal info
-    // In production, you'd have proper authentication
-    let user;
-    
-    if (email) {
-      // Try to find existing user by email
-      const users = await UserService.getAllUsers(100);
-      user = users.find(u => u.email === email);
+    const rateLimit = await checkLoginRateLimit(request, email);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sign-in attempts. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+      );
+    }
+
+    const user = await UserService.getUserByEmail(email);
+    const credential = user ? await CredentialService.getPasswordCredential(user.id) : null;
+
+    let valid = false;
+    if (credential?.passwordHash) {
+      valid = await verifyPassword(password, credential.passwordHash);
+    } else {
+      // Spend the same time as a real check so response timing doesn't reveal which emails exist
+      await hashPassword(password);
     }
 
-    if (!user) {
-      // Create new user with default values
-      user = await UserService.createUser({
-        name: name.trim(),
-        email: email || undefined,
-        role: 'working', // Default role
-        experienceLevel: 'intermediate', // Default level
-        hoursPerWeek: 8, // Default hours
-        onboardingCompleted: false,
-      });
+    await recordLoginResult(request, valid, email);
+
+    if (!user || !valid) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
     }
 
     // Create session
@@ -49,14 +60,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        experienceLevel: user.experienceLevel,
-        onboardingCompleted: user.onboardingCompleted,
-      },
+      user: toSessionUser(user),
     });
   } catch (error) {
     console.error('Login error:', error);
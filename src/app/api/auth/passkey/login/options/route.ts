@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateAuthenticationOptions } from '@simplewebauthn/server';
+import { CredentialService } from '@/lib/database/services/credentialService';
+import { getRelyingParty, setChallengeCookie } from '@/lib/auth/webauthn';
+
+/**
+ * Start a passkey sign-in
+ *
+ * POST /api/auth/passkey/login/options
+ * Returns WebAuthn request options; the browser offers any discoverable passkey for this site
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const relyingParty = getRelyingParty(request);
+
+    const options = await generateAuthenticationOptions({
+      rpID: relyingParty.id,
+      userVerification: 'preferred',
+    });
+
+    const challengeId = await CredentialService.createChallenge('passkey_authentication', options.challenge);
+    await setChallengeCookie(challengeId);
+
+    return NextResponse.json(options);
+  } catch (error) {
+    console.error('Passkey sign-in options error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start passkey sign-in' },
+      { status: 500 }
+    );
+  }
+}
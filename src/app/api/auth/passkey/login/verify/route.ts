@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthenticationResponse } from '@simplewebauthn/server';
+import { UserService } from '@/lib/database/services/userService';
+import { CredentialService } from '@/lib/database/services/credentialService';
+import { createSession, toSessionUser } from '@/lib/auth/session';
+import { checkLoginRateLimit, recordLoginResult } from '@/lib/auth/rateLimit';
+import { getRelyingParty, takeChallengeCookie, toWebAuthnCredential } from '@/lib/auth/webauthn';
+
+/**
+ * Finish a passkey sign-in
+ *
+ * POST /api/auth/passkey/login/verify
+ * Body: { response: AuthenticationResponseJSON }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await request.json();
+    if (!response || typeof response !== 'object' || typeof response.id !== 'string') {
+      return NextResponse.json({ error: 'Authentication response is required' }, { status: 400 });
+    }
+
+    const rateLimit = await checkLoginRateLimit(request);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sign-in attempts. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+      );
+    }
+
+    const challengeId = await takeChallengeCookie();
+    const expectedChallenge = challengeId
+      ? await CredentialService.consumeChallenge(challengeId, 'passkey_authentication')
+      : null;
+
+    if (!expectedChallenge) {
+      return NextResponse.json(
+        { error: 'Passkey sign-in expired. Please try again.' },
+        { status: 400 }
+      );
+    }
+
+    const passkey = await CredentialService.getPasskeyByCredentialId(response.id);
+    const user = passkey ? await UserService.getUserById(passkey.userId) : null;
+
+    let verified = false;
+    if (passkey && user) {
+      const relyingParty = getRelyingParty(request);
+      try {
+        const verification = await verifyAuthenticationResponse({
+          response,
+          expectedChallenge,
+          expectedOrigin: relyingParty.origin,
+          expectedRPID: relyingParty.id,
+          credential: toWebAuthnCredential(passkey),
+        });
+
+        verified = verification.verified;
+        if (verified) {
+          await CredentialService.updatePasskeyUsage(passkey.id, verification.authenticationInfo.newCounter);
+        }
+      } catch (error) {
+        console.warn('Passkey sign-in rejected:', error);
+      }
+    }
+
+    await recordLoginResult(request, verified, user?.email || undefined);
+
+    if (!user || !verified) {
+      return NextResponse.json(
+        { error: 'Passkey not recognized' },
+        { status: 401 }
+      );
+    }
+
+    await createSession(user);
+
+    return NextResponse.json({
+      success: true,
+      user: toSessionUser(user),
+    });
+  } catch (error) {
+    console.error('Passkey sign-in error:', error);
+    return NextResponse.json(
+      { error: 'Passkey sign-in failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRegistrationOptions } from '@simplewebauthn/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { CredentialService } from '@/lib/database/services/credentialService';
+import { getRelyingParty, parseTransports, setChallengeCookie } from '@/lib/auth/webauthn';
+
+/**
+ * Start passkey registration for the current user
+ *
+ * POST /api/auth/passkey/register/options
+ * Returns WebAuthn creation options for @simplewebauthn/browser
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const relyingParty = getRelyingParty(request);
+    const existing = await CredentialService.getUserCredentials(user.id);
+
+    const options = await generateRegistrationOptions({
+      rpName: relyingParty.name,
+      rpID: relyingParty.id,
+      userID: new TextEncoder().encode(user.id),
+      userName: user.email || user.name,
+      userDisplayName: user.name,
+      attestationType: 'none',
+      excludeCredentials: existing.flatMap(credential =>
+        credential.type === 'passkey' && credential.credentialId
+          ? [{ id: credential.credentialId, transports: parseTransports(credential.transports) }]
+          : []
+      ),
+      authenticatorSelection: {
+        // Discoverable credentials let users sign in without typing an email
+        residentKey: 'required',
+        userVerification: 'preferred',
+      },
+    });
+
+    const challengeId = await CredentialService.createChallenge('passkey_registration', options.challenge, user.id);
+    await setChallengeCookie(challengeId);
+
+    return NextResponse.json(options);
+  } catch (error) {
+    console.error('Passkey registration options error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start passkey registration' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyRegistrationResponse, type VerifiedRegistrationResponse } from '@simplewebauthn/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { CredentialService } from '@/lib/database/services/credentialService';
+import { getRelyingParty, takeChallengeCookie } from '@/lib/auth/webauthn';
+
+/**
+ * Finish passkey registration for the current user
+ *
+ * POST /api/auth/passkey/register/verify
+ * Body: { response: RegistrationResponseJSON, name?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { response, name } = await request.json();
+    if (!response || typeof response !== 'object') {
+      return NextResponse.json({ error: 'Registration response is required' }, { status: 400 });
+    }
+
+    const challengeId = await takeChallengeCookie();
+    const expectedChallenge = challengeId
+      ? await CredentialService.consumeChallenge(challengeId, 'passkey_registration', user.id)
+      : null;
+
+    if (!expectedChallenge) {
+      return NextResponse.json(
+        { error: 'Passkey registration expired. Please try again.' },
+        { status: 400 }
+      );
+    }
+
+    const relyingParty = getRelyingParty(request);
+
+    let verification: VerifiedRegistrationResponse;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: relyingParty.origin,
+        expectedRPID: relyingParty.id,
+      });
+    } catch (error) {
+      console.warn('Passkey registration rejected:', error);
+      return NextResponse.json({ error: 'Passkey could not be verified' }, { status: 400 });
+    }
+
+    if (!verification.verified) {
+      return NextResponse.json({ error: 'Passkey could not be verified' }, { status: 400 });
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    if (await CredentialService.getPasskeyByCredentialId(credential.id)) {
+      return NextResponse.json({ error: 'This passkey is already registered' }, { status: 409 });
+    }
+
+    const passkey = await CredentialService.addPasskey({
+      userId: user.id,
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+      counter: credential.counter,
+      transports: credential.transports ? JSON.stringify(credential.transports) : null,
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      name: typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : 'Passkey',
+    });
+
+    return NextResponse.json({
+      success: true,
+      credential: {
+        id: passkey.id,
+        type: passkey.type,
+        name: passkey.name,
+        deviceType: passkey.deviceType,
+        backedUp: passkey.backedUp,
+        createdAt: passkey.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error('Passkey registration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to register passkey' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentSession, getSessionUser } from '@/lib/auth/session';
+import { SessionService } from '@/lib/database/services/sessionService';
+import { CredentialService } from '@/lib/database/services/credentialService';
+import { hashPassword, validatePassword, verifyPassword } from '@/lib/auth/password';
+import { checkLoginRateLimit, recordLoginResult } from '@/lib/auth/rateLimit';
+
+/**
+ * Set or change the current user's password
+ *
+ * POST /api/auth/password
+ * Body: { currentPassword?: string, newPassword: string }
+ *
+ * currentPassword is required when the account already has a password.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { currentPassword, newPassword } = await request.json();
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    const existing = await CredentialService.getPasswordCredential(user.id);
+
+    if (existing?.passwordHash) {
+      const rateLimit = await checkLoginRateLimit(request, user.email);
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          { error: 'Too many attempts. Please try again later.' },
+          { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+        );
+      }
+
+      const valid = typeof currentPassword === 'string'
+        && await verifyPassword(currentPassword, existing.passwordHash);
+      await recordLoginResult(request, valid, user.email);
+
+      if (!valid) {
+        return NextResponse.json(
+          { error: 'Current password is incorrect' },
+          { status: 400 }
+        );
+      }
+    }
+
+    await CredentialService.setPassword(user.id, await hashPassword(newPassword));
+
+    // A password change signs out every other device
+    const current = await getCurrentSession();
+    await SessionService.revokeUserSessions(user.id, current?.id);
+
+    return NextResponse.json({
+      success: true,
+      message: existing ? 'Password changed successfully' : 'Password set successfully',
+    });
+  } catch (error) {
+    console.error('Error setting password:', error);
+    return NextResponse.json(
+      { error: 'Failed to update password' },
+      { status: 500 }
+    );
+  }
+}
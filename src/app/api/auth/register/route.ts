@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService, normalizeEmail, isValidEmail } from '@/lib/database/services/userService';
+import { CredentialService } from '@/lib/database/services/credentialService';
+import { createSession, getSessionUser, toSessionUser } from '@/lib/auth/session';
+import { hashPassword, validatePassword } from '@/lib/auth/password';
+
+/**
+ * Sign-up endpoint
+ *
+ * POST /api/auth/register
+ * Body: { name: string, email: string, password: string }
+ *
+ * Creates an account with a password. Accounts created before passwords
+ * existed have no credentials; they can only be claimed from a session already
+ * signed in to that account, since nothing else proves the email is the caller's.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, password } = body;
+    const email = typeof body.email === 'string' ? normalizeEmail(body.email) : '';
+
+    if (!name || typeof name !== 'string' || name.trim().length < 2) {
+      return NextResponse.json(
+        { error: 'Name is required and must be at least 2 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidEmail(email)) {
+      return NextResponse.json(
+        { error: 'A valid email address is required' },
+        { status: 400 }
+      );
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    let user = await UserService.getUserByEmail(email);
+
+    if (user) {
+      const claimable = !(await CredentialService.hasCredentials(user.id))
+        && (await getSessionUser())?.id === user.id;
+
+      if (!claimable) {
+        return NextResponse.json(
+          { error: 'An account with this email already exists' },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (!user) {
+      user = await UserService.createUser({
+        name: name.trim(),
+        email,
+        role: 'working', // Default role
+        experienceLevel: 'intermediate', // Default level
+        hoursPerWeek: 8, // Default hours
+        onboardingCompleted: false,
+      });
+    }
+
+    await CredentialService.setPassword(user.id, await hashPassword(password));
+    await createSession(user);
+
+    return NextResponse.json({
+      success: true,
+      user: toSessionUser(user),
+    });
+  } catch (error) {
+    console.error('Registration error:', error);
+    return NextResponse.json(
+      { error: 'Registration failed' },
+      { status: 500 }
+    );
+  }
+}
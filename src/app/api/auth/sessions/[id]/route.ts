@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentSession, destroySession } from '@/lib/auth/session';
+import { SessionService } from '@/lib/database/services/sessionService';
+
+/**
+ * Revoke one signed-in device
+ *
+ * DELETE /api/auth/sessions/:id
+ * Revoking the current session also clears this browser's cookie
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const current = await getCurrentSession();
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (id === current.id) {
+      await destroySession();
+      return NextResponse.json({ success: true, current: true, message: 'Logged out' });
+    }
+
+    const revoked = await SessionService.revokeSession(current.userId, id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, current: false, message: 'Device logged out' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentSession, getSessionUser, destroySession } from '@/lib/auth/session';
+import { SessionService } from '@/lib/database/services/sessionService';
+
+/**
+ * List the current user's signed-in devices
+ *
+ * GET /api/auth/sessions
+ */
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    const current = await getCurrentSession();
+    if (!user || !current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sessions = await SessionService.getUserSessions(user.id);
+
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map(session => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        expiresAt: session.expiresAt,
+        current: session.id === current.id,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Log out of other devices
+ *
+ * DELETE /api/auth/sessions
+ * Query: ?includeCurrent=true also ends this session (log out everywhere)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const current = await getCurrentSession();
+    if (!current) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const includeCurrent = request.nextUrl.searchParams.get('includeCurrent') === 'true';
+    const revoked = await SessionService.revokeUserSessions(current.userId, current.id);
+
+    if (includeCurrent) {
+      await destroySession();
+    }
+
+    return NextResponse.json({
+      success: true,
+      revoked: revoked + (includeCurrent ? 1 : 0),
+      message: includeCurrent ? 'Logged out of all devices' : 'Logged out of all other devices',
+    });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    );
+  }
+}
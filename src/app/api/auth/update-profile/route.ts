@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSessionUser } from '@/lib/auth/session';
 import { getDb } from '@/lib/database/utils';
+import { UserService, normalizeEmail, isValidEmail } from '@/lib/database/services/userService';
+import { CredentialService } from '@/lib/database/services/credentialService';
 import { users } from '@/lib/database/schema';
 import { eq } from 'drizzle-orm';
 
@@ -13,13 +15,27 @@ export async function PUT(request: NextRequest) {
 
     const body = await request.json();
     const db = getDb();
+
+    // Email is the sign-in identifier, so keep it normalized and unique
+    const email = typeof body.email === 'string' && body.email.trim() ? normalizeEmail(body.email) : null;
+    if (email) {
+      if (!isValidEmail(email)) {
+        return NextResponse.json({ error: 'Please enter a valid email address' }, { status: 400 });
+      }
+      const existing = await UserService.getUserByEmail(email);
+      if (existing && existing.id !== user.id) {
+        return NextResponse.json({ error: 'That email is already in use' }, { status: 409 });
+      }
+    } else if (await CredentialService.getPasswordCredential(user.id)) {
+      return NextResponse.json({ error: 'Email is required to sign in with a password' }, { status: 400 });
+    }
     
     // Update user profile in database
     await db
       .update(users)
       .set({
         name: body.name,
-        email: body.email,
+        email,
         role: body.role,
         experienceLevel: body.experienceLevel,
         updatedAt: new Date().toISOString(),
@@ -31,6 +47,7 @@ export async function PUT(request: NextRequest) {
       user: {
         ...user,
         ...body,
+        email: email || undefined,
       }
     });
   } catch (error) {
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { BookmarkService } from '@/lib/database/services/bookmarkService';
+import { MAX_SAVED_PAGE_SIZE, SAVED_PAGE_SIZE } from '@/lib/chat/annotations';
+
+/**
+ * Answers the user has saved, across all conversations
+ *
+ * GET /api/chat/bookmarks?tag=graphs&limit=20&offset=0
+ *
+ * Newest saves first. `tags` lists every tag in use with how many saved
+ * answers carry it, whatever the `tag` filter.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+    const tag = (searchParams.get('tag') || '').trim().toLowerCase() || undefined;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || SAVED_PAGE_SIZE, 1), MAX_SAVED_PAGE_SIZE);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    const page = await BookmarkService.getSavedMessages(user.id, { tag, limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get saved messages error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get saved messages' },
+      { status: 500 }
+    );
+  }
+}
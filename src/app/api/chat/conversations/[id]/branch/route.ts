@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ChatService } from '@/lib/database/services/chatService';
+
+/**
+ * Switch to another branch of a conversation
+ *
+ * POST /api/chat/conversations/:id/branch
+ * Body: { messageId: string }
+ *
+ * Makes the branch that starts at `messageId` the active one, following its
+ * latest replies. Reload the conversation afterwards to get the new path.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const parsed = await request.json().catch(() => null);
+    // Anything but a JSON object counts as an empty body
+    const body = parsed && typeof parsed === 'object' ? parsed : {};
+
+    if (!body.messageId || typeof body.messageId !== 'string') {
+      return NextResponse.json(
+        { error: 'Message ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await ChatService.getConversation(id);
+    if (!conversation || conversation.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const activeMessageId = await ChatService.setActiveBranch(id, body.messageId);
+    if (!activeMessageId) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      activeMessageId,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Switch branch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch branch' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,9 +3,15 @@ import { requireAuth } from '@/lib/auth/session';
 import { ChatService } from '@/lib/database/services/chatService';
 
 /**
- * Get a specific conversation with its messages
+ * Get a specific conversation with a page of its messages
  * 
- * GET /api/chat/conversations/[id]
+ * GET /api/chat/conversations/[id]?limit=50&before=<messageId>
+ * 
+ * Returns the newest `limit` messages of the active branch older than `before`
+ * (if given), in chronological order, plus `hasMore` for loading earlier
+ * history. Messages that have been edited carry `branch` with their position
+ * among the alternatives. Each message also carries the user's `bookmark`
+ * (or null) and `reactions`.
  */
 export async function GET(
   request: NextRequest,
@@ -14,10 +20,13 @@ export async function GET(
   try {
     const user = await requireAuth();
     const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+    const before = searchParams.get('before') || undefined;
     
-    const chatData = await ChatService.getConversationWithMessages(id);
+    const conversation = await ChatService.getConversation(id);
     
-    if (!chatData) {
+    if (!conversation) {
       return NextResponse.json(
         { error: 'Conversation not found' },
         { status: 404 }
@@ -25,33 +34,44 @@ export async function GET(
     }
     
     // Verify the conversation belongs to the user
-    if (chatData.conversation.userId !== user.id) {
+    if (conversation.userId !== user.id) {
       return NextResponse.json(
         { error: 'Access denied' },
         { status: 403 }
       );
     }
     
+    const page = await ChatService.getConversationMessages(id, { limit, before });
+    const annotations = await ChatService.getMessageAnnotations(user.id, page.messages.map(msg => msg.id));
+    
     return NextResponse.json({
       success: true,
       conversation: {
-        id: chatData.conversation.id,
-        title: chatData.conversation.title,
-        context: chatData.conversation.context,
-        messageCount: chatData.conversation.messageCount,
-        lastMessageAt: chatData.conversation.lastMessageAt,
-        createdAt: chatData.conversation.createdAt,
+        id: conversation.id,
+        title: conversation.title,
+        context: conversation.context,
+        messageCount: conversation.messageCount,
+        lastMessageAt: conversation.lastMessageAt,
+        createdAt: conversation.createdAt,
       },
-      messages: chatData.messages.map(msg => ({
+      messages: page.messages.map(msg => ({
         id: msg.id,
+        parentMessageId: msg.parentMessageId,
+        replyToMessageId: msg.replyToMessageId,
+        branch: page.branches[msg.id] || null,
         role: msg.role,
         content: msg.content,
         attachments: msg.attachments ? JSON.parse(msg.attachments) : null,
         tokens: msg.tokens,
         model: msg.model,
+        truncated: msg.truncated || false,
         feedback: msg.feedback,
+        preferred: msg.preferred || false,
+        bookmark: annotations[msg.id].bookmark,
+        reactions: annotations[msg.id].reactions,
         createdAt: msg.createdAt,
       })),
+      hasMore: page.hasMore,
     });
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ChatService } from '@/lib/database/services/chatService';
+import { parseSearchDate } from '@/lib/chat/search';
+
+/**
+ * Aggregated feedback on the user's answers
+ *
+ * GET /api/chat/feedback/report?from=2025-01-01&to=2025-01-31
+ *
+ * Counts thumbs up/down and preferred answers, how often each reason was
+ * given with a thumbs down, and the satisfaction rate per conversation
+ * context and per model. `from` and `to` accept dates or ISO timestamps; a
+ * date-only `to` includes that whole day.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+    const range: { from?: string; to?: string } = {};
+
+    for (const bound of ['from', 'to'] as const) {
+      const value = searchParams.get(bound);
+      if (!value) continue;
+
+      const parsed = parseSearchDate(value, bound);
+      if (!parsed) {
+        return NextResponse.json(
+          { error: `${bound} must be a date (YYYY-MM-DD) or ISO timestamp` },
+          { status: 400 }
+        );
+      }
+      range[bound] = parsed;
+    }
+
+    const report = await ChatService.getFeedbackReport(user.id, range);
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Feedback report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to build feedback report' },
+      { status: 500 }
+    );
+  }
+}
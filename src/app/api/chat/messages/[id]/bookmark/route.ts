@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { BookmarkService } from '@/lib/database/services/bookmarkService';
+import { ReviewService } from '@/lib/database/services/reviewService';
+import { safeJsonParse } from '@/lib/database/utils';
+import { MAX_BOOKMARK_NOTE_LENGTH, MAX_BOOKMARK_TAGS, MAX_TAG_LENGTH, normalizeTags } from '@/lib/chat/annotations';
+
+/**
+ * Save an answer to the Saved view
+ *
+ * POST /api/chat/messages/:id/bookmark
+ * Body: { tags?: string[], note?: string | null }
+ *
+ * Saving an answer that is already saved updates the tags and note that are
+ * given and keeps the others. Tags are lowercased, with spaces turned into
+ * dashes. A newly saved answer is also added to the review queue.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const tags = body.tags === undefined ? undefined : normalizeTags(body.tags);
+    if (tags === null) {
+      return NextResponse.json(
+        { error: `Tags must be a list of at most ${MAX_BOOKMARK_TAGS} tags of up to ${MAX_TAG_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (body.note !== undefined && body.note !== null && (
+      typeof body.note !== 'string' || body.note.length > MAX_BOOKMARK_NOTE_LENGTH
+    )) {
+      return NextResponse.json(
+        { error: `Note must be text of at most ${MAX_BOOKMARK_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { bookmark, created } = await BookmarkService.saveBookmark(user.id, id, {
+      tags,
+      note: typeof body.note === 'string' ? body.note.trim() : body.note,
+    });
+
+    // Only on the first save, so editing tags does not bring back a card the user deleted
+    const card = created ? await ReviewService.addMessageCard(user.id, id, 'bookmark') : null;
+
+    return NextResponse.json({
+      success: true,
+      bookmark: {
+        messageId: bookmark.messageId,
+        tags: safeJsonParse<string[]>(bookmark.tags, []),
+        note: bookmark.note,
+        createdAt: bookmark.createdAt,
+      },
+      reviewCardId: card?.id ?? null,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Message not found') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Only answers can be saved') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Save bookmark error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save message' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove an answer from the Saved view
+ *
+ * DELETE /api/chat/messages/:id/bookmark
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const removed = await BookmarkService.removeBookmark(user.id, id);
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Bookmark not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Remove bookmark error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove bookmark' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ChatService } from '@/lib/database/services/chatService';
+import { toMessageResponse } from '@/lib/chat/reply';
+
+/**
+ * Pick the preferred answer among regenerated alternatives
+ *
+ * POST /api/chat/messages/:id/prefer
+ *
+ * Marks the answer as preferred and shows it. The comparison counts as
+ * feedback: positive for this answer, negative for the alternatives that have
+ * not been rated with thumbs up/down, so it is included in the analytics
+ * satisfaction rate.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const message = await ChatService.getMessage(id);
+    const conversation = message ? await ChatService.getConversation(message.conversationId) : null;
+    if (!conversation || conversation.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const preferred = await ChatService.preferMessage(id);
+
+    return NextResponse.json({
+      success: true,
+      message: toMessageResponse(preferred),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Only answers can be compared'
+      || error.message === 'There are no other answers to compare'
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Prefer message error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save preferred answer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ChatService } from '@/lib/database/services/chatService';
+import { REACTION_EMOJIS, isReactionEmoji, type ReactionEmoji } from '@/lib/chat/annotations';
+
+type ReactionRequest =
+  | { error: NextResponse }
+  | { emoji: ReactionEmoji };
+
+// The message must be in one of the user's conversations and the emoji one of REACTION_EMOJIS
+async function checkReaction(userId: string, messageId: string, emoji: unknown): Promise<ReactionRequest> {
+  if (!isReactionEmoji(emoji)) {
+    return {
+      error: NextResponse.json(
+        { error: `Emoji must be one of: ${REACTION_EMOJIS.join(' ')}` },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const message = await ChatService.getUserMessage(userId, messageId);
+  if (!message) {
+    return {
+      error: NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { emoji };
+}
+
+/**
+ * React to a message
+ *
+ * POST /api/chat/messages/:id/reactions
+ * Body: { emoji: string }
+ *
+ * Reacting twice with the same emoji has no further effect. Returns the
+ * user's reactions to the message.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const checked = await checkReaction(user.id, id, body.emoji);
+    if ('error' in checked) return checked.error;
+
+    const reactions = await ChatService.setReaction(user.id, id, checked.emoji, true);
+
+    return NextResponse.json({
+      success: true,
+      reactions,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Add reaction error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add reaction' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove a reaction
+ *
+ * DELETE /api/chat/messages/:id/reactions?emoji=👍
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const checked = await checkReaction(user.id, id, searchParams.get('emoji'));
+    if ('error' in checked) return checked.error;
+
+    const reactions = await ChatService.setReaction(user.id, id, checked.emoji, false);
+
+    return NextResponse.json({
+      success: true,
+      reactions,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Remove reaction error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove reaction' },
+      { status: 500 }
+    );
+  }
+}
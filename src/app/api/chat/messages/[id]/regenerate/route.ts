@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ChatService } from '@/lib/database/services/chatService';
+import { MockInterviewService } from '@/lib/database/services/mockInterviewService';
+import { getLLMProvider } from '@/lib/ai/provider';
+import { buildChatCompletion, streamAssistantReply, toMessageResponse } from '@/lib/chat/reply';
+
+/**
+ * Generate another answer to the same message
+ *
+ * POST /api/chat/messages/:id/regenerate
+ * Body: { model?: string, stream?: boolean }
+ *
+ * `:id` is an assistant message on the conversation's active branch. The new
+ * answer is saved next to it as a sibling, with the model that produced it,
+ * and becomes the active branch; earlier answers stay available. With
+ * `stream: true` the reply is streamed like POST /api/chat/messages, and the
+ * `start` event carries the message being answered.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const parsed = await request.json().catch(() => null);
+    // Anything but a JSON object counts as an empty body
+    const body = parsed && typeof parsed === 'object' ? parsed : {};
+
+    const message = await ChatService.getMessage(id);
+    const chatData = message ? await ChatService.getConversationWithMessages(message.conversationId) : null;
+    const index = chatData ? chatData.messages.findIndex(msg => msg.id === id) : -1;
+    if (!chatData || chatData.conversation.userId !== user.id || index === -1) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const prompt = index > 0 ? chatData.messages[index - 1] : null;
+    if (chatData.messages[index].role !== 'assistant' || !prompt || prompt.role !== 'user') {
+      return NextResponse.json(
+        { error: 'Only answers to your messages can be regenerated' },
+        { status: 400 }
+      );
+    }
+
+    const interview = chatData.conversation.context === 'mock_interview'
+      ? await MockInterviewService.getInterviewByConversation(chatData.conversation.id)
+      : null;
+    if (interview && interview.status !== 'in_progress') {
+      return NextResponse.json(
+        { error: 'This mock interview has ended' },
+        { status: 409 }
+      );
+    }
+
+    const provider = getLLMProvider();
+    const completionRequest = await buildChatCompletion(
+      user.id,
+      chatData.conversation,
+      interview,
+      chatData.messages.slice(0, index),
+      typeof body.model === 'string' ? body.model : undefined
+    );
+
+    if (body.stream) {
+      return streamAssistantReply(request, provider, completionRequest, prompt);
+    }
+
+    const aiResponse = await provider.complete({
+      ...completionRequest,
+      signal: request.signal,
+    });
+
+    const aiMessage = await ChatService.addMessage({
+      conversationId: chatData.conversation.id,
+      parentMessageId: prompt.id,
+      role: 'assistant',
+      content: aiResponse.content,
+      tokens: aiResponse.tokens,
+      model: aiResponse.model,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: toMessageResponse(aiMessage),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Regenerate message error:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate message' },
+      { status: 500 }
+    );
+  }
+}
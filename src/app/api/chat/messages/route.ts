@@ -1,19 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/session';
 import { ChatService } from '@/lib/database/services/chatService';
+import { MockInterviewService } from '@/lib/database/services/mockInterviewService';
+import { ReviewService } from '@/lib/database/services/reviewService';
+import { getLLMProvider } from '@/lib/ai/provider';
+import { buildChatCompletion, streamAssistantReply, toMessageResponse } from '@/lib/chat/reply';
+import { FEEDBACK_REASONS, MAX_FEEDBACK_NOTE_LENGTH, isFeedbackReason, type FeedbackReason } from '@/lib/chat/feedback';
+
+export type { ChatStreamEvent, MessageResponse } from '@/lib/chat/reply';
 
 export interface MessageRequest {
   conversationId: string;
   content: string;
   attachments?: any[];
   model?: string;
+  stream?: boolean;
+  editMessageId?: string; // user message this one replaces, as a new branch
+  replyToMessageId?: string; // earlier message on the branch this one quotes
 }
 
 /**
  * Add a message to a conversation
  * 
  * POST /api/chat/messages
- * Body: { conversationId: string, content: string, attachments?: any[], model?: string }
+ * Body: { conversationId: string, content: string, attachments?: any[], model?: string, stream?: boolean, editMessageId?: string, replyToMessageId?: string }
+ * 
+ * With `editMessageId` the message is an edit of an earlier user message: it is
+ * added next to that message as a new branch, and the reply only sees the
+ * history before it. The new branch becomes the active one.
+ * 
+ * With `replyToMessageId` the message replies to an earlier message of the
+ * branch; the model sees the start of that message quoted above the reply. An
+ * edit keeps the original's reply-to unless another one is given.
+ * 
+ * Without streaming, the user message is removed again when the model request
+ * fails, so a retry does not add it twice.
+ * 
+ * With `stream: true` the reply is sent as a text/event-stream of ChatStreamEvent
+ * objects. The assistant message is saved once the stream finishes; if the client
+ * disconnects early, the partial answer is saved with `truncated` set.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -36,45 +61,94 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Mock interview conversations are answered by the interviewer persona while the interview runs
+    const interview = chatData.conversation.context === 'mock_interview'
+      ? await MockInterviewService.getInterviewByConversation(body.conversationId)
+      : null;
+    if (interview && interview.status !== 'in_progress') {
+      return NextResponse.json(
+        { error: 'This mock interview has ended' },
+        { status: 409 }
+      );
+    }
+    
+    // An edit branches off where the original message was; otherwise continue the active branch
+    let history = chatData.messages;
+    const activeMessageId = history.length > 0 ? history[history.length - 1].id : null;
+    let parentMessageId = activeMessageId;
+    let replyToMessageId = body.replyToMessageId ?? null;
+    if (body.editMessageId) {
+      const index = history.findIndex(message => message.id === body.editMessageId);
+      if (index === -1) {
+        return NextResponse.json(
+          { error: 'Message not found' },
+          { status: 404 }
+        );
+      }
+      if (history[index].role !== 'user') {
+        return NextResponse.json(
+          { error: 'Only your own messages can be edited' },
+          { status: 400 }
+        );
+      }
+      parentMessageId = history[index].parentMessageId;
+      replyToMessageId = body.replyToMessageId ?? history[index].replyToMessageId;
+      history = history.slice(0, index);
+    }
+    
+    if (replyToMessageId && !history.some(message => message.id === replyToMessageId)) {
+      return NextResponse.json(
+        { error: 'The message being replied to is not in this conversation' },
+        { status: 400 }
+      );
+    }
+    
     // Add user message
     const userMessage = await ChatService.addMessage({
       conversationId: body.conversationId,
+      parentMessageId,
+      replyToMessageId,
       role: 'user',
       content: body.content,
       attachments: body.attachments ? JSON.stringify(body.attachments) : null,
     });
     
-    // Generate AI response (simplified for demo)
-    const aiResponse = await generateAIResponse(body.content, chatData.conversation.context || 'general');
+    // Generate AI response from the conversation history
+    const provider = getLLMProvider();
+    const completionRequest = await buildChatCompletion(
+      user.id,
+      chatData.conversation,
+      interview,
+      [...history, userMessage],
+      body.model
+    );
+    
+    if (body.stream) {
+      return streamAssistantReply(request, provider, completionRequest, userMessage, activeMessageId);
+    }
+    
+    const aiResponse = await provider.complete({
+      ...completionRequest,
+      signal: request.signal,
+    }).catch(async (error) => {
+      // Don't leave an unanswered message on the branch for a retry to repeat
+      await ChatService.removeMessage(userMessage.id, activeMessageId);
+      throw error;
+    });
     
     // Add AI message
     const aiMessage = await ChatService.addMessage({
       conversationId: body.conversationId,
+      parentMessageId: userMessage.id,
       role: 'assistant',
       content: aiResponse.content,
       tokens: aiResponse.tokens,
-      model: body.model || 'tayyari-ai-v1',
+      model: aiResponse.model,
     });
     
     return NextResponse.json({
       success: true,
-      messages: [
-        {
-          id: userMessage.id,
-          role: userMessage.role,
-          content: userMessage.content,
-          attachments: userMessage.attachments ? JSON.parse(userMessage.attachments) : null,
-          createdAt: userMessage.createdAt,
-        },
-        {
-          id: aiMessage.id,
-          role: aiMessage.role,
-          content: aiMessage.content,
-          tokens: aiMessage.tokens,
-          model: aiMessage.model,
-          createdAt: aiMessage.createdAt,
-        },
-      ],
+      messages: [toMessageResponse(userMessage), toMessageResponse(aiMessage)],
     });
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
@@ -96,7 +170,11 @@ export async function POST(request: NextRequest) {
  * Update message feedback
  * 
  * PUT /api/chat/messages
- * Body: { messageId: string, feedback: 'positive' | 'negative', note?: string }
+ * Body: { messageId: string, feedback: 'positive' | 'negative', reasons?: FeedbackReason[], note?: string }
+ * 
+ * Only messages in the user's own conversations can be rated. Reasons are
+ * allowed with negative feedback only. A negative rating also puts the answer
+ * in the user's review queue.
  */
 export async function PUT(request: NextRequest) {
   try {
@@ -117,13 +195,43 @@ export async function PUT(request: NextRequest) {
       );
     }
     
-    // For security, we should verify the message belongs to the user's conversation
-    // For now, we'll trust the frontend to only send valid message IDs
+    const reasons = body.reasons ?? [];
+    if (!Array.isArray(reasons) || !reasons.every(isFeedbackReason)) {
+      return NextResponse.json(
+        { error: `Reasons must be a list of: ${FEEDBACK_REASONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (reasons.length > 0 && body.feedback !== 'negative') {
+      return NextResponse.json(
+        { error: 'Reasons can only be given with negative feedback' },
+        { status: 400 }
+      );
+    }
+    
+    if (body.note !== undefined && body.note !== null && (
+      typeof body.note !== 'string' || body.note.length > MAX_FEEDBACK_NOTE_LENGTH
+    )) {
+      return NextResponse.json(
+        { error: `Note must be text of at most ${MAX_FEEDBACK_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    
+    const message = await ChatService.getUserMessage(user.id, body.messageId);
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
     
     const success = await ChatService.updateMessageFeedback(
-      body.messageId,
+      message.id,
       body.feedback,
-      body.note
+      body.note?.trim() || undefined,
+      [...new Set<FeedbackReason>(reasons)]
     );
     
     if (!success) {
@@ -133,9 +241,14 @@ export async function PUT(request: NextRequest) {
       );
     }
     
+    const reviewCard = body.feedback === 'negative'
+      ? await ReviewService.addMessageCard(user.id, message.id, 'feedback')
+      : null;
+    
     return NextResponse.json({
       success: true,
       message: 'Feedback updated successfully',
+      reviewCardId: reviewCard?.id || null,
     });
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
@@ -152,57 +265,3 @@ export async function PUT(request: NextRequest) {
     );
   }
 }
-
-/**
- * Simple AI response generator
- * In production, this would call your actual AI service
- */
-async function generateAIResponse(userMessage: string, context: string): Promise<{
-  content: string;
-  tokens: number;
-}> {
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  const responses = {
-    dsa: [
-      "Great question! Let's break down this algorithm problem step by step. First, let's identify the pattern and then work through the optimal solution.",
-      "This is a classic problem that can be solved using dynamic programming. Let me walk you through the approach and explain the time complexity.",
-      "I can help you with this data structure question. The key insight here is to use the right data structure for efficient operations.",
-    ],
-    system: [
-      "Excellent system design question! Let's start with the high-level architecture and then dive into the specific components and their interactions.",
-      "For this system design problem, we need to consider scalability, reliability, and performance. Let me outline a comprehensive solution.",
-      "This is a common system design pattern. Let's discuss the trade-offs and design decisions involved in building this system.",
-    ],
-    behavioral: [
-      "That's a thoughtful behavioral question. Let me help you structure your response using the STAR method (Situation, Task, Action, Result).",
-      "This question is assessing your leadership and problem-solving skills. Here's how you can frame your experience effectively.",
-      "Great question about team dynamics. Let's work on crafting a compelling story that showcases your soft skills.",
-    ],
-    general: [
-      "I'm here to help with your interview preparation! Whether it's algorithms, system design, or behavioral questions, I can provide guidance tailored to your goals.",
-      "Thanks for your question! I can assist with coding problems, system architecture, or help you practice behavioral interview responses.",
-      "I'd be happy to help you prepare for your interviews. What specific area would you like to focus on today?",
-    ],
-  };
-  
-  const contextResponses = responses[context as keyof typeof responses] || responses.general;
-  const randomResponse = contextResponses[Math.floor(Math.random() * contextResponses.length)];
-  
-  // Add some personalization based on message content
-  let finalResponse = randomResponse;
-  
-  if (userMessage.toLowerCase().includes('algorithm') || userMessage.toLowerCase().includes('leetcode')) {
-    finalResponse += "\n\n**Algorithm Approach:**\n1. Understand the problem constraints\n2. Identify patterns and edge cases\n3. Code the solution step by step\n4. Analyze time and space complexity\n\nWould you like me to help you with a specific problem?";
-  } else if (userMessage.toLowerCase().includes('system') || userMessage.toLowerCase().includes('design')) {
-    finalResponse += "\n\n**System Design Framework:**\n1. **Requirements** - Functional and non-functional\n2. **High-level design** - Major components\n3. **Detailed design** - APIs, database schema\n4. **Scale and optimize** - Handle bottlenecks\n\nWhat system would you like to design together?";
-  } else if (userMessage.toLowerCase().includes('interview') || userMessage.toLowerCase().includes('behavioral')) {
-    finalResponse += "\n\n**Behavioral Interview Tips:**\n- Use specific examples from your experience\n- Quantify your impact with numbers\n- Show growth and learning from challenges\n- Practice your stories beforehand\n\nWhat type of behavioral question are you preparing for?";
-  }
-  
-  return {
-    content: finalResponse,
-    tokens: Math.floor(finalResponse.length / 4), // Rough token estimate
-  };
-}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ChatService } from '@/lib/database/services/chatService';
+import {
+  MAX_SEARCH_PAGE_SIZE,
+  SEARCH_CONTEXTS,
+  SEARCH_PAGE_SIZE,
+  SEARCH_ROLES,
+  isSearchRole,
+  parseSearchDate,
+  type ChatSearchFilters,
+} from '@/lib/chat/search';
+
+const CONTEXT_KEYS = Object.keys(SEARCH_CONTEXTS);
+
+/**
+ * Search the user's conversations
+ *
+ * GET /api/chat/search?q=binary+search&context=dsa&role=assistant&from=2025-01-01&to=2025-01-31&limit=20&offset=0
+ *
+ * Messages are ranked by relevance and come with a snippet in which matched
+ * terms are marked. Conversations whose title matches are returned alongside
+ * the first page. `from` and `to` accept dates or ISO timestamps; a date-only
+ * `to` includes that whole day.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'q is required' },
+        { status: 400 }
+      );
+    }
+
+    const filters: ChatSearchFilters = {};
+
+    const context = searchParams.get('context');
+    if (context) {
+      if (!CONTEXT_KEYS.includes(context)) {
+        return NextResponse.json(
+          { error: `context must be one of: ${CONTEXT_KEYS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      filters.context = context;
+    }
+
+    const role = searchParams.get('role');
+    if (role) {
+      if (!isSearchRole(role)) {
+        return NextResponse.json(
+          { error: `role must be one of: ${SEARCH_ROLES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      filters.role = role;
+    }
+
+    for (const bound of ['from', 'to'] as const) {
+      const value = searchParams.get(bound);
+      if (!value) continue;
+
+      const parsed = parseSearchDate(value, bound);
+      if (!parsed) {
+        return NextResponse.json(
+          { error: `${bound} must be a date (YYYY-MM-DD) or ISO timestamp` },
+          { status: 400 }
+        );
+      }
+      filters[bound] = parsed;
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || SEARCH_PAGE_SIZE, 1), MAX_SEARCH_PAGE_SIZE);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    const page = await ChatService.searchMessages(user.id, query, filters, limit, offset);
+
+    return NextResponse.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Search messages error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search messages' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,56 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSessionUser } from '@/lib/auth/session';
+import { requireAuth } from '@/lib/auth/session';
+import { DataExportService } from '@/lib/database/services/dataExportService';
+import { EXPORT_FORMATS } from '@/lib/export/manifest';
 
+/**
+ * Export all of the user's data
+ * 
+ * POST /api/data/export
+ * Body: { format?: 'json' | 'csv' | 'archive' } (default 'json'; also accepted as ?format=)
+ * 
+ * Streams every user-owned row. Each format carries the export schema version
+ * and a manifest with per-table row counts and sha256 checksums; see
+ * docs/DATABASE.md for the layout.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const user = await getSessionUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const user = await requireAuth();
+    const body = await request.json().catch(() => ({}));
+    const format = body?.format ?? request.nextUrl.searchParams.get('format') ?? 'json';
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
     }
 
-    // In a real app, you'd fetch all user data from database
-    // For now, return sample data
-    const exportData = {
-      user: {
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        experienceLevel: user.experienceLevel,
-        onboardingCompleted: user.onboardingCompleted,
-      },
-      onboarding: {
-        interviewTypes: ['dsa', 'system'],
-        targetDate: '2025-06-01',
-        hoursPerWeek: 10,
-        targetCompanies: ['Google', 'Meta', 'Microsoft'],
-        targetRoles: ['Software Engineer', 'Senior SWE'],
-        difficultyPreference: 'medium',
-        learningStyle: 'hands-on',
-      },
-      progress: {
-        totalStudyHours: 45.5,
-        currentStreak: 12,
-        completedQuestions: 156,
-        averageScore: 78.5,
-      },
-      chatHistory: {
-        totalConversations: 8,
-        totalMessages: 45,
-        lastActivity: new Date().toISOString(),
-      },
-      exportDate: new Date().toISOString(),
-      exportVersion: '1.0',
-    };
+    const { stream, filename, contentType } = DataExportService.createExport(user.id, { format });
 
-    // Return as downloadable JSON
-    return new NextResponse(JSON.stringify(exportData, null, 2), {
+    return new NextResponse(stream, {
       status: 200,
       headers: {
-        'Content-Type': 'application/json',
-        'Content-Disposition': `attachment; filename="tayyari-data-export-${new Date().toISOString().split('T')[0]}.json"`,
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
       },
     });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     console.error('Error exporting data:', error);
     return NextResponse.json(
       { error: 'Failed to export data' },
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { DataImportService } from '@/lib/database/services/dataImportService';
+import { IMPORT_MODES, MAX_IMPORT_BYTES, type ImportMode } from '@/lib/export/import';
+
+/**
+ * Import a Tayyari export into the current account
+ * 
+ * POST /api/data/import
+ * Body: multipart form with `file`, `mode` ('merge' | 'replace') and `dryRun` ('true'),
+ * or the raw export file with ?mode=&dryRun= in the query string
+ * 
+ * Accepts the JSON and archive export formats. The schema version, row counts
+ * and checksums are checked before anything is written. A dry run returns the
+ * same per-table report without changing the account.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    if (contentLength > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: 'Export file is too large' },
+        { status: 413 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    let bytes: Buffer;
+    let mode = params.get('mode');
+    let dryRun = params.get('dryRun');
+
+    if ((request.headers.get('content-type') || '').startsWith('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { error: 'file is required' },
+          { status: 400 }
+        );
+      }
+      bytes = Buffer.from(await file.arrayBuffer());
+      mode = (form.get('mode') as string | null) ?? mode;
+      dryRun = (form.get('dryRun') as string | null) ?? dryRun;
+    } else {
+      bytes = Buffer.from(await request.arrayBuffer());
+    }
+
+    mode = mode ?? 'merge';
+    if (!IMPORT_MODES.includes(mode as ImportMode)) {
+      return NextResponse.json(
+        { error: `mode must be one of: ${IMPORT_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (bytes.length === 0) {
+      return NextResponse.json(
+        { error: 'Export file is empty' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = DataImportService.parseExport(bytes);
+    const report = await DataImportService.importData(user.id, parsed, {
+      mode: mode as ImportMode,
+      dryRun: dryRun === 'true',
+    });
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message.startsWith('Invalid export')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error importing data:', error);
+    return NextResponse.json(
+      { error: 'Failed to import data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { runCode } from '@/lib/execution/sandbox';
+import {
+  EXECUTION_LANGUAGES,
+  MAX_EXECUTION_CODE_LENGTH,
+  MAX_EXECUTION_STDIN_LENGTH,
+  isExecutionLanguage,
+} from '@/lib/execution/languages';
+
+/**
+ * Run code in the local sandbox
+ *
+ * POST /api/execute
+ * Body: { language: 'javascript' | 'typescript' | 'python', code: string, stdin?: string }
+ *
+ * Returns stdout, stderr, exit code and timing. The process has no network access
+ * and is killed when it exceeds its time, memory or output limits.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth();
+    const body = await request.json();
+
+    if (!isExecutionLanguage(body.language)) {
+      return NextResponse.json(
+        { error: `language must be one of ${EXECUTION_LANGUAGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.code !== 'string' || !body.code.trim()) {
+      return NextResponse.json(
+        { error: 'code is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.code.length > MAX_EXECUTION_CODE_LENGTH) {
+      return NextResponse.json(
+        { error: `code must be at most ${MAX_EXECUTION_CODE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (body.stdin !== undefined && (typeof body.stdin !== 'string' || body.stdin.length > MAX_EXECUTION_STDIN_LENGTH)) {
+      return NextResponse.json(
+        { error: `stdin must be a string of at most ${MAX_EXECUTION_STDIN_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const result = await runCode({
+      language: body.language,
+      code: body.code,
+      stdin: body.stdin,
+    });
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Execution capacity reached') {
+      return NextResponse.json(
+        { error: 'Too many programs are running. Please try again in a moment.' },
+        { status: 429, headers: { 'Retry-After': '2' } }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Sandbox unavailable') {
+      console.error('❌ Code execution disabled: the sandbox namespaces are not available on this host');
+      return NextResponse.json(
+        { error: 'Code execution is not available on this server' },
+        { status: 503 }
+      );
+    }
+
+    console.error('Execute code error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { MockInterviewService } from '@/lib/database/services/mockInterviewService';
+import { toMockInterviewResponse } from '@/lib/interview/format';
+
+/**
+ * Move a mock interview to its next phase
+ * 
+ * POST /api/mock-interviews/:id/advance
+ * 
+ * Returns the updated interview and the interviewer's transition message, if any.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const interview = await MockInterviewService.getInterview(id);
+    if (!interview || interview.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Mock interview not found' },
+        { status: 404 }
+      );
+    }
+
+    if (interview.status !== 'in_progress') {
+      return NextResponse.json(
+        { error: 'This mock interview has ended' },
+        { status: 409 }
+      );
+    }
+
+    const { interview: updated, message } = await MockInterviewService.advancePhase(interview);
+    const question = await MockInterviewService.getInterviewQuestion(updated);
+
+    return NextResponse.json({
+      success: true,
+      interview: toMockInterviewResponse(updated, question),
+      message: message && {
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        createdAt: message.createdAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Interview is already in its last phase') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Advance mock interview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to advance mock interview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ChatService } from '@/lib/database/services/chatService';
+import { MockInterviewService } from '@/lib/database/services/mockInterviewService';
+import { getLLMProvider } from '@/lib/ai/provider';
+import { buildScorecardPrompt, formatTranscript } from '@/lib/ai/prompts';
+import { parseScorecard } from '@/lib/interview/mock';
+import { toMockInterviewResponse } from '@/lib/interview/format';
+
+/**
+ * End a mock interview and grade it
+ * 
+ * POST /api/mock-interviews/:id/complete
+ * 
+ * The transcript is graded against the rubric by the model. The scorecard is saved
+ * on the interview and the interview is logged as a study session. If the grade
+ * cannot be parsed the interview stays in progress so the request can be retried.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const interview = await MockInterviewService.getInterview(id);
+    if (!interview || interview.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Mock interview not found' },
+        { status: 404 }
+      );
+    }
+
+    if (interview.status !== 'in_progress') {
+      return NextResponse.json(
+        { error: 'This mock interview has ended' },
+        { status: 409 }
+      );
+    }
+
+    const chatData = interview.conversationId
+      ? await ChatService.getConversationWithMessages(interview.conversationId)
+      : null;
+    if (!chatData || !chatData.messages.some(msg => msg.role === 'user')) {
+      return NextResponse.json(
+        { error: 'Answer at least one question before ending the interview' },
+        { status: 400 }
+      );
+    }
+
+    const question = await MockInterviewService.getInterviewQuestion(interview);
+    const reply = await getLLMProvider().complete({
+      system: buildScorecardPrompt(interview, question),
+      messages: [{ role: 'user', content: formatTranscript(chatData.messages) }],
+      signal: request.signal,
+    });
+
+    const scorecard = parseScorecard(reply.content);
+    if (!scorecard) {
+      console.error('❌ Unparseable mock interview scorecard:', reply.content.slice(0, 500));
+      return NextResponse.json(
+        { error: 'Failed to grade the interview. Please try again.' },
+        { status: 502 }
+      );
+    }
+
+    const completed = await MockInterviewService.completeInterview(interview, scorecard);
+
+    return NextResponse.json({
+      success: true,
+      interview: toMockInterviewResponse(completed, question),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Mock interview has ended') {
+      return NextResponse.json(
+        { error: 'This mock interview has ended' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Complete mock interview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to complete mock interview' },
+      { status: 500 }
+    );
+  }
+}
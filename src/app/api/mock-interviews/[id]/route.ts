@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { MockInterviewService } from '@/lib/database/services/mockInterviewService';
+import { toMockInterviewResponse } from '@/lib/interview/format';
+
+/**
+ * Get a mock interview with its phases and, once finished, its scorecard
+ * 
+ * GET /api/mock-interviews/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const interview = await MockInterviewService.getInterview(id);
+    if (!interview || interview.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Mock interview not found' },
+        { status: 404 }
+      );
+    }
+
+    const question = await MockInterviewService.getInterviewQuestion(interview);
+
+    return NextResponse.json({
+      success: true,
+      interview: toMockInterviewResponse(interview, question),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get mock interview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get mock interview' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Abandon a mock interview without scoring it
+ * 
+ * DELETE /api/mock-interviews/:id
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const interview = await MockInterviewService.getInterview(id);
+    if (!interview || interview.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Mock interview not found' },
+        { status: 404 }
+      );
+    }
+
+    if (interview.status !== 'in_progress') {
+      return NextResponse.json(
+        { error: 'This mock interview has ended' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await MockInterviewService.abandonInterview(interview);
+
+    return NextResponse.json({
+      success: true,
+      interview: toMockInterviewResponse(updated),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Abandon mock interview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to abandon mock interview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { MockInterviewService } from '@/lib/database/services/mockInterviewService';
+import { UserService } from '@/lib/database/services/userService';
+import { interviewTypes, type InterviewTypeKey } from '@/data/onboarding';
+import { toMockInterviewResponse } from '@/lib/interview/format';
+
+const INTERVIEW_TYPE_KEYS = interviewTypes.map(type => type.key);
+
+/**
+ * List the user's mock interviews
+ * 
+ * GET /api/mock-interviews?limit=20
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const interviews = await MockInterviewService.getUserInterviews(user.id, limit);
+    const responses = await Promise.all(
+      interviews.map(async interview =>
+        toMockInterviewResponse(interview, await MockInterviewService.getInterviewQuestion(interview))
+      )
+    );
+
+    return NextResponse.json({
+      success: true,
+      interviews: responses,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get mock interviews error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get mock interviews' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start a mock interview
+ * 
+ * POST /api/mock-interviews
+ * Body: { type: 'dsa' | 'system' | 'behavioral' | 'full' }
+ * 
+ * Picks a problem from the question bank, opens a conversation for the interview
+ * and posts the interviewer's greeting to it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    if (!INTERVIEW_TYPE_KEYS.includes(body.type)) {
+      return NextResponse.json(
+        { error: `type must be one of ${INTERVIEW_TYPE_KEYS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const profile = await UserService.getUserById(user.id);
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const { interview, question } = await MockInterviewService.startInterview(profile, body.type as InterviewTypeKey);
+
+    return NextResponse.json({
+      success: true,
+      interview: toMockInterviewResponse(interview, question),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Start mock interview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start mock interview' },
+      { status: 500 }
+    );
+  }
+}
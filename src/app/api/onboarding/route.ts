@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/session';
 import { UserService } from '@/lib/database/services/userService';
+import { RoadmapService } from '@/lib/database/services/roadmapService';
 import type { InterviewTypeKey } from '@/data/onboarding';
+import { generateRoadmap } from '@/lib/roadmap/generator';
 
 export interface OnboardingData {
   // Step 1: Basic info
@@ -76,10 +78,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const roadmap = generateRoadmap({
+      interviewType: body.interviewType,
+      hoursPerWeek: body.hoursPerWeek,
+      targetDate: body.targetDate,
+      experienceLevel: body.experienceLevel,
+      weakAreas: computedData.weakAreas,
+      strongAreas: computedData.strongAreas,
+      includeMocks: body.preferences?.mocks !== 'No',
+    });
+    const saved = await RoadmapService.createRoadmap(user.id, roadmap);
+
     return NextResponse.json({
       success: true,
       message: 'Onboarding completed successfully',
-      roadmap: generateRoadmap(body.interviewType, body.hoursPerWeek),
+      roadmap,
+      roadmapId: saved.roadmap.id,
     });
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
@@ -227,49 +241,6 @@ function computeOnboardingData(data: OnboardingData) {
   };
 }
 
-/**
- * Generate a personalized roadmap based on interview type and time commitment
- */
-function generateRoadmap(interviewType: InterviewTypeKey, hoursPerWeek: number) {
-  const weeksToTarget = 8; // Default 8-week plan
-  const totalHours = hoursPerWeek * weeksToTarget;
-  
-  const roadmaps = {
-    dsa: [
-      { title: 'Arrays & String Manipulation', timeAllocation: '25%', description: 'Master basic data structures' },
-      { title: 'Trees & Graph Traversal', timeAllocation: '30%', description: 'Learn DFS, BFS, and tree algorithms' },
-      { title: 'Dynamic Programming', timeAllocation: '25%', description: 'Solve optimization problems' },
-      { title: 'Advanced Topics & Mock', timeAllocation: '20%', description: 'System-specific questions and practice' },
-    ],
-    system: [
-      { title: 'System Design Fundamentals', timeAllocation: '30%', description: 'Scalability, reliability, consistency' },
-      { title: 'Database & Storage', timeAllocation: '25%', description: 'SQL, NoSQL, caching strategies' },
-      { title: 'Distributed Systems', timeAllocation: '25%', description: 'Load balancing, microservices' },
-      { title: 'Design Practice', timeAllocation: '20%', description: 'End-to-end system designs' },
-    ],
-    behavioral: [
-      { title: 'STAR Method & Stories', timeAllocation: '35%', description: 'Structure compelling experiences' },
-      { title: 'Leadership & Impact', timeAllocation: '30%', description: 'Showcase influence and growth' },
-      { title: 'Culture & Values Fit', timeAllocation: '20%', description: 'Company-specific preparation' },
-      { title: 'Mock Interviews', timeAllocation: '15%', description: 'Practice with feedback' },
-    ],
-    full: [
-      { title: 'DSA Foundation', timeAllocation: '35%', description: 'Core algorithms and data structures' },
-      { title: 'System Design Basics', timeAllocation: '30%', description: 'High-level architecture skills' },
-      { title: 'Behavioral Preparation', timeAllocation: '20%', description: 'Leadership and experience stories' },
-      { title: 'Integrated Practice', timeAllocation: '15%', description: 'Full interview simulations' },
-    ],
-  };
-
-  return {
-    type: interviewType,
-    totalWeeks: weeksToTarget,
-    hoursPerWeek,
-    totalHours,
-    phases: roadmaps[interviewType] || roadmaps.dsa,
-  };
-}
-
 /**
  * Safely parse JSON with fallback
  */
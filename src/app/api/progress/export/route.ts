@@ -1,74 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSessionUser } from '@/lib/auth/session';
+import { requireAuth } from '@/lib/auth/session';
+import { DataExportService } from '@/lib/database/services/dataExportService';
+import { EXPORT_FORMATS, PROGRESS_EXPORT_TABLES } from '@/lib/export/manifest';
 
+/**
+ * Export the user's progress history
+ * 
+ * POST /api/progress/export
+ * Body: { format?: 'json' | 'csv' | 'archive' } (default 'json'; also accepted as ?format=)
+ * 
+ * Same layout as /api/data/export, limited to category progress, study
+ * sessions and question attempts.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const user = await getSessionUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const user = await requireAuth();
+    const body = await request.json().catch(() => ({}));
+    const format = body?.format ?? request.nextUrl.searchParams.get('format') ?? 'json';
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
     }
 
-    // In a real app, you'd fetch actual progress data from database
-    // For now, return sample data
-    const exportData = {
-      user: {
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        experienceLevel: user.experienceLevel,
-      },
-      progress: {
-        totalStudyHours: 45.5,
-        currentStreak: 12,
-        completedQuestions: 156,
-        averageScore: 78.5,
-        categories: [
-          {
-            category: 'dsa',
-            completedQuestions: 89,
-            accuracy: 82,
-            lastPracticed: new Date().toISOString(),
-          },
-          {
-            category: 'system',
-            completedQuestions: 45,
-            accuracy: 75,
-            lastPracticed: new Date().toISOString(),
-          },
-          {
-            category: 'behavioral',
-            completedQuestions: 22,
-            accuracy: 90,
-            lastPracticed: new Date().toISOString(),
-          },
-        ],
-        weeklyProgress: [
-          {
-            week: '2025-01-01',
-            sessions: 5,
-            hours: 8.5,
-            questions: 23,
-          },
-          {
-            week: '2025-01-08',
-            sessions: 6,
-            hours: 10.2,
-            questions: 31,
-          },
-        ],
-      },
-      exportDate: new Date().toISOString(),
-    };
+    const { stream, filename, contentType } = DataExportService.createExport(user.id, {
+      format,
+      tables: PROGRESS_EXPORT_TABLES,
+      filenamePrefix: 'tayyari-progress',
+    });
 
-    // Return as downloadable JSON
-    return new NextResponse(JSON.stringify(exportData, null, 2), {
+    return new NextResponse(stream, {
       status: 200,
       headers: {
-        'Content-Type': 'application/json',
-        'Content-Disposition': `attachment; filename="tayyari-progress-${new Date().toISOString().split('T')[0]}.json"`,
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
       },
     });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     console.error('Error exporting progress:', error);
     return NextResponse.json(
       { error: 'Failed to export progress' },
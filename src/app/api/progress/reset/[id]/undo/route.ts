@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ProgressResetService } from '@/lib/database/services/progressResetService';
+
+/**
+ * Undo a progress reset
+ * 
+ * POST /api/progress/reset/:id/undo
+ * 
+ * Restores the deleted rows and recomputes progress and streaks. Fails with 409
+ * once the reset has been undone or its undo window has closed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const reset = await ProgressResetService.getReset(id);
+    if (!reset || reset.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Reset not found' },
+        { status: 404 }
+      );
+    }
+
+    const counts = await ProgressResetService.undoReset(reset);
+
+    return NextResponse.json({
+      success: true,
+      counts,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Reset has already been undone'
+      || error.message === 'Undo window has expired'
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Undo progress reset error:', error);
+    return NextResponse.json(
+      { error: 'Failed to undo reset' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,91 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSessionUser } from '@/lib/auth/session';
+import { requireAuth } from '@/lib/auth/session';
+import { ProgressResetService } from '@/lib/database/services/progressResetService';
+import { toProgressResetResponse } from '@/lib/progress/format';
+import { RESET_CATEGORIES, RESET_SCOPES } from '@/lib/progress/reset';
 
+const CATEGORY_KEYS = Object.keys(RESET_CATEGORIES);
+
+/**
+ * List resets that can still be undone
+ * 
+ * GET /api/progress/reset
+ */
+export async function GET() {
+  try {
+    const user = await requireAuth();
+    const resets = await ProgressResetService.getUndoableResets(user.id);
+
+    return NextResponse.json({
+      success: true,
+      resets: resets.map(toProgressResetResponse),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get progress resets error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get progress resets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Reset progress
+ * 
+ * POST /api/progress/reset
+ * Body: { scope: 'all' | 'category' | 'sessions' | 'chat', category?: 'dsa' | 'system' | 'behavioral' }
+ * 
+ * Deletes the data in scope and returns how many rows were deleted from each
+ * table. A snapshot is kept so the reset can be undone with
+ * POST /api/progress/reset/:id/undo until `expiresAt`.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const user = await getSessionUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const user = await requireAuth();
+    const parsed = await request.json().catch(() => null);
+    // Anything but a JSON object counts as an empty body
+    const body = parsed && typeof parsed === 'object' ? parsed : {};
+
+    if (!RESET_SCOPES.includes(body.scope)) {
+      return NextResponse.json(
+        { error: `scope must be one of: ${RESET_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
     }
 
-    // In a real app, you'd reset progress data in database
-    // For now, just return success
-    console.log('Resetting progress for user:', user.email);
+    if (body.scope === 'category' && !CATEGORY_KEYS.includes(body.category)) {
+      return NextResponse.json(
+        { error: `category must be one of: ${CATEGORY_KEYS.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    return NextResponse.json({ 
-      message: 'Progress data has been reset successfully',
-      resetDate: new Date().toISOString(),
+    const { reset, counts } = await ProgressResetService.resetProgress(user.id, {
+      scope: body.scope,
+      category: body.scope === 'category' ? body.category : null,
+    });
+
+    return NextResponse.json({
+      success: true,
+      reset: toProgressResetResponse(reset),
+      counts,
     });
   } catch (error) {
-    console.error('Error resetting progress:', error);
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Reset progress error:', error);
     return NextResponse.json(
       { error: 'Failed to reset progress' },
       { status: 500 }
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { StreakService } from '@/lib/database/services/streakService';
+import { STREAK_GOAL_OPTIONS, isValidTimeZone } from '@/lib/study/streaks';
+
+/**
+ * Get the user's study streak
+ * 
+ * GET /api/progress/streak
+ * 
+ * Recomputed from completed study sessions on every call, so a missed day shows
+ * up (or spends a freeze) without waiting for the next session.
+ */
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const streak = await StreakService.refreshStreak(user.id);
+    if (!streak) {
+      return NextResponse.json(
+        { error: 'Failed to get streak' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      streak,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get streak error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get streak' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update streak settings
+ * 
+ * PUT /api/progress/streak
+ * Body: { timezone?: string (IANA name), goalMinutes?: number }
+ * 
+ * Days are counted in `timezone`; a day counts once `goalMinutes` of study are
+ * logged. The streak is recomputed from history under the new settings.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    if (body.timezone === undefined && body.goalMinutes === undefined) {
+      return NextResponse.json(
+        { error: 'Provide timezone or goalMinutes' },
+        { status: 400 }
+      );
+    }
+
+    if (body.timezone !== undefined && (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone))) {
+      return NextResponse.json(
+        { error: 'timezone must be an IANA timezone name, e.g. Asia/Kolkata' },
+        { status: 400 }
+      );
+    }
+
+    if (body.goalMinutes !== undefined && !STREAK_GOAL_OPTIONS.includes(body.goalMinutes)) {
+      return NextResponse.json(
+        { error: `goalMinutes must be one of: ${STREAK_GOAL_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const streak = await StreakService.updateStreakSettings(user.id, {
+      timezone: body.timezone,
+      goalMinutes: body.goalMinutes,
+    });
+
+    return NextResponse.json({
+      success: true,
+      streak,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Update streak settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update streak settings' },
+      { status: 500 }
+    );
+  }
+}
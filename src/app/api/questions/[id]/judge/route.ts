@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { QuestionService } from '@/lib/database/services/questionService';
+import { ProgressService } from '@/lib/database/services/progressService';
+import { judgeSubmission } from '@/lib/execution/judge';
+import {
+  EXECUTION_LANGUAGES,
+  MAX_EXECUTION_CODE_LENGTH,
+  isExecutionLanguage,
+} from '@/lib/execution/languages';
+
+const MAX_TIME_SPENT = 24 * 60 * 60; // one day, in seconds
+
+/**
+ * Judge code against a question's test cases
+ * 
+ * POST /api/questions/:id/judge
+ * Body: { language: 'javascript' | 'typescript' | 'python', code: string, mode?: 'run' | 'submit', timeSpent?: number (seconds) }
+ * 
+ * `run` checks the visible test cases only and records nothing. `submit` (the default)
+ * runs every test case, records the attempt and adds a study session scored by the pass rate.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+    const mode = body.mode === 'run' ? 'run' : 'submit';
+
+    if (!isExecutionLanguage(body.language)) {
+      return NextResponse.json(
+        { error: `language must be one of ${EXECUTION_LANGUAGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.code !== 'string' || !body.code.trim() || body.code.length > MAX_EXECUTION_CODE_LENGTH) {
+      return NextResponse.json(
+        { error: `code is required and must be at most ${MAX_EXECUTION_CODE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const timeSpent = body.timeSpent ?? 0;
+    if (typeof timeSpent !== 'number' || !Number.isFinite(timeSpent) || timeSpent < 0 || timeSpent > MAX_TIME_SPENT) {
+      return NextResponse.json(
+        { error: 'timeSpent must be a number of seconds between 0 and 86400' },
+        { status: 400 }
+      );
+    }
+
+    const question = await QuestionService.getQuestionById(id);
+    if (!question || !question.isActive) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    const testCases = await QuestionService.getTestCases(id, { includeHidden: mode === 'submit' });
+    if (testCases.length === 0) {
+      return NextResponse.json(
+        { error: 'This question has no test cases' },
+        { status: 422 }
+      );
+    }
+
+    const result = await judgeSubmission(body.language, body.code, testCases);
+
+    if (mode === 'run') {
+      return NextResponse.json({ success: true, mode, result });
+    }
+
+    const { attempt, progress, studySession } = await ProgressService.recordSubmission(
+      {
+        userId: user.id,
+        questionId: id,
+        verdict: result.verdict,
+        timeSpent,
+        language: body.language,
+        code: body.code,
+      },
+      { passed: result.passed, total: result.total, score: result.score }
+    );
+
+    return NextResponse.json({
+      success: true,
+      mode,
+      result,
+      attemptId: attempt.id,
+      studySessionId: studySession.id,
+      progress: progress && {
+        category: progress.category,
+        subcategory: progress.subcategory,
+        completedQuestions: progress.completedQuestions,
+        correctAnswers: progress.correctAnswers,
+        streak: progress.currentStreak,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Execution capacity reached') {
+      return NextResponse.json(
+        { error: 'Too many programs are running. Please try again in a moment.' },
+        { status: 429, headers: { 'Retry-After': '2' } }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Sandbox unavailable') {
+      console.error('❌ Code execution disabled: the sandbox namespaces are not available on this host');
+      return NextResponse.json(
+        { error: 'Code execution is not available on this server' },
+        { status: 503 }
+      );
+    }
+
+    console.error('Judge submission error:', error);
+    return NextResponse.json(
+      { error: 'Failed to judge submission' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { QuestionService } from '@/lib/database/services/questionService';
+import { toQuestionDetail } from '@/lib/questions/format';
+
+/**
+ * Get a single question
+ * 
+ * GET /api/questions/:id?includeSolutions=true
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth();
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const question = await QuestionService.getQuestionById(id);
+    if (!question || !question.isActive) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    const testCases = await QuestionService.getTestCases(id, { includeHidden: true });
+
+    return NextResponse.json({
+      success: true,
+      question: toQuestionDetail(question, searchParams.get('includeSolutions') === 'true', testCases),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get question error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get question' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { QuestionService, type QuestionSort } from '@/lib/database/services/questionService';
+import { QUESTION_CATEGORIES, QUESTION_DIFFICULTIES, type QuestionCategory, type QuestionDifficulty } from '@/lib/questions/pack';
+import { toQuestionSummary } from '@/lib/questions/format';
+
+const SORTS: QuestionSort[] = ['title', 'difficulty', 'frequency', 'newest'];
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Browse the question bank
+ * 
+ * GET /api/questions?category=dsa&difficulty=medium&company=Google&tag=graphs
+ *                   &subcategory=trees&q=path&sort=frequency&page=1&pageSize=20&facets=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+    const { searchParams } = new URL(request.url);
+
+    const category = searchParams.get('category') || undefined;
+    if (category && !QUESTION_CATEGORIES.includes(category as QuestionCategory)) {
+      return NextResponse.json(
+        { error: `category must be one of ${QUESTION_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const difficulty = searchParams.get('difficulty') || undefined;
+    if (difficulty && !QUESTION_DIFFICULTIES.includes(difficulty as QuestionDifficulty)) {
+      return NextResponse.json(
+        { error: `difficulty must be one of ${QUESTION_DIFFICULTIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const sort = searchParams.get('sort') || undefined;
+    if (sort && !SORTS.includes(sort as QuestionSort)) {
+      return NextResponse.json(
+        { error: `sort must be one of ${SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(searchParams.get('pageSize') || '20', 10) || 20, 1), MAX_PAGE_SIZE);
+
+    const { questions, total } = await QuestionService.listQuestions({
+      category,
+      difficulty,
+      subcategory: searchParams.get('subcategory') || undefined,
+      company: searchParams.get('company') || undefined,
+      tag: searchParams.get('tag') || undefined,
+      search: searchParams.get('q')?.trim() || undefined,
+      sort: sort as QuestionSort | undefined,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+
+    const facets = searchParams.get('facets') === 'true'
+      ? await QuestionService.getFacets(category)
+      : undefined;
+
+    return NextResponse.json({
+      success: true,
+      questions: questions.map(question => toQuestionSummary(question)),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+      facets,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get questions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get questions' },
+      { status: 500 }
+    );
+  }
+}
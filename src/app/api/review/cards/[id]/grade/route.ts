@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ReviewService } from '@/lib/database/services/reviewService';
+import { toReviewCardResponse } from '@/lib/review/format';
+import { REVIEW_GRADES } from '@/lib/review/scheduler';
+
+const MAX_DURATION = 60 * 60; // one hour, in seconds
+
+/**
+ * Grade a review
+ * 
+ * POST /api/review/cards/:id/grade
+ * Body: { grade: 'again' | 'hard' | 'good' | 'easy', duration?: number (seconds) }
+ * 
+ * Schedules the card's next review and logs the result in a `review` study
+ * session; reviews less than half an hour apart share one session.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!REVIEW_GRADES.includes(body.grade)) {
+      return NextResponse.json(
+        { error: `grade must be one of: ${REVIEW_GRADES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.duration !== undefined && (typeof body.duration !== 'number' || !Number.isFinite(body.duration) || body.duration < 0 || body.duration > MAX_DURATION)) {
+      return NextResponse.json(
+        { error: `duration must be a number of seconds between 0 and ${MAX_DURATION}` },
+        { status: 400 }
+      );
+    }
+
+    const card = await ReviewService.getCard(id);
+    if (!card || card.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Review card not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await ReviewService.gradeCard(card, {
+      grade: body.grade,
+      duration: body.duration,
+    });
+
+    return NextResponse.json({
+      success: true,
+      card: toReviewCardResponse(result.card),
+      studySessionId: result.studySession.id,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Grade review card error:', error);
+    return NextResponse.json(
+      { error: 'Failed to grade review card' },
+      { status: 500 }
+    );
+  }
+}
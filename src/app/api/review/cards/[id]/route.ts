@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ReviewService } from '@/lib/database/services/reviewService';
+
+/**
+ * Remove a card from the review queue
+ * 
+ * DELETE /api/review/cards/:id
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const card = await ReviewService.getCard(id);
+    if (!card || card.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Review card not found' },
+        { status: 404 }
+      );
+    }
+
+    const success = await ReviewService.deleteCard(id);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to delete review card' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Review card deleted',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Delete review card error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete review card' },
+      { status: 500 }
+    );
+  }
+}
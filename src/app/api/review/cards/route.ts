@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ReviewService } from '@/lib/database/services/reviewService';
+import { toReviewCardResponse } from '@/lib/review/format';
+
+/**
+ * Save an assistant answer for review
+ * 
+ * POST /api/review/cards
+ * Body: { messageId: string }
+ * 
+ * The card pairs the answer with the question that prompted it and is due
+ * right away. Saving the same message twice returns the existing card.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    if (!body.messageId || typeof body.messageId !== 'string') {
+      return NextResponse.json(
+        { error: 'Message ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const card = await ReviewService.addMessageCard(user.id, body.messageId, 'bookmark');
+    if (!card) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      card: toReviewCardResponse(card),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Create review card error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create review card' },
+      { status: 500 }
+    );
+  }
+}
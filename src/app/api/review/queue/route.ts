@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { ReviewService } from '@/lib/database/services/reviewService';
+import { toReviewCardResponse } from '@/lib/review/format';
+
+/**
+ * Get today's review queue
+ * 
+ * GET /api/review/queue?limit=50
+ * 
+ * Returns the cards due by the end of the day (UTC), most overdue first, with
+ * counts of cards due, reviewed today and in total.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    const queue = await ReviewService.getQueue(user.id, limit);
+
+    return NextResponse.json({
+      success: true,
+      cards: queue.cards.map(toReviewCardResponse),
+      counts: queue.counts,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get review queue error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get review queue' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { RoadmapService } from '@/lib/database/services/roadmapService';
+import { toRoadmapResponse } from '@/lib/roadmap/format';
+
+/**
+ * Get a roadmap, including archived ones
+ * 
+ * GET /api/roadmap/:id
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const details = await RoadmapService.getRoadmap(id);
+    if (!details || details.roadmap.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Roadmap not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      roadmap: toRoadmapResponse(details.roadmap, details.phases, details.tasks),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get roadmap error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get roadmap' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a roadmap
+ * 
+ * DELETE /api/roadmap/:id
+ * 
+ * Study sessions logged by its completed tasks stay in the user's history.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const details = await RoadmapService.getRoadmap(id);
+    if (!details || details.roadmap.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Roadmap not found' },
+        { status: 404 }
+      );
+    }
+
+    const success = await RoadmapService.deleteRoadmap(id);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to delete roadmap' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Roadmap deleted successfully',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Delete roadmap error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete roadmap' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { RoadmapService } from '@/lib/database/services/roadmapService';
+import { RoadmapRevisionService } from '@/lib/database/services/roadmapRevisionService';
+import { toRevisionResponse } from '@/lib/roadmap/format';
+
+/**
+ * Check the active roadmap against actual study time
+ * 
+ * POST /api/roadmap/replan
+ * 
+ * Compares planned and completed hours and returns the assessment. When the user
+ * has fallen behind, `revision` is a proposed schedule to accept or reject;
+ * otherwise it is null.
+ */
+export async function POST() {
+  try {
+    const user = await requireAuth();
+    const details = await RoadmapService.getActiveRoadmap(user.id);
+    if (!details) {
+      return NextResponse.json(
+        { error: 'No active roadmap' },
+        { status: 404 }
+      );
+    }
+
+    const { assessment, revision } = await RoadmapRevisionService.proposeRevision(details);
+
+    return NextResponse.json({
+      success: true,
+      onTrack: !assessment.behind,
+      assessment,
+      revision: revision && toRevisionResponse(revision),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Replan roadmap error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check roadmap' },
+      { status: 500 }
+    );
+  }
+}
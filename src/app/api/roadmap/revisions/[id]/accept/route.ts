@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { RoadmapRevisionService } from '@/lib/database/services/roadmapRevisionService';
+import { toRoadmapResponse } from '@/lib/roadmap/format';
+
+/**
+ * Accept a re-planning proposal
+ * 
+ * POST /api/roadmap/revisions/:id/accept
+ * 
+ * Replaces the roadmap's open tasks with the revised schedule and returns the
+ * updated roadmap. Fails with 409 when tasks were checked off or reopened after
+ * the proposal was made; run POST /api/roadmap/replan again for a fresh one.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const found = await RoadmapRevisionService.getRevision(id);
+    if (!found || found.roadmap.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    const details = await RoadmapRevisionService.acceptRevision(found.revision);
+
+    return NextResponse.json({
+      success: true,
+      roadmap: toRoadmapResponse(details.roadmap, details.phases, details.tasks),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Revision is no longer pending'
+      || error.message === 'Roadmap has changed since this revision was proposed'
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Accept roadmap revision error:', error);
+    return NextResponse.json(
+      { error: 'Failed to accept revision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { RoadmapRevisionService } from '@/lib/database/services/roadmapRevisionService';
+import { toRevisionResponse } from '@/lib/roadmap/format';
+
+/**
+ * Reject a re-planning proposal; the roadmap is left unchanged
+ * 
+ * POST /api/roadmap/revisions/:id/reject
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const found = await RoadmapRevisionService.getRevision(id);
+    if (!found || found.roadmap.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    const revision = await RoadmapRevisionService.rejectRevision(found.revision);
+
+    return NextResponse.json({
+      success: true,
+      revision: toRevisionResponse(revision),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Revision is no longer pending') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Reject roadmap revision error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reject revision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { RoadmapRevisionService } from '@/lib/database/services/roadmapRevisionService';
+import { toRevisionResponse } from '@/lib/roadmap/format';
+
+/**
+ * Get a re-planning proposal with its diff
+ * 
+ * GET /api/roadmap/revisions/:id
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const found = await RoadmapRevisionService.getRevision(id);
+    if (!found || found.roadmap.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      revision: toRevisionResponse(found.revision),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get roadmap revision error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get revision' },
+      { status: 500 }
+    );
+  }
+}
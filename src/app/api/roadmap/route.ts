@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { UserService } from '@/lib/database/services/userService';
+import { RoadmapService } from '@/lib/database/services/roadmapService';
+import { RoadmapRevisionService } from '@/lib/database/services/roadmapRevisionService';
+import { generateRoadmap } from '@/lib/roadmap/generator';
+import { roadmapInputFromUser } from '@/lib/roadmap/profile';
+import { toRevisionResponse, toRoadmapResponse } from '@/lib/roadmap/format';
+
+/**
+ * Get the user's active roadmap with task completion and phase progress
+ * 
+ * GET /api/roadmap
+ * 
+ * Returns `roadmap: null` when the user has no roadmap yet. `revision` is the
+ * re-planning proposal waiting for an answer, if any.
+ */
+export async function GET() {
+  try {
+    const user = await requireAuth();
+    const details = await RoadmapService.getActiveRoadmap(user.id);
+    const revision = details && await RoadmapRevisionService.getPendingRevision(details.roadmap.id);
+
+    return NextResponse.json({
+      success: true,
+      roadmap: details && toRoadmapResponse(details.roadmap, details.phases, details.tasks),
+      revision: revision ? toRevisionResponse(revision) : null,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get roadmap error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get roadmap' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Generate a new roadmap from the user's profile and make it the active one
+ * 
+ * POST /api/roadmap
+ * 
+ * The previous active roadmap is archived, not deleted.
+ */
+export async function POST() {
+  try {
+    const user = await requireAuth();
+    const profile = await UserService.getUserById(user.id);
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!profile.onboardingCompleted) {
+      return NextResponse.json(
+        { error: 'Complete onboarding before creating a roadmap' },
+        { status: 409 }
+      );
+    }
+
+    const details = await RoadmapService.createRoadmap(user.id, generateRoadmap(roadmapInputFromUser(profile)));
+
+    return NextResponse.json({
+      success: true,
+      roadmap: toRoadmapResponse(details.roadmap, details.phases, details.tasks),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Create roadmap error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create roadmap' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { RoadmapService } from '@/lib/database/services/roadmapService';
+import { toRoadmapResponse } from '@/lib/roadmap/format';
+
+const MAX_DURATION = 24 * 60; // one day, in minutes
+
+/**
+ * Check off or reopen a roadmap task
+ * 
+ * PATCH /api/roadmap/tasks/:id
+ * Body: { completed: boolean, duration?: number (minutes), notes?: string }
+ * 
+ * Completing a task logs a study session for its track (the planned time unless
+ * `duration` is given); reopening it removes that session. Returns the updated roadmap.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const body = await request.json();
+
+    if (typeof body.completed !== 'boolean') {
+      return NextResponse.json(
+        { error: 'completed must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    if (body.duration !== undefined && (typeof body.duration !== 'number' || !Number.isFinite(body.duration) || body.duration < 1 || body.duration > MAX_DURATION)) {
+      return NextResponse.json(
+        { error: `duration must be a number of minutes between 1 and ${MAX_DURATION}` },
+        { status: 400 }
+      );
+    }
+
+    const found = await RoadmapService.getTask(id);
+    if (!found || found.roadmap.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    if (body.completed) {
+      await RoadmapService.completeTask(found.task, found.roadmap, {
+        duration: body.duration,
+        notes: typeof body.notes === 'string' ? body.notes.trim() || null : null,
+      });
+    } else {
+      await RoadmapService.reopenTask(found.task);
+    }
+
+    const details = await RoadmapService.getRoadmap(found.roadmap.id);
+
+    return NextResponse.json({
+      success: true,
+      roadmap: details && toRoadmapResponse(details.roadmap, details.phases, details.tasks),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Update roadmap task error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update task' },
+      { status: 500 }
+    );
+  }
+}
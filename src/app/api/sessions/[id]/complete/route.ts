@@ -0,0 +1,108 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { StudySessionService } from '@/lib/database/services/studySessionService';
+import { toStudySessionResponse } from '@/lib/study/format';
+
+const MAX_NOTES_LENGTH = 2000;
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Complete a study session
+ * 
+ * POST /api/sessions/:id/complete
+ * Body (optional): {
+ *   questionsAttempted?: number,
+ *   questionsCompleted?: number,
+ *   score?: number (0-100),
+ *   notes?: string
+ * }
+ * 
+ * The end time is set by the server and the session's duration is its focused
+ * time in minutes, not counting pauses. The duration is added to the user's
+ * total study hours.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+    const parsed = await request.json().catch(() => null);
+    // Anything but a JSON object counts as an empty body
+    const body = parsed && typeof parsed === 'object' ? parsed : {};
+
+    for (const field of ['questionsAttempted', 'questionsCompleted'] as const) {
+      if (body[field] !== undefined && !isCount(body[field])) {
+        return NextResponse.json(
+          { error: `${field} must be a non-negative integer` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (isCount(body.questionsAttempted) && isCount(body.questionsCompleted) && body.questionsCompleted > body.questionsAttempted) {
+      return NextResponse.json(
+        { error: 'questionsCompleted cannot exceed questionsAttempted' },
+        { status: 400 }
+      );
+    }
+
+    if (body.score !== undefined && body.score !== null && (typeof body.score !== 'number' || !Number.isFinite(body.score) || body.score < 0 || body.score > 100)) {
+      return NextResponse.json(
+        { error: 'score must be a number between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
+    if (body.notes !== undefined && body.notes !== null && (typeof body.notes !== 'string' || body.notes.length > MAX_NOTES_LENGTH)) {
+      return NextResponse.json(
+        { error: `notes must be a string of at most ${MAX_NOTES_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const session = await StudySessionService.getSession(id);
+    if (!session || session.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Study session not found' },
+        { status: 404 }
+      );
+    }
+
+    const completed = await StudySessionService.completeSession(session, {
+      questionsAttempted: body.questionsAttempted,
+      questionsCompleted: body.questionsCompleted,
+      score: body.score,
+      notes: body.notes?.trim() || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      session: toStudySessionResponse(completed),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Study session is already completed') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Complete study session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to complete study session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { StudySessionService } from '@/lib/database/services/studySessionService';
+import { toStudySessionResponse } from '@/lib/study/format';
+
+/**
+ * Pause a study session
+ * 
+ * POST /api/sessions/:id/pause
+ * 
+ * Stops the clock; time spent paused does not count towards the session.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const session = await StudySessionService.getSession(id);
+    if (!session || session.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Study session not found' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await StudySessionService.pauseSession(session);
+
+    return NextResponse.json({
+      success: true,
+      session: toStudySessionResponse(updated),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Study session is not running') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Pause study session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to pause study session' },
+      { status: 500 }
+    );
+  }
+}
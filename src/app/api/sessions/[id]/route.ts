@@ -0,0 +1,97 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { StudySessionService } from '@/lib/database/services/studySessionService';
+import { toStudySessionResponse } from '@/lib/study/format';
+
+/**
+ * Get a study session
+ * 
+ * GET /api/sessions/:id
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const session = await StudySessionService.getSession(id);
+    if (!session || session.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Study session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      session: toStudySessionResponse(session),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get study session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get study session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Discard a running or paused study session
+ * 
+ * DELETE /api/sessions/:id
+ * 
+ * Completed sessions are part of the user's history and cannot be discarded.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const { id } = await params;
+
+    const session = await StudySessionService.getSession(id);
+    if (!session || session.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Study session not found' },
+        { status: 404 }
+      );
+    }
+
+    await StudySessionService.discardSession(session);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Study session discarded',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Study session is already completed') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Discard study session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard study session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/session';
+import { StudySessionService } from '@/lib/database/services/studySessionService';
+import { toStudySessionResponse } from '@/lib/study/format';
+import { TIMED_SESSION_TYPES, TIMER_MODES } from '@/lib/study/timer';
+
+const SESSION_TYPE_KEYS = Object.keys(TIMED_SESSION_TYPES);
+const DIFFICULTY_LEVELS = ['easy', 'medium', 'hard'];
+const MAX_TOPIC_LENGTH = 200;
+
+/**
+ * List the user's study sessions
+ * 
+ * GET /api/sessions?limit=20
+ * 
+ * Returns recent sessions, newest first, and the session that is currently
+ * running or paused (null if none).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const [sessions, open] = await Promise.all([
+      StudySessionService.getUserSessions(user.id, limit),
+      StudySessionService.getOpenSession(user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map(session => toStudySessionResponse(session)),
+      activeSession: open && toStudySessionResponse(open),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    console.error('Get study sessions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get study sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start a study session
+ * 
+ * POST /api/sessions
+ * Body: {
+ *   sessionType: 'dsa' | 'system_design' | 'behavioral',
+ *   topic?: string,
+ *   difficultyLevel?: 'easy' | 'medium' | 'hard',
+ *   timerMode?: 'stopwatch' | 'pomodoro'
+ * }
+ * 
+ * The start time is set by the server. Fails with 409 while another session
+ * is running or paused.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    if (!SESSION_TYPE_KEYS.includes(body.sessionType)) {
+      return NextResponse.json(
+        { error: `sessionType must be one of: ${SESSION_TYPE_KEYS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.topic !== undefined && body.topic !== null && (typeof body.topic !== 'string' || body.topic.length > MAX_TOPIC_LENGTH)) {
+      return NextResponse.json(
+        { error: `topic must be a string of at most ${MAX_TOPIC_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (body.difficultyLevel !== undefined && body.difficultyLevel !== null && !DIFFICULTY_LEVELS.includes(body.difficultyLevel)) {
+      return NextResponse.json(
+        { error: `difficultyLevel must be one of: ${DIFFICULTY_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.timerMode !== undefined && !TIMER_MODES.includes(body.timerMode)) {
+      return NextResponse.json(
+        { error: `timerMode must be one of: ${TIMER_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const session = await StudySessionService.startSession(user.id, {
+      sessionType: body.sessionType,
+      topic: body.topic?.trim() || null,
+      difficultyLevel: body.difficultyLevel,
+      timerMode: body.timerMode,
+    });
+
+    return NextResponse.json({
+      success: true,
+      session: toStudySessionResponse(session),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'A study session is already running') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Start study session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start study session' },
+      { status: 500 }
+    );
+  }
+}
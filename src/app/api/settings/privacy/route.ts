@@ -3,6 +3,7 @@ import { getSessionUser } from '@/lib/auth/session';
 import { getDb } from '@/lib/database/utils';
 import { userSettings } from '@/lib/database/schema';
 import { eq } from 'drizzle-orm';
+import { DATA_RETENTION_OPTIONS, DEFAULT_DATA_RETENTION, isDataRetention } from '@/lib/privacy/retention';
 
 export async function GET(request: NextRequest) {
   try {
@@ -27,7 +28,7 @@ export async function GET(request: NextRequest) {
         shareProgress: false,
         publicProfile: false,
         analyticsOptIn: true,
-        dataRetention: '2years',
+        dataRetention: DEFAULT_DATA_RETENTION,
         anonymizeData: true,
         thirdPartySharing: false,
       };
@@ -42,7 +43,7 @@ export async function GET(request: NextRequest) {
       shareProgress: userSetting.shareProgress,
       publicProfile: userSetting.publicProfile,
       analyticsOptIn: userSetting.analyticsOptIn,
-      dataRetention: userSetting.dataRetention || '2years',
+      dataRetention: userSetting.dataRetention || DEFAULT_DATA_RETENTION,
       anonymizeData: userSetting.anonymizeData,
       thirdPartySharing: userSetting.thirdPartySharing,
     };
@@ -65,6 +66,13 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
+    if (body.dataRetention !== undefined && !isDataRetention(body.dataRetention)) {
+      return NextResponse.json(
+        { error: `dataRetention must be one of: ${DATA_RETENTION_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     const db = getDb();
     
     // Update privacy settings in database
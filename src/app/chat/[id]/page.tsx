@@ -0,0 +1,10 @@
+import { ChatWorkspace } from "@/components/chat/ChatWorkspace";
+
+export default async function ConversationPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  return <ChatWorkspace key={id} conversationId={id} />;
+}
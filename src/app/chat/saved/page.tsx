@@ -0,0 +1,5 @@
+import { SavedMessages } from "@/components/chat/SavedMessages";
+
+export default function SavedPage() {
+  return <SavedMessages />;
+}
@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import Image from "next/image";
 import Link from "next/link";
 import { HeaderDock } from "@/components/shell/HeaderDock";
+import { FocusTimer } from "@/components/shell/FocusTimer";
 import { ProgressiveEnhancementProvider } from "@/components/ui/ProgressiveEnhancement";
 import { NotificationProvider } from "@/components/ui/NotificationSystem";
 import { AccessibilityEnhancer } from "@/components/ui/AccessibilityEnhancer";
@@ -52,6 +53,7 @@ export default function RootLayout({
               <AccessibilityEnhancer>
                 <div className="min-h-screen flex flex-col">
                   <HeaderDock />
+                  <FocusTimer />
                   <main className="flex-1">{children}</main>
                   <footer className="border-t border-white/5 text-center text-xs text-[var(--text-secondary)] py-4">© {new Date().getFullYear()} TayyariAI</footer>
                 </div>
@@ -0,0 +1,10 @@
+import { MockInterviewRoom } from "@/components/interview/MockInterviewRoom";
+
+export default async function MockInterviewRoomPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  return <MockInterviewRoom key={id} interviewId={id} />;
+}
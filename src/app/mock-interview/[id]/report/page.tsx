@@ -0,0 +1,10 @@
+import { MockInterviewReport } from "@/components/interview/MockInterviewReport";
+
+export default async function MockInterviewReportPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  return <MockInterviewReport interviewId={id} />;
+}
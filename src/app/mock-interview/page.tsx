@@ -0,0 +1,5 @@
+import { MockInterviewLauncher } from "@/components/interview/MockInterviewLauncher";
+
+export default function MockInterviewPage() {
+  return <MockInterviewLauncher />;
+}
@@ -0,0 +1,5 @@
+import { ReviewSession } from "@/components/review/ReviewSession";
+
+export default function ReviewPage() {
+  return <ReviewSession />;
+}
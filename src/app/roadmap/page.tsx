@@ -0,0 +1,5 @@
+import { RoadmapTracker } from "@/components/plan/RoadmapTracker";
+
+export default function RoadmapPage() {
+  return <RoadmapTracker />;
+}
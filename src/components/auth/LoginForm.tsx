@@ -3,21 +3,29 @@
 import { useState } from 'react';
 import { Button } from '@/components/base/Button';
 import { GlassCard } from '@/components/base/GlassCard';
+import { startAuthentication } from '@simplewebauthn/browser';
 
 interface LoginFormProps {
   onLogin: (user: any) => void;
 }
 
+type AuthMode = 'signin' | 'signup';
+
 export function LoginForm({ onLogin }: LoginFormProps) {
+  const [mode, setMode] = useState<AuthMode>('signin');
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isPasskeyLoading, setIsPasskeyLoading] = useState(false);
   const [error, setError] = useState('');
 
+  const isSignUp = mode === 'signup';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!name.trim()) {
+    if (isSignUp && !name.trim()) {
       setError('Please enter your name');
       return;
     }
@@ -26,18 +34,22 @@ export function LoginForm({ onLogin }: LoginFormProps) {
     setError('');
 
     try {
-      const response = await fetch('/api/auth/login', {
+      const response = await fetch(isSignUp ? '/api/auth/register' : '/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ name: name.trim(), email: email.trim() || undefined }),
+        body: JSON.stringify({
+          name: isSignUp ? name.trim() : undefined,
+          email: email.trim(),
+          password,
+        }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Login failed');
+        throw new Error(data.error || (isSignUp ? 'Sign up failed' : 'Login failed'));
       }
 
       onLogin(data.user);
@@ -48,6 +60,51 @@ export function LoginForm({ onLogin }: LoginFormProps) {
     }
   };
 
+  const handlePasskeyLogin = async () => {
+    setIsPasskeyLoading(true);
+    setError('');
+
+    try {
+      const optionsResponse = await fetch('/api/auth/passkey/login/options', { method: 'POST' });
+      const optionsJSON = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        throw new Error(optionsJSON.error || 'Passkey sign-in failed');
+      }
+
+      const assertion = await startAuthentication({ optionsJSON });
+
+      const response = await fetch('/api/auth/passkey/login/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ response: assertion }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Passkey sign-in failed');
+      }
+
+      onLogin(data.user);
+    } catch (err) {
+      // The browser rejects with NotAllowedError when the user dismisses the prompt
+      if (err instanceof Error && err.name === 'NotAllowedError') {
+        setError('Passkey sign-in was cancelled');
+      } else {
+        setError(err instanceof Error ? err.message : 'Passkey sign-in failed');
+      }
+    } finally {
+      setIsPasskeyLoading(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(isSignUp ? 'signin' : 'signup');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -56,43 +113,69 @@ export function LoginForm({ onLogin }: LoginFormProps) {
             Welcome to TayyariAI
           </h1>
           <p className="text-text-secondary">
-            Enter your details to start your interview preparation journey
+            {isSignUp
+              ? 'Create an account to start your interview preparation journey'
+              : 'Sign in to continue your interview preparation journey'}
           </p>
         </div>
 
         <GlassCard className="p-6">
           <form onSubmit={handleSubmit} className="space-y-4">
+            {isSignUp && (
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-text-secondary mb-2">
+                  Name *
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Enter your full name"
+                  autoComplete="name"
+                  className="w-full px-3 py-2 bg-bg-secondary border border-white/10 rounded-lg focus:border-electric-blue outline-none transition-colors"
+                  required
+                  autoFocus
+                />
+              </div>
+            )}
+
             <div>
-              <label htmlFor="name" className="block text-sm font-medium text-text-secondary mb-2">
-                Name *
+              <label htmlFor="email" className="block text-sm font-medium text-text-secondary mb-2">
+                Email *
               </label>
               <input
-                id="name"
-                type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                placeholder="Enter your full name"
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="your.email@example.com"
+                autoComplete={isSignUp ? 'email' : 'username webauthn'}
                 className="w-full px-3 py-2 bg-bg-secondary border border-white/10 rounded-lg focus:border-electric-blue outline-none transition-colors"
                 required
-                autoFocus
               />
             </div>
 
             <div>
-              <label htmlFor="email" className="block text-sm font-medium text-text-secondary mb-2">
-                Email (optional)
+              <label htmlFor="password" className="block text-sm font-medium text-text-secondary mb-2">
+                Password *
               </label>
               <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="your.email@example.com"
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={isSignUp ? 'At least 8 characters' : 'Enter your password'}
+                autoComplete={isSignUp ? 'new-password' : 'current-password'}
+                minLength={isSignUp ? 8 : undefined}
                 className="w-full px-3 py-2 bg-bg-secondary border border-white/10 rounded-lg focus:border-electric-blue outline-none transition-colors"
+                required
               />
-              <p className="text-xs text-text-muted mt-1">
-                Email helps us save your progress and send you updates
-              </p>
+              {isSignUp && (
+                <p className="text-xs text-text-muted mt-1">
+                  You can add a passkey from account settings after signing up
+                </p>
+              )}
             </div>
 
             {error && (
@@ -106,12 +189,38 @@ export function LoginForm({ onLogin }: LoginFormProps) {
               variant="primary"
               className="w-full"
               isLoading={isLoading}
-              disabled={!name.trim() || isLoading}
+              disabled={!email.trim() || !password || (isSignUp && !name.trim()) || isLoading}
             >
-              {isLoading ? 'Signing In...' : 'Get Started'}
+              {isSignUp
+                ? (isLoading ? 'Creating Account...' : 'Create Account')
+                : (isLoading ? 'Signing In...' : 'Sign In')}
             </Button>
           </form>
 
+          {!isSignUp && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full mt-3"
+              onClick={handlePasskeyLogin}
+              isLoading={isPasskeyLoading}
+              disabled={isPasskeyLoading || isLoading}
+            >
+              Sign in with a passkey
+            </Button>
+          )}
+
+          <p className="mt-4 text-center text-sm text-text-secondary">
+            {isSignUp ? 'Already have an account?' : 'New to TayyariAI?'}{' '}
+            <button
+              type="button"
+              onClick={switchMode}
+              className="text-electric-blue hover:underline"
+            >
+              {isSignUp ? 'Sign in' : 'Create an account'}
+            </button>
+          </p>
+
           <div className="mt-6 pt-6 border-t border-white/10">
             <div className="text-center">
               <p className="text-xs text-text-muted">
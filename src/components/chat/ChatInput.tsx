@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef, useCallback, useEffect } from "react";
-import { SendIcon, AttachIcon, CodeIcon, MicIcon } from "@/components/icons/Icons";
+import { SendIcon, AttachIcon, CodeIcon, MicIcon, ReplyIcon, XIcon } from "@/components/icons/Icons";
 import { FileUpload } from "./FileUpload";
 import { CodeEditor } from "./CodeEditor";
 
@@ -9,12 +9,16 @@ interface ChatInputProps {
   onSendMessage?: (message: string, files?: File[], code?: string) => void;
   isLoading?: boolean;
   placeholder?: string;
+  replyTo?: string | null; // start of the message being replied to
+  onCancelReply?: () => void;
 }
 
 export function ChatInput({ 
   onSendMessage, 
   isLoading = false,
-  placeholder = "Type your request…"
+  placeholder = "Type your request…",
+  replyTo,
+  onCancelReply
 }: ChatInputProps) {
   const [message, setMessage] = useState("");
   const [showFileUpload, setShowFileUpload] = useState(false);
@@ -58,6 +62,12 @@ export function ChatInput({
     }
   }, []);
 
+  useEffect(() => {
+    if (replyTo) {
+      textareaRef.current?.focus();
+    }
+  }, [replyTo]);
+
   // Simple input change handler
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessage(e.target.value);
@@ -140,6 +150,22 @@ export function ChatInput({
           />
         )}
 
+        {/* Message being replied to */}
+        {replyTo && (
+          <div className="glass-card flex items-center gap-3 px-3 py-2 text-sm">
+            <ReplyIcon size={14} className="text-electric-blue flex-shrink-0" />
+            <span className="flex-1 min-w-0 truncate text-text-muted">{replyTo}</span>
+            <button
+              type="button"
+              onClick={onCancelReply}
+              className="p-1 rounded text-text-muted hover:text-text-primary hover:bg-white/5 transition-all"
+              title="Cancel reply"
+            >
+              <XIcon size={14} />
+            </button>
+          </div>
+        )}
+
         {/* Main Input Area */}
         <div className="glass-card">
           <div className="flex items-end gap-3 p-3">
@@ -1,51 +1,112 @@
 import { useState, useEffect } from "react";
 import Image from "next/image";
-import { StreamingMessage } from "./StreamingMessage";
+import { StreamingMessage, type FeedbackDetails } from "./StreamingMessage";
+import { BookmarkIcon, EditIcon } from "@/components/icons/Icons";
+import { MessageActions } from "@/components/ui/MessageActions";
+import { ContextMenu, createMessageContextActions } from "@/components/ui/ContextMenu";
+import { REACTION_EMOJIS, type ReactionEmoji } from "@/lib/chat/annotations";
 
 interface MessageProps {
   role: "assistant" | "user";
   content: string;
   isStreaming?: boolean;
+  truncated?: boolean;
   files?: File[];
   timestamp?: Date;
   onCopy?: (content: string) => void;
-  onFeedback?: (type: 'positive' | 'negative') => void;
-  onEdit?: () => void;
+  onFeedback?: (type: 'positive' | 'negative', details?: FeedbackDetails) => void;
+  onEdit?: (content: string) => void; // saves an edited user message as a new branch
+  branch?: { index: number; count: number } | null;
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  model?: string | null;
+  preferred?: boolean;
+  onRegenerate?: () => void;
+  onPrefer?: () => void; // pick this answer over its regenerated siblings
   onShare?: () => void;
-  onReact?: () => void;
-  onBookmark?: () => void;
+  reactions?: ReactionEmoji[];
+  onReact?: (emoji: ReactionEmoji) => void; // adds the reaction, or removes it if already given
+  bookmarked?: boolean;
+  onBookmark?: () => void; // saves the answer, or removes it from Saved
+  replyTo?: string | null; // start of the message this one replies to
   onReply?: () => void;
+  onStop?: () => void;
 }
 
 export function ChatMessage({ 
   role, 
   content, 
   isStreaming = false,
+  truncated = false,
   files = [],
   timestamp,
   onCopy,
   onFeedback,
   onEdit,
+  branch,
+  onSwitchBranch,
+  model,
+  preferred = false,
+  onRegenerate,
+  onPrefer,
   onShare,
+  reactions = [],
   onReact,
+  bookmarked = false,
   onBookmark,
-  onReply
+  replyTo,
+  onReply,
+  onStop
 }: MessageProps) {
   const isUser = role === "user";
   
   // Prevent hydration mismatch by only showing time after client hydration
   const [isClient, setIsClient] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const [isHovered, setIsHovered] = useState(false);
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
   
   useEffect(() => {
     setIsClient(true);
   }, []);
+
+  const startEditing = () => {
+    setDraft(content);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const edited = draft.trim();
+    setIsEditing(false);
+    if (edited && edited !== content) {
+      onEdit?.(edited);
+    }
+  };
   
+  const handleReact = (emoji: ReactionEmoji) => {
+    setShowReactionPicker(false);
+    onReact?.(emoji);
+  };
+
+  const canAct = !isStreaming && !isEditing;
+  const contextActions = createMessageContextActions(isUser, content, {
+    onEdit: onEdit ? startEditing : undefined,
+    onReply,
+    onBookmark,
+    onShare,
+  }, bookmarked);
+
   const displayTime = isClient && timestamp ? 
     timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 
     '';
 
-  return (
+  const article = (
     <article 
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => {
+        setIsHovered(false);
+        setShowReactionPicker(false);
+      }}
       className={`
         group relative p-4 sm:p-6 transition-all duration-300 ease-out
         hover:bg-bg-secondary/30 
@@ -53,6 +114,34 @@ export function ChatMessage({
         animate-slide-in-fade
       `}
     >
+      <MessageActions
+        isVisible={isHovered && canAct}
+        isUser={isUser}
+        isBookmarked={bookmarked}
+        onCopy={() => onCopy?.(content)}
+        onEdit={isUser && onEdit ? startEditing : undefined}
+        onShare={onShare}
+        onReact={onReact ? () => setShowReactionPicker(prev => !prev) : undefined}
+        onBookmark={onBookmark}
+        onReply={onReply}
+      />
+
+      {showReactionPicker && canAct && (
+        <div className="absolute top-14 right-2 z-10 glass-card rounded-lg p-1 flex items-center gap-0.5 shadow-lg">
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => handleReact(emoji)}
+              className={`w-8 h-8 rounded-md text-base hover:bg-white/10 transition-all ${reactions.includes(emoji) ? 'bg-electric-blue/20' : ''}`}
+              title={reactions.includes(emoji) ? 'Remove reaction' : 'React'}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="flex items-start gap-3 sm:gap-4">
         {/* Avatar */}
         {isUser ? (
@@ -87,6 +176,15 @@ export function ChatMessage({
                 <span className="text-xs text-text-muted">{displayTime}</span>
               </>
             )}
+            {bookmarked && (
+              <>
+                <span className="text-text-muted">•</span>
+                <span className="flex items-center gap-1 text-xs text-electric-blue" title="In your Saved answers">
+                  <BookmarkIcon size={12} />
+                  Saved
+                </span>
+              </>
+            )}
             {isStreaming && (
               <>
                 <span className="text-text-muted">•</span>
@@ -124,8 +222,50 @@ export function ChatMessage({
             </div>
           )}
 
+          {/* Quoted message this one replies to */}
+          {replyTo && (
+            <blockquote className="border-l-2 border-electric-blue/40 pl-3 text-sm text-text-muted line-clamp-2">
+              {replyTo}
+            </blockquote>
+          )}
+
           {/* Message Text */}
-          {isUser ? (
+          {isUser && isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    saveEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                rows={Math.min(Math.max(draft.split('\n').length, 2), 10)}
+                aria-label="Edit message"
+                className="w-full px-3 py-2 bg-bg-tertiary rounded-lg border border-white/10 focus:border-electric-blue outline-none text-[15px] text-text-primary resize-y"
+              />
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={saveEdit}
+                  disabled={!draft.trim()}
+                  className="px-3 py-1.5 text-xs font-medium text-white bg-electric-blue hover:bg-electric-blue/90 disabled:opacity-50 rounded-lg transition-all duration-200"
+                >
+                  Save & submit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1.5 text-xs text-text-muted hover:text-text-primary bg-bg-secondary/50 hover:bg-bg-secondary border border-white/5 rounded-lg transition-all duration-200"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : isUser ? (
             <div className="leading-relaxed text-[15px] text-text-primary whitespace-pre-wrap">
               {content}
             </div>
@@ -133,14 +273,98 @@ export function ChatMessage({
             <StreamingMessage
               content={content}
               isStreaming={isStreaming}
+              truncated={truncated}
               onCopy={onCopy}
               onFeedback={onFeedback}
+              onRegenerate={onRegenerate}
+              onStop={onStop}
             />
           )}
+
+          {/* Reactions */}
+          {reactions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              {reactions.map(emoji => (
+                <button
+                  key={emoji}
+                  type="button"
+                  onClick={() => onReact?.(emoji)}
+                  disabled={!onReact}
+                  className="px-2 py-0.5 text-sm rounded-full bg-electric-blue/10 border border-electric-blue/20 hover:bg-electric-blue/20 transition-all"
+                  title="Remove reaction"
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Branch navigation and editing */}
+          {!isStreaming && !isEditing && ((branch && branch.count > 1) || (isUser && onEdit)) && (
+            <div className="flex items-center gap-2 text-xs text-text-muted">
+              {branch && branch.count > 1 && (
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onSwitchBranch?.(-1)}
+                    disabled={branch.index === 0}
+                    className="px-1.5 py-0.5 rounded hover:bg-white/5 hover:text-text-primary disabled:opacity-40 transition-all"
+                    title="Previous version"
+                  >
+                    &lt;
+                  </button>
+                  <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+                  <button
+                    type="button"
+                    onClick={() => onSwitchBranch?.(1)}
+                    disabled={branch.index === branch.count - 1}
+                    className="px-1.5 py-0.5 rounded hover:bg-white/5 hover:text-text-primary disabled:opacity-40 transition-all"
+                    title="Next version"
+                  >
+                    &gt;
+                  </button>
+                </div>
+              )}
+              {!isUser && branch && branch.count > 1 && model && (
+                <span className="font-mono">{model}</span>
+              )}
+              {!isUser && branch && branch.count > 1 && (preferred ? (
+                <span className="px-2 py-0.5 rounded bg-neon-green/10 text-neon-green">Preferred</span>
+              ) : onPrefer && (
+                <button
+                  type="button"
+                  onClick={onPrefer}
+                  className="px-2 py-0.5 rounded border border-white/10 hover:bg-white/5 hover:text-text-primary transition-all"
+                  title="Mark this answer as the better one"
+                >
+                  Prefer this answer
+                </button>
+              ))}
+              {isUser && onEdit && (
+                <button
+                  type="button"
+                  onClick={startEditing}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-white/5 hover:text-text-primary transition-all"
+                  title="Edit message"
+                >
+                  <EditIcon size={12} />
+                  <span>Edit</span>
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </article>
   );
+
+  return (
+    <ContextMenu
+      trigger={article}
+      actions={contextActions}
+      disabled={!canAct}
+    />
+  );
 }
 
 
@@ -0,0 +1,292 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { SearchIcon, XIcon } from "@/components/icons/Icons";
+import { parseDbTimestamp } from "@/components/chat/ConversationSidebar";
+import {
+  SEARCH_CONTEXTS,
+  SEARCH_ROLES,
+  SEARCH_ROLE_LABELS,
+  type ChatSearchPage,
+  type HighlightPart,
+} from "@/lib/chat/search";
+
+interface ChatSearchProps {
+  isOpen: boolean;
+  initialQuery?: string;
+  onClose: () => void;
+  onSelect: (conversationId: string) => void;
+}
+
+interface SearchFilters {
+  context: string;
+  role: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: SearchFilters = { context: "", role: "", from: "", to: "" };
+const SEARCH_DEBOUNCE_MS = 250;
+
+function Highlighted({ parts }: { parts: HighlightPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-electric-blue/20 text-electric-blue rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function ChatSearch({ isOpen, initialQuery = "", onClose, onSelect }: ChatSearchProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [results, setResults] = useState<ChatSearchPage | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const search = useCallback(async (offset: number) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    const params = new URLSearchParams({ q: query.trim(), offset: String(offset) });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/chat/search?${params}`, { signal: controller.signal });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Search failed');
+
+      setResults(prev => offset > 0 && prev
+        ? { ...data, messages: [...prev.messages, ...data.messages], conversations: prev.conversations }
+        : data);
+    } catch (searchError) {
+      if ((searchError as Error).name === 'AbortError') return;
+      setError((searchError as Error).message);
+    } finally {
+      if (requestRef.current === controller) setIsSearching(false);
+    }
+  }, [query, filters]);
+
+  // Reset when opened, focusing the input
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery(initialQuery);
+    setFilters(EMPTY_FILTERS);
+    setResults(null);
+    inputRef.current?.focus();
+  }, [isOpen, initialQuery]);
+
+  // Search as the user types
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!query.trim()) {
+      requestRef.current?.abort();
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const timer = setTimeout(() => search(0), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [isOpen, query, search]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const handleSelect = (conversationId: string) => {
+    onSelect(conversationId);
+    onClose();
+  };
+
+  const updateFilter = (key: keyof SearchFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const selectClass = "px-3 py-2 bg-bg-tertiary rounded-lg border border-white/10 focus:border-electric-blue outline-none text-sm text-text-primary";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-start justify-center pt-[12vh]"
+      onClick={onClose}
+    >
+      <div
+        className="bg-bg-secondary/95 backdrop-blur-md border border-white/10 rounded-2xl shadow-2xl w-full max-w-2xl mx-4 animate-slide-in-fade"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-white/5 space-y-3">
+          <div className="flex items-center gap-3">
+            <div className="flex-1 relative">
+              <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-text-muted" />
+              <input
+                ref={inputRef}
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder='Search your conversations... use "quotes" for exact phrases'
+                aria-label="Search conversations"
+                className="w-full pl-10 pr-4 py-2 bg-bg-tertiary rounded-lg border border-white/10 focus:border-electric-blue outline-none text-text-primary placeholder:text-text-muted"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-white/5 transition-all"
+              title="Close search"
+            >
+              <XIcon size={16} />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={filters.context}
+              onChange={(e) => updateFilter('context', e.target.value)}
+              aria-label="Filter by context"
+              className={selectClass}
+            >
+              <option value="">All contexts</option>
+              {Object.entries(SEARCH_CONTEXTS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={filters.role}
+              onChange={(e) => updateFilter('role', e.target.value)}
+              aria-label="Filter by sender"
+              className={selectClass}
+            >
+              <option value="">Everyone</option>
+              {SEARCH_ROLES.map(role => (
+                <option key={role} value={role}>{SEARCH_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              aria-label="From date"
+              className={selectClass}
+            />
+            <span className="text-xs text-text-muted">to</span>
+            <input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              aria-label="To date"
+              className={selectClass}
+            />
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="max-h-[28rem] overflow-y-auto p-2">
+          {error ? (
+            <p className="text-center py-8 text-sm text-red-400">{error}</p>
+          ) : !results ? (
+            <div className="text-center py-8 text-text-muted">
+              <SearchIcon className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p>{isSearching ? 'Searching...' : 'Search messages and conversation titles'}</p>
+            </div>
+          ) : results.messages.length === 0 && results.conversations.length === 0 ? (
+            <div className="text-center py-8 text-text-muted">
+              <p>No matches found</p>
+              <p className="text-sm">Try different keywords or clear the filters</p>
+            </div>
+          ) : (
+            <>
+              {results.conversations.length > 0 && (
+                <div className="mb-4">
+                  <h3 className="text-xs font-medium text-text-muted uppercase tracking-wide px-3 py-2">
+                    Conversations
+                  </h3>
+                  {results.conversations.map(conversation => (
+                    <button
+                      type="button"
+                      key={conversation.conversationId}
+                      onClick={() => handleSelect(conversation.conversationId)}
+                      className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-left hover:bg-white/5 transition-all"
+                    >
+                      <span className="font-medium text-text-primary truncate">
+                        <Highlighted parts={conversation.title} />
+                      </span>
+                      <span className="text-xs text-text-muted shrink-0">
+                        {conversation.messageCount ?? 0} messages
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {results.messages.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-medium text-text-muted uppercase tracking-wide px-3 py-2">
+                    Messages ({results.total})
+                  </h3>
+                  {results.messages.map(message => (
+                    <button
+                      type="button"
+                      key={message.messageId}
+                      onClick={() => handleSelect(message.conversationId)}
+                      className="w-full px-3 py-2 rounded-lg text-left hover:bg-white/5 transition-all"
+                    >
+                      <div className="flex items-center justify-between gap-3 text-xs text-text-muted mb-1">
+                        <span className="truncate">
+                          {message.conversationTitle || 'Untitled chat'} · {message.role === 'assistant' ? 'AI' : 'You'}
+                        </span>
+                        <span className="shrink-0">{parseDbTimestamp(message.createdAt).toLocaleDateString()}</span>
+                      </div>
+                      <p className="text-sm text-text-secondary line-clamp-2">
+                        <Highlighted parts={message.snippet} />
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {results.hasMore && (
+                <div className="text-center py-2">
+                  <button
+                    type="button"
+                    onClick={() => search(results.messages.length)}
+                    disabled={isSearching}
+                    className="glass-card px-4 py-2 rounded-lg text-xs text-text-secondary hover:text-text-primary disabled:opacity-50 transition-all"
+                  >
+                    {isSearching ? 'Loading...' : 'Load more results'}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,818 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { ChatInput } from "@/components/chat/ChatInput";
+import { ChatMessage } from "@/components/chat/ChatMessage";
+import { useChatStream, type FeedbackDetails } from "@/components/chat/StreamingMessage";
+import { ConversationSidebar, parseDbTimestamp, type ConversationSummary } from "@/components/chat/ConversationSidebar";
+import { FloatingActions } from "@/components/shell/FloatingActions";
+import { CommandPalette, defaultCommands } from "@/components/ui/CommandPalette";
+import { ChatSearch } from "@/components/chat/ChatSearch";
+
+import { useScreenReaderAnnouncement } from "@/components/ui/AccessibilityEnhancer";
+import { useFeatureDetection } from "@/components/ui/ProgressiveEnhancement";
+import { useErrorHandler } from "@/components/ui/ErrorBoundary";
+import { useNotifications, notificationUtils } from "@/components/ui/NotificationSystem";
+import { LoadingSkeleton } from "@/components/ui/LoadingSkeleton";
+import { useAuth } from "@/lib/auth/AuthContext";
+import { useRouter } from "next/navigation";
+import type { BranchPosition } from "@/lib/chat/branches";
+import { quoteForReply, type ReactionEmoji } from "@/lib/chat/annotations";
+
+interface Message {
+  id: string;
+  role: "assistant" | "user";
+  content: string;
+  timestamp: Date;
+  isStreaming?: boolean;
+  truncated?: boolean;
+  files?: File[];
+  branch?: BranchPosition | null;
+  model?: string | null;
+  preferred?: boolean;
+  replyToMessageId?: string | null;
+  bookmarked?: boolean;
+  reactions?: ReactionEmoji[];
+}
+
+interface ChatWorkspaceProps {
+  conversationId?: string;
+}
+
+interface StoredMessage {
+  id: string;
+  role: "assistant" | "user";
+  content: string;
+  truncated?: boolean;
+  branch?: BranchPosition | null;
+  model?: string | null;
+  preferred?: boolean;
+  replyToMessageId?: string | null;
+  bookmark?: { tags: string[] } | null;
+  reactions?: ReactionEmoji[];
+  createdAt: string | null;
+}
+
+const HISTORY_PAGE_SIZE = 30;
+
+function toMessage(message: StoredMessage): Message {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    truncated: message.truncated,
+    branch: message.branch,
+    model: message.model,
+    preferred: message.preferred,
+    replyToMessageId: message.replyToMessageId,
+    bookmarked: Boolean(message.bookmark),
+    reactions: message.reactions,
+    timestamp: parseDbTimestamp(message.createdAt),
+  };
+}
+
+export function ChatWorkspace({ conversationId }: ChatWorkspaceProps) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(conversationId || null);
+  const [isLoadingConversations, setIsLoadingConversations] = useState(true);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(Boolean(conversationId));
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [search, setSearch] = useState<{ isOpen: boolean; query: string }>({ isOpen: false, query: "" });
+  const [replyToId, setReplyToId] = useState<string | null>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const conversationIdRef = useRef<string | null>(conversationId || null);
+  const chatStream = useChatStream();
+  const { user, isLoading: isAuthLoading } = useAuth();
+
+  // Enhanced hooks
+  const { announce } = useScreenReaderAnnouncement();
+  const featureDetection = useFeatureDetection();
+  const { handleError } = useErrorHandler();
+  const { showNotification } = useNotifications();
+  const router = useRouter();
+
+  // showNotification is recreated on every render; keep the latest one for effects
+  const showNotificationRef = useRef(showNotification);
+  showNotificationRef.current = showNotification;
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.push('/');
+    }
+  }, [user, isAuthLoading, router]);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/chat/conversations?limit=50');
+      if (response.ok) {
+        const data = await response.json();
+        setConversations(data.conversations);
+      }
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    } finally {
+      setIsLoadingConversations(false);
+    }
+  }, []);
+
+  const fetchHistoryPage = useCallback(async (id: string, before?: string) => {
+    const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+    if (before) params.set('before', before);
+
+    const response = await fetch(`/api/chat/conversations/${id}?${params}`);
+    if (!response.ok) {
+      throw new Error(response.status === 404 || response.status === 403
+        ? 'Conversation not found'
+        : 'Failed to load conversation');
+    }
+
+    const data = await response.json();
+    return {
+      messages: (data.messages as StoredMessage[]).map(toMessage),
+      hasMore: Boolean(data.hasMore),
+    };
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadConversations();
+    }
+  }, [user, loadConversations]);
+
+  // Load the latest page of history when opening an existing conversation
+  useEffect(() => {
+    if (!conversationId || !user) return;
+
+    let cancelled = false;
+    setIsLoadingHistory(true);
+
+    fetchHistoryPage(conversationId)
+      .then(page => {
+        if (cancelled) return;
+        setMessages(page.messages);
+        setHasMoreHistory(page.hasMore);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        showNotificationRef.current(notificationUtils.error(
+          "Couldn't open conversation",
+          (error as Error).message
+        ));
+        router.replace('/chat');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingHistory(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, user, fetchHistoryPage, router]);
+
+  const handleLoadEarlier = async () => {
+    const id = conversationIdRef.current;
+    const oldest = messages[0];
+    if (!id || !oldest || isLoadingHistory) return;
+
+    const container = messagesContainerRef.current;
+    const previousHeight = container?.scrollHeight || 0;
+    setIsLoadingHistory(true);
+
+    try {
+      const page = await fetchHistoryPage(id, oldest.id);
+      setMessages(prev => [...page.messages, ...prev]);
+      setHasMoreHistory(page.hasMore);
+
+      // Keep the current viewport anchored after prepending older messages
+      requestAnimationFrame(() => {
+        if (container) {
+          container.scrollTop += container.scrollHeight - previousHeight;
+        }
+      });
+    } catch (error) {
+      handleError(error as Error, "loading earlier messages");
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const scrollToBottom = useCallback(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, []);
+
+  // Auto-scroll to bottom when new messages arrive
+  useEffect(() => {
+    if (isAtBottom && messages.length > 0) {
+      scrollToBottom();
+    }
+  }, [messages, isAtBottom, scrollToBottom]);
+
+  // Check if user is at bottom of chat
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    const handleScroll = () => {
+      const { scrollTop, scrollHeight, clientHeight } = container;
+      const atBottom = scrollTop + clientHeight >= scrollHeight - 100; // 100px threshold
+      setIsAtBottom(atBottom);
+    };
+
+    container.addEventListener('scroll', handleScroll);
+    return () => container.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  // Create the backing conversation on the first message
+  const ensureConversation = async (firstMessage: string): Promise<string> => {
+    if (conversationIdRef.current) return conversationIdRef.current;
+
+    const response = await fetch('/api/chat/conversations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: firstMessage.slice(0, 60) || 'New Chat' }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to create conversation');
+    }
+
+    const data = await response.json();
+    const id: string = data.conversation.id;
+    conversationIdRef.current = id;
+    setActiveConversationId(id);
+
+    // Update the URL without remounting the page mid-stream
+    window.history.replaceState(null, '', `/chat/${id}`);
+    return id;
+  };
+
+  // Reload the latest page of the active branch, e.g. after an edit or a branch switch
+  const reloadHistory = async (id: string) => {
+    const page = await fetchHistoryPage(id);
+    setMessages(page.messages);
+    setHasMoreHistory(page.hasMore);
+  };
+
+  const handleSendMessage = (content: string, files?: File[], code?: string) => {
+    setReplyToId(null);
+    return sendMessage(content, { files, code, replyToMessageId: replyToId ?? undefined });
+  };
+
+  // Send a message, or with editMessageId resend an earlier one as a new branch
+  const sendMessage = async (
+    content: string,
+    options: { files?: File[]; code?: string; editMessageId?: string; replyToMessageId?: string } = {}
+  ) => {
+    const { files, code, editMessageId, replyToMessageId } = options;
+    const tempUserId = `msg-${Date.now()}-user`;
+    const assistantId = `msg-${Date.now()}-ai`;
+    let userMessageId = tempUserId;
+
+    try {
+      // Add user message
+      const userMessage: Message = {
+        id: tempUserId,
+        role: "user",
+        content,
+        timestamp: new Date(),
+        files,
+        replyToMessageId,
+      };
+
+      // An edit replaces the original message and everything after it
+      setMessages(prev => {
+        const editIndex = editMessageId ? prev.findIndex(msg => msg.id === editMessageId) : -1;
+        return [...(editIndex === -1 ? prev : prev.slice(0, editIndex)), userMessage];
+      });
+      setIsLoading(true);
+      announce("Message sent", "polite");
+      
+      // Auto-scroll to bottom when user sends a message
+      setIsAtBottom(true);
+
+      const conversationId = await ensureConversation(content);
+      const messageContent = code ? `${content}\n\n\`\`\`\n${code}\n\`\`\`` : content;
+
+      await chatStream.send({ conversationId, content: messageContent, editMessageId, replyToMessageId }, {
+        onStart: (savedMessage) => {
+          userMessageId = savedMessage.id;
+          setMessages(prev => [
+            ...prev.map(msg => msg.id === tempUserId ? { ...msg, id: savedMessage.id } : msg),
+            {
+              id: assistantId,
+              role: "assistant",
+              content: "",
+              timestamp: new Date(),
+              isStreaming: true,
+            },
+          ]);
+          setIsLoading(false);
+          announce("AI is responding", "polite");
+        },
+        onDelta: (delta) => {
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === assistantId ? { ...msg, content: msg.content + delta } : msg
+            )
+          );
+        },
+        onDone: (savedMessage) => {
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === assistantId
+                ? { ...msg, id: savedMessage.id, content: savedMessage.content, isStreaming: false, truncated: savedMessage.truncated }
+                : msg
+            )
+          );
+          announce("AI response complete", "polite");
+        },
+        onAbort: () => {
+          setMessages(prev =>
+            prev.find(msg => msg.id === assistantId)?.content
+              ? prev.map(msg => msg.id === assistantId ? { ...msg, isStreaming: false, truncated: true } : msg)
+              : prev.filter(msg => msg.id !== assistantId && msg.id !== userMessageId) // nothing was saved
+          );
+          setIsLoading(false);
+          announce("AI response stopped", "polite");
+        },
+      });
+
+      loadConversations();
+      if (editMessageId) {
+        // Pick up the new branch counters
+        await reloadHistory(conversationId);
+      }
+
+    } catch (error) {
+      setIsLoading(false);
+      setMessages(prev => {
+        // Without any reply text the server takes the message back as well, so Retry doesn't repeat it
+        if (!prev.find(msg => msg.id === assistantId)?.content) {
+          return prev.filter(msg => msg.id !== assistantId && msg.id !== userMessageId);
+        }
+        return prev.map(msg => msg.id === assistantId ? { ...msg, isStreaming: false } : msg);
+      });
+      handleError(error as Error, "sending message");
+      
+      showNotification(notificationUtils.error(
+        "Failed to send message",
+        "Please check your connection and try again",
+        [{
+          label: "Retry",
+          action: () => sendMessage(content, options),
+          style: "primary"
+        }]
+      ));
+    }
+  };
+
+  // Command palette and search keyboard shortcuts
+  const handleGlobalKeyDown = useCallback((e: KeyboardEvent) => {
+    if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
+      e.preventDefault();
+      setIsCommandPaletteOpen(true);
+    } else if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      setIsCommandPaletteOpen(false);
+      setSearch({ isOpen: true, query: "" });
+    }
+  }, []);
+
+  useEffect(() => {
+    document.addEventListener('keydown', handleGlobalKeyDown);
+    return () => document.removeEventListener('keydown', handleGlobalKeyDown);
+  }, [handleGlobalKeyDown]);
+
+  const handleNewChat = () => {
+    chatStream.stop();
+    conversationIdRef.current = null;
+    setActiveConversationId(null);
+    setMessages([]);
+    setHasMoreHistory(false);
+    setReplyToId(null);
+    router.push('/chat');
+  };
+
+  const handleSelectConversation = (id: string) => {
+    if (id === conversationIdRef.current) return;
+    chatStream.stop();
+    router.push(`/chat/${id}`);
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat/conversations/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete conversation');
+      }
+
+      setConversations(prev => prev.filter(conv => conv.id !== id));
+      if (id === conversationIdRef.current) {
+        handleNewChat();
+      }
+    } catch (error) {
+      handleError(error as Error, "deleting conversation");
+    }
+  };
+
+  // Clearing a saved chat starts a fresh conversation; history stays available in the sidebar
+  const handleClearChat = () => {
+    handleNewChat();
+  };
+
+  const handleSettings = () => {
+    router.push('/settings');
+  };
+
+  const handleOpenSearch = (query: string = "") => {
+    setSearch({ isOpen: true, query });
+  };
+
+  const handleCloseSearch = useCallback(() => {
+    setSearch(prev => ({ ...prev, isOpen: false }));
+  }, []);
+
+  const handleExportChat = () => {
+    const chatContent = messages.map(msg => 
+      `${msg.role.toUpperCase()}: ${msg.content}`
+    ).join('\n\n');
+    
+    const blob = new Blob([chatContent], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `chat-${new Date().toISOString().split('T')[0]}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopyMessage = (content: string) => {
+    navigator.clipboard.writeText(content);
+  };
+
+  const handleFeedback = async (messageId: string, type: 'positive' | 'negative', details?: FeedbackDetails) => {
+    try {
+      const response = await fetch('/api/chat/messages', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, feedback: type, reasons: details?.reasons, note: details?.note }),
+      });
+      if (!response.ok) throw new Error('Failed to save feedback');
+
+      const data = await response.json();
+      if (data.reviewCardId && !details) {
+        showNotification(notificationUtils.info('Added to your review queue', 'This answer will come up in your next review.'));
+      }
+    } catch (error) {
+      showNotification(notificationUtils.error('Feedback not saved', (error as Error).message));
+    }
+  };
+
+
+
+  // Enhanced message action handlers - simplified without toast spam
+  const handleEditMessage = (messageId: string, content: string) => {
+    if (isLoading || chatStream.isStreaming) return;
+    sendMessage(content, { editMessageId: messageId });
+  };
+
+  // Replace an answer with a freshly generated one; the old answer stays as a sibling branch
+  const handleRegenerate = async (messageId: string) => {
+    const id = conversationIdRef.current;
+    if (!id || isLoading || chatStream.isStreaming) return;
+
+    const assistantId = `msg-${Date.now()}-ai`;
+    setMessages(prev => {
+      const index = prev.findIndex(msg => msg.id === messageId);
+      return [
+        ...(index === -1 ? prev : prev.slice(0, index)),
+        { id: assistantId, role: "assistant", content: "", timestamp: new Date(), isStreaming: true },
+      ];
+    });
+    announce("Regenerating response", "polite");
+
+    try {
+      await chatStream.regenerate(messageId, {}, {
+        onDelta: (delta) => {
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === assistantId ? { ...msg, content: msg.content + delta } : msg
+            )
+          );
+        },
+        onDone: (savedMessage) => {
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === assistantId
+                ? { ...msg, id: savedMessage.id, content: savedMessage.content, isStreaming: false, truncated: savedMessage.truncated }
+                : msg
+            )
+          );
+          announce("AI response complete", "polite");
+        },
+        onAbort: () => {
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === assistantId ? { ...msg, isStreaming: false, truncated: true } : msg
+            )
+          );
+        },
+      });
+    } catch (error) {
+      handleError(error as Error, "regenerating response");
+    }
+
+    // Pick up the branch counters, or restore the previous answer if nothing was saved
+    try {
+      await reloadHistory(id);
+    } catch (error) {
+      handleError(error as Error, "loading conversation");
+    }
+  };
+
+  const handlePreferMessage = async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/chat/messages/${messageId}/prefer`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to save your choice');
+
+      setMessages(prev =>
+        prev.map(msg => msg.id === messageId ? { ...msg, preferred: true } : msg)
+      );
+      showNotification(notificationUtils.success('Preference saved', 'Thanks, this helps improve your answers.'));
+    } catch (error) {
+      showNotification(notificationUtils.error('Could not save your choice', (error as Error).message));
+    }
+  };
+
+  const handleSwitchBranch = async (message: Message, direction: -1 | 1) => {
+    const id = conversationIdRef.current;
+    const target = message.branch?.siblingIds[message.branch.index + direction];
+    if (!id || !target || chatStream.isStreaming) return;
+
+    try {
+      const response = await fetch(`/api/chat/conversations/${id}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId: target }),
+      });
+      if (!response.ok) throw new Error('Failed to switch branch');
+
+      await reloadHistory(id);
+    } catch (error) {
+      handleError(error as Error, "switching branch");
+    }
+  };
+
+  const handleShareMessage = (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    if (message) {
+      navigator.clipboard.writeText(message.content);
+    }
+  };
+
+  // Toggle one of the user's reactions to a message
+  const handleReactToMessage = async (messageId: string, emoji: ReactionEmoji) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return;
+
+    const reacted = message.reactions?.includes(emoji) ?? false;
+    try {
+      const response = reacted
+        ? await fetch(`/api/chat/messages/${messageId}/reactions?${new URLSearchParams({ emoji })}`, { method: 'DELETE' })
+        : await fetch(`/api/chat/messages/${messageId}/reactions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ emoji }),
+          });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to update reaction');
+
+      setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, reactions: data.reactions } : msg));
+    } catch (error) {
+      handleError(error as Error, "updating reaction");
+    }
+  };
+
+  // Save an answer to the Saved view, or remove it if it is already there
+  const handleBookmarkMessage = async (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return;
+
+    try {
+      const response = await fetch(`/api/chat/messages/${messageId}/bookmark`, {
+        method: message.bookmarked ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: message.bookmarked ? undefined : JSON.stringify({}),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to save message');
+
+      setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, bookmarked: !message.bookmarked } : msg));
+      if (!message.bookmarked) {
+        showNotification(notificationUtils.success('Saved for review', 'Find it with your saved answers and in your review queue.', [{
+          label: 'View saved',
+          action: () => router.push('/chat/saved'),
+          style: 'primary',
+        }]));
+      }
+    } catch (error) {
+      showNotification(notificationUtils.error('Could not save message', (error as Error).message));
+    }
+  };
+
+  const handleReplyToMessage = (messageId: string) => {
+    setReplyToId(messageId);
+  };
+
+  // Start of the quoted message, when it is loaded
+  const getReplyQuote = (messageId?: string | null) => {
+    if (!messageId) return null;
+    const quoted = messages.find(msg => msg.id === messageId);
+    return quoted ? quoteForReply(quoted.content) : 'An earlier message';
+  };
+
+  // Enhanced commands with actual functionality
+  const enhancedCommands = defaultCommands.map(cmd => ({
+    ...cmd,
+    action: () => {
+      switch (cmd.id) {
+        case 'clear-chat':
+          handleClearChat();
+          break;
+        case 'export-chat':
+          handleExportChat();
+          break;
+        case 'new-chat':
+          handleNewChat();
+          break;
+        case 'open-roadmap':
+          router.push('/roadmap');
+          break;
+        case 'open-review':
+          router.push('/review');
+          break;
+        case 'open-saved':
+          router.push('/chat/saved');
+          break;
+        case 'search-messages':
+          handleOpenSearch();
+          break;
+        default:
+          cmd.action();
+      }
+    }
+  }));
+
+  return (
+    <div className="flex flex-col min-h-screen pl-20 sm:pl-24 lg:pl-72">
+      {/* Conversation list */}
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeConversationId}
+        isLoading={isLoadingConversations}
+        onSelect={handleSelectConversation}
+        onNew={handleNewChat}
+        onDelete={handleDeleteConversation}
+      />
+
+      {/* Messages */}
+      <div 
+        ref={messagesContainerRef}
+        className="flex-1 overflow-y-auto" 
+        id="messages-container"
+      >
+        <div className="mx-auto max-w-4xl px-4 py-6 space-y-6">
+          {hasMoreHistory && (
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={handleLoadEarlier}
+                disabled={isLoadingHistory}
+                className="glass-card px-4 py-2 rounded-lg text-xs text-text-secondary hover:text-text-primary disabled:opacity-50 transition-all"
+              >
+                {isLoadingHistory ? 'Loading...' : 'Load earlier messages'}
+              </button>
+            </div>
+          )}
+
+          {isLoadingHistory && messages.length === 0 ? (
+            <LoadingSkeleton variant="message" lines={3} />
+          ) : messages.length === 0 ? (
+            <div className="text-center py-12">
+              <h2 className="text-xl font-semibold text-text-primary mb-2">
+                Start a new conversation
+              </h2>
+              <p className="text-text-muted">
+                Ask me anything about coding, system design, or development best practices.
+              </p>
+            </div>
+          ) : (
+            messages.map((message, index) => (
+              <div
+                key={message.id}
+                className={featureDetection.shouldUseAnimations() ? "animate-message-appear" : ""}
+                style={{ 
+                  animationDelay: featureDetection.shouldUseAnimations() ? `${index * 100}ms` : '0ms',
+                  animationFillMode: 'both'
+                }}
+              >
+                <ChatMessage
+                  role={message.role}
+                  content={message.content}
+                  isStreaming={message.isStreaming}
+                  truncated={message.truncated}
+                  files={message.files}
+                  timestamp={message.timestamp}
+                  onCopy={handleCopyMessage}
+                  onFeedback={(type, details) => handleFeedback(message.id, type, details)}
+                  onEdit={(content) => handleEditMessage(message.id, content)}
+                  branch={message.branch}
+                  onSwitchBranch={(direction) => handleSwitchBranch(message, direction)}
+                  model={message.model}
+                  preferred={message.preferred}
+                  onRegenerate={message.role === "assistant" ? () => handleRegenerate(message.id) : undefined}
+                  onPrefer={() => handlePreferMessage(message.id)}
+                  onShare={() => handleShareMessage(message.id)}
+                  reactions={message.reactions}
+                  onReact={(emoji) => handleReactToMessage(message.id, emoji)}
+                  bookmarked={message.bookmarked}
+                  onBookmark={message.role === "assistant" ? () => handleBookmarkMessage(message.id) : undefined}
+                  replyTo={getReplyQuote(message.replyToMessageId)}
+                  onReply={() => handleReplyToMessage(message.id)}
+                  onStop={chatStream.stop}
+                />
+              </div>
+            ))
+          )}
+
+          {/* Enhanced Loading State */}
+          {isLoading && (
+            <div className="animate-message-appear">
+              <LoadingSkeleton variant="message" lines={3} />
+            </div>
+          )}
+          
+          {/* Scroll anchor */}
+          <div ref={messagesEndRef} />
+        </div>
+        
+        {/* Scroll to bottom padding */}
+        <div className="h-32" />
+      </div>
+
+      {/* Scroll to bottom button */}
+      {!isAtBottom && (
+        <button
+          type="button"
+          onClick={scrollToBottom}
+          className="fixed bottom-24 right-8 glass-card p-3 rounded-full shadow-lg hover:scale-105 transition-all z-10"
+          title="Scroll to bottom"
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" className="text-text-secondary" aria-hidden="true">
+            <path d="M7 13l5 5 5-5M7 6l5 5 5-5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+        </button>
+      )}
+
+      {/* Input */}
+      <ChatInput
+        onSendMessage={handleSendMessage}
+        isLoading={isLoading || chatStream.isStreaming}
+        replyTo={getReplyQuote(replyToId)}
+        onCancelReply={() => setReplyToId(null)}
+      />
+
+      {/* Floating Actions */}
+      <FloatingActions
+        progress={85}
+        onClear={handleClearChat}
+        onExport={handleExportChat}
+        onSettings={handleSettings}
+        onSearch={() => handleOpenSearch()}
+      />
+
+      {/* Command Palette */}
+      <CommandPalette
+        isOpen={isCommandPaletteOpen}
+        onClose={() => setIsCommandPaletteOpen(false)}
+        commands={enhancedCommands}
+        onSearch={handleOpenSearch}
+      />
+
+      {/* Conversation Search */}
+      <ChatSearch
+        isOpen={search.isOpen}
+        initialQuery={search.query}
+        onClose={handleCloseSearch}
+        onSelect={handleSelectConversation}
+      />
+
+
+    </div>
+  );
+}
@@ -2,7 +2,10 @@
 
 import { useState, useRef } from "react";
 import dynamic from "next/dynamic";
-import { CopyIcon, ExpandIcon } from "@/components/icons/Icons";
+import { CopyIcon, ExpandIcon, PlayIcon } from "@/components/icons/Icons";
+import { isExecutionLanguage, type ExecutionResult } from "@/lib/execution/languages";
+import type { JudgeResult } from "@/lib/execution/judge";
+import { JudgeResults } from "./JudgeResults";
 
 // Dynamically import Monaco Editor to avoid SSR issues
 const Editor = dynamic(() => import("@monaco-editor/react"), {
@@ -23,6 +26,7 @@ interface CodeEditorProps {
   onToggleExpand?: () => void;
   readOnly?: boolean;
   className?: string;
+  questionId?: string; // enables Submit, judging the code against the question's test cases
 }
 
 const SUPPORTED_LANGUAGES = [
@@ -54,11 +58,21 @@ export function CodeEditor({
   isExpanded = false,
   onToggleExpand,
   readOnly = false,
-  className = ""
+  className = "",
+  questionId
 }: CodeEditorProps) {
   const [code, setCode] = useState(initialCode);
   const [selectedLanguage, setSelectedLanguage] = useState(language);
+  const [stdin, setStdin] = useState("");
+  const [showStdin, setShowStdin] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runResult, setRunResult] = useState<ExecutionResult | null>(null);
+  const [runError, setRunError] = useState("");
+  const [judgeResult, setJudgeResult] = useState<JudgeResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const startedAtRef = useRef(Date.now());
   const editorRef = useRef<any>(null);
+  const canRun = isExecutionLanguage(selectedLanguage);
 
   const handleEditorDidMount = (editor: any, monaco: any) => {
     editorRef.current = editor;
@@ -105,6 +119,70 @@ export function CodeEditor({
     onInsert?.(code);
   };
 
+  const handleRun = async () => {
+    setIsRunning(true);
+    setRunError("");
+
+    try {
+      const response = await fetch('/api/execute', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language: selectedLanguage, code, stdin }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run code');
+      }
+      setRunResult(data.result);
+      setJudgeResult(null);
+    } catch (err) {
+      setRunResult(null);
+      setJudgeResult(null);
+      setRunError(err instanceof Error ? err.message : 'Failed to run code');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!questionId) return;
+    setIsSubmitting(true);
+    setRunError("");
+
+    try {
+      const response = await fetch(`/api/questions/${questionId}/judge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          language: selectedLanguage,
+          code,
+          mode: 'submit',
+          timeSpent: Math.round((Date.now() - startedAtRef.current) / 1000),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit code');
+      }
+      setJudgeResult(data.result);
+      setRunResult(null);
+    } catch (err) {
+      setJudgeResult(null);
+      setRunResult(null);
+      setRunError(err instanceof Error ? err.message : 'Failed to submit code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const describeRun = (result: ExecutionResult) => {
+    if (result.compileError) return 'Compilation failed';
+    if (result.timedOut) return 'Time limit exceeded';
+    if (result.outputTruncated) return 'Output limit exceeded';
+    if (result.signal) return `Killed (${result.signal})`;
+    return `Exited with code ${result.exitCode}`;
+  };
+
   const height = isExpanded ? "80vh" : "300px";
 
   return (
@@ -131,6 +209,39 @@ export function CodeEditor({
         </div>
 
         <div className="flex items-center gap-2">
+          {canRun && (
+            <>
+              <button
+                type="button"
+                onClick={() => setShowStdin(!showStdin)}
+                className={`px-2 py-1 text-xs rounded transition-colors ${showStdin ? 'text-text-primary bg-bg-tertiary' : 'text-text-muted hover:text-text-secondary'}`}
+                title="Program input"
+              >
+                stdin
+              </button>
+              <button
+                type="button"
+                onClick={handleRun}
+                disabled={isRunning || !code.trim()}
+                className="flex items-center gap-1 px-3 py-1 text-xs bg-neon-green/20 text-neon-green rounded hover:bg-neon-green/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Run code"
+              >
+                <PlayIcon size={12} />
+                {isRunning ? 'Running...' : 'Run'}
+              </button>
+              {questionId && (
+                <button
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={isSubmitting || isRunning || !code.trim()}
+                  className="px-3 py-1 text-xs bg-electric-blue text-white rounded hover:bg-electric-blue/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title="Judge against the test cases"
+                >
+                  {isSubmitting ? 'Judging...' : 'Submit'}
+                </button>
+              )}
+            </>
+          )}
           {onInsert && (
             <button
               onClick={handleInsert}
@@ -193,6 +304,53 @@ export function CodeEditor({
           }}
         />
       </div>
+
+      {/* Program input */}
+      {canRun && showStdin && (
+        <div className="border-t border-white/10 p-3">
+          <label htmlFor="code-editor-stdin" className="block text-xs text-text-muted mb-1">Input (stdin)</label>
+          <textarea
+            id="code-editor-stdin"
+            value={stdin}
+            onChange={(e) => setStdin(e.target.value)}
+            rows={3}
+            className="w-full bg-bg-tertiary border border-glass-border rounded px-2 py-1 text-xs text-text-primary font-mono resize-y"
+          />
+        </div>
+      )}
+
+      {/* Output */}
+      {canRun && (runResult || judgeResult || runError) && (
+        <div className="border-t border-white/10 p-3 space-y-2">
+          {runError ? (
+            <p className="text-xs text-red-400">{runError}</p>
+          ) : judgeResult ? (
+            <JudgeResults result={judgeResult} />
+          ) : runResult && (
+            <>
+              <div className="flex items-center justify-between text-xs">
+                <span className={runResult.exitCode === 0 && !runResult.timedOut ? 'text-neon-green' : 'text-red-400'}>
+                  {describeRun(runResult)}
+                </span>
+                <span className="text-text-muted">{runResult.durationMs} ms</span>
+              </div>
+              {runResult.stdout && (
+                <pre className="max-h-48 overflow-auto bg-bg-tertiary rounded p-2 text-xs text-text-primary whitespace-pre-wrap">
+                  {runResult.stdout}
+                </pre>
+              )}
+              {runResult.stderr && (
+                <pre className="max-h-48 overflow-auto bg-red-500/10 rounded p-2 text-xs text-red-300 whitespace-pre-wrap">
+                  {runResult.stderr}
+                </pre>
+              )}
+              {!runResult.stdout && !runResult.stderr && (
+                <p className="text-xs text-text-muted">No output</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
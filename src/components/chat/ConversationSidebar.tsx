@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { ClearIcon, XIcon } from "@/components/icons/Icons";
+
+export interface ConversationSummary {
+  id: string;
+  title: string | null;
+  context: string | null;
+  messageCount: number | null;
+  lastMessageAt: string | null;
+  createdAt: string | null;
+}
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId?: string | null;
+  isLoading?: boolean;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onDelete?: (conversationId: string) => void;
+}
+
+/**
+ * Parse a SQLite `datetime('now')` value (UTC, no timezone suffix)
+ */
+export function parseDbTimestamp(value: string | null | undefined): Date {
+  if (!value) return new Date();
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function formatRelativeDate(value: string | null): string {
+  if (!value) return '';
+  const date = parseDbTimestamp(value);
+  const diffDays = Math.floor((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000));
+
+  if (diffDays <= 0) return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (diffDays === 1) return 'Yesterday';
+  if (diffDays < 7) return `${diffDays} days ago`;
+  return date.toLocaleDateString();
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  isLoading = false,
+  onSelect,
+  onNew,
+  onDelete
+}: ConversationSidebarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleSelect = (conversationId: string) => {
+    onSelect(conversationId);
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      {/* Mobile toggle */}
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="lg:hidden fixed top-20 left-4 z-40 glass-card px-3 py-2 rounded-lg text-xs text-text-secondary hover:text-text-primary transition-all"
+        aria-expanded={isOpen}
+        aria-controls="conversation-sidebar"
+      >
+        {isOpen ? 'Close' : 'Chats'}
+      </button>
+
+      <aside
+        id="conversation-sidebar"
+        aria-label="Conversations"
+        className={`
+          fixed top-20 bottom-0 left-0 z-30 w-64 p-4 flex flex-col gap-3
+          bg-bg-primary/95 lg:bg-transparent border-r border-white/5
+          transition-transform duration-200
+          ${isOpen ? 'translate-x-0' : '-translate-x-full'} lg:translate-x-0
+        `}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xs font-medium text-text-secondary uppercase tracking-wide">
+            Conversations
+          </h2>
+          <button
+            type="button"
+            onClick={() => setIsOpen(false)}
+            className="lg:hidden text-text-muted hover:text-text-primary"
+            title="Close"
+          >
+            <XIcon size={14} />
+          </button>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => {
+            onNew();
+            setIsOpen(false);
+          }}
+          className="w-full px-3 py-2 rounded-lg text-sm font-medium text-white bg-electric-blue/20 hover:bg-electric-blue/30 border border-electric-blue/30 transition-all"
+        >
+          + New chat
+        </button>
+
+        <nav className="flex-1 overflow-y-auto -mx-1 px-1 space-y-1">
+          {isLoading && conversations.length === 0 ? (
+            <p className="text-xs text-text-muted px-2 py-3">Loading conversations...</p>
+          ) : conversations.length === 0 ? (
+            <p className="text-xs text-text-muted px-2 py-3">No conversations yet.</p>
+          ) : (
+            conversations.map(conversation => {
+              const isActive = conversation.id === activeId;
+              return (
+                <div
+                  key={conversation.id}
+                  className={`group flex items-center gap-2 rounded-lg px-3 py-2 transition-all ${
+                    isActive ? 'bg-white/10 text-text-primary' : 'text-text-secondary hover:bg-white/5 hover:text-text-primary'
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(conversation.id)}
+                    className="flex-1 min-w-0 text-left"
+                    aria-current={isActive ? 'page' : undefined}
+                  >
+                    <span className="block text-sm truncate">
+                      {conversation.title || 'New Chat'}
+                    </span>
+                    <span className="block text-[11px] text-text-muted">
+                      {formatRelativeDate(conversation.lastMessageAt || conversation.createdAt)}
+                    </span>
+                  </button>
+                  {onDelete && (
+                    <button
+                      type="button"
+                      onClick={() => onDelete(conversation.id)}
+                      className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-text-muted hover:text-red-400 transition-all"
+                      title="Delete conversation"
+                    >
+                      <ClearIcon size={14} />
+                    </button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </nav>
+      </aside>
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import type { JudgeResult, JudgeVerdict } from "@/lib/execution/judge";
+
+const VERDICT_LABELS: Record<JudgeVerdict, { short: string; label: string; className: string }> = {
+  accepted: { short: 'AC', label: 'Accepted', className: 'text-neon-green' },
+  wrong_answer: { short: 'WA', label: 'Wrong Answer', className: 'text-red-400' },
+  time_limit_exceeded: { short: 'TLE', label: 'Time Limit Exceeded', className: 'text-yellow-400' },
+  runtime_error: { short: 'RE', label: 'Runtime Error', className: 'text-red-400' },
+  compile_error: { short: 'CE', label: 'Compilation Error', className: 'text-red-400' },
+};
+
+interface JudgeResultsProps {
+  result: JudgeResult;
+}
+
+export function JudgeResults({ result }: JudgeResultsProps) {
+  const overall = VERDICT_LABELS[result.verdict];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs">
+        <span className={`font-medium ${overall.className}`}>{overall.label}</span>
+        <span className="text-text-muted">
+          {result.passed}/{result.total} tests passed • max {result.stats.maxDurationMs} ms • avg {result.stats.averageDurationMs} ms
+        </span>
+      </div>
+
+      {result.compileOutput && (
+        <pre className="max-h-48 overflow-auto bg-red-500/10 rounded p-2 text-xs text-red-300 whitespace-pre-wrap">
+          {result.compileOutput}
+        </pre>
+      )}
+
+      <div className="space-y-2">
+        {result.cases.map(testCase => {
+          const verdict = VERDICT_LABELS[testCase.verdict];
+          return (
+            <div key={testCase.index} className="bg-bg-tertiary rounded p-2 text-xs space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-text-secondary">
+                  Test {testCase.index + 1}{testCase.hidden && ' (hidden)'}
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="text-text-muted">{testCase.durationMs} ms</span>
+                  <span className={`font-mono ${verdict.className}`} title={verdict.label}>{verdict.short}</span>
+                </span>
+              </div>
+
+              {!testCase.hidden && testCase.verdict !== 'accepted' && (
+                <>
+                  {testCase.input && (
+                    <pre className="text-text-muted whitespace-pre-wrap">Input: {testCase.input}</pre>
+                  )}
+                  {testCase.diff && testCase.diff.length > 0 && (
+                    <div className="font-mono space-y-0.5">
+                      {testCase.diff.map(line => (
+                        <div key={line.line}>
+                          <div className="text-neon-green whitespace-pre-wrap">Line {line.line} expected: {line.expected ?? '(nothing)'}</div>
+                          <div className="text-red-400 whitespace-pre-wrap">Line {line.line} got: {line.actual ?? '(nothing)'}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {testCase.stderr && (
+                    <pre className="max-h-32 overflow-auto text-red-300 whitespace-pre-wrap">{testCase.stderr}</pre>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { GlassCard } from "@/components/base/GlassCard";
+import { MarkdownRenderer } from "@/components/chat/MarkdownRenderer";
+import { parseDbTimestamp } from "@/components/chat/ConversationSidebar";
+import { LoadingSkeleton } from "@/components/ui/LoadingSkeleton";
+import { useNotifications, notificationUtils } from "@/components/ui/NotificationSystem";
+import { useAuth } from "@/lib/auth/AuthContext";
+import { SEARCH_CONTEXTS } from "@/lib/chat/search";
+import { SAVED_PAGE_SIZE, type SavedMessage, type SavedMessagesPage } from "@/lib/chat/annotations";
+
+export function SavedMessages() {
+  const [items, setItems] = useState<SavedMessage[]>([]);
+  const [tags, setTags] = useState<SavedMessagesPage["tags"]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState("");
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { showNotification } = useNotifications();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.push("/");
+    }
+  }, [user, isAuthLoading, router]);
+
+  const loadPage = useCallback(async (tag: string | null, offset: number) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(SAVED_PAGE_SIZE), offset: String(offset) });
+      if (tag) params.set("tag", tag);
+
+      const response = await fetch(`/api/chat/bookmarks?${params}`);
+      if (!response.ok) throw new Error("Failed to load saved answers");
+
+      const data: SavedMessagesPage = await response.json();
+      setItems((prev) => (offset === 0 ? data.items : [...prev, ...data.items]));
+      setTags(data.tags);
+      setTotal(data.total);
+      setHasMore(data.hasMore);
+    } catch (error) {
+      console.error("Failed to load saved answers:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadPage(activeTag, 0);
+    }
+  }, [user, activeTag, loadPage]);
+
+  const startEditingTags = (item: SavedMessage) => {
+    setEditingId(item.messageId);
+    setTagDraft(item.tags.join(", "));
+  };
+
+  const handleSaveTags = async (item: SavedMessage) => {
+    try {
+      const response = await fetch(`/api/chat/messages/${item.messageId}/bookmark`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tags: tagDraft.split(",") }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Failed to save tags");
+
+      setEditingId(null);
+      // Tag counts and the current filter may both change
+      loadPage(activeTag, 0);
+    } catch (error) {
+      showNotification(notificationUtils.error("Tags not saved", (error as Error).message));
+    }
+  };
+
+  const handleRemove = async (item: SavedMessage) => {
+    try {
+      const response = await fetch(`/api/chat/messages/${item.messageId}/bookmark`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to remove saved answer");
+
+      setItems((prev) => prev.filter((saved) => saved.messageId !== item.messageId));
+      setTotal((count) => count - 1);
+      setTags((prev) => prev
+        .map((entry) => (item.tags.includes(entry.tag) ? { ...entry, count: entry.count - 1 } : entry))
+        .filter((entry) => entry.count > 0));
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't remove saved answer", (error as Error).message));
+    }
+  };
+
+  const handleAddToReview = async (item: SavedMessage) => {
+    try {
+      const response = await fetch("/api/review/cards", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId: item.messageId }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Failed to add card");
+
+      showNotification(notificationUtils.success("Added to your review queue", "This answer will come up in your next review."));
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't add to review", (error as Error).message));
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Saved answers</h1>
+        <button
+          type="button"
+          onClick={() => router.push("/chat")}
+          className="px-4 py-2 rounded-md bg-white/5 hover:bg-white/10 text-sm"
+        >
+          Back to chat
+        </button>
+      </header>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setActiveTag(null)}
+            className={`px-3 py-1 rounded-full text-xs ${activeTag === null ? "bg-[var(--electric-blue)]/20 text-[var(--electric-blue)]" : "bg-white/5 hover:bg-white/10"}`}
+          >
+            All
+          </button>
+          {tags.map(({ tag, count }) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => setActiveTag(tag === activeTag ? null : tag)}
+              className={`px-3 py-1 rounded-full text-xs ${activeTag === tag ? "bg-[var(--electric-blue)]/20 text-[var(--electric-blue)]" : "bg-white/5 hover:bg-white/10"}`}
+            >
+              #{tag} <span className="text-[var(--text-secondary)]">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading && items.length === 0 ? (
+        <LoadingSkeleton variant="message" lines={4} />
+      ) : items.length === 0 ? (
+        <p className="py-12 text-center text-[var(--text-secondary)]">
+          {activeTag
+            ? `No saved answers tagged #${activeTag}.`
+            : "Nothing saved yet. Use Save on an answer in the chat to keep it here."}
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-[var(--text-secondary)]">
+            {total} {total === 1 ? "answer" : "answers"}{activeTag && ` tagged #${activeTag}`}
+          </p>
+
+          {items.map((item) => (
+            <GlassCard key={item.messageId} className="p-6 space-y-4">
+              <div className="flex items-center justify-between gap-4 text-xs text-[var(--text-secondary)]">
+                <button
+                  type="button"
+                  onClick={() => router.push(`/chat/${item.conversationId}`)}
+                  className="truncate hover:text-[var(--text-primary)]"
+                  title="Open conversation"
+                >
+                  {item.conversationTitle || "Untitled conversation"}
+                  {item.context && SEARCH_CONTEXTS[item.context] && ` • ${SEARCH_CONTEXTS[item.context]}`}
+                </button>
+                <span className="flex-shrink-0">Saved {parseDbTimestamp(item.savedAt).toLocaleDateString()}</span>
+              </div>
+
+              <div className="max-h-96 overflow-y-auto">
+                <MarkdownRenderer content={item.content} />
+              </div>
+
+              {item.note && (
+                <p className="text-sm italic text-[var(--text-secondary)]">{item.note}</p>
+              )}
+
+              {editingId === item.messageId ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    value={tagDraft}
+                    onChange={(e) => setTagDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleSaveTags(item);
+                      else if (e.key === "Escape") setEditingId(null);
+                    }}
+                    placeholder="graphs, bfs"
+                    aria-label="Tags, separated by commas"
+                    className="flex-1 px-3 py-1.5 text-sm rounded-md bg-white/5 border border-white/10 focus:border-[var(--electric-blue)] outline-none"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleSaveTags(item)}
+                    className="px-3 py-1.5 rounded-md bg-[var(--electric-blue)]/20 hover:bg-[var(--electric-blue)]/30 text-sm"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                  {item.tags.map((tag) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => setActiveTag(tag)}
+                      className="px-2 py-0.5 rounded-full bg-white/5 hover:bg-white/10 text-xs"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => startEditingTags(item)}
+                    className="px-2 py-0.5 rounded-full text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                  >
+                    {item.tags.length > 0 ? "Edit tags" : "Add tags"}
+                  </button>
+                  <span className="flex-1" />
+                  <button
+                    type="button"
+                    onClick={() => handleAddToReview(item)}
+                    className="px-3 py-1 rounded-md bg-white/5 hover:bg-white/10 text-xs"
+                  >
+                    Add to review
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(item)}
+                    className="px-3 py-1 rounded-md text-xs text-[var(--text-secondary)] hover:text-[var(--error)]"
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            </GlassCard>
+          ))}
+
+          {hasMore && (
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={() => loadPage(activeTag, items.length)}
+                disabled={isLoading}
+                className="px-4 py-2 rounded-md bg-white/5 hover:bg-white/10 text-sm disabled:opacity-50"
+              >
+                {isLoading ? "Loading..." : "Load more"}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,38 +1,142 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { CopyIcon, ThumbsUpIcon, ThumbsDownIcon } from "@/components/icons/Icons";
+import { useState, useRef, useCallback, useEffect } from "react";
+import { CopyIcon, ThumbsUpIcon, ThumbsDownIcon, RefreshIcon } from "@/components/icons/Icons";
 import { MarkdownRenderer } from "./MarkdownRenderer";
+import { readServerSentEvents } from "@/lib/ai/http";
+import { FEEDBACK_REASONS, FEEDBACK_REASON_LABELS, MAX_FEEDBACK_NOTE_LENGTH, type FeedbackReason } from "@/lib/chat/feedback";
+import type { ChatStreamEvent, MessageRequest, MessageResponse } from "@/app/api/chat/messages/route";
 
 interface StreamingMessageProps {
   content: string;
   isStreaming?: boolean;
+  truncated?: boolean;
   onCopy?: (content: string) => void;
-  onFeedback?: (type: 'positive' | 'negative') => void;
+  onFeedback?: (type: 'positive' | 'negative', details?: FeedbackDetails) => void;
+  onRegenerate?: () => void;
+  onStop?: () => void;
+}
+
+export interface FeedbackDetails {
+  reasons: FeedbackReason[];
+  note?: string;
+}
+
+export interface ChatStreamHandlers {
+  onStart?: (userMessage: MessageResponse) => void;
+  onDelta?: (content: string) => void;
+  onDone?: (message: MessageResponse) => void;
+  onAbort?: () => void;
+}
+
+/**
+ * Send a message through the streaming chat API and consume its server-sent events
+ */
+export function useChatStream() {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight stream when the component unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const streamReply = useCallback(async (
+    url: string,
+    payload: object,
+    handlers: ChatStreamHandlers
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsStreaming(true);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...payload, stream: true }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to send message');
+      }
+
+      for await (const data of readServerSentEvents(response)) {
+        const event: ChatStreamEvent = JSON.parse(data);
+
+        if (event.type === 'start') {
+          handlers.onStart?.(event.userMessage);
+        } else if (event.type === 'delta') {
+          handlers.onDelta?.(event.content);
+        } else if (event.type === 'done') {
+          handlers.onDone?.(event.message);
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // The server keeps the partial answer and marks it as truncated
+        handlers.onAbort?.();
+        return;
+      }
+      throw error;
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsStreaming(false);
+    }
+  }, []);
+
+  const send = useCallback((
+    payload: Omit<MessageRequest, 'stream'>,
+    handlers: ChatStreamHandlers = {}
+  ) => streamReply('/api/chat/messages', payload, handlers), [streamReply]);
+
+  // Ask for another answer to the message an assistant reply responded to; onStart gets that message
+  const regenerate = useCallback((
+    messageId: string,
+    payload: { model?: string } = {},
+    handlers: ChatStreamHandlers = {}
+  ) => streamReply(`/api/chat/messages/${messageId}/regenerate`, payload, handlers), [streamReply]);
+
+  return { send, regenerate, stop, isStreaming };
 }
 
 export function StreamingMessage({ 
   content, 
   isStreaming = false,
+  truncated = false,
   onCopy,
-  onFeedback 
+  onFeedback,
+  onRegenerate,
+  onStop
 }: StreamingMessageProps) {
-  const [displayedContent, setDisplayedContent] = useState("");
-  const [currentIndex, setCurrentIndex] = useState(0);
-
-  useEffect(() => {
-    if (isStreaming && currentIndex < content.length) {
-      const timer = setTimeout(() => {
-        setDisplayedContent(content.slice(0, currentIndex + 1));
-        setCurrentIndex(currentIndex + 1);
-      }, 20); // Adjust typing speed here
-
-      return () => clearTimeout(timer);
-    } else if (!isStreaming) {
-      setDisplayedContent(content);
-      setCurrentIndex(content.length);
-    }
-  }, [content, currentIndex, isStreaming]);
+  const [showReasons, setShowReasons] = useState(false);
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [note, setNote] = useState('');
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setReasons(prev => prev.includes(reason) ? prev.filter(r => r !== reason) : [...prev, reason]);
+  };
+
+  // A thumbs down is saved right away; the reasons form refines it
+  const handleNegative = () => {
+    onFeedback?.('negative');
+    setShowReasons(true);
+  };
+
+  const handleSubmitReasons = () => {
+    onFeedback?.('negative', { reasons, note: note.trim() || undefined });
+    setShowReasons(false);
+    setReasons([]);
+    setNote('');
+  };
 
   const handleCopy = async () => {
     if (onCopy) {
@@ -48,14 +152,32 @@ export function StreamingMessage({
   return (
     <div className="group relative">
       <div className="relative">
-        <MarkdownRenderer content={displayedContent} />
-        {isStreaming && currentIndex >= displayedContent.length && (
+        <MarkdownRenderer content={content} />
+        {isStreaming && (
           <span className="inline-block w-2 h-5 bg-electric-blue animate-pulse ml-1" />
         )}
       </div>
 
+      {isStreaming && onStop && (
+        <button
+          type="button"
+          onClick={onStop}
+          className="mt-4 flex items-center gap-1.5 px-3 py-1.5 text-xs text-text-muted hover:text-text-primary bg-bg-secondary/50 hover:bg-bg-secondary border border-white/5 hover:border-white/10 rounded-lg transition-all duration-200"
+          title="Stop generating"
+        >
+          <span className="inline-block w-2.5 h-2.5 rounded-sm bg-current" />
+          <span>Stop generating</span>
+        </button>
+      )}
+
+      {!isStreaming && truncated && (
+        <p className="mt-3 text-xs text-text-muted italic">
+          Response stopped before it finished.
+        </p>
+      )}
+
       {/* Action buttons - Improved UI */}
-      {!isStreaming && displayedContent && (
+      {!isStreaming && content && (
         <div className="flex items-center gap-2 mt-4 opacity-0 group-hover:opacity-100 transition-all duration-200">
           <button
             onClick={handleCopy}
@@ -65,6 +187,18 @@ export function StreamingMessage({
             <CopyIcon size={14} />
             <span>Copy</span>
           </button>
+
+          {onRegenerate && (
+            <button
+              type="button"
+              onClick={onRegenerate}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-text-muted hover:text-text-primary bg-bg-secondary/50 hover:bg-bg-secondary border border-white/5 hover:border-white/10 rounded-lg transition-all duration-200 hover:scale-105"
+              title="Generate another answer"
+            >
+              <RefreshIcon size={14} />
+              <span>Regenerate</span>
+            </button>
+          )}
           
           {onFeedback && (
             <div className="flex items-center gap-1 ml-2">
@@ -76,7 +210,7 @@ export function StreamingMessage({
                 <ThumbsUpIcon size={14} />
               </button>
               <button
-                onClick={() => onFeedback('negative')}
+                onClick={handleNegative}
                 className="flex items-center justify-center w-8 h-8 text-text-muted hover:text-red-400 bg-bg-secondary/50 hover:bg-red-500/10 border border-white/5 hover:border-red-500/20 rounded-lg transition-all duration-200 hover:scale-105"
                 title="Poor response"
               >
@@ -86,6 +220,57 @@ export function StreamingMessage({
           )}
         </div>
       )}
+
+      {showReasons && onFeedback && (
+        <div className="mt-3 p-3 bg-bg-secondary/50 border border-white/10 rounded-lg space-y-3">
+          <p className="text-xs text-text-muted">What was wrong with this answer?</p>
+          <div className="flex flex-wrap gap-2">
+            {FEEDBACK_REASONS.map(reason => (
+              <label
+                key={reason}
+                className={`flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-lg border cursor-pointer transition-all duration-200 ${
+                  reasons.includes(reason)
+                    ? 'text-red-400 bg-red-500/10 border-red-500/30'
+                    : 'text-text-muted border-white/5 hover:border-white/10'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  className="sr-only"
+                  checked={reasons.includes(reason)}
+                  onChange={() => toggleReason(reason)}
+                />
+                {FEEDBACK_REASON_LABELS[reason]}
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={MAX_FEEDBACK_NOTE_LENGTH}
+            rows={2}
+            placeholder="Anything else? (optional)"
+            className="w-full px-3 py-2 text-sm bg-bg-primary/50 border border-white/10 rounded-lg text-text-primary placeholder-text-muted focus:outline-none focus:border-electric-blue/50 resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowReasons(false)}
+              className="px-3 py-1.5 text-xs text-text-muted hover:text-text-primary rounded-lg transition-all duration-200"
+            >
+              Skip
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmitReasons}
+              disabled={reasons.length === 0 && !note.trim()}
+              className="px-3 py-1.5 text-xs text-white bg-electric-blue/80 hover:bg-electric-blue disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-all duration-200"
+            >
+              Send feedback
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { GlassCard } from "@/components/base/GlassCard";
+import { LoadingSkeleton } from "@/components/ui/LoadingSkeleton";
+import { useNotifications, notificationUtils } from "@/components/ui/NotificationSystem";
+import { useAuth } from "@/lib/auth/AuthContext";
+import { interviewTypes, type InterviewTypeKey } from "@/data/onboarding";
+import type { MockInterviewResponse } from "@/lib/interview/format";
+
+const STATUS_LABELS: Record<string, string> = {
+  in_progress: 'In progress',
+  completed: 'Completed',
+  abandoned: 'Left early',
+};
+
+export function MockInterviewLauncher() {
+  const [history, setHistory] = useState<MockInterviewResponse[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [startingType, setStartingType] = useState<InterviewTypeKey | null>(null);
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { showNotification } = useNotifications();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.push('/');
+    }
+  }, [user, isAuthLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetch('/api/mock-interviews?limit=20')
+      .then(response => response.ok ? response.json() : { interviews: [] })
+      .then(data => setHistory(data.interviews))
+      .catch(error => console.error('Failed to load mock interviews:', error))
+      .finally(() => setIsLoadingHistory(false));
+  }, [user]);
+
+  const handleStart = async (type: InterviewTypeKey) => {
+    setStartingType(type);
+
+    try {
+      const response = await fetch('/api/mock-interviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start mock interview');
+      }
+
+      router.push(`/mock-interview/${data.interview.id}`);
+    } catch (error) {
+      setStartingType(null);
+      showNotification(notificationUtils.error("Couldn't start the interview", (error as Error).message));
+    }
+  };
+
+  const linkFor = (interview: MockInterviewResponse) =>
+    interview.status === 'in_progress'
+      ? `/mock-interview/${interview.id}`
+      : `/mock-interview/${interview.id}/report`;
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold text-text-primary">Mock Interview</h1>
+        <p className="text-sm text-text-muted mt-1">
+          A timed interview with an AI interviewer, scored on problem solving, communication and code quality.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {interviewTypes.map(type => (
+          <button
+            key={type.key}
+            type="button"
+            onClick={() => handleStart(type.key)}
+            disabled={startingType !== null}
+            className="glass-card rounded-lg p-5 text-left hover:bg-white/5 disabled:opacity-50 transition-colors"
+          >
+            <div className="font-medium text-text-primary">{type.label}</div>
+            <div className="text-sm text-text-muted mt-1">
+              {startingType === type.key ? 'Starting...' : type.desc}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <h2 className="text-sm font-semibold text-text-primary mb-3">Past interviews</h2>
+        {isLoadingHistory ? (
+          <LoadingSkeleton variant="message" lines={2} />
+        ) : history.length === 0 ? (
+          <p className="text-sm text-text-muted">No mock interviews yet.</p>
+        ) : (
+          <GlassCard className="divide-y divide-white/10">
+            {history.map(interview => (
+              <Link
+                key={interview.id}
+                href={linkFor(interview)}
+                className="flex items-center justify-between px-4 py-3 text-sm hover:bg-white/5 transition-colors"
+              >
+                <div>
+                  <div className="text-text-primary">
+                    {interviewTypes.find(type => type.key === interview.interviewType)?.label || interview.interviewType}
+                    {interview.question && <span className="text-text-muted"> • {interview.question.title}</span>}
+                  </div>
+                  <div className="text-xs text-text-muted">{new Date(interview.startedAt).toLocaleString()}</div>
+                </div>
+                <div className="text-right">
+                  {interview.overallScore !== null ? (
+                    <span className="text-electric-blue font-medium">{Math.round(interview.overallScore)}%</span>
+                  ) : (
+                    <span className="text-text-muted">{STATUS_LABELS[interview.status] || interview.status}</span>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { GlassCard } from "@/components/base/GlassCard";
+import { LoadingSkeleton } from "@/components/ui/LoadingSkeleton";
+import { useAuth } from "@/lib/auth/AuthContext";
+import { interviewTypes } from "@/data/onboarding";
+import { PHASE_LABELS, RUBRIC_CRITERIA, type MockInterviewPhase } from "@/lib/interview/mock";
+import type { MockInterviewResponse } from "@/lib/interview/format";
+
+function actualMinutes(startedAt: string | null, endedAt: string | null): number | null {
+  if (!startedAt || !endedAt) return null;
+  return Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 60_000);
+}
+
+interface MockInterviewReportProps {
+  interviewId: string;
+}
+
+export function MockInterviewReport({ interviewId }: MockInterviewReportProps) {
+  const [interview, setInterview] = useState<MockInterviewResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.push('/');
+    }
+  }, [user, isAuthLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetch(`/api/mock-interviews/${interviewId}`)
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Mock interview not found' : 'Failed to load report');
+        }
+        const data = await response.json();
+        if (data.interview.status === 'in_progress') {
+          router.replace(`/mock-interview/${interviewId}`);
+          return;
+        }
+        setInterview(data.interview);
+      })
+      .catch(err => setError((err as Error).message));
+  }, [interviewId, user, router]);
+
+  if (error) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12 text-center">
+        <p className="text-text-secondary mb-4">{error}</p>
+        <Link href="/mock-interview" className="text-electric-blue hover:underline">Back to mock interviews</Link>
+      </div>
+    );
+  }
+
+  if (!interview) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-6">
+        <LoadingSkeleton variant="message" lines={4} />
+      </div>
+    );
+  }
+
+  const typeLabel = interviewTypes.find(type => type.key === interview.interviewType)?.label || interview.interviewType;
+  const scorecard = interview.scorecard;
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-text-primary">{typeLabel} Mock Interview</h1>
+          <p className="text-sm text-text-muted mt-1">
+            {new Date(interview.startedAt).toLocaleString()}
+            {interview.question && ` • ${interview.question.title} (${interview.question.difficulty})`}
+          </p>
+        </div>
+        {interview.overallScore !== null && (
+          <div className="text-right">
+            <div className="text-3xl font-semibold text-electric-blue">{Math.round(interview.overallScore)}%</div>
+            <div className="text-xs text-text-muted">Overall</div>
+          </div>
+        )}
+      </div>
+
+      {!scorecard ? (
+        <GlassCard className="p-6 text-sm text-text-secondary">
+          This interview was left before the end, so it has no scorecard.
+        </GlassCard>
+      ) : (
+        <>
+          <GlassCard className="p-6 space-y-5">
+            {RUBRIC_CRITERIA.map(criterion => {
+              const rubric = scorecard[criterion.key];
+              return (
+                <div key={criterion.key}>
+                  <div className="flex items-center justify-between text-sm mb-2">
+                    <span className="font-medium text-text-primary">{criterion.label}</span>
+                    <span className="text-text-secondary">{rubric.score === null ? 'N/A' : `${rubric.score}/5`}</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                    <div className="h-full gradient-success" style={{ width: `${((rubric.score ?? 0) / 5) * 100}%` }} />
+                  </div>
+                  {rubric.notes && <p className="text-sm text-text-secondary mt-2">{rubric.notes}</p>}
+                </div>
+              );
+            })}
+          </GlassCard>
+
+          {scorecard.summary && (
+            <GlassCard className="p-6">
+              <h2 className="text-sm font-semibold text-text-primary mb-2">Summary</h2>
+              <p className="text-sm text-text-secondary">{scorecard.summary}</p>
+            </GlassCard>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <GlassCard className="p-6">
+              <h2 className="text-sm font-semibold text-neon-green mb-2">Strengths</h2>
+              <ul className="list-disc list-inside space-y-1 text-sm text-text-secondary">
+                {scorecard.strengths.map(item => <li key={item}>{item}</li>)}
+              </ul>
+            </GlassCard>
+            <GlassCard className="p-6">
+              <h2 className="text-sm font-semibold text-yellow-400 mb-2">To improve</h2>
+              <ul className="list-disc list-inside space-y-1 text-sm text-text-secondary">
+                {scorecard.improvements.map(item => <li key={item}>{item}</li>)}
+              </ul>
+            </GlassCard>
+          </div>
+        </>
+      )}
+
+      <GlassCard className="p-6">
+        <h2 className="text-sm font-semibold text-text-primary mb-3">Timing</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-text-muted text-left">
+              <th className="font-normal pb-2">Phase</th>
+              <th className="font-normal pb-2 text-right">Planned</th>
+              <th className="font-normal pb-2 text-right">Actual</th>
+            </tr>
+          </thead>
+          <tbody>
+            {interview.phases.map(record => {
+              const actual = actualMinutes(record.startedAt, record.endedAt);
+              return (
+                <tr key={record.phase} className="text-text-secondary">
+                  <td className="py-1">{PHASE_LABELS[record.phase as MockInterviewPhase]}</td>
+                  <td className="py-1 text-right">{record.plannedMinutes} min</td>
+                  <td className={`py-1 text-right ${actual !== null && actual > record.plannedMinutes ? 'text-yellow-400' : ''}`}>
+                    {actual === null ? '—' : `${actual} min`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </GlassCard>
+
+      <div className="flex items-center gap-4 text-sm">
+        {interview.conversationId && (
+          <Link href={`/chat/${interview.conversationId}`} className="text-electric-blue hover:underline">
+            View transcript
+          </Link>
+        )}
+        <Link href="/mock-interview" className="text-text-secondary hover:text-text-primary">
+          Start another interview
+        </Link>
+      </div>
+    </div>
+  );
+}
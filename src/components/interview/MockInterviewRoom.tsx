@@ -0,0 +1,372 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { ChatInput } from "@/components/chat/ChatInput";
+import { ChatMessage } from "@/components/chat/ChatMessage";
+import { useChatStream } from "@/components/chat/StreamingMessage";
+import { parseDbTimestamp } from "@/components/chat/ConversationSidebar";
+import { LoadingSkeleton } from "@/components/ui/LoadingSkeleton";
+import { useNotifications, notificationUtils } from "@/components/ui/NotificationSystem";
+import { useAuth } from "@/lib/auth/AuthContext";
+import { PHASE_LABELS, MOCK_INTERVIEW_PHASES, type MockInterviewPhase } from "@/lib/interview/mock";
+import type { MockInterviewResponse } from "@/lib/interview/format";
+
+interface RoomMessage {
+  id: string;
+  role: "assistant" | "user";
+  content: string;
+  timestamp: Date;
+  isStreaming?: boolean;
+  truncated?: boolean;
+}
+
+interface StoredMessage {
+  id: string;
+  role: "assistant" | "user";
+  content: string;
+  truncated?: boolean;
+  createdAt: string | null;
+}
+
+function toRoomMessage(message: StoredMessage): RoomMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    truncated: message.truncated,
+    timestamp: parseDbTimestamp(message.createdAt),
+  };
+}
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${ms < 0 ? '-' : ''}${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+interface MockInterviewRoomProps {
+  interviewId: string;
+}
+
+export function MockInterviewRoom({ interviewId }: MockInterviewRoomProps) {
+  const [interview, setInterview] = useState<MockInterviewResponse | null>(null);
+  const [messages, setMessages] = useState<RoomMessage[]>([]);
+  const [isLoadingInterview, setIsLoadingInterview] = useState(true);
+  const [isWaiting, setIsWaiting] = useState(false);
+  const [isAdvancing, setIsAdvancing] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const autoAdvancedPhaseRef = useRef<string | null>(null);
+  const chatStream = useChatStream();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { showNotification } = useNotifications();
+  const router = useRouter();
+
+  // showNotification is recreated on every render; keep the latest one for effects
+  const showNotificationRef = useRef(showNotification);
+  showNotificationRef.current = showNotification;
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.push('/');
+    }
+  }, [user, isAuthLoading, router]);
+
+  // Load the interview and its transcript
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/mock-interviews/${interviewId}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Mock interview not found' : 'Failed to load mock interview');
+        }
+
+        const data = await response.json();
+        const loaded: MockInterviewResponse = data.interview;
+        if (cancelled) return;
+
+        if (loaded.status === 'completed') {
+          router.replace(`/mock-interview/${interviewId}/report`);
+          return;
+        }
+        setInterview(loaded);
+
+        if (loaded.conversationId) {
+          const history = await fetch(`/api/chat/conversations/${loaded.conversationId}?limit=200`);
+          if (history.ok) {
+            const historyData = await history.json();
+            if (!cancelled) setMessages((historyData.messages as StoredMessage[]).map(toRoomMessage));
+          }
+        }
+      } catch (error) {
+        if (cancelled) return;
+        showNotificationRef.current(notificationUtils.error(
+          "Couldn't open mock interview",
+          (error as Error).message
+        ));
+        router.replace('/mock-interview');
+      } finally {
+        if (!cancelled) setIsLoadingInterview(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [interviewId, user, router]);
+
+  // Tick the phase countdown
+  useEffect(() => {
+    if (interview?.status !== 'in_progress') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [interview?.status]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const isActive = interview?.status === 'in_progress';
+  const isLastPhase = interview?.currentPhase === MOCK_INTERVIEW_PHASES[MOCK_INTERVIEW_PHASES.length - 1];
+  const remainingMs = interview?.phaseEndsAt ? new Date(interview.phaseEndsAt).getTime() - now : null;
+
+  const handleAdvance = useCallback(async () => {
+    if (!interview || isAdvancing) return;
+    setIsAdvancing(true);
+
+    try {
+      const response = await fetch(`/api/mock-interviews/${interview.id}/advance`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to move to the next phase');
+      }
+
+      setInterview(data.interview);
+      if (data.message) {
+        setMessages(prev => [...prev, toRoomMessage(data.message)]);
+      }
+    } catch (error) {
+      showNotificationRef.current(notificationUtils.error("Couldn't change phase", (error as Error).message));
+    } finally {
+      setIsAdvancing(false);
+    }
+  }, [interview, isAdvancing]);
+
+  // Move on automatically when a phase's time box runs out, once the interviewer has finished replying
+  useEffect(() => {
+    if (!interview || !isActive || isLastPhase || remainingMs === null || remainingMs > 0) return;
+    if (chatStream.isStreaming || isWaiting || autoAdvancedPhaseRef.current === interview.currentPhase) return;
+
+    autoAdvancedPhaseRef.current = interview.currentPhase;
+    handleAdvance();
+  }, [interview, isActive, isLastPhase, remainingMs, chatStream.isStreaming, isWaiting, handleAdvance]);
+
+  const handleEnd = async () => {
+    if (!interview || isGrading) return;
+    chatStream.stop();
+    setIsGrading(true);
+
+    try {
+      const response = await fetch(`/api/mock-interviews/${interview.id}/complete`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to grade the interview');
+      }
+
+      router.push(`/mock-interview/${interview.id}/report`);
+    } catch (error) {
+      setIsGrading(false);
+      showNotification(notificationUtils.error("Couldn't finish the interview", (error as Error).message, [{
+        label: "Retry",
+        action: handleEnd,
+        style: "primary",
+      }]));
+    }
+  };
+
+  const handleAbandon = async () => {
+    if (!interview) return;
+    chatStream.stop();
+
+    try {
+      const response = await fetch(`/api/mock-interviews/${interview.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to leave the interview');
+      }
+      router.push('/mock-interview');
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't leave the interview", (error as Error).message));
+    }
+  };
+
+  const handleSendMessage = async (content: string, _files?: File[], code?: string) => {
+    if (!interview?.conversationId) return;
+
+    const tempUserId = `msg-${Date.now()}-user`;
+    const assistantId = `msg-${Date.now()}-ai`;
+    const messageContent = code ? `${content}\n\n\`\`\`\n${code}\n\`\`\`` : content;
+
+    setMessages(prev => [...prev, { id: tempUserId, role: "user", content: messageContent, timestamp: new Date() }]);
+    setIsWaiting(true);
+
+    try {
+      await chatStream.send({ conversationId: interview.conversationId, content: messageContent }, {
+        onStart: (savedMessage) => {
+          setMessages(prev => [
+            ...prev.map(msg => msg.id === tempUserId ? { ...msg, id: savedMessage.id } : msg),
+            { id: assistantId, role: "assistant", content: "", timestamp: new Date(), isStreaming: true },
+          ]);
+          setIsWaiting(false);
+        },
+        onDelta: (delta) => {
+          setMessages(prev =>
+            prev.map(msg => msg.id === assistantId ? { ...msg, content: msg.content + delta } : msg)
+          );
+        },
+        onDone: (savedMessage) => {
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === assistantId
+                ? { ...msg, id: savedMessage.id, content: savedMessage.content, isStreaming: false, truncated: savedMessage.truncated }
+                : msg
+            )
+          );
+        },
+        onAbort: () => {
+          setMessages(prev =>
+            prev.map(msg => msg.id === assistantId ? { ...msg, isStreaming: false, truncated: true } : msg)
+          );
+          setIsWaiting(false);
+        },
+      });
+    } catch (error) {
+      setIsWaiting(false);
+      setMessages(prev => prev.map(msg => msg.id === assistantId ? { ...msg, isStreaming: false } : msg));
+      showNotification(notificationUtils.error("Failed to send message", (error as Error).message));
+    }
+  };
+
+  if (isLoadingInterview || !interview) {
+    return (
+      <div className="mx-auto max-w-4xl px-4 py-6">
+        <LoadingSkeleton variant="message" lines={3} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      {/* Phase bar */}
+      <div className="sticky top-0 z-10 glass-card border-b border-white/10">
+        <div className="mx-auto max-w-4xl px-4 py-3 flex flex-wrap items-center gap-4">
+          <ol className="flex items-center gap-2 text-xs">
+            {interview.phases.map(record => {
+              const isCurrent = isActive && record.phase === interview.currentPhase;
+              const isDone = Boolean(record.endedAt);
+              return (
+                <li
+                  key={record.phase}
+                  className={`px-2 py-1 rounded ${isCurrent ? 'bg-electric-blue/20 text-electric-blue' : isDone ? 'text-text-secondary' : 'text-text-muted'}`}
+                >
+                  {isDone && '✓ '}{PHASE_LABELS[record.phase as MockInterviewPhase]}
+                  <span className="ml-1 text-text-muted">{record.plannedMinutes}m</span>
+                </li>
+              );
+            })}
+          </ol>
+
+          {isActive && remainingMs !== null && (
+            <span
+              className={`font-mono text-sm ${remainingMs < 0 ? 'text-red-400' : remainingMs < 60_000 ? 'text-yellow-400' : 'text-text-primary'}`}
+              title="Time left in this phase"
+            >
+              {formatCountdown(remainingMs)}
+            </span>
+          )}
+
+          <div className="ml-auto flex items-center gap-2">
+            {isActive && !isLastPhase && (
+              <button
+                type="button"
+                onClick={handleAdvance}
+                disabled={isAdvancing || chatStream.isStreaming}
+                className="px-3 py-1.5 rounded-md text-xs text-text-secondary hover:text-text-primary bg-white/5 disabled:opacity-50 transition-colors"
+              >
+                Next phase
+              </button>
+            )}
+            {isActive && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleEnd}
+                  disabled={isGrading}
+                  className="px-3 py-1.5 rounded-md text-xs text-white gradient-primary disabled:opacity-50"
+                >
+                  {isGrading ? 'Scoring...' : 'End interview'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleAbandon}
+                  disabled={isGrading}
+                  className="px-3 py-1.5 rounded-md text-xs text-text-muted hover:text-red-400 disabled:opacity-50 transition-colors"
+                >
+                  Leave
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Transcript */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="mx-auto max-w-4xl px-4 py-6 space-y-6">
+          {!isActive && (
+            <div className="glass-card rounded-lg p-4 text-sm text-text-secondary">
+              You left this interview, so it was not scored.
+            </div>
+          )}
+
+          {isActive && isLastPhase && remainingMs !== null && remainingMs <= 0 && (
+            <div className="glass-card rounded-lg p-4 text-sm text-yellow-400">
+              Time&apos;s up. End the interview to get your scorecard.
+            </div>
+          )}
+
+          {messages.map(message => (
+            <ChatMessage
+              key={message.id}
+              role={message.role}
+              content={message.content}
+              isStreaming={message.isStreaming}
+              truncated={message.truncated}
+              timestamp={message.timestamp}
+              onStop={chatStream.stop}
+            />
+          ))}
+
+          {isWaiting && <LoadingSkeleton variant="message" lines={2} />}
+
+          <div ref={messagesEndRef} />
+        </div>
+        <div className="h-32" />
+      </div>
+
+      {isActive && (
+        <ChatInput
+          onSendMessage={handleSendMessage}
+          isLoading={isWaiting || chatStream.isStreaming || isGrading}
+          placeholder="Answer the interviewer…"
+        />
+      )}
+    </div>
+  );
+}
@@ -7,13 +7,13 @@ import { DateSelect } from "@/components/onboarding/DateSelect";
 import { BehavioralIcon, DsaIcon, SystemDesignIcon } from "@/components/icons/Icons";
 import { HoursPerWeek } from "@/components/onboarding/HoursPerWeek";
 import { experienceLevels, interviewTypes, preferencesByType, roles, type InterviewTypeKey } from "@/data/onboarding";
-import { advancedPlanContent } from "@/data/advancedPlan";
 import { RoadmapViewer } from "@/components/plan/RoadmapViewer";
 import { DropdownSelect } from "@/components/base/DropdownSelect";
 import { StepTransition } from "@/components/base/StepTransition";
 import { OnboardingActions } from "@/components/onboarding/OnboardingActions";
 import { OnboardingProgress } from "@/components/onboarding/OnboardingProgress";
 import { useAuth } from "@/lib/auth/AuthContext";
+import type { GeneratedRoadmap } from "@/lib/roadmap/generator";
 
 type Step = 0 | 1 | 2 | 3;
 
@@ -36,6 +36,7 @@ export function OnboardingWizard() {
   const [date, setDate] = useState<Date | null>(null);
   const [hours, setHours] = useState<number>(6);
   const [preferences, setPreferences] = useState<Record<string, string>>({});
+  const [roadmap, setRoadmap] = useState<GeneratedRoadmap | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -95,6 +96,8 @@ export function OnboardingWizard() {
       throw new Error(result.error || 'Failed to save onboarding data');
     }
 
+    setRoadmap(result.roadmap);
+
     // Update user state
     updateUser({ onboardingCompleted: true });
   };
@@ -166,7 +169,7 @@ export function OnboardingWizard() {
                 setAnswers={setPreferences}
               />
             )}
-            {step === 3 && <StepConfirm />}
+            {step === 3 && roadmap && <StepConfirm roadmap={roadmap} />}
           </StepTransition>
         </GlassCard>
       </section>
@@ -324,11 +327,11 @@ function StepPreferences({
   );
 }
 
-function StepConfirm() {
+function StepConfirm({ roadmap }: { roadmap: GeneratedRoadmap }) {
   return (
     <div className="space-y-6">
       <RoadmapViewer
-        content={advancedPlanContent}
+        roadmap={roadmap}
         onBack={() => {}} // Handled by sticky actions
         onAccept={() => console.log("Starting roadmap...")}
         onTweak={() => console.log("Tweaking preferences...")}
@@ -0,0 +1,125 @@
+"use client";
+
+import { GlassCard } from "@/components/base/GlassCard";
+import type { RoadmapRevisionResponse } from "@/lib/roadmap/format";
+
+type Props = {
+  revision: RoadmapRevisionResponse;
+  isSubmitting: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+};
+
+const STRATEGY_TITLES: Record<string, string> = {
+  compress: "Catch up in the weeks left",
+  drop_topics: "Drop lower-priority topics",
+  extend_target: "Move the target date",
+};
+
+function Change({ label, before, after }: { label: string; before: string; after: string }) {
+  if (before === after) return null;
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-[var(--text-secondary)]">{label}</span>
+      <span>
+        <span className="line-through text-[var(--text-secondary)]">{before}</span>
+        <span className="mx-2">→</span>
+        <span className="font-medium">{after}</span>
+      </span>
+    </div>
+  );
+}
+
+export function RoadmapRevisionCard({ revision, isSubmitting, onAccept, onReject }: Props) {
+  const diff = revision.diff;
+  if (!diff) return null;
+
+  const maxHours = Math.max(1, ...diff.weeks.flatMap((week) => [week.before, week.after]));
+  const moved = diff.tasks.filter((task) => task.change === "moved");
+  const dropped = diff.tasks.filter((task) => task.change === "dropped");
+
+  return (
+    <GlassCard className="p-5 space-y-5 ring-1 ring-[var(--warning)]/40">
+      <div>
+        <div className="text-xs uppercase tracking-wide text-[var(--warning)]">Proposed revision</div>
+        <h2 className="text-lg font-semibold mt-1">{STRATEGY_TITLES[revision.strategy] || "Revised schedule"}</h2>
+        <p className="text-sm text-[var(--text-secondary)] mt-1">{revision.reason}</p>
+      </div>
+
+      <div className="space-y-1.5">
+        <Change label="Hours per week" before={`${diff.hoursPerWeek.before} hrs`} after={`${diff.hoursPerWeek.after} hrs`} />
+        <Change label="Length" before={`${diff.totalWeeks.before} weeks`} after={`${diff.totalWeeks.after} weeks`} />
+        <Change label="Target date" before={diff.targetDate.before || "None"} after={diff.targetDate.after || "None"} />
+      </div>
+
+      {/* Weekly hours, before and after */}
+      <div>
+        <div className="text-sm font-medium mb-2">Weekly hours</div>
+        <div className="flex items-end gap-1 h-20">
+          {diff.weeks.map((week) => (
+            <div key={week.week} className="flex-1 flex items-end gap-px" title={`Week ${week.week}: ${week.before} → ${week.after} hrs`}>
+              <div className="flex-1 bg-white/15 rounded-t" style={{ height: `${(week.before / maxHours) * 100}%` }} />
+              <div className="flex-1 gradient-primary rounded-t" style={{ height: `${(week.after / maxHours) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-[var(--text-secondary)] mt-1">
+          <span>Week {diff.weeks[0]?.week}</span>
+          <span>
+            <span className="inline-block w-2 h-2 bg-white/15 mr-1" />Current
+            <span className="inline-block w-2 h-2 gradient-primary ml-3 mr-1" />Revised
+          </span>
+          <span>Week {diff.weeks[diff.weeks.length - 1]?.week}</span>
+        </div>
+      </div>
+
+      {dropped.length > 0 && (
+        <div>
+          <div className="text-sm font-medium mb-1">Dropped ({diff.droppedTopics.length} topics)</div>
+          <ul className="text-sm space-y-0.5">
+            {dropped.map((task) => (
+              <li key={`${task.title}-${task.fromWeek}`} className="text-[var(--error)] line-through">
+                {task.title} <span className="text-xs">(week {task.fromWeek}, {task.hours} hrs)</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {moved.length > 0 && (
+        <details>
+          <summary className="text-sm font-medium cursor-pointer">Rescheduled tasks ({moved.length})</summary>
+          <ul className="text-sm space-y-0.5 mt-2">
+            {moved.map((task) => (
+              <li key={`${task.title}-${task.fromWeek}`} className="flex justify-between gap-4">
+                <span>{task.title}</span>
+                <span className="text-xs text-[var(--text-secondary)] whitespace-nowrap">
+                  week {task.fromWeek} → {task.toWeek}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onReject}
+          disabled={isSubmitting}
+          className="px-3 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-sm disabled:opacity-50"
+        >
+          Keep current plan
+        </button>
+        <button
+          type="button"
+          onClick={onAccept}
+          disabled={isSubmitting}
+          className="gradient-primary text-white px-4 py-1.5 rounded-md text-sm disabled:opacity-50"
+        >
+          {isSubmitting ? "Applying..." : "Accept revision"}
+        </button>
+      </div>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,297 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { GlassCard } from "@/components/base/GlassCard";
+import { RoadmapRevisionCard } from "@/components/plan/RoadmapRevisionCard";
+import { LoadingSkeleton } from "@/components/ui/LoadingSkeleton";
+import { useNotifications, notificationUtils } from "@/components/ui/NotificationSystem";
+import { useAuth } from "@/lib/auth/AuthContext";
+import type { RoadmapResponse, RoadmapRevisionResponse, RoadmapTaskResponse } from "@/lib/roadmap/format";
+
+const KIND_LABELS: Record<string, string> = {
+  learn: "Learn",
+  practice: "Practice",
+  review: "Review",
+  mock: "Mock",
+};
+
+function formatWeekDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+export function RoadmapTracker() {
+  const [roadmap, setRoadmap] = useState<RoadmapResponse | null>(null);
+  const [revision, setRevision] = useState<RoadmapRevisionResponse | null>(null);
+  const [isLoadingRoadmap, setIsLoadingRoadmap] = useState(true);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [pendingTaskId, setPendingTaskId] = useState<string | null>(null);
+  const [isCheckingPace, setIsCheckingPace] = useState(false);
+  const [isResolvingRevision, setIsResolvingRevision] = useState(false);
+  const [expandedWeek, setExpandedWeek] = useState<number | null>(null);
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { showNotification } = useNotifications();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.push("/");
+    }
+  }, [user, isAuthLoading, router]);
+
+  const loadRoadmap = useCallback(async () => {
+    try {
+      const response = await fetch("/api/roadmap");
+      if (response.ok) {
+        const data = await response.json();
+        setRoadmap(data.roadmap);
+        setRevision(data.revision);
+        if (data.roadmap) setExpandedWeek(data.roadmap.currentWeek);
+      }
+    } catch (error) {
+      console.error("Failed to load roadmap:", error);
+    } finally {
+      setIsLoadingRoadmap(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadRoadmap();
+    }
+  }, [user, loadRoadmap]);
+
+  const handleToggleTask = async (task: RoadmapTaskResponse) => {
+    setPendingTaskId(task.id);
+
+    try {
+      const response = await fetch(`/api/roadmap/tasks/${task.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ completed: !task.completed }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update task");
+      }
+      setRoadmap(data.roadmap);
+      // Ticking tasks off makes a pending proposal stale
+      setRevision(null);
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't update task", (error as Error).message));
+    } finally {
+      setPendingTaskId(null);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+
+    try {
+      const response = await fetch("/api/roadmap", { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create roadmap");
+      }
+      setRoadmap(data.roadmap);
+      setRevision(null);
+      setExpandedWeek(data.roadmap.currentWeek);
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't create roadmap", (error as Error).message));
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleCheckPace = async () => {
+    setIsCheckingPace(true);
+
+    try {
+      const response = await fetch("/api/roadmap/replan", { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to check roadmap");
+      }
+      setRevision(data.revision);
+      if (data.onTrack) {
+        showNotification(notificationUtils.success("You're on track", "No changes needed to your roadmap."));
+      }
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't check your pace", (error as Error).message));
+    } finally {
+      setIsCheckingPace(false);
+    }
+  };
+
+  const handleResolveRevision = async (action: "accept" | "reject") => {
+    if (!revision) return;
+    setIsResolvingRevision(true);
+
+    try {
+      const response = await fetch(`/api/roadmap/revisions/${revision.id}/${action}`, { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        // A stale proposal is no use to the user either way
+        if (response.status === 409) setRevision(null);
+        throw new Error(data.error || "Failed to update roadmap");
+      }
+      if (data.roadmap) setRoadmap(data.roadmap);
+      setRevision(null);
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't update roadmap", (error as Error).message));
+    } finally {
+      setIsResolvingRevision(false);
+    }
+  };
+
+  if (isLoadingRoadmap) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-8">
+        <LoadingSkeleton variant="message" lines={4} />
+      </div>
+    );
+  }
+
+  if (!roadmap) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12 text-center space-y-4">
+        <h1 className="text-2xl font-semibold">No roadmap yet</h1>
+        <p className="text-[var(--text-secondary)]">Create a study plan from your goals and weekly hours.</p>
+        <button
+          type="button"
+          onClick={handleRegenerate}
+          disabled={isRegenerating}
+          className="gradient-primary text-white px-4 py-2 rounded-md text-sm disabled:opacity-50"
+        >
+          {isRegenerating ? "Creating..." : "Create my roadmap"}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 space-y-8">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Your Roadmap</h1>
+          <p className="text-sm text-[var(--text-secondary)] mt-1">
+            Week {roadmap.currentWeek} of {roadmap.totalWeeks} • {roadmap.hoursPerWeek} hrs/week
+            {roadmap.targetDate && ` • Target ${formatWeekDate(roadmap.targetDate)}`}
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl font-semibold text-[var(--electric-blue)]">{roadmap.progress.percent}%</div>
+          <div className="text-xs text-[var(--text-secondary)]">
+            {roadmap.progress.completedTasks}/{roadmap.progress.totalTasks} tasks
+          </div>
+        </div>
+      </header>
+
+      {revision && (
+        <RoadmapRevisionCard
+          revision={revision}
+          isSubmitting={isResolvingRevision}
+          onAccept={() => handleResolveRevision("accept")}
+          onReject={() => handleResolveRevision("reject")}
+        />
+      )}
+
+      {/* Phase progress */}
+      <div className="space-y-3">
+        {roadmap.phases.map((phase) => (
+          <GlassCard key={phase.id} className="p-4">
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className="font-medium">{phase.title}</span>
+              <span className="text-[var(--text-secondary)]">
+                {phase.startWeek === phase.endWeek ? `Week ${phase.startWeek}` : `Week ${phase.startWeek}-${phase.endWeek}`} • {phase.progress.completedHours}/{phase.progress.plannedHours} hrs
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full gradient-success transition-all" style={{ width: `${phase.progress.percent}%` }} />
+            </div>
+          </GlassCard>
+        ))}
+      </div>
+
+      {/* Weekly checklist */}
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">Weekly Tasks</h2>
+        {roadmap.weeks.map((week) => {
+          const isExpanded = expandedWeek === week.week;
+          const isCurrent = week.week === roadmap.currentWeek;
+          return (
+            <GlassCard key={week.week} className={`p-4 ${isCurrent ? "ring-1 ring-electric-blue/50" : ""}`}>
+              <button
+                type="button"
+                onClick={() => setExpandedWeek(isExpanded ? null : week.week)}
+                className="w-full flex items-center justify-between text-left"
+                aria-expanded={isExpanded}
+              >
+                <span className="font-medium">
+                  Week {week.week}
+                  <span className="ml-2 text-xs text-[var(--text-secondary)]">{formatWeekDate(week.startDate)}</span>
+                  {isCurrent && <span className="ml-2 text-xs text-[var(--electric-blue)]">This week</span>}
+                </span>
+                <span className="text-xs text-[var(--text-secondary)]">
+                  {week.progress.completedTasks}/{week.progress.totalTasks} done
+                </span>
+              </button>
+
+              {isExpanded && (
+                <ul className="mt-4 space-y-2">
+                  {week.tasks.map((task) => (
+                    <li key={task.id} className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={task.completed}
+                        disabled={pendingTaskId === task.id}
+                        onChange={() => handleToggleTask(task)}
+                        className="mt-1 accent-[var(--neon-green)]"
+                        aria-label={`Mark "${task.title}" as ${task.completed ? "not done" : "done"}`}
+                      />
+                      <div className="flex-1 text-sm">
+                        <div className={task.completed ? "line-through text-[var(--text-secondary)]" : ""}>
+                          <span className="mr-2 px-1.5 py-0.5 text-xs bg-white/5 rounded">{KIND_LABELS[task.kind] || task.kind}</span>
+                          {task.title}
+                          <span className="ml-2 text-xs text-[var(--text-secondary)]">{task.plannedHours} hrs</span>
+                        </div>
+                        {task.description && (
+                          <div className="text-xs text-[var(--text-secondary)] mt-1">{task.description}</div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </GlassCard>
+          );
+        })}
+      </div>
+
+      {roadmap.skippedTopics.length > 0 && (
+        <p className="text-xs text-[var(--text-secondary)]">
+          Not in this plan for lack of time: {roadmap.skippedTopics.join(", ")}.
+        </p>
+      )}
+
+      <div className="flex justify-center gap-2">
+        <button
+          type="button"
+          onClick={handleCheckPace}
+          disabled={isCheckingPace}
+          className="px-3 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-sm disabled:opacity-50"
+        >
+          {isCheckingPace ? "Checking..." : "Check my pace"}
+        </button>
+        <button
+          type="button"
+          onClick={handleRegenerate}
+          disabled={isRegenerating}
+          className="px-3 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-sm disabled:opacity-50"
+        >
+          {isRegenerating ? "Regenerating..." : "Regenerate from my profile"}
+        </button>
+      </div>
+    </div>
+  );
+}
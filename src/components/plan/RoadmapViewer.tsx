@@ -1,29 +1,33 @@
+import { useMemo } from "react";
 import { GlassCard } from "@/components/base/GlassCard";
 import { StreamingMarkdown } from "@/components/plan/StreamingMarkdown";
-import { PlanHeader } from "@/components/plan/PlanHeader";
+import type { GeneratedRoadmap, RoadmapPhaseKey } from "@/lib/roadmap/generator";
+import { roadmapToMarkdown } from "@/lib/roadmap/markdown";
 
 type Props = {
-  content: string;
+  roadmap: GeneratedRoadmap;
   onBack: () => void;
   onAccept: () => void;
   onTweak: () => void;
 };
 
-const roadmapStats = [
-  { label: "Total Weeks", value: "6" },
-  { label: "Hours/Week", value: "10" },
-  { label: "Topics Covered", value: "15+" },
-  { label: "Mock Interviews", value: "4" },
-];
+const phaseColors: Record<RoadmapPhaseKey, string> = {
+  foundation: "var(--electric-blue)",
+  core: "var(--neon-green)",
+  advanced: "var(--deep-purple)",
+  final: "var(--warning)",
+};
+
+export function RoadmapViewer({ roadmap, onBack, onAccept, onTweak }: Props) {
+  const content = useMemo(() => roadmapToMarkdown(roadmap), [roadmap]);
 
-const weeklyBreakdown = [
-  { week: "Week 1-2", title: "Foundations", topics: ["Arrays & Strings", "Sorting Patterns", "Two Pointers"], color: "var(--electric-blue)" },
-  { week: "Week 3-4", title: "System Design", topics: ["Caching & Sharding", "Rate Limiting", "URL Shortener"], color: "var(--neon-green)" },
-  { week: "Week 5", title: "Behavioral", topics: ["STAR Stories", "Leadership Examples", "Mock Practice"], color: "var(--deep-purple)" },
-  { week: "Week 6", title: "Final Sprint", topics: ["Weak Areas", "Timing Drills", "Review"], color: "var(--warning)" },
-];
+  const roadmapStats = [
+    { label: "Total Weeks", value: String(roadmap.totalWeeks) },
+    { label: "Hours/Week", value: String(roadmap.hoursPerWeek) },
+    { label: "Topics Covered", value: String(roadmap.topicCount) },
+    { label: "Mock Interviews", value: String(roadmap.mockInterviewCount) },
+  ];
 
-export function RoadmapViewer({ content, onBack, onAccept, onTweak }: Props) {
   return (
     <div className="space-y-8">
       <header className="text-center">
@@ -45,14 +49,16 @@ export function RoadmapViewer({ content, onBack, onAccept, onTweak }: Props) {
       <div className="space-y-4">
         <h3 className="text-lg font-semibold">Weekly Breakdown</h3>
         <div className="space-y-3">
-          {weeklyBreakdown.map((phase, idx) => (
-            <GlassCard key={phase.week} className="p-4">
+          {roadmap.phases.map((phase) => (
+            <GlassCard key={phase.key} className="p-4">
               <div className="flex items-start gap-4">
-                <div className="flex-shrink-0 w-3 h-3 rounded-full mt-1" style={{ backgroundColor: phase.color }}></div>
+                <div className="flex-shrink-0 w-3 h-3 rounded-full mt-1" style={{ backgroundColor: phaseColors[phase.key] }}></div>
                 <div className="flex-1">
                   <div className="flex items-center justify-between mb-2">
                     <h4 className="font-medium">{phase.title}</h4>
-                    <span className="text-xs text-[var(--text-secondary)]">{phase.week}</span>
+                    <span className="text-xs text-[var(--text-secondary)]">
+                      {phase.startWeek === phase.endWeek ? `Week ${phase.startWeek}` : `Week ${phase.startWeek}-${phase.endWeek}`} • {phase.hours} hrs
+                    </span>
                   </div>
                   <div className="flex flex-wrap gap-2">
                     {phase.topics.map((topic) => (
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { GlassCard } from "@/components/base/GlassCard";
+import { MarkdownRenderer } from "@/components/chat/MarkdownRenderer";
+import { LoadingSkeleton } from "@/components/ui/LoadingSkeleton";
+import { useNotifications, notificationUtils } from "@/components/ui/NotificationSystem";
+import { useAuth } from "@/lib/auth/AuthContext";
+import type { ReviewCardResponse } from "@/lib/review/format";
+import { GRADE_LABELS, REVIEW_GRADES, formatNextReview, type ReviewGrade } from "@/lib/review/scheduler";
+
+type QueueCounts = {
+  due: number;
+  reviewedToday: number;
+  total: number;
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  attempt: "Missed question",
+  feedback: "Answer you rated down",
+  bookmark: "Saved answer",
+};
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: "bg-[var(--error)]/15 hover:bg-[var(--error)]/25 text-[var(--error)]",
+  hard: "bg-[var(--warning)]/15 hover:bg-[var(--warning)]/25 text-[var(--warning)]",
+  good: "bg-[var(--neon-green)]/15 hover:bg-[var(--neon-green)]/25 text-[var(--neon-green)]",
+  easy: "bg-[var(--electric-blue)]/15 hover:bg-[var(--electric-blue)]/25 text-[var(--electric-blue)]",
+};
+
+export function ReviewSession() {
+  const [cards, setCards] = useState<ReviewCardResponse[]>([]);
+  const [counts, setCounts] = useState<QueueCounts | null>(null);
+  const [isLoadingQueue, setIsLoadingQueue] = useState(true);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const cardShownAt = useRef(Date.now());
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { showNotification } = useNotifications();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.push("/");
+    }
+  }, [user, isAuthLoading, router]);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await fetch("/api/review/queue");
+      if (response.ok) {
+        const data = await response.json();
+        setCards(data.cards);
+        setCounts(data.counts);
+        cardShownAt.current = Date.now();
+      }
+    } catch (error) {
+      console.error("Failed to load review queue:", error);
+    } finally {
+      setIsLoadingQueue(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadQueue();
+    }
+  }, [user, loadQueue]);
+
+  const current = cards[0];
+
+  const showNextCard = (requeued: ReviewCardResponse | null) => {
+    setCards((prev) => {
+      const rest = prev.slice(1);
+      return requeued ? [...rest, requeued] : rest;
+    });
+    setIsRevealed(false);
+    cardShownAt.current = Date.now();
+  };
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current) return;
+    setIsGrading(true);
+
+    try {
+      const response = await fetch(`/api/review/cards/${current.id}/grade`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ grade, duration: Math.round((Date.now() - cardShownAt.current) / 1000) }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save review");
+      }
+
+      setReviewedCount((count) => count + 1);
+      // Cards graded "again" come back before the end of this sitting
+      showNextCard(grade === "again" ? data.card : null);
+    } catch (error) {
+      showNotification(notificationUtils.error("Review not saved", (error as Error).message));
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!current) return;
+
+    try {
+      const response = await fetch(`/api/review/cards/${current.id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to remove card");
+      setCounts((prev) => prev && { ...prev, total: prev.total - 1 });
+      showNextCard(null);
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't remove card", (error as Error).message));
+    }
+  };
+
+  if (isLoadingQueue) {
+    return (
+      <div className="mx-auto max-w-2xl px-4 py-8">
+        <LoadingSkeleton variant="message" lines={4} />
+      </div>
+    );
+  }
+
+  if (!current) {
+    return (
+      <div className="mx-auto max-w-2xl px-4 py-12 text-center space-y-4">
+        <h1 className="text-2xl font-semibold">{reviewedCount > 0 ? "Review done for today" : "Nothing to review"}</h1>
+        <p className="text-[var(--text-secondary)]">
+          {reviewedCount > 0
+            ? `You reviewed ${reviewedCount} ${reviewedCount === 1 ? "card" : "cards"}. New cards come from missed questions and answers you save or rate down.`
+            : "Cards are added when you miss a question, rate an answer down or save one from the chat."}
+        </p>
+        {counts && counts.total > 0 && (
+          <p className="text-sm text-[var(--text-secondary)]">{counts.total} cards in your deck</p>
+        )}
+        <button
+          type="button"
+          onClick={() => router.push("/chat")}
+          className="px-4 py-2 rounded-md bg-white/5 hover:bg-white/10 text-sm"
+        >
+          Back to chat
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl px-4 py-8 space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Review</h1>
+        <span className="text-sm text-[var(--text-secondary)]">
+          {reviewedCount} done • {cards.length} left
+        </span>
+      </header>
+
+      <GlassCard className="p-6 space-y-6">
+        <div className="flex items-center justify-between text-xs text-[var(--text-secondary)]">
+          <span>
+            {SOURCE_LABELS[current.source] || current.source}
+            {current.topic && ` • ${current.topic}`}
+          </span>
+          {current.lapses > 0 && <span>Missed {current.lapses}×</span>}
+        </div>
+
+        <MarkdownRenderer content={current.front} />
+
+        {isRevealed ? (
+          <div className="border-t border-white/10 pt-6">
+            <MarkdownRenderer content={current.back} />
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsRevealed(true)}
+            className="w-full py-2 rounded-md bg-white/5 hover:bg-white/10 text-sm"
+          >
+            Show answer
+          </button>
+        )}
+      </GlassCard>
+
+      {isRevealed && (
+        <div className="grid grid-cols-4 gap-2">
+          {REVIEW_GRADES.map((grade) => (
+            <button
+              key={grade}
+              type="button"
+              onClick={() => handleGrade(grade)}
+              disabled={isGrading}
+              className={`py-2 rounded-md text-sm disabled:opacity-50 ${GRADE_STYLES[grade]}`}
+            >
+              <div className="font-medium">{GRADE_LABELS[grade]}</div>
+              <div className="text-xs opacity-80">{formatNextReview(current, grade)}</div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={handleRemove}
+          className="text-xs text-[var(--text-secondary)] hover:text-[var(--error)]"
+        >
+          Remove this card
+        </button>
+      </div>
+    </div>
+  );
+}
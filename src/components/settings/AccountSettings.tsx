@@ -6,6 +6,8 @@ import { useAuth } from '@/lib/auth/AuthContext';
 import { roles, experienceLevels } from '@/data/onboarding';
 import { DropdownSelect } from '@/components/base/DropdownSelect';
 import { SettingsActionBar } from './SettingsActionBar';
+import { SignInMethods } from './SignInMethods';
+import { ActiveSessions } from './ActiveSessions';
 
 export function AccountSettings() {
   const { user, updateUser } = useAuth();
@@ -145,7 +147,7 @@ export function AccountSettings() {
             placeholder="your.email@example.com"
           />
           <p className="text-xs text-text-muted mt-1">
-            Used for notifications and account recovery
+            Used to sign in, for notifications and account recovery
           </p>
         </div>
 
@@ -174,6 +176,12 @@ export function AccountSettings() {
         </div>
       </div>
 
+      {/* Sign-in Methods */}
+      <SignInMethods />
+
+      {/* Signed-in Devices */}
+      <ActiveSessions />
+
       {/* Account Stats */}
       <div className="border-t border-white/10 pt-6">
         <h3 className="text-lg font-medium text-text-primary mb-4">Account Statistics</h3>
@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/base/Button';
+import { useAuth } from '@/lib/auth/AuthContext';
+
+interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+/**
+ * Turn a user agent string into a short "Browser on OS" label
+ */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+export function ActiveSessions() {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevokingAll, setIsRevokingAll] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/sessions');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load devices');
+      }
+      setSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionSummary) => {
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to log out device');
+      }
+
+      if (data.current) {
+        await logout();
+        return;
+      }
+
+      setSuccess(data.message);
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log out device');
+    }
+  };
+
+  const handleRevokeAll = async (includeCurrent: boolean) => {
+    if (includeCurrent && !confirm('Log out of every device, including this one?')) {
+      return;
+    }
+    setError('');
+    setSuccess('');
+    setIsRevokingAll(true);
+
+    try {
+      const response = await fetch(`/api/auth/sessions${includeCurrent ? '?includeCurrent=true' : ''}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to log out devices');
+      }
+
+      if (includeCurrent) {
+        await logout();
+        return;
+      }
+
+      setSuccess(data.message);
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log out devices');
+    } finally {
+      setIsRevokingAll(false);
+    }
+  };
+
+  const otherSessions = sessions.filter(session => !session.current);
+
+  return (
+    <div className="border-t border-white/10 pt-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-text-primary mb-1">Signed-in Devices</h3>
+        <p className="text-sm text-text-secondary">
+          Devices that are currently signed in to your account.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+          <p className="text-green-400 text-sm">{success}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-text-muted">Loading devices...</p>
+        ) : (
+          sessions.map(session => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between gap-4 bg-bg-secondary/50 p-3 rounded-lg"
+            >
+              <div className="min-w-0">
+                <div className="text-sm text-text-primary truncate">
+                  {describeDevice(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 text-xs text-neon-green">This device</span>
+                  )}
+                </div>
+                <div className="text-xs text-text-muted">
+                  {session.ipAddress && session.ipAddress !== 'unknown' && `${session.ipAddress} • `}
+                  Last active {new Date(session.lastSeenAt).toLocaleString()}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(session)}
+                className="text-xs text-text-muted hover:text-red-400 transition-colors"
+              >
+                Log out
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => handleRevokeAll(false)}
+          isLoading={isRevokingAll}
+          disabled={isRevokingAll || otherSessions.length === 0}
+        >
+          Log out other devices
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => handleRevokeAll(true)}
+          disabled={isRevokingAll}
+        >
+          Log out everywhere
+        </Button>
+      </div>
+    </div>
+  );
+}
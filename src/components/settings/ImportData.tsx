@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/base/Button';
+import {
+  IMPORT_MODES,
+  IMPORT_MODE_DESCRIPTIONS,
+  IMPORT_MODE_LABELS,
+  describeImportReport,
+  type ImportMode,
+  type ImportReport,
+} from '@/lib/export/import';
+
+export function ImportData() {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsWorking(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('mode', mode);
+      form.append('dryRun', String(dryRun));
+
+      const response = await fetch('/api/data/import', { method: 'POST', body: form });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import data');
+      }
+
+      if (dryRun) {
+        setPreview(data.report);
+      } else {
+        setPreview(null);
+        setFile(null);
+        setMessage(`Import complete: ${describeImportReport(data.report)}.`);
+      }
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Failed to import data');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-bg-secondary/30 rounded-lg space-y-3">
+      <div>
+        <div className="font-medium text-text-primary">Import Data</div>
+        <div className="text-sm text-text-muted mt-1">
+          Restore a JSON or archive export into this account. {IMPORT_MODE_DESCRIPTIONS[mode]}.
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="file"
+          accept=".json,.zip,application/json,application/zip"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null);
+            setPreview(null);
+          }}
+          disabled={isWorking}
+          className="text-sm text-text-muted"
+        />
+        <select
+          value={mode}
+          onChange={(e) => {
+            setMode(e.target.value as ImportMode);
+            setPreview(null);
+          }}
+          disabled={isWorking}
+          className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-sm"
+        >
+          {IMPORT_MODES.map(option => (
+            <option key={option} value={option}>{IMPORT_MODE_LABELS[option]}</option>
+          ))}
+        </select>
+        {preview ? (
+          <>
+            <Button variant="ghost" onClick={() => setPreview(null)} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => runImport(false)}
+              disabled={isWorking}
+              className={mode === 'replace' ? 'bg-red-600 hover:bg-red-700 text-white' : undefined}
+            >
+              {isWorking ? 'Importing...' : 'Confirm Import'}
+            </Button>
+          </>
+        ) : (
+          <Button variant="ghost" onClick={() => runImport(true)} disabled={!file || isWorking}>
+            {isWorking ? 'Checking...' : 'Preview Import'}
+          </Button>
+        )}
+      </div>
+
+      {preview && (
+        <p className="text-sm text-text-primary">
+          This import {describeImportReport(preview)}.
+        </p>
+      )}
+      {message && <p className="text-neon-green text-sm">{message}</p>}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/base/Button';
 import { useAuth } from '@/lib/auth/AuthContext';
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS, type ExportFormat } from '@/lib/export/manifest';
+import { DATA_RETENTION_LABELS, DATA_RETENTION_OPTIONS } from '@/lib/privacy/retention';
+import { ImportData } from './ImportData';
 import { SettingsActionBar } from './SettingsActionBar';
 
 interface PrivacySettings {
@@ -21,6 +24,7 @@ export function PrivacySettings() {
   const [success, setSuccess] = useState('');
   const [hasChanges, setHasChanges] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
   const [settings, setSettings] = useState<PrivacySettings>({
     shareProgress: false,
     publicProfile: false,
@@ -111,6 +115,8 @@ export function PrivacySettings() {
     try {
       const response = await fetch('/api/data/export', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format: exportFormat }),
       });
 
       if (!response.ok) {
@@ -122,7 +128,8 @@ export function PrivacySettings() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `tayyari-data-export-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || `tayyari-data-export-${new Date().toISOString().split('T')[0]}.json`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -267,13 +274,12 @@ export function PrivacySettings() {
               onChange={(e) => setSettings(prev => ({ ...prev, dataRetention: e.target.value }))}
               className="w-full px-3 py-2 bg-bg-secondary border border-white/10 rounded-lg focus:border-electric-blue outline-none transition-colors"
             >
-              <option value="1year">1 Year</option>
-              <option value="2years">2 Years</option>
-              <option value="5years">5 Years</option>
-              <option value="forever">Until I delete my account</option>
+              {DATA_RETENTION_OPTIONS.map(option => (
+                <option key={option} value={option}>{DATA_RETENTION_LABELS[option]}</option>
+              ))}
             </select>
             <p className="text-xs text-text-muted mt-1">
-              How long should we keep your study data and progress?
+              Chats and study sessions older than this are deleted automatically.
             </p>
           </div>
         </div>
@@ -288,19 +294,32 @@ export function PrivacySettings() {
               <div>
                 <div className="font-medium text-text-primary">Export Your Data</div>
                 <div className="text-sm text-text-muted mt-1">
-                  Download a copy of all your data in JSON format
+                  Download a copy of all your data as JSON, CSV files or a versioned archive
                 </div>
               </div>
-              <Button
-                variant="ghost"
-                onClick={handleDataExport}
-                disabled={isLoading}
-                className="ml-4"
-              >
-                Export Data
-              </Button>
+              <div className="flex items-center gap-2 ml-4">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  disabled={isLoading}
+                  className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-sm"
+                >
+                  {EXPORT_FORMATS.map(format => (
+                    <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                <Button
+                  variant="ghost"
+                  onClick={handleDataExport}
+                  disabled={isLoading}
+                >
+                  Export Data
+                </Button>
+              </div>
             </div>
           </div>
+
+          <ImportData />
         </div>
       </div>
 
@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/base/Button';
 import { GlassCard } from '@/components/base/GlassCard';
 import { SettingsActionBar } from './SettingsActionBar';
+import { ResetProgress } from './ResetProgress';
+import { StreakSettings } from './StreakSettings';
 
 interface ProgressData {
   totalStudyHours: number;
@@ -30,7 +32,6 @@ export function ProgressSettings() {
   const [success, setSuccess] = useState('');
   const [hasChanges, setHasChanges] = useState(false);
   const [progressData, setProgressData] = useState<ProgressData | null>(null);
-  const [showResetConfirm, setShowResetConfirm] = useState(false);
 
   useEffect(() => {
     loadProgressData();
@@ -58,37 +59,6 @@ export function ProgressSettings() {
     }
   };
 
-  const handleResetProgress = async () => {
-    if (!showResetConfirm) {
-      setShowResetConfirm(true);
-      return;
-    }
-
-    setIsLoading(true);
-    setError('');
-    setSuccess('');
-
-    try {
-      const response = await fetch('/api/progress/reset', {
-        method: 'POST',
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to reset progress');
-      }
-
-      setSuccess('Progress data has been reset successfully!');
-      await loadProgressData();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to reset progress');
-    } finally {
-      setIsLoading(false);
-      setShowResetConfirm(false);
-    }
-  };
-
   const handleExportProgress = async () => {
     setIsLoading(true);
     setError('');
@@ -108,7 +78,8 @@ export function ProgressSettings() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `tayyari-progress-export-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || `tayyari-progress-export-${new Date().toISOString().split('T')[0]}.json`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -187,6 +158,8 @@ export function ProgressSettings() {
             </div>
           </div>
 
+          <StreakSettings />
+
           {/* Category Progress */}
           <div>
             <h3 className="text-lg font-medium text-text-primary mb-4">Progress by Category</h3>
@@ -275,34 +248,7 @@ export function ProgressSettings() {
             </div>
           </GlassCard>
 
-          <GlassCard className="p-4 border border-red-500/20 bg-red-500/5">
-            <div className="flex items-center justify-between">
-              <div>
-                <div className="font-medium text-red-400">Reset All Progress</div>
-                <div className="text-sm text-text-muted mt-1">
-                  Permanently delete all your study progress and statistics
-                </div>
-              </div>
-              <div className="flex items-center gap-2 ml-4">
-                {showResetConfirm && (
-                  <Button
-                    variant="ghost"
-                    onClick={() => setShowResetConfirm(false)}
-                    disabled={isLoading}
-                  >
-                    Cancel
-                  </Button>
-                )}
-                <Button
-                  onClick={handleResetProgress}
-                  disabled={isLoading}
-                  className={showResetConfirm ? 'bg-red-600 hover:bg-red-700 text-white' : 'text-red-400 hover:text-red-300 bg-transparent'}
-                >
-                  {isLoading ? 'Resetting...' : showResetConfirm ? 'Confirm Reset' : 'Reset Progress'}
-                </Button>
-              </div>
-            </div>
-          </GlassCard>
+          <ResetProgress onChange={loadProgressData} />
         </div>
       </div>
 
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/base/Button';
+import { GlassCard } from '@/components/base/GlassCard';
+import {
+  RESET_CATEGORIES,
+  RESET_SCOPES,
+  RESET_SCOPE_DESCRIPTIONS,
+  RESET_SCOPE_LABELS,
+  RESET_UNDO_HOURS,
+  describeResetCounts,
+  type ResetCounts,
+  type ResetScope,
+} from '@/lib/progress/reset';
+
+interface UndoableReset {
+  id: string;
+  scope: ResetScope;
+  category: string | null;
+  counts: ResetCounts | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+function resetLabel(reset: UndoableReset): string {
+  return reset.scope === 'category' && reset.category
+    ? `${RESET_CATEGORIES[reset.category] || reset.category} progress`
+    : RESET_SCOPE_LABELS[reset.scope];
+}
+
+function hoursLeft(expiresAt: string): number {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / (60 * 60 * 1000)));
+}
+
+export function ResetProgress({ onChange }: { onChange?: () => void }) {
+  const [scope, setScope] = useState<ResetScope>('all');
+  const [category, setCategory] = useState(Object.keys(RESET_CATEGORIES)[0]);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [resets, setResets] = useState<UndoableReset[]>([]);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetch('/api/progress/reset')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setResets(data.resets))
+      .catch(err => console.error('Failed to load resets:', err));
+  }, []);
+
+  const handleReset = async () => {
+    if (!showConfirm) {
+      setShowConfirm(true);
+      return;
+    }
+
+    setIsWorking(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/progress/reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope, category: scope === 'category' ? category : undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset progress');
+      }
+
+      setResets(current => [data.reset, ...current]);
+      setMessage(`Deleted ${describeResetCounts(data.counts)}.`);
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset progress');
+    } finally {
+      setIsWorking(false);
+      setShowConfirm(false);
+    }
+  };
+
+  const handleUndo = async (reset: UndoableReset) => {
+    setIsWorking(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/progress/reset/${reset.id}/undo`, { method: 'POST' });
+      const data = await response.json();
+      // Drop the entry whether it was restored or can no longer be
+      setResets(current => current.filter(r => r.id !== reset.id));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to undo reset');
+      }
+
+      setMessage(`Restored ${describeResetCounts(data.counts)}.`);
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo reset');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <GlassCard className="p-4 border border-red-500/20 bg-red-500/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium text-red-400">Reset Progress</div>
+          <div className="text-sm text-text-muted mt-1">
+            {scope === 'category'
+              ? RESET_SCOPE_DESCRIPTIONS.category.replace('one category', RESET_CATEGORIES[category])
+              : RESET_SCOPE_DESCRIPTIONS[scope]}
+            . You can undo within {RESET_UNDO_HOURS} hours.
+          </div>
+        </div>
+        <div className="flex items-center gap-2 ml-4">
+          {showConfirm && (
+            <Button
+              variant="ghost"
+              onClick={() => setShowConfirm(false)}
+              disabled={isWorking}
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={handleReset}
+            disabled={isWorking}
+            className={showConfirm ? 'bg-red-600 hover:bg-red-700 text-white' : 'text-red-400 hover:text-red-300 bg-transparent'}
+          >
+            {isWorking ? 'Working...' : showConfirm ? 'Confirm Reset' : 'Reset'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <select
+          value={scope}
+          onChange={(e) => {
+            setScope(e.target.value as ResetScope);
+            setShowConfirm(false);
+          }}
+          disabled={isWorking}
+          className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-sm"
+        >
+          {RESET_SCOPES.map(option => (
+            <option key={option} value={option}>{RESET_SCOPE_LABELS[option]}</option>
+          ))}
+        </select>
+        {scope === 'category' && (
+          <select
+            value={category}
+            onChange={(e) => {
+              setCategory(e.target.value);
+              setShowConfirm(false);
+            }}
+            disabled={isWorking}
+            className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-sm"
+          >
+            {Object.entries(RESET_CATEGORIES).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {resets.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-white/10">
+          {resets.map(reset => (
+            <div key={reset.id} className="flex items-center justify-between text-sm">
+              <div>
+                <span className="text-text-primary">{resetLabel(reset)}</span>
+                <span className="text-text-muted">
+                  {' '}reset on {new Date(reset.createdAt).toLocaleString()}
+                  {reset.counts && ` (${describeResetCounts(reset.counts)})`}
+                </span>
+              </div>
+              <Button
+                variant="ghost"
+                onClick={() => handleUndo(reset)}
+                disabled={isWorking}
+                className="ml-4"
+              >
+                Undo ({hoursLeft(reset.expiresAt)}h left)
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && <p className="text-neon-green text-sm">{message}</p>}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { startRegistration } from '@simplewebauthn/browser';
+import { Button } from '@/components/base/Button';
+import { parseDbTimestamp } from '@/components/chat/ConversationSidebar';
+
+interface CredentialSummary {
+  id: string;
+  type: 'password' | 'passkey';
+  name: string | null;
+  deviceType: string | null;
+  backedUp: boolean | null;
+  lastUsedAt: string | null;
+  createdAt: string | null;
+}
+
+const inputClassName = "w-full px-3 py-2 bg-bg-secondary border border-white/10 rounded-lg focus:border-electric-blue outline-none transition-colors";
+
+export function SignInMethods() {
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([]);
+  const [hasPassword, setHasPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddingPasskey, setIsAddingPasskey] = useState(false);
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+  const [passkeyName, setPasskeyName] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadCredentials = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/credentials');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load sign-in methods');
+      }
+      setCredentials(data.credentials);
+      setHasPassword(data.hasPassword);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sign-in methods');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCredentials();
+  }, [loadCredentials]);
+
+  const resetMessages = () => {
+    setError('');
+    setSuccess('');
+  };
+
+  const handleAddPasskey = async () => {
+    resetMessages();
+    setIsAddingPasskey(true);
+
+    try {
+      const optionsResponse = await fetch('/api/auth/passkey/register/options', { method: 'POST' });
+      const optionsJSON = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        throw new Error(optionsJSON.error || 'Failed to add passkey');
+      }
+
+      const attestation = await startRegistration({ optionsJSON });
+
+      const response = await fetch('/api/auth/passkey/register/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response: attestation, name: passkeyName.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add passkey');
+      }
+
+      setPasskeyName('');
+      setSuccess('Passkey added');
+      await loadCredentials();
+    } catch (err) {
+      if (err instanceof Error && err.name === 'NotAllowedError') {
+        setError('Passkey setup was cancelled');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to add passkey');
+      }
+    } finally {
+      setIsAddingPasskey(false);
+    }
+  };
+
+  const handleRemove = async (credential: CredentialSummary) => {
+    if (!confirm(`Remove ${credential.name || 'this sign-in method'}?`)) {
+      return;
+    }
+    resetMessages();
+
+    try {
+      const response = await fetch(`/api/auth/credentials/${credential.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove sign-in method');
+      }
+      setSuccess('Sign-in method removed');
+      await loadCredentials();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove sign-in method');
+    }
+  };
+
+  const handleSavePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    resetMessages();
+    setIsSavingPassword(true);
+
+    try {
+      const response = await fetch('/api/auth/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currentPassword: hasPassword ? currentPassword : undefined,
+          newPassword,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update password');
+      }
+
+      setCurrentPassword('');
+      setNewPassword('');
+      setSuccess(data.message);
+      await loadCredentials();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update password');
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-white/10 pt-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-text-primary mb-1">Sign-in Methods</h3>
+        <p className="text-sm text-text-secondary">
+          Manage your password and passkeys.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+          <p className="text-green-400 text-sm">{success}</p>
+        </div>
+      )}
+
+      {/* Credential list */}
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-text-muted">Loading sign-in methods...</p>
+        ) : credentials.length === 0 ? (
+          <p className="text-sm text-text-muted">
+            No sign-in methods yet. Set a password or add a passkey so you can sign back in.
+          </p>
+        ) : (
+          credentials.map(credential => (
+            <div
+              key={credential.id}
+              className="flex items-center justify-between gap-4 bg-bg-secondary/50 p-3 rounded-lg"
+            >
+              <div className="min-w-0">
+                <div className="text-sm text-text-primary truncate">
+                  {credential.name || (credential.type === 'password' ? 'Password' : 'Passkey')}
+                  {credential.type === 'passkey' && credential.backedUp && (
+                    <span className="ml-2 text-xs text-text-muted">Synced</span>
+                  )}
+                </div>
+                <div className="text-xs text-text-muted">
+                  Added {parseDbTimestamp(credential.createdAt).toLocaleDateString()}
+                  {credential.lastUsedAt && ` • Last used ${new Date(credential.lastUsedAt).toLocaleDateString()}`}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(credential)}
+                disabled={credentials.length <= 1}
+                className="text-xs text-text-muted hover:text-red-400 disabled:opacity-40 disabled:hover:text-text-muted transition-colors"
+                title={credentials.length <= 1 ? 'You need at least one sign-in method' : 'Remove'}
+              >
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Add passkey */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          value={passkeyName}
+          onChange={(e) => setPasskeyName(e.target.value)}
+          className={inputClassName}
+          placeholder="Passkey name, e.g. MacBook Touch ID"
+          maxLength={100}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={handleAddPasskey}
+          isLoading={isAddingPasskey}
+          disabled={isAddingPasskey}
+          className="md:w-48 shrink-0"
+        >
+          Add passkey
+        </Button>
+      </div>
+
+      {/* Set or change password */}
+      <form onSubmit={handleSavePassword} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {hasPassword && (
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            className={inputClassName}
+            placeholder="Current password"
+            autoComplete="current-password"
+            required
+          />
+        )}
+        <input
+          type="password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          className={inputClassName}
+          placeholder={hasPassword ? 'New password' : 'Set a password (at least 8 characters)'}
+          autoComplete="new-password"
+          minLength={8}
+          required
+        />
+        <Button
+          type="submit"
+          variant="ghost"
+          isLoading={isSavingPassword}
+          disabled={isSavingPassword || !newPassword || (hasPassword && !currentPassword)}
+          className="md:col-span-2 md:w-48"
+        >
+          {hasPassword ? 'Change password' : 'Set password'}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/base/Button';
+import { GlassCard } from '@/components/base/GlassCard';
+import { MAX_FREEZES, STREAK_GOAL_OPTIONS, type StreakState } from '@/lib/study/streaks';
+
+type StreakSummary = StreakState & { timezone: string };
+
+export function StreakSettings() {
+  const [streak, setStreak] = useState<StreakSummary | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const browserTimeZone = typeof Intl !== 'undefined' ? Intl.DateTimeFormat().resolvedOptions().timeZone : null;
+
+  useEffect(() => {
+    fetch('/api/progress/streak')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setStreak(data.streak))
+      .catch(err => console.error('Failed to load streak:', err));
+  }, []);
+
+  const saveSettings = async (changes: { timezone?: string; goalMinutes?: number }) => {
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/progress/streak', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update streak settings');
+      }
+      setStreak(data.streak);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update streak settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!streak) return null;
+
+  const todayPercent = Math.min(100, Math.round((streak.todayMinutes / streak.goalMinutes) * 100));
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-text-primary mb-4">Daily Streak</h3>
+      <GlassCard className="p-4 space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className="text-2xl font-bold text-neon-green">{streak.current}</div>
+            <div className="text-xs text-text-muted">Current</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-electric-blue">{streak.best}</div>
+            <div className="text-xs text-text-muted">Best</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-text-primary">
+              {'❄️'.repeat(streak.freezes) || '—'}
+            </div>
+            <div className="text-xs text-text-muted">Freezes ({streak.freezes}/{MAX_FREEZES})</div>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-text-muted">Today</span>
+            <span className="text-text-primary">
+              {streak.todayMinutes} / {streak.goalMinutes} min
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+            <div className="h-full gradient-primary" style={{ width: `${todayPercent}%` }} />
+          </div>
+          {streak.frozenDays.length > 0 && (
+            <p className="text-xs text-text-muted mt-2">
+              Freezes covered {streak.frozenDays.join(', ')}.
+            </p>
+          )}
+          <p className="text-xs text-text-muted mt-2">
+            A week of streak earns a freeze, which covers one missed day automatically.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 pt-2 border-t border-white/10">
+          <label className="flex items-center gap-2 text-sm text-text-primary">
+            Daily goal
+            <select
+              value={streak.goalMinutes}
+              onChange={(e) => saveSettings({ goalMinutes: Number(e.target.value) })}
+              disabled={isSaving}
+              className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-sm"
+            >
+              {STREAK_GOAL_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} min</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-text-muted">Days end at midnight in {streak.timezone}</span>
+            {browserTimeZone && browserTimeZone !== streak.timezone && (
+              <Button
+                variant="ghost"
+                onClick={() => saveSettings({ timezone: browserTimeZone })}
+                disabled={isSaving}
+              >
+                Use {browserTimeZone}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+      </GlassCard>
+    </div>
+  );
+}
@@ -14,13 +14,15 @@ interface FloatingActionsProps {
   onClear?: () => void;
   onExport?: () => void;
   onSettings?: () => void;
+  onSearch?: () => void;
 }
 
 export function FloatingActions({ 
   progress = 83, 
   onClear, 
   onExport, 
-  onSettings 
+  onSettings,
+  onSearch
 }: FloatingActionsProps) {
   const [showMenu, setShowMenu] = useState(false);
 
@@ -46,7 +48,7 @@ export function FloatingActions({
     { 
       label: "Search", 
       icon: <SearchIcon size={16} />, 
-      action: () => {}, 
+      action: onSearch, 
       color: "text-purple-400 hover:text-purple-300" 
     },
   ];
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { GlassCard } from "@/components/base/GlassCard";
+import { ClockIcon, PauseIcon, PlayIcon, XIcon } from "@/components/icons/Icons";
+import { useNotifications, notificationUtils } from "@/components/ui/NotificationSystem";
+import { useAuth } from "@/lib/auth/AuthContext";
+import type { StudySessionResponse } from "@/lib/study/format";
+import {
+  TIMED_SESSION_TYPES,
+  formatClock,
+  getBreakSeconds,
+  getPomodoroState,
+  MAX_SESSION_HOURS,
+  type TimerMode,
+} from "@/lib/study/timer";
+
+export function FocusTimer() {
+  const [session, setSession] = useState<StudySessionResponse | null>(null);
+  const [syncedAt, setSyncedAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [breakEndsAt, setBreakEndsAt] = useState<number | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sessionType, setSessionType] = useState("dsa");
+  const [topic, setTopic] = useState("");
+  const [timerMode, setTimerMode] = useState<TimerMode>("pomodoro");
+  const pomodorosSeen = useRef<number | null>(null);
+  const { user } = useAuth();
+  const { showNotification } = useNotifications();
+
+  const applySession = useCallback((next: StudySessionResponse | null) => {
+    setSession((prev) => {
+      if (next?.id !== prev?.id) pomodorosSeen.current = null;
+      return next;
+    });
+    setSyncedAt(Date.now());
+    setNow(Date.now());
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      applySession(null);
+      return;
+    }
+
+    fetch("/api/sessions?limit=1")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && applySession(data.activeSession))
+      .catch((error) => console.error("Failed to load study session:", error));
+  }, [user, applySession]);
+
+  // Tick once a second while a session is open
+  useEffect(() => {
+    if (!session) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  const activeSeconds = session
+    ? Math.min(
+        MAX_SESSION_HOURS * 3600,
+        session.activeSeconds + (session.status === "active" ? Math.floor((now - syncedAt) / 1000) : 0)
+      )
+    : 0;
+  const isPomodoro = session?.timerMode === "pomodoro";
+  const pomodoro = getPomodoroState(activeSeconds);
+  const breakRemaining = breakEndsAt ? Math.ceil((breakEndsAt - now) / 1000) : 0;
+
+  const sessionAction = useCallback(async (path: string, method: "POST" | "DELETE" = "POST") => {
+    if (!session) return null;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/sessions/${session.id}${path}`, { method });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      return data;
+    } catch (error) {
+      showNotification(notificationUtils.error("Study session", (error as Error).message));
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [session, showNotification]);
+
+  // Pomodoro: pause for a break when a focus block runs out
+  useEffect(() => {
+    if (!isPomodoro || session?.status !== "active") return;
+    if (pomodorosSeen.current === null || pomodoro.completed < pomodorosSeen.current) {
+      pomodorosSeen.current = pomodoro.completed;
+      return;
+    }
+    if (pomodoro.completed === pomodorosSeen.current) return;
+
+    pomodorosSeen.current = pomodoro.completed;
+    const breakSeconds = getBreakSeconds(pomodoro.completed);
+    sessionAction("/pause").then((data) => {
+      if (!data) return;
+      applySession(data.session);
+      setBreakEndsAt(Date.now() + breakSeconds * 1000);
+      showNotification(notificationUtils.info(
+        `Pomodoro ${pomodoro.completed} done`,
+        `Take a ${breakSeconds / 60}-minute break. The clock is paused.`
+      ));
+    });
+  }, [isPomodoro, session?.status, pomodoro.completed, sessionAction, applySession, showNotification]);
+
+  useEffect(() => {
+    if (breakEndsAt && breakRemaining <= 0) {
+      setBreakEndsAt(null);
+      showNotification(notificationUtils.info("Break's over", "Resume the timer when you're ready."));
+    }
+  }, [breakEndsAt, breakRemaining, showNotification]);
+
+  const handleStart = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionType, topic: topic.trim() || undefined, timerMode }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start study session");
+      }
+      applySession(data.session);
+      setTopic("");
+    } catch (error) {
+      showNotification(notificationUtils.error("Couldn't start timer", (error as Error).message));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePauseResume = async () => {
+    const data = await sessionAction(session?.status === "active" ? "/pause" : "/resume");
+    if (data) {
+      applySession(data.session);
+      setBreakEndsAt(null);
+    }
+  };
+
+  const handleComplete = async () => {
+    const data = await sessionAction("/complete");
+    if (data) {
+      applySession(null);
+      setBreakEndsAt(null);
+      setIsOpen(false);
+      showNotification(notificationUtils.success(
+        "Session logged",
+        `${data.session.duration} ${data.session.duration === 1 ? "minute" : "minutes"} added to your study time.`
+      ));
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm("Discard this session? The time won't be logged.")) return;
+    const data = await sessionAction("", "DELETE");
+    if (data) {
+      applySession(null);
+      setBreakEndsAt(null);
+    }
+  };
+
+  if (!user) return null;
+
+  // Pomodoro counts down the current block (or break); the stopwatch counts up
+  const clock = breakEndsAt
+    ? formatClock(breakRemaining)
+    : isPomodoro
+      ? formatClock(pomodoro.focusRemaining)
+      : formatClock(activeSeconds);
+
+  return (
+    <div className="fixed top-4 right-4 z-30 flex flex-col items-end gap-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="glass-card px-3 py-2 rounded-full flex items-center gap-2 text-sm hover:scale-105 transition-all"
+        title="Focus timer"
+      >
+        <ClockIcon size={16} className={session?.status === "active" ? "text-[var(--neon-green)]" : "text-[var(--text-secondary)]"} />
+        {session ? (
+          <span className="font-mono tabular-nums">{clock}</span>
+        ) : (
+          <span>Focus</span>
+        )}
+        {breakEndsAt && <span className="text-xs text-[var(--text-secondary)]">break</span>}
+        {session?.status === "paused" && !breakEndsAt && <span className="text-xs text-[var(--text-secondary)]">paused</span>}
+      </button>
+
+      {isOpen && (
+        <GlassCard className="w-72 p-4 space-y-4">
+          {session ? (
+            <>
+              <div>
+                <div className="text-xs text-[var(--text-secondary)]">
+                  {TIMED_SESSION_TYPES[session.sessionType] || session.sessionType}
+                  {session.topic && ` • ${session.topic}`}
+                </div>
+                <div className="text-3xl font-mono tabular-nums mt-1">{clock}</div>
+                <div className="text-xs text-[var(--text-secondary)] mt-1">
+                  {breakEndsAt
+                    ? "On a break"
+                    : `${formatClock(activeSeconds)} focused`}
+                  {isPomodoro && ` • ${pomodoro.completed} 🍅`}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handlePauseResume}
+                  disabled={isSubmitting}
+                  className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-white/5 hover:bg-white/10 text-sm disabled:opacity-50"
+                >
+                  {session.status === "active" ? <PauseIcon size={14} /> : <PlayIcon size={14} />}
+                  {session.status === "active" ? "Pause" : "Resume"}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleComplete}
+                  disabled={isSubmitting}
+                  className="flex-1 gradient-primary text-white py-1.5 rounded-md text-sm disabled:opacity-50"
+                >
+                  Finish
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDiscard}
+                  disabled={isSubmitting}
+                  className="px-2 rounded-md bg-white/5 hover:bg-white/10 text-[var(--text-secondary)] hover:text-[var(--error)] disabled:opacity-50"
+                  title="Discard session"
+                >
+                  <XIcon size={14} />
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-1">
+                {Object.entries(TIMED_SESSION_TYPES).map(([key, label]) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setSessionType(key)}
+                    className={`py-1.5 rounded-md text-xs ${sessionType === key ? "bg-white/15" : "bg-white/5 hover:bg-white/10"}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <input
+                type="text"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder="Topic (optional)"
+                maxLength={200}
+                className="w-full px-3 py-1.5 rounded-md bg-white/5 border border-white/10 text-sm focus:outline-none focus:border-white/30"
+              />
+
+              <label className="flex items-center justify-between text-sm">
+                <span>Pomodoro (25 / 5)</span>
+                <input
+                  type="checkbox"
+                  checked={timerMode === "pomodoro"}
+                  onChange={(e) => setTimerMode(e.target.checked ? "pomodoro" : "stopwatch")}
+                />
+              </label>
+
+              <button
+                type="button"
+                onClick={handleStart}
+                disabled={isSubmitting}
+                className="w-full gradient-primary text-white py-1.5 rounded-md text-sm disabled:opacity-50"
+              >
+                Start session
+              </button>
+            </>
+          )}
+        </GlassCard>
+      )}
+    </div>
+  );
+}
@@ -17,9 +17,10 @@ interface CommandPaletteProps {
   isOpen: boolean;
   onClose: () => void;
   commands: Command[];
+  onSearch?: (query: string) => void; // offered as the first result while typing
 }
 
-export function CommandPalette({ isOpen, onClose, commands }: CommandPaletteProps) {
+export function CommandPalette({ isOpen, onClose, commands, onSearch }: CommandPaletteProps) {
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [filteredCommands, setFilteredCommands] = useState<Command[]>([]);
@@ -28,7 +29,8 @@ export function CommandPalette({ isOpen, onClose, commands }: CommandPaletteProp
 
   // Filter commands based on query
   useEffect(() => {
-    if (!query.trim()) {
+    const trimmed = query.trim();
+    if (!trimmed) {
       setFilteredCommands(commands);
     } else {
       const filtered = commands.filter(command =>
@@ -36,10 +38,17 @@ export function CommandPalette({ isOpen, onClose, commands }: CommandPaletteProp
         command.description.toLowerCase().includes(query.toLowerCase()) ||
         command.category.toLowerCase().includes(query.toLowerCase())
       );
-      setFilteredCommands(filtered);
+      setFilteredCommands(onSearch ? [{
+        id: 'search-query',
+        title: `Search conversations for "${trimmed}"`,
+        description: 'Find matching messages and conversation titles',
+        icon: SearchIcon,
+        category: 'navigation',
+        action: () => onSearch(trimmed),
+      }, ...filtered] : filtered);
     }
     setSelectedIndex(0);
-  }, [query, commands]);
+  }, [query, commands, onSearch]);
 
   // Handle keyboard navigation
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -262,10 +271,31 @@ export const defaultCommands: Command[] = [
     id: 'search-messages',
     title: 'Search Messages',
     description: 'Search through conversation history',
-    shortcut: 'Cmd+F',
+    shortcut: 'Cmd+Shift+F',
     category: 'navigation',
     action: () => console.log('Search messages')
   },
+  {
+    id: 'open-roadmap',
+    title: 'Open Roadmap',
+    description: 'View your study plan and check off tasks',
+    category: 'navigation',
+    action: () => console.log('Open roadmap')
+  },
+  {
+    id: 'open-review',
+    title: 'Review Queue',
+    description: 'Go through the cards due today',
+    category: 'navigation',
+    action: () => console.log('Open review')
+  },
+  {
+    id: 'open-saved',
+    title: 'Saved Answers',
+    description: 'Answers you bookmarked, by tag',
+    category: 'navigation',
+    action: () => console.log('Open saved')
+  },
   {
     id: 'code-review',
     title: 'Code Review',
@@ -141,8 +141,20 @@ export function ContextMenu({ trigger, actions, disabled = false, className = ""
   );
 }
 
-// Predefined context menu actions for messages
-export function createMessageContextActions(messageId: string, isUser: boolean, content: string) {
+export interface MessageContextHandlers {
+  onEdit?: () => void;
+  onReply?: () => void;
+  onBookmark?: () => void; // saves the answer, or removes it when already saved
+  onShare?: () => void;
+}
+
+// Predefined context menu actions for messages; actions without a handler are left out
+export function createMessageContextActions(
+  isUser: boolean,
+  content: string,
+  handlers: MessageContextHandlers,
+  isBookmarked: boolean = false
+) {
   const actions: ContextMenuAction[] = [
     {
       id: 'copy',
@@ -150,39 +162,45 @@ export function createMessageContextActions(messageId: string, isUser: boolean,
       icon: CopyIcon,
       shortcut: 'Cmd+C',
       action: () => navigator.clipboard.writeText(content)
-    },
-    {
-      id: 'reply',
-      label: 'Reply',
-      icon: ReplyIcon,
-      action: () => console.log(`Reply to ${messageId}`)
     }
   ];
 
-  if (isUser) {
-    actions.splice(1, 0, {
+  if (isUser && handlers.onEdit) {
+    actions.push({
       id: 'edit',
       label: 'Edit Message',
       icon: EditIcon,
       shortcut: 'E',
-      action: () => console.log(`Edit ${messageId}`)
+      action: handlers.onEdit
+    });
+  }
+
+  if (handlers.onReply) {
+    actions.push({
+      id: 'reply',
+      label: 'Reply',
+      icon: ReplyIcon,
+      action: handlers.onReply
+    });
+  }
+
+  if (!isUser && handlers.onBookmark) {
+    actions.push({
+      id: 'bookmark',
+      label: isBookmarked ? 'Remove from Saved' : 'Save',
+      icon: BookmarkIcon,
+      shortcut: 'B',
+      action: handlers.onBookmark
+    });
+  }
+
+  if (!isUser && handlers.onShare) {
+    actions.push({
+      id: 'share',
+      label: 'Share',
+      icon: ShareIcon,
+      action: handlers.onShare
     });
-  } else {
-    actions.push(
-      {
-        id: 'bookmark',
-        label: 'Bookmark',
-        icon: BookmarkIcon,
-        shortcut: 'B',
-        action: () => console.log(`Bookmark ${messageId}`)
-      },
-      {
-        id: 'share',
-        label: 'Share',
-        icon: ShareIcon,
-        action: () => console.log(`Share ${messageId}`)
-      }
-    );
   }
 
   return actions;
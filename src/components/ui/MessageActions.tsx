@@ -12,6 +12,7 @@ interface MessageActionsProps {
   onBookmark?: () => void;
   onReply?: () => void;
   isUser?: boolean;
+  isBookmarked?: boolean;
 }
 
 export function MessageActions({
@@ -22,7 +23,8 @@ export function MessageActions({
   onReact,
   onBookmark,
   onReply,
-  isUser = false
+  isUser = false,
+  isBookmarked = false
 }: MessageActionsProps) {
   const [activeAction, setActiveAction] = useState<string | null>(null);
 
@@ -58,7 +60,7 @@ export function MessageActions({
     { 
       id: 'bookmark', 
       icon: BookmarkIcon, 
-      label: 'Save', 
+      label: isBookmarked ? 'Remove from Saved' : 'Save', 
       onClick: onBookmark,
       showFor: 'ai'
     },
@@ -72,9 +74,11 @@ export function MessageActions({
   ];
 
   const filteredActions = actions.filter(action => 
-    action.showFor === 'both' || 
-    (action.showFor === 'user' && isUser) || 
-    (action.showFor === 'ai' && !isUser)
+    action.onClick && (
+      action.showFor === 'both' || 
+      (action.showFor === 'user' && isUser) || 
+      (action.showFor === 'ai' && !isUser)
+    )
   );
 
   return (
@@ -112,7 +116,11 @@ export function MessageActions({
                 transition: `all 200ms ease-out ${index * 30}ms`
               }}
             >
-              <IconComponent className="w-4 h-4 text-text-secondary group-hover:text-text-primary transition-colors" />
+              <IconComponent className={`w-4 h-4 transition-colors ${
+                action.id === 'bookmark' && isBookmarked
+                  ? 'text-electric-blue'
+                  : 'text-text-secondary group-hover:text-text-primary'
+              }`} />
               
               {/* Tooltip */}
               <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-bg-tertiary text-xs text-text-primary rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
@@ -43,27 +43,3 @@ export const preferencesByType: Record<InterviewTypeKey, PreferenceQuestion[]> =
     { id: "mocks", text: "Include mock interview sessions?", options: ["Yes", "No"] },
   ],
 };
-
-export const roadmapTemplates: Record<InterviewTypeKey, Array<{ title: string; progress: number }>> = {
-  dsa: [
-    { title: "Arrays & Strings", progress: 0 },
-    { title: "Trees & Graphs", progress: 0 },
-    { title: "DP & Greedy", progress: 0 },
-  ],
-  system: [
-    { title: "System design fundamentals", progress: 0 },
-    { title: "Caching, Sharding, Queues", progress: 0 },
-    { title: "Design 3 systems", progress: 0 },
-  ],
-  behavioral: [
-    { title: "STAR stories", progress: 0 },
-    { title: "Leadership & Ownership", progress: 0 },
-    { title: "Mocks & feedback", progress: 0 },
-  ],
-  full: [
-    { title: "Balanced DSA + SD + Behavioral", progress: 0 },
-    { title: "Weekly mocks", progress: 0 },
-  ],
-};
-
-
@@ -0,0 +1,252 @@
+export type RoadmapTrack = "dsa" | "system" | "behavioral";
+export type TopicLevel = "foundation" | "core" | "advanced";
+
+export type RoadmapTopic = {
+  key: string;
+  track: RoadmapTrack;
+  title: string;
+  level: TopicLevel;
+  baseHours: number; // hours an intermediate candidate needs to get interview-ready
+  areas: string[]; // weak/strong area keys this topic covers
+  learn: string;
+  practice: string[]; // concrete practice items, in the order they should be tackled
+};
+
+// Topics are listed in the order they should be studied within each level
+export const roadmapTopics: RoadmapTopic[] = [
+  // DSA
+  {
+    key: "arrays-hashing",
+    track: "dsa",
+    title: "Arrays & Hashing",
+    level: "foundation",
+    baseHours: 6,
+    areas: ["arrays", "strings", "hashing", "data_structures"],
+    learn: "Hash maps and sets, prefix sums, frequency counting",
+    practice: ["Two Sum", "Valid Anagram", "Group Anagrams", "Top K Frequent Elements", "Product of Array Except Self", "Longest Consecutive Sequence"],
+  },
+  {
+    key: "two-pointers",
+    track: "dsa",
+    title: "Two Pointers & Sliding Window",
+    level: "foundation",
+    baseHours: 5,
+    areas: ["arrays", "strings", "problem_solving"],
+    learn: "Opposite-end pointers, fixed and variable-size windows",
+    practice: ["Valid Palindrome", "3Sum", "Container With Most Water", "Longest Substring Without Repeating Characters", "Minimum Window Substring"],
+  },
+  {
+    key: "stacks-queues",
+    track: "dsa",
+    title: "Stacks & Queues",
+    level: "foundation",
+    baseHours: 4,
+    areas: ["stacks", "queues", "data_structures"],
+    learn: "Stack and queue operations, monotonic stacks",
+    practice: ["Valid Parentheses", "Min Stack", "Daily Temperatures", "Evaluate Reverse Polish Notation", "Largest Rectangle in Histogram"],
+  },
+  {
+    key: "linked-lists",
+    track: "dsa",
+    title: "Linked Lists",
+    level: "foundation",
+    baseHours: 4,
+    areas: ["linked_lists", "data_structures"],
+    learn: "Pointer manipulation, dummy heads, fast and slow pointers",
+    practice: ["Reverse Linked List", "Merge Two Sorted Lists", "Linked List Cycle", "Reorder List", "LRU Cache"],
+  },
+  {
+    key: "binary-search",
+    track: "dsa",
+    title: "Binary Search",
+    level: "core",
+    baseHours: 4,
+    areas: ["binary_search", "algorithms"],
+    learn: "Search bounds, searching on the answer space",
+    practice: ["Binary Search", "Search in Rotated Sorted Array", "Find Minimum in Rotated Sorted Array", "Koko Eating Bananas", "Median of Two Sorted Arrays"],
+  },
+  {
+    key: "trees",
+    track: "dsa",
+    title: "Trees & BSTs",
+    level: "core",
+    baseHours: 6,
+    areas: ["trees", "data_structures", "recursion"],
+    learn: "Traversals, recursion on trees, BST invariants",
+    practice: ["Maximum Depth of Binary Tree", "Invert Binary Tree", "Validate Binary Search Tree", "Lowest Common Ancestor", "Binary Tree Level Order Traversal", "Serialize and Deserialize Binary Tree"],
+  },
+  {
+    key: "graphs",
+    track: "dsa",
+    title: "Graphs: BFS, DFS & Topological Sort",
+    level: "core",
+    baseHours: 7,
+    areas: ["graphs", "graph_algorithms", "algorithms"],
+    learn: "Adjacency lists, BFS and DFS, cycle detection, topological order",
+    practice: ["Number of Islands", "Clone Graph", "Course Schedule", "Pacific Atlantic Water Flow", "Rotting Oranges", "Word Ladder"],
+  },
+  {
+    key: "heaps",
+    track: "dsa",
+    title: "Heaps & Intervals",
+    level: "core",
+    baseHours: 4,
+    areas: ["heaps", "intervals", "data_structures"],
+    learn: "Priority queues, top-k patterns, sorting and merging intervals",
+    practice: ["Kth Largest Element in an Array", "Merge Intervals", "Meeting Rooms II", "K Closest Points to Origin", "Find Median from Data Stream"],
+  },
+  {
+    key: "backtracking",
+    track: "dsa",
+    title: "Recursion & Backtracking",
+    level: "advanced",
+    baseHours: 5,
+    areas: ["recursion", "backtracking", "advanced_algorithms"],
+    learn: "Decision trees, pruning, generating subsets and permutations",
+    practice: ["Subsets", "Permutations", "Combination Sum", "Word Search", "N-Queens"],
+  },
+  {
+    key: "dynamic-programming",
+    track: "dsa",
+    title: "Dynamic Programming",
+    level: "advanced",
+    baseHours: 8,
+    areas: ["dynamic_programming", "advanced_algorithms", "algorithms"],
+    learn: "State definition, memoization vs tabulation, 1-D and 2-D DP",
+    practice: ["Climbing Stairs", "House Robber", "Coin Change", "Longest Increasing Subsequence", "Longest Common Subsequence", "Edit Distance"],
+  },
+  {
+    key: "advanced-graphs",
+    track: "dsa",
+    title: "Shortest Paths & Union-Find",
+    level: "advanced",
+    baseHours: 5,
+    areas: ["graph_algorithms", "advanced_algorithms"],
+    learn: "Dijkstra, union-find, minimum spanning trees",
+    practice: ["Network Delay Time", "Number of Connected Components", "Redundant Connection", "Cheapest Flights Within K Stops", "Min Cost to Connect All Points"],
+  },
+
+  // System design
+  {
+    key: "sd-fundamentals",
+    track: "system",
+    title: "System Design Fundamentals",
+    level: "foundation",
+    baseHours: 5,
+    areas: ["system_design", "scalability"],
+    learn: "Requirements gathering, capacity estimates, latency vs throughput, CAP",
+    practice: ["Estimate storage and QPS for a photo-sharing app", "Design a URL shortener"],
+  },
+  {
+    key: "storage",
+    track: "system",
+    title: "Databases & Storage",
+    level: "core",
+    baseHours: 6,
+    areas: ["database_design", "databases", "storage"],
+    learn: "SQL vs NoSQL, indexing, data modelling, blob storage",
+    practice: ["Design a key-value store", "Model the data for a ride-sharing app", "Design a file storage service"],
+  },
+  {
+    key: "caching",
+    track: "system",
+    title: "Caching & CDNs",
+    level: "core",
+    baseHours: 4,
+    areas: ["caching_strategies", "caching", "scalability"],
+    learn: "Cache-aside and write-through, eviction, invalidation, CDNs",
+    practice: ["Add caching to a product catalogue", "Design a distributed cache"],
+  },
+  {
+    key: "messaging",
+    track: "system",
+    title: "Queues, Streams & Async Processing",
+    level: "core",
+    baseHours: 4,
+    areas: ["distributed_systems", "messaging", "queues"],
+    learn: "Message queues, pub/sub, event streams, idempotent consumers",
+    practice: ["Design a notification service", "Design a job scheduler"],
+  },
+  {
+    key: "distributed",
+    track: "system",
+    title: "Sharding, Replication & Consistency",
+    level: "advanced",
+    baseHours: 6,
+    areas: ["distributed_systems", "scalability", "databases"],
+    learn: "Partitioning schemes, leader and leaderless replication, consensus",
+    practice: ["Shard a user database", "Design a globally replicated counter", "Design a distributed ID generator"],
+  },
+  {
+    key: "reliability",
+    track: "system",
+    title: "Reliability, Rate Limiting & Observability",
+    level: "advanced",
+    baseHours: 4,
+    areas: ["reliability", "scalability"],
+    learn: "Redundancy, retries and backoff, rate limiting, monitoring and alerting",
+    practice: ["Design a rate limiter", "Plan failover for a payments API"],
+  },
+  {
+    key: "design-practice",
+    track: "system",
+    title: "End-to-End Design Practice",
+    level: "advanced",
+    baseHours: 6,
+    areas: ["system_design", "architecture_design"],
+    learn: "Running a 45-minute design interview from requirements to trade-offs",
+    practice: ["Design a chat service", "Design a news feed", "Design a video streaming platform"],
+  },
+
+  // Behavioral
+  {
+    key: "star-stories",
+    track: "behavioral",
+    title: "STAR Method & Story Bank",
+    level: "foundation",
+    baseHours: 4,
+    areas: ["communication", "leadership_stories"],
+    learn: "The STAR structure and picking stories that show impact",
+    practice: ["Your most impactful project", "A time you learned something quickly", "A project you are proud of"],
+  },
+  {
+    key: "leadership",
+    track: "behavioral",
+    title: "Leadership & Ownership",
+    level: "core",
+    baseHours: 3,
+    areas: ["leadership", "leadership_stories", "technical_leadership", "mentoring", "ownership"],
+    learn: "Showing initiative, influence without authority and mentoring",
+    practice: ["A time you took ownership beyond your role", "A time you influenced a technical decision", "A time you mentored someone"],
+  },
+  {
+    key: "conflict",
+    track: "behavioral",
+    title: "Conflict & Collaboration",
+    level: "core",
+    baseHours: 3,
+    areas: ["conflict_resolution", "conflict", "communication"],
+    learn: "Disagreeing constructively and working across teams",
+    practice: ["A disagreement with a teammate", "Pushing back on a deadline", "Working with a difficult stakeholder"],
+  },
+  {
+    key: "failure",
+    track: "behavioral",
+    title: "Failure, Feedback & Growth",
+    level: "core",
+    baseHours: 2,
+    areas: ["failure_handling", "feedback"],
+    learn: "Owning mistakes and showing what changed afterwards",
+    practice: ["A project that failed", "Critical feedback you received", "A mistake you made in production"],
+  },
+  {
+    key: "company-fit",
+    track: "behavioral",
+    title: "Company Research & Values",
+    level: "advanced",
+    baseHours: 2,
+    areas: ["culture", "company_research"],
+    learn: "Mapping your stories to each target company's values",
+    practice: ["Why this company?", "Questions to ask your interviewer"],
+  },
+];
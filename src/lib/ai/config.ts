@@ -0,0 +1,64 @@
+/**
+ * LLM Provider Configuration
+ *
+ * Reads the provider settings from the environment:
+ *   LLM_PROVIDER     - 'openai' | 'anthropic' | 'ollama' | 'llamacpp' (default: 'ollama')
+ *   LLM_BASE_URL     - API base URL, defaults to the provider's public/local endpoint
+ *   LLM_API_KEY      - API key (not needed for local providers)
+ *   LLM_MODEL        - model name sent to the provider
+ *   LLM_MAX_TOKENS   - maximum tokens per response (default: 1024)
+ *   LLM_TEMPERATURE  - sampling temperature (default: 0.7)
+ *   LLM_TIMEOUT_MS   - request timeout in milliseconds (default: 60000)
+ */
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'ollama' | 'llamacpp';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, { baseUrl: string; model: string }> = {
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  anthropic: { baseUrl: 'https://api.anthropic.com/v1', model: 'claude-3-5-haiku-latest' },
+  ollama: { baseUrl: 'http://localhost:11434', model: 'llama3.1' },
+  llamacpp: { baseUrl: 'http://localhost:8080/v1', model: 'local-model' },
+};
+
+function isProviderName(value: string): value is LLMProviderName {
+  return value in PROVIDER_DEFAULTS;
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Build the LLM configuration from environment variables
+ */
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const providerName = (env.LLM_PROVIDER || 'ollama').toLowerCase();
+
+  if (!isProviderName(providerName)) {
+    throw new Error(`Unsupported LLM provider: ${providerName}`);
+  }
+
+  const defaults = PROVIDER_DEFAULTS[providerName];
+
+  return {
+    provider: providerName,
+    baseUrl: (env.LLM_BASE_URL || defaults.baseUrl).replace(/\/+$/, ''),
+    apiKey: env.LLM_API_KEY || undefined,
+    model: env.LLM_MODEL || defaults.model,
+    maxTokens: parseNumber(env.LLM_MAX_TOKENS, 1024),
+    temperature: parseNumber(env.LLM_TEMPERATURE, 0.7),
+    timeoutMs: parseNumber(env.LLM_TIMEOUT_MS, 60000),
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * HTTP helpers shared by the LLM provider adapters
+ */
+
+/**
+ * Combine the caller's abort signal with a request timeout
+ */
+export function withTimeout(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * POST a JSON body and return the raw response, throwing on non-2xx status
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  options: { headers?: Record<string, string>; signal: AbortSignal; provider: string }
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(
+      `${options.provider} request failed with status ${response.status}${detail ? `: ${detail.slice(0, 500)}` : ''}`
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Read a response body line by line
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    // Stops the underlying request when the consumer exits early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Read a server-sent event stream, yielding the `data:` payload of each event
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  let data: string[] = [];
+
+  for await (const line of readLines(response)) {
+    if (line === '') {
+      if (data.length) yield data.join('\n');
+      data = [];
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (data.length) yield data.join('\n');
+}
+
+/**
+ * Rough token estimate for providers that do not report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
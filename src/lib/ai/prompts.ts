@@ -0,0 +1,169 @@
+/**
+ * System prompt construction for the interview-prep assistant
+ */
+
+import type { Message, MockInterview, Question, User } from '@/lib/database/schema';
+import { safeJsonParse } from '@/lib/database/utils';
+import { interviewTypes } from '@/data/onboarding';
+import { PHASE_LABELS, RUBRIC_CRITERIA, getPhaseEndsAt, type MockInterviewPhase, type PhaseRecord } from '@/lib/interview/mock';
+import { quoteForReply } from '@/lib/chat/annotations';
+import type { LLMMessage } from './types';
+
+const CONTEXT_FOCUS: Record<string, string> = {
+  dsa: 'data structures and algorithms practice: clarify constraints, discuss approaches, then code and analyse time/space complexity',
+  system: 'system design practice: requirements, high-level architecture, data model, scaling and trade-offs',
+  system_design: 'system design practice: requirements, high-level architecture, data model, scaling and trade-offs',
+  behavioral: 'behavioral interview practice: help structure answers with the STAR method and quantify impact',
+  code_review: 'code review: point out bugs, readability and performance issues, and suggest concrete fixes',
+  general: 'general interview preparation across coding, system design and behavioral rounds',
+};
+
+function formatList(json: string | null): string | null {
+  const items = safeJsonParse<string[]>(json, []);
+  return items.length ? items.map(item => item.replace(/_/g, ' ')).join(', ') : null;
+}
+
+/**
+ * Build the system prompt from the user's onboarding profile
+ */
+export function buildSystemPrompt(user: User | null, context: string = 'general'): string {
+  const lines = [
+    'You are Tayyari AI, an expert technical interview coach.',
+    `This conversation focuses on ${CONTEXT_FOCUS[context] || CONTEXT_FOCUS.general}.`,
+    'Be concise and practical, format answers in Markdown, and use fenced code blocks with a language tag for code.',
+  ];
+
+  if (!user) {
+    return lines.join('\n');
+  }
+
+  const profile: string[] = [`- Name: ${user.name}`];
+  if (user.role) profile.push(`- Current situation: ${user.role}`);
+  if (user.experienceLevel) profile.push(`- Experience level: ${user.experienceLevel}`);
+  if (user.yearsOfExperience) profile.push(`- Years of experience: ${user.yearsOfExperience}`);
+
+  const interviewTypes = formatList(user.interviewTypes);
+  if (interviewTypes) profile.push(`- Preparing for: ${interviewTypes}`);
+
+  const targetCompanies = formatList(user.targetCompanies);
+  if (targetCompanies) profile.push(`- Target companies: ${targetCompanies}`);
+
+  const targetRoles = formatList(user.targetRoles);
+  if (targetRoles) profile.push(`- Target roles: ${targetRoles}`);
+
+  if (user.targetDate) profile.push(`- Target interview date: ${user.targetDate.split('T')[0]}`);
+  if (user.hoursPerWeek) profile.push(`- Study time: ${user.hoursPerWeek} hours per week`);
+
+  const weakAreas = formatList(user.weakAreas);
+  if (weakAreas) profile.push(`- Areas to improve: ${weakAreas}`);
+
+  const strongAreas = formatList(user.strongAreas);
+  if (strongAreas) profile.push(`- Strengths: ${strongAreas}`);
+
+  if (user.difficultyPreference) profile.push(`- Preferred difficulty: ${user.difficultyPreference}`);
+  if (user.learningStyle) profile.push(`- Learning style: ${user.learningStyle}`);
+
+  const preferences = safeJsonParse<Record<string, string>>(user.notificationPreferences, {});
+  if (preferences.language) profile.push(`- Preferred programming language: ${preferences.language}`);
+
+  lines.push('', 'Candidate profile:', ...profile);
+  lines.push('', 'Tailor explanations, examples and difficulty to this profile.');
+
+  return lines.join('\n');
+}
+
+const PHASE_INSTRUCTIONS: Record<MockInterviewPhase, string> = {
+  intro: 'Greet the candidate, introduce yourself as the interviewer and ask them to briefly walk through their background. Do not present the problem yet.',
+  problem: 'Work through the problem below. Let the candidate ask clarifying questions, ask them to think aloud, and never hand over the solution. Give a small hint only when they are clearly stuck.',
+  follow_ups: 'Ask follow-up questions about the candidate\'s answer: edge cases, complexity, alternatives, scaling, or deeper probing of their story. One question at a time.',
+  wrap_up: 'Tell the candidate time is nearly up, give them a chance to ask you questions, and close the interview politely. Do not reveal scores or a hiring decision.',
+};
+
+/**
+ * System prompt for the interviewer persona during a mock interview
+ */
+export function buildInterviewerPrompt(
+  user: User | null,
+  interview: MockInterview,
+  phases: PhaseRecord[],
+  question: Question | null,
+  now: Date = new Date()
+): string {
+  const type = interviewTypes.find(entry => entry.key === interview.interviewType);
+  const phase = interview.currentPhase as MockInterviewPhase;
+  const endsAt = getPhaseEndsAt(phases);
+  const minutesLeft = endsAt ? Math.round((new Date(endsAt).getTime() - now.getTime()) / 60_000) : null;
+
+  const lines = [
+    `You are a senior engineer conducting a realistic ${type?.label || interview.interviewType} mock interview${user ? ` with ${user.name}` : ''}.`,
+    'Stay in character as the interviewer: be friendly but professional, keep replies short, and ask one thing at a time.',
+    'Do not coach or lecture; this is an assessment. Format any code in fenced code blocks with a language tag.',
+    '',
+    `Current phase: ${PHASE_LABELS[phase]}.`,
+    PHASE_INSTRUCTIONS[phase],
+  ];
+
+  if (minutesLeft !== null) {
+    lines.push(minutesLeft > 0
+      ? `About ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'} remain in this phase; pace the conversation accordingly.`
+      : 'This phase is over time; wrap it up quickly.');
+  }
+
+  if (question) {
+    lines.push('', `Interview problem (${question.difficulty}): ${question.title}`, question.prompt);
+  } else if (phase === 'problem') {
+    lines.push('', `Choose a suitable ${interview.interviewType === 'full' ? 'coding' : type?.label || ''} problem for the candidate's level and present it.`);
+  }
+
+  if (user?.experienceLevel) {
+    lines.push('', `The candidate's experience level is ${user.experienceLevel}; calibrate expectations to it.`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * System prompt asking the model to grade a finished mock interview transcript
+ */
+export function buildScorecardPrompt(interview: MockInterview, question: Question | null): string {
+  const criteria = RUBRIC_CRITERIA.map(criterion => `- ${criterion.key}: ${criterion.description}`);
+
+  return [
+    'You are grading a mock technical interview from its transcript.',
+    `Interview type: ${interview.interviewType}.${question ? ` Problem: ${question.title} (${question.difficulty}).` : ''}`,
+    '',
+    'Score each criterion from 1 (poor) to 5 (excellent):',
+    ...criteria,
+    'Use null for codeQuality if the candidate never wrote code or a design.',
+    '',
+    'Reply with only a JSON object in this shape:',
+    '{"problemSolving":{"score":3,"notes":"..."},"communication":{"score":4,"notes":"..."},"codeQuality":{"score":null,"notes":"..."},"summary":"...","strengths":["..."],"improvements":["..."]}',
+  ].join('\n');
+}
+
+/**
+ * Plain-text transcript of a conversation for grading
+ */
+export function formatTranscript(history: Message[]): string {
+  return history
+    .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+    .map(msg => `${msg.role === 'user' ? 'Candidate' : 'Interviewer'}: ${msg.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Convert stored chat messages into provider messages; replies quote the message they answer
+ */
+export function toLLMMessages(history: Message[]): LLMMessage[] {
+  const byId = new Map(history.map(msg => [msg.id, msg]));
+
+  return history
+    .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+    .map(msg => {
+      const quoted = msg.replyToMessageId ? byId.get(msg.replyToMessageId) : undefined;
+      return {
+        role: msg.role as LLMMessage['role'],
+        content: quoted ? `> ${quoteForReply(quoted.content)}\n\n${msg.content}` : msg.content,
+      };
+    });
+}
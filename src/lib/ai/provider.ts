@@ -0,0 +1,40 @@
+/**
+ * LLM Provider Factory
+ *
+ * Picks the provider adapter configured through the LLM_* environment
+ * variables (see ./config.ts).
+ */
+
+import { getLLMConfig, type LLMConfig } from './config';
+import { AnthropicProvider } from './providers/anthropicProvider';
+import { OllamaProvider } from './providers/ollamaProvider';
+import { OpenAIProvider } from './providers/openaiProvider';
+import type { LLMProvider } from './types';
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Create a provider for the given configuration
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'llamacpp':
+      return new OpenAIProvider(config, 'llamacpp');
+  }
+}
+
+/**
+ * Get the provider configured for this process
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createLLMProvider(getLLMConfig());
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import type { LLMStreamEvent } from '../types';
+import { AnthropicProvider } from './anthropicProvider';
+import { type MockServer, sendJson, startMockServer, testConfig } from './mockServer';
+
+const request = {
+  system: 'Be brief.',
+  messages: [
+    { role: 'system' as const, content: 'Use Python.' },
+    { role: 'user' as const, content: 'Reverse a list.' },
+  ],
+};
+
+function sse(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+describe('AnthropicProvider', () => {
+  let server: MockServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  test('complete moves system messages into the system prompt', async () => {
+    server = await startMockServer((_, res) => sendJson(res, 200, {
+      model: 'claude-test',
+      content: [
+        { type: 'text', text: 'Use ' },
+        { type: 'tool_use' },
+        { type: 'text', text: 'slicing.' },
+      ],
+      usage: { output_tokens: 3 },
+    }));
+    const provider = new AnthropicProvider(testConfig('anthropic', server.baseUrl));
+
+    const response = await provider.complete(request);
+
+    assert.deepEqual(response, { content: 'Use slicing.', tokens: 3, model: 'claude-test' });
+    const [sent] = server.requests;
+    assert.equal(sent.url, '/messages');
+    assert.equal(sent.headers['x-api-key'], 'test-key');
+    assert.equal(sent.headers['anthropic-version'], '2023-06-01');
+    assert.deepEqual(sent.body, {
+      model: 'test-model',
+      system: 'Be brief.\n\nUse Python.',
+      messages: [{ role: 'user', content: 'Reverse a list.' }],
+      max_tokens: 256,
+      temperature: 0.5,
+    });
+  });
+
+  test('stream yields text deltas and the reported usage', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(sse('message_start', { type: 'message_start', message: { model: 'claude-test' } }));
+      res.write(sse('content_block_delta', { type: 'content_block_delta', delta: { type: 'text_delta', text: 'xs' } }));
+      res.write(sse('ping', { type: 'ping' }));
+      res.write(sse('content_block_delta', { type: 'content_block_delta', delta: { type: 'text_delta', text: '[::-1]' } }));
+      res.write(sse('message_delta', { type: 'message_delta', usage: { output_tokens: 4 } }));
+      res.end(sse('message_stop', { type: 'message_stop' }));
+    });
+    const provider = new AnthropicProvider(testConfig('anthropic', server.baseUrl));
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of provider.stream(request)) {
+      events.push(event);
+    }
+
+    assert.deepEqual(events, [
+      { type: 'delta', content: 'xs' },
+      { type: 'delta', content: '[::-1]' },
+      { type: 'done', tokens: 4, model: 'claude-test' },
+    ]);
+    assert.equal(server.requests[0].body.stream, true);
+  });
+
+  test('error responses carry the status and body', async () => {
+    server = await startMockServer((_, res) => sendJson(res, 401, { type: 'error', error: { message: 'invalid x-api-key' } }));
+    const provider = new AnthropicProvider(testConfig('anthropic', server.baseUrl));
+
+    await assert.rejects(provider.complete(request), /^Error: anthropic request failed with status 401: .*invalid x-api-key/);
+  });
+
+  test('error events in the stream are thrown', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(sse('content_block_delta', { type: 'content_block_delta', delta: { type: 'text_delta', text: 'xs' } }));
+      res.end(sse('error', { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }));
+    });
+    const provider = new AnthropicProvider(testConfig('anthropic', server.baseUrl));
+
+    const stream = provider.stream(request);
+    assert.deepEqual((await stream.next()).value, { type: 'delta', content: 'xs' });
+    await assert.rejects(stream.next(), { message: 'anthropic stream error: Overloaded' });
+  });
+
+  test('aborting a stream stops the request', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(sse('content_block_delta', { type: 'content_block_delta', delta: { type: 'text_delta', text: 'xs' } }));
+    });
+    const provider = new AnthropicProvider(testConfig('anthropic', server.baseUrl));
+    const controller = new AbortController();
+
+    const stream = provider.stream({ ...request, signal: controller.signal });
+    await stream.next();
+
+    controller.abort();
+    await assert.rejects(stream.next(), { name: 'AbortError' });
+    await server.clientDisconnected;
+  });
+});
@@ -0,0 +1,117 @@
+import type { LLMConfig } from '../config';
+import { estimateTokens, postJson, readServerSentEvents, withTimeout } from '../http';
+import type { LLMCompletionRequest, LLMCompletionResponse, LLMProvider, LLMStreamEvent } from '../types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicMessageResponse {
+  model?: string;
+  content: Array<{ type: string; text?: string }>;
+  usage?: { output_tokens?: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model?: string };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Adapter for Anthropic-compatible Messages APIs (POST /messages)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel: string;
+
+  constructor(private readonly config: LLMConfig) {
+    this.defaultModel = config.model;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return {
+      'anthropic-version': ANTHROPIC_VERSION,
+      ...(this.config.apiKey ? { 'x-api-key': this.config.apiKey } : {}),
+    };
+  }
+
+  protected buildBody(request: LLMCompletionRequest, model: string) {
+    // The Messages API takes the system prompt separately and only accepts user/assistant turns
+    const systemParts = [
+      request.system,
+      ...request.messages.filter(m => m.role === 'system').map(m => m.content),
+    ].filter(Boolean);
+
+    return {
+      model,
+      system: systemParts.length ? systemParts.join('\n\n') : undefined,
+      messages: request.messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role, content: m.content })),
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+      temperature: request.temperature ?? this.config.temperature,
+    };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const model = request.model || this.defaultModel;
+
+    const response = await postJson(
+      `${this.config.baseUrl}/messages`,
+      this.buildBody(request, model),
+      {
+        headers: this.buildHeaders(),
+        signal: withTimeout(this.config.timeoutMs, request.signal),
+        provider: this.name,
+      }
+    );
+
+    const data: AnthropicMessageResponse = await response.json();
+    const content = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+
+    return {
+      content,
+      tokens: data.usage?.output_tokens ?? estimateTokens(content),
+      model: data.model || model,
+    };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamEvent> {
+    const model = request.model || this.defaultModel;
+
+    const response = await postJson(
+      `${this.config.baseUrl}/messages`,
+      { ...this.buildBody(request, model), stream: true },
+      {
+        headers: this.buildHeaders(),
+        signal: withTimeout(this.config.timeoutMs, request.signal),
+        provider: this.name,
+      }
+    );
+
+    let responseModel = model;
+    let tokens: number | undefined;
+
+    for await (const data of readServerSentEvents(response)) {
+      const event: AnthropicStreamEvent = JSON.parse(data);
+
+      if (event.type === 'message_start' && event.message?.model) {
+        responseModel = event.message.model;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield { type: 'delta', content: event.delta.text };
+      } else if (event.type === 'message_delta' && event.usage?.output_tokens) {
+        tokens = event.usage.output_tokens;
+      } else if (event.type === 'error') {
+        throw new Error(`${this.name} stream error: ${event.error?.message || 'unknown error'}`);
+      } else if (event.type === 'message_stop') {
+        break;
+      }
+    }
+
+    yield { type: 'done', tokens, model: responseModel };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Local HTTP server standing in for an LLM API in the provider tests
+ */
+
+import { createServer, type IncomingHttpHeaders, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { LLMConfig, LLMProviderName } from '../config';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+export interface MockServer {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  // Resolves when the client closes a response before it ended
+  clientDisconnected: Promise<void>;
+  close(): Promise<void>;
+}
+
+export type MockHandler = (request: RecordedRequest, response: ServerResponse) => void;
+
+export async function startMockServer(handler: MockHandler): Promise<MockServer> {
+  const requests: RecordedRequest[] = [];
+  let onDisconnect: () => void = () => {};
+  const clientDisconnected = new Promise<void>(resolve => {
+    onDisconnect = resolve;
+  });
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      const request = {
+        method: req.method || '',
+        url: req.url || '',
+        headers: req.headers,
+        body: text ? JSON.parse(text) : {},
+      };
+      requests.push(request);
+
+      res.on('close', () => {
+        if (!res.writableEnded) onDisconnect();
+      });
+      handler(request, res);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    clientDisconnected,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+export function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+export function testConfig(provider: LLMProviderName, baseUrl: string, overrides: Partial<LLMConfig> = {}): LLMConfig {
+  return {
+    provider,
+    baseUrl,
+    apiKey: 'test-key',
+    model: 'test-model',
+    maxTokens: 256,
+    temperature: 0.5,
+    timeoutMs: 5000,
+    ...overrides,
+  };
+}
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import type { LLMStreamEvent } from '../types';
+import { type MockServer, sendJson, startMockServer, testConfig } from './mockServer';
+import { OllamaProvider } from './ollamaProvider';
+
+const request = {
+  system: 'Be brief.',
+  messages: [{ role: 'user' as const, content: 'What is BFS?' }],
+};
+
+describe('OllamaProvider', () => {
+  let server: MockServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  test('complete sends generation options and reads the answer', async () => {
+    server = await startMockServer((_, res) => sendJson(res, 200, {
+      model: 'llama-test',
+      message: { role: 'assistant', content: 'Level-order traversal.' },
+      eval_count: 5,
+      done: true,
+    }));
+    const provider = new OllamaProvider(testConfig('ollama', server.baseUrl, { apiKey: undefined }));
+
+    const response = await provider.complete({ ...request, maxTokens: 64 });
+
+    assert.deepEqual(response, { content: 'Level-order traversal.', tokens: 5, model: 'llama-test' });
+    const [sent] = server.requests;
+    assert.equal(sent.url, '/api/chat');
+    assert.deepEqual(sent.body, {
+      model: 'test-model',
+      messages: [{ role: 'system', content: 'Be brief.' }, ...request.messages],
+      stream: false,
+      options: { num_predict: 64, temperature: 0.5 },
+    });
+  });
+
+  test('stream reads newline-delimited chunks until done', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write('{"model":"llama-test","message":{"content":"Level"},"done":false}\n');
+      res.write('\n{"model":"llama-test","message":{"content":"-order"},');
+      res.write('"done":false}\n');
+      res.end('{"model":"llama-test","message":{"content":""},"done":true,"eval_count":2}\n');
+    });
+    const provider = new OllamaProvider(testConfig('ollama', server.baseUrl));
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of provider.stream(request)) {
+      events.push(event);
+    }
+
+    assert.deepEqual(events, [
+      { type: 'delta', content: 'Level' },
+      { type: 'delta', content: '-order' },
+      { type: 'done', tokens: 2, model: 'llama-test' },
+    ]);
+    assert.equal(server.requests[0].body.stream, true);
+  });
+
+  test('error responses and error chunks are thrown', async () => {
+    server = await startMockServer((req, res) => {
+      if (req.body.stream) {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.end('{"error":"model \\"test-model\\" not found"}\n');
+      } else {
+        sendJson(res, 404, { error: 'model "test-model" not found' });
+      }
+    });
+    const provider = new OllamaProvider(testConfig('ollama', server.baseUrl));
+
+    await assert.rejects(provider.complete(request), {
+      message: 'ollama request failed with status 404: {"error":"model \\"test-model\\" not found"}',
+    });
+    await assert.rejects(provider.stream(request).next(), { message: 'ollama stream error: model "test-model" not found' });
+  });
+
+  test('aborting a stream stops the request', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write('{"message":{"content":"Level"},"done":false}\n');
+    });
+    const provider = new OllamaProvider(testConfig('ollama', server.baseUrl));
+    const controller = new AbortController();
+
+    const stream = provider.stream({ ...request, signal: controller.signal });
+    await stream.next();
+
+    controller.abort();
+    await assert.rejects(stream.next(), { name: 'AbortError' });
+    await server.clientDisconnected;
+  });
+});
@@ -0,0 +1,99 @@
+import type { LLMConfig } from '../config';
+import { estimateTokens, postJson, readLines, withTimeout } from '../http';
+import type { LLMCompletionRequest, LLMCompletionResponse, LLMMessage, LLMProvider, LLMStreamEvent } from '../types';
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string };
+  eval_count?: number;
+  done?: boolean;
+  error?: string;
+}
+
+/**
+ * Adapter for a local Ollama server (POST /api/chat)
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  readonly defaultModel: string;
+
+  constructor(private readonly config: LLMConfig) {
+    this.defaultModel = config.model;
+  }
+
+  protected buildMessages(request: LLMCompletionRequest): LLMMessage[] {
+    return request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+  }
+
+  protected buildBody(request: LLMCompletionRequest, model: string, stream: boolean) {
+    return {
+      model,
+      messages: this.buildMessages(request),
+      stream,
+      options: {
+        num_predict: request.maxTokens ?? this.config.maxTokens,
+        temperature: request.temperature ?? this.config.temperature,
+      },
+    };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const model = request.model || this.defaultModel;
+
+    const response = await postJson(
+      `${this.config.baseUrl}/api/chat`,
+      this.buildBody(request, model, false),
+      {
+        signal: withTimeout(this.config.timeoutMs, request.signal),
+        provider: this.name,
+      }
+    );
+
+    const data: OllamaChatResponse = await response.json();
+    const content = data.message?.content || '';
+
+    return {
+      content,
+      tokens: data.eval_count ?? estimateTokens(content),
+      model: data.model || model,
+    };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamEvent> {
+    const model = request.model || this.defaultModel;
+
+    const response = await postJson(
+      `${this.config.baseUrl}/api/chat`,
+      this.buildBody(request, model, true),
+      {
+        signal: withTimeout(this.config.timeoutMs, request.signal),
+        provider: this.name,
+      }
+    );
+
+    let responseModel = model;
+    let tokens: number | undefined;
+
+    // Ollama streams newline-delimited JSON objects
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+
+      const chunk: OllamaChatResponse = JSON.parse(line);
+      if (chunk.error) {
+        throw new Error(`${this.name} stream error: ${chunk.error}`);
+      }
+      if (chunk.model) responseModel = chunk.model;
+      if (chunk.message?.content) {
+        yield { type: 'delta', content: chunk.message.content };
+      }
+      if (chunk.done) {
+        tokens = chunk.eval_count;
+        break;
+      }
+    }
+
+    yield { type: 'done', tokens, model: responseModel };
+  }
+}
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import type { LLMStreamEvent } from '../types';
+import { type MockServer, sendJson, startMockServer, testConfig } from './mockServer';
+import { OpenAIProvider } from './openaiProvider';
+
+const request = {
+  system: 'Be brief.',
+  messages: [{ role: 'user' as const, content: 'What is a heap?' }],
+};
+
+describe('OpenAIProvider', () => {
+  let server: MockServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  test('complete sends the chat request and reads the answer', async () => {
+    server = await startMockServer((_, res) => sendJson(res, 200, {
+      model: 'gpt-test-0001',
+      choices: [{ message: { content: 'A tree-based priority queue.' } }],
+      usage: { completion_tokens: 7 },
+    }));
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+
+    const response = await provider.complete(request);
+
+    assert.deepEqual(response, { content: 'A tree-based priority queue.', tokens: 7, model: 'gpt-test-0001' });
+    const [sent] = server.requests;
+    assert.equal(sent.url, '/chat/completions');
+    assert.equal(sent.headers.authorization, 'Bearer test-key');
+    assert.deepEqual(sent.body, {
+      model: 'test-model',
+      messages: [{ role: 'system', content: 'Be brief.' }, ...request.messages],
+      max_tokens: 256,
+      temperature: 0.5,
+    });
+  });
+
+  test('complete estimates tokens when usage is missing', async () => {
+    server = await startMockServer((_, res) => sendJson(res, 200, { choices: [{ message: { content: '12345678' } }] }));
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+
+    const response = await provider.complete({ ...request, model: 'other-model' });
+
+    assert.equal(response.tokens, 2);
+    assert.equal(response.model, 'other-model');
+  });
+
+  test('stream yields deltas until [DONE]', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"model":"gpt-test-0001","choices":[{"delta":{"role":"assistant"}}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n');
+      // An event split across two writes
+      res.write('data: {"choices":[{"delta":{"con');
+      res.write('tent":"lo"}}]}\n\n');
+      res.write('data: {"choices":[],"usage":{"completion_tokens":2}}\n\n');
+      res.end('data: [DONE]\n\n');
+    });
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of provider.stream(request)) {
+      events.push(event);
+    }
+
+    assert.deepEqual(events, [
+      { type: 'delta', content: 'Hel' },
+      { type: 'delta', content: 'lo' },
+      { type: 'done', tokens: 2, model: 'gpt-test-0001' },
+    ]);
+    assert.equal(server.requests[0].body.stream, true);
+  });
+
+  test('error responses carry the provider name, status and body', async () => {
+    server = await startMockServer((_, res) => sendJson(res, 429, { error: { message: 'Rate limit reached' } }));
+    const provider = new OpenAIProvider(testConfig('llamacpp', server.baseUrl), 'llamacpp');
+
+    await assert.rejects(provider.complete(request), {
+      message: 'llamacpp request failed with status 429: {"error":{"message":"Rate limit reached"}}',
+    });
+    await assert.rejects(provider.stream(request).next(), /llamacpp request failed with status 429/);
+  });
+
+  test('aborting a stream stops the request', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n');
+    });
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+    const controller = new AbortController();
+
+    const stream = provider.stream({ ...request, signal: controller.signal });
+    assert.deepEqual((await stream.next()).value, { type: 'delta', content: 'Hel' });
+
+    controller.abort();
+    await assert.rejects(stream.next(), { name: 'AbortError' });
+    await server.clientDisconnected;
+  });
+
+  test('requests time out after timeoutMs', async () => {
+    server = await startMockServer(() => {});
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl, { timeoutMs: 100 }));
+
+    await assert.rejects(provider.complete(request), { name: 'TimeoutError' });
+  });
+});
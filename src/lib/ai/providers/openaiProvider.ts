@@ -0,0 +1,105 @@
+import type { LLMConfig } from '../config';
+import { estimateTokens, postJson, readServerSentEvents, withTimeout } from '../http';
+import type { LLMCompletionRequest, LLMCompletionResponse, LLMMessage, LLMProvider, LLMStreamEvent } from '../types';
+
+interface OpenAIChatResponse {
+  model?: string;
+  choices: Array<{ message?: { content?: string | null } }>;
+  usage?: { completion_tokens?: number };
+}
+
+interface OpenAIChatChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: { completion_tokens?: number } | null;
+}
+
+/**
+ * Adapter for OpenAI-compatible Chat Completions APIs.
+ *
+ * Also used for llama.cpp's server, vLLM, LM Studio and other
+ * endpoints that implement POST /chat/completions.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  constructor(private readonly config: LLMConfig, name: string = 'openai') {
+    this.name = name;
+    this.defaultModel = config.model;
+  }
+
+  protected buildMessages(request: LLMCompletionRequest): LLMMessage[] {
+    return request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  protected buildBody(request: LLMCompletionRequest, model: string) {
+    return {
+      model,
+      messages: this.buildMessages(request),
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+      temperature: request.temperature ?? this.config.temperature,
+    };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const model = request.model || this.defaultModel;
+
+    const response = await postJson(
+      `${this.config.baseUrl}/chat/completions`,
+      this.buildBody(request, model),
+      {
+        headers: this.buildHeaders(),
+        signal: withTimeout(this.config.timeoutMs, request.signal),
+        provider: this.name,
+      }
+    );
+
+    const data: OpenAIChatResponse = await response.json();
+    const content = data.choices?.[0]?.message?.content || '';
+
+    return {
+      content,
+      tokens: data.usage?.completion_tokens ?? estimateTokens(content),
+      model: data.model || model,
+    };
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamEvent> {
+    const model = request.model || this.defaultModel;
+
+    const response = await postJson(
+      `${this.config.baseUrl}/chat/completions`,
+      { ...this.buildBody(request, model), stream: true },
+      {
+        headers: this.buildHeaders(),
+        signal: withTimeout(this.config.timeoutMs, request.signal),
+        provider: this.name,
+      }
+    );
+
+    let responseModel = model;
+    let tokens: number | undefined;
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') break;
+
+      const chunk: OpenAIChatChunk = JSON.parse(data);
+      if (chunk.model) responseModel = chunk.model;
+      if (chunk.usage?.completion_tokens) tokens = chunk.usage.completion_tokens;
+
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        yield { type: 'delta', content };
+      }
+    }
+
+    yield { type: 'done', tokens, model: responseModel };
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * LLM Provider Types
+ *
+ * Shared contracts for every chat model backend TayyariAI can talk to.
+ */
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  system?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletionResponse {
+  content: string;
+  tokens: number;
+  model: string;
+}
+
+export type LLMStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; tokens?: number; model?: string };
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+  stream(request: LLMCompletionRequest): AsyncGenerator<LLMStreamEvent>;
+}
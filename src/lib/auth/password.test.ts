@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { hashPassword, MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH, validatePassword, verifyPassword } from './password';
+
+describe('validatePassword', () => {
+  test('enforces the length bounds', () => {
+    assert.match(validatePassword('short') || '', /at least 8/);
+    assert.match(validatePassword('x'.repeat(MAX_PASSWORD_LENGTH + 1)) || '', /at most 256/);
+    assert.equal(validatePassword('x'.repeat(MIN_PASSWORD_LENGTH)), null);
+    assert.notEqual(validatePassword(12345678), null);
+  });
+});
+
+describe('hashPassword and verifyPassword', () => {
+  test('a hash verifies its own password and nothing else', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    assert.match(hash, /^scrypt\$16384\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+    assert.equal(await verifyPassword('correct horse battery', hash), true);
+    assert.equal(await verifyPassword('correct horse battery ', hash), false);
+  });
+
+  test('every hash gets its own salt', async () => {
+    const [first, second] = await Promise.all([hashPassword('same password'), hashPassword('same password')]);
+
+    assert.notEqual(first, second);
+    assert.equal(await verifyPassword('same password', second), true);
+  });
+
+  test('passwords are compared after Unicode normalization', async () => {
+    const hash = await hashPassword('ﬁsh and chips'); // "ﬁ" ligature
+
+    assert.equal(await verifyPassword('fish and chips', hash), true);
+  });
+
+  test('malformed or foreign hashes never verify', async () => {
+    const hash = await hashPassword('correct horse battery');
+    const parts = hash.split('$');
+
+    assert.equal(await verifyPassword('correct horse battery', ''), false);
+    assert.equal(await verifyPassword('correct horse battery', ['bcrypt', ...parts.slice(1)].join('$')), false);
+    assert.equal(await verifyPassword('correct horse battery', parts.slice(0, 5).join('$')), false);
+  });
+});
@@ -0,0 +1,75 @@
+import '@/lib/database/testDatabase';
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { NextRequest } from 'next/server';
+import { checkLoginRateLimit, getClientAddress, recordLoginResult } from './rateLimit';
+
+function signInRequest(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/auth/login', { method: 'POST', headers });
+}
+
+afterEach(() => {
+  delete process.env.TRUSTED_PROXY_COUNT;
+});
+
+describe('getClientAddress', () => {
+  test('ignores forwarding headers unless a proxy is configured', () => {
+    const request = signInRequest({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' });
+
+    assert.equal(getClientAddress(request), 'unknown');
+    process.env.TRUSTED_PROXY_COUNT = 'yes';
+    assert.equal(getClientAddress(request), 'unknown');
+  });
+
+  test('reads the address the nearest trusted proxy saw', () => {
+    // The client sent a made-up first entry; two proxies appended theirs
+    const request = signInRequest({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.2' });
+
+    process.env.TRUSTED_PROXY_COUNT = '1';
+    assert.equal(getClientAddress(request), '10.0.0.2');
+    process.env.TRUSTED_PROXY_COUNT = '2';
+    assert.equal(getClientAddress(request), '203.0.113.7');
+    process.env.TRUSTED_PROXY_COUNT = '5';
+    assert.equal(getClientAddress(request), '198.51.100.1');
+  });
+
+  test('falls back to X-Real-IP', () => {
+    process.env.TRUSTED_PROXY_COUNT = '1';
+
+    assert.equal(getClientAddress(signInRequest({ 'x-real-ip': '203.0.113.8' })), '203.0.113.8');
+    assert.equal(getClientAddress(signInRequest()), 'unknown');
+  });
+});
+
+describe('sign-in rate limit', () => {
+  async function fail(times: number, email: string, headers: Record<string, string> = {}) {
+    for (let i = 0; i < times; i++) {
+      await recordLoginResult(signInRequest(headers), false, email);
+    }
+  }
+
+  test('locks an account after five failures', async () => {
+    await fail(4, 'locked@example.com');
+    assert.equal((await checkLoginRateLimit(signInRequest(), 'locked@example.com')).allowed, true);
+
+    await fail(1, 'locked@example.com');
+    assert.deepEqual(await checkLoginRateLimit(signInRequest(), 'locked@example.com'), { allowed: false, retryAfterSeconds: 900 });
+    assert.equal((await checkLoginRateLimit(signInRequest(), 'other@example.com')).allowed, true);
+  });
+
+  test('a successful sign-in clears the account but not the client', async () => {
+    process.env.TRUSTED_PROXY_COUNT = '1';
+    const client = { 'x-forwarded-for': '203.0.113.50' };
+
+    for (let i = 0; i < 4; i++) {
+      await fail(5, `guess${i}@example.com`, client);
+    }
+    assert.equal((await checkLoginRateLimit(signInRequest(), 'guess0@example.com')).allowed, false);
+    await new Promise(resolve => setTimeout(resolve, 5)); // failures in the same millisecond as the success still count
+    await recordLoginResult(signInRequest(client), true, 'guess0@example.com');
+
+    assert.equal((await checkLoginRateLimit(signInRequest(), 'guess0@example.com')).allowed, true);
+    assert.equal((await checkLoginRateLimit(signInRequest(client), 'new@example.com')).allowed, false);
+    assert.equal((await checkLoginRateLimit(signInRequest({ 'x-forwarded-for': '203.0.113.51' }), 'new@example.com')).allowed, true);
+  });
+});
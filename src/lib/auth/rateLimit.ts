@@ -0,0 +1,91 @@
+/**
+ * Sign-in rate limiting
+ *
+ * Failed attempts are tracked per account (email) and per client address in
+ * the login_attempts table, so limits survive restarts and apply across
+ * server processes sharing the same database.
+ *
+ * Route handlers cannot see the socket address, so the client address comes
+ * from proxy headers, which are trusted only when a proxy is configured:
+ *   TRUSTED_PROXY_COUNT - reverse proxies in front of the app that append to
+ *                         X-Forwarded-For (default: 0, headers are ignored)
+ * Without one the per-client limit is skipped and only the per-account limit applies.
+ */
+
+import type { NextRequest } from 'next/server';
+import { CredentialService } from '@/lib/database/services/credentialService';
+
+const WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const MAX_FAILURES_PER_ACCOUNT = 5;
+const MAX_FAILURES_PER_CLIENT = 20;
+const ATTEMPT_RETENTION_MS = 24 * 60 * 60 * 1000; // 1 day
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+function trustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+/**
+ * Client address as seen by the nearest trusted proxy, or 'unknown'. Entries a
+ * client adds to X-Forwarded-For come before the ones our proxies append, so
+ * the address is read from the right.
+ */
+export function getClientAddress(request: { headers: Pick<Headers, 'get'> }): string {
+  const proxies = trustedProxyCount();
+  if (proxies === 0) {
+    return 'unknown';
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean);
+    const address = hops[Math.max(hops.length - proxies, 0)];
+    if (address) return address;
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// A successful sign-in clears the account's counter but not the client's,
+// so one valid account cannot be used to keep guessing others
+function identifiersFor(request: NextRequest, email?: string) {
+  const identifiers: Array<{ id: string; max: number; resetOnSuccess: boolean }> = [];
+  const address = getClientAddress(request);
+  if (address !== 'unknown') {
+    identifiers.push({ id: `ip:${address}`, max: MAX_FAILURES_PER_CLIENT, resetOnSuccess: false });
+  }
+  if (email) {
+    identifiers.push({ id: `email:${email}`, max: MAX_FAILURES_PER_ACCOUNT, resetOnSuccess: true });
+  }
+  return identifiers;
+}
+
+/**
+ * Check whether another sign-in attempt is allowed
+ */
+export async function checkLoginRateLimit(request: NextRequest, email?: string): Promise<RateLimitResult> {
+  for (const { id, max, resetOnSuccess } of identifiersFor(request, email)) {
+    const failures = await CredentialService.countRecentFailures(id, WINDOW_MS, resetOnSuccess);
+    if (failures >= max) {
+      return { allowed: false, retryAfterSeconds: WINDOW_MS / 1000 };
+    }
+  }
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Record the outcome of a sign-in attempt
+ */
+export async function recordLoginResult(request: NextRequest, success: boolean, email?: string): Promise<void> {
+  for (const { id } of identifiersFor(request, email)) {
+    await CredentialService.recordLoginAttempt(id, success);
+  }
+
+  if (Math.random() < 0.01) {
+    await CredentialService.pruneLoginAttempts(ATTEMPT_RETENTION_MS).catch(() => 0);
+  }
+}
@@ -0,0 +1,99 @@
+import '@/lib/database/testDatabase';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { beforeEach, describe, test } from 'node:test';
+import type { Session } from '@/lib/database/schema';
+import { SessionService } from '@/lib/database/services/sessionService';
+import { UserService } from '@/lib/database/services/userService';
+import { applySessionRefresh, findSessionByToken, planSessionRefresh } from './session';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const hash = (token: string) => createHash('sha256').update(token).digest('hex');
+const iso = (time: number) => new Date(time).toISOString();
+
+async function createSession(token: string, createdAt: number, expiresAt: number = Date.now() + 30 * DAY): Promise<Session> {
+  const user = await UserService.createUser({ name: 'Test', role: 'working', experienceLevel: 'intermediate' });
+  return SessionService.createSession({
+    userId: user.id,
+    tokenHash: hash(token),
+    createdAt: iso(createdAt),
+    lastSeenAt: iso(createdAt),
+    rotatedAt: iso(createdAt),
+    expiresAt: iso(expiresAt),
+  });
+}
+
+describe('planSessionRefresh', () => {
+  const start = Date.parse('2026-03-02T09:00:00.000Z');
+  const session = {
+    tokenHash: hash('current'),
+    previousTokenHash: hash('previous'),
+    createdAt: iso(start),
+    lastSeenAt: iso(start),
+    rotatedAt: iso(start),
+  } as Session;
+
+  test('leaves a recently used session alone', () => {
+    assert.equal(planSessionRefresh(session, 'current', start + 4 * MINUTE), null);
+  });
+
+  test('slides the expiry forward without rotating during the first day', () => {
+    const now = start + 10 * MINUTE;
+
+    assert.deepEqual(planSessionRefresh(session, 'current', now), { token: 'current', expiresAt: iso(now + 30 * DAY), rotate: false });
+  });
+
+  test('rotates the current token after a day, but not the previous one', () => {
+    const now = start + DAY + MINUTE;
+    const refresh = planSessionRefresh(session, 'current', now);
+
+    assert.equal(refresh?.rotate, true);
+    assert.notEqual(refresh?.token, 'current');
+    assert.equal(planSessionRefresh(session, 'previous', now)?.rotate, false);
+  });
+
+  test('never extends past 90 days from sign-in', () => {
+    const now = start + 80 * DAY;
+
+    assert.equal(planSessionRefresh(session, 'current', now)?.expiresAt, iso(start + 90 * DAY));
+  });
+});
+
+describe('session storage', () => {
+  let session: Session;
+  let token: string;
+
+  beforeEach(async () => {
+    token = `token-${Math.random()}`;
+    session = await createSession(token, Date.now() - 2 * DAY);
+  });
+
+  test('a rotated token replaces the old one after a grace period', async () => {
+    const refresh = planSessionRefresh(session, token);
+    assert.ok(refresh?.rotate);
+    await applySessionRefresh(session, token, refresh);
+
+    assert.equal((await findSessionByToken(refresh.token))?.id, session.id);
+    assert.equal((await findSessionByToken(token))?.id, session.id);
+    assert.equal(await findSessionByToken(token, Date.now() + 2 * MINUTE), null);
+    assert.equal((await findSessionByToken(refresh.token, Date.now() + 2 * MINUTE))?.id, session.id);
+  });
+
+  test('a revoked session no longer resolves', async () => {
+    assert.equal(await SessionService.revokeSession('someone-else', session.id), false);
+    assert.equal(await SessionService.revokeSession(session.userId, session.id), true);
+
+    assert.equal(await findSessionByToken(token), null);
+  });
+
+  test('an expired session no longer resolves and is cleaned up', async () => {
+    const expired = await createSession(`old-${token}`, Date.now() - 40 * DAY, Date.now() - DAY);
+
+    assert.equal(await findSessionByToken(`old-${token}`), null);
+    assert.ok(await SessionService.deleteExpiredSessions() >= 1);
+    assert.deepEqual(await SessionService.getUserSessions(expired.userId), []);
+    assert.equal((await findSessionByToken(token))?.id, session.id);
+  });
+});
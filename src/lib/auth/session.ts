@@ -1,16 +1,25 @@
 /**
- * Simple Session Management for TayyariAI
+ * Session Management for TayyariAI
  * 
- * This provides a lightweight session system without external dependencies,
- * perfect for open-source projects.
+ * Sessions live in the database. The cookie only carries a random opaque
+ * token; the sessions table stores its SHA-256 hash, so a leaked database
+ * does not leak usable cookies and any session can be revoked server-side.
+ * Tokens rotate daily and expiry slides forward while the session is in use.
  */
 
-import { cookies } from 'next/headers';
+import { createHash, randomBytes } from 'node:crypto';
+import { cookies, headers } from 'next/headers';
 import { UserService } from '@/lib/database/services/userService';
-import type { User } from '@/lib/database/schema';
+import { SessionService } from '@/lib/database/services/sessionService';
+import { getClientAddress } from '@/lib/auth/rateLimit';
+import type { Session, User } from '@/lib/database/schema';
 
 const SESSION_COOKIE_NAME = 'tayyari-session';
-const SESSION_DURATION = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+const SESSION_IDLE_TIMEOUT = 30 * 24 * 60 * 60 * 1000; // 30 days without use
+const SESSION_MAX_LIFETIME = 90 * 24 * 60 * 60 * 1000; // 90 days regardless of use
+const ROTATION_INTERVAL = 24 * 60 * 60 * 1000; // issue a fresh token daily
+const ROTATION_GRACE_PERIOD = 60 * 1000; // old token still works for in-flight requests
+const TOUCH_INTERVAL = 5 * 60 * 1000; // avoid a database write on every request
 
 export interface SessionUser {
   id: string;
@@ -22,73 +31,168 @@ export interface SessionUser {
 }
 
 /**
- * Create a new session for a user
+ * Build the client-facing view of a user
  */
-export async function createSession(user: User): Promise<string> {
-  const sessionData = {
-    userId: user.id,
-    createdAt: Date.now(),
-    expiresAt: Date.now() + SESSION_DURATION,
+export function toSessionUser(user: User): SessionUser {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email || undefined,
+    role: user.role,
+    experienceLevel: user.experienceLevel,
+    onboardingCompleted: user.onboardingCompleted || false,
   };
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function slidingExpiry(session: Pick<Session, 'createdAt'>, now: number): string {
+  const hardLimit = new Date(session.createdAt).getTime() + SESSION_MAX_LIFETIME;
+  return new Date(Math.min(now + SESSION_IDLE_TIMEOUT, hardLimit)).toISOString();
+}
+
+/**
+ * Find the live session for a cookie token, accepting the previous token for a
+ * short while after rotation
+ */
+export function findSessionByToken(token: string, now: number = Date.now()): Promise<Session | null> {
+  return SessionService.getSessionByTokenHash(
+    hashToken(token),
+    new Date(now - ROTATION_GRACE_PERIOD).toISOString()
+  );
+}
+
+export interface SessionRefresh {
+  token: string; // cookie value from now on; a new one when rotating
+  expiresAt: string;
+  rotate: boolean;
+}
 
-  // In a production app, you'd store this in Redis or a session store
-  // For simplicity, we'll encode it in the cookie (with basic security)
-  const sessionToken = Buffer.from(JSON.stringify(sessionData)).toString('base64');
+/**
+ * Work out whether a session used with `token` is due a new token or a later
+ * expiry. Only the current token rotates, not the previous one in its grace period.
+ */
+export function planSessionRefresh(session: Session, token: string, now: number = Date.now()): SessionRefresh | null {
+  const rotate = session.tokenHash === hashToken(token)
+    && now - new Date(session.rotatedAt).getTime() > ROTATION_INTERVAL;
+  const touch = now - new Date(session.lastSeenAt).getTime() > TOUCH_INTERVAL;
+
+  if (!rotate && !touch) {
+    return null;
+  }
+  return { token: rotate ? generateToken() : token, expiresAt: slidingExpiry(session, now), rotate };
+}
+
+/**
+ * Store a planned refresh, once the cookie carries `refresh.token`
+ */
+export async function applySessionRefresh(session: Session, token: string, refresh: SessionRefresh): Promise<void> {
+  if (refresh.rotate) {
+    await SessionService.rotateSessionToken(session.id, hashToken(refresh.token), hashToken(token));
+  }
+  await SessionService.touchSession(session.id, refresh.expiresAt);
+}
 
+async function setSessionCookie(token: string, expiresAt: string): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.set(SESSION_COOKIE_NAME, sessionToken, {
+  cookieStore.set(SESSION_COOKIE_NAME, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: SESSION_DURATION / 1000, // Convert to seconds
+    expires: new Date(expiresAt),
     path: '/',
   });
+}
+
+/**
+ * Create a new session for a user
+ */
+export async function createSession(user: User): Promise<string> {
+  // Never reuse a session across sign-ins
+  await destroySession();
+
+  const requestHeaders = await headers();
+  const now = new Date().toISOString();
+  const token = generateToken();
+
+  const session = await SessionService.createSession({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    userAgent: requestHeaders.get('user-agent')?.slice(0, 512) || null,
+    ipAddress: getClientAddress({ headers: requestHeaders }),
+    createdAt: now,
+    lastSeenAt: now,
+    rotatedAt: now,
+    expiresAt: slidingExpiry({ createdAt: now }, Date.now()),
+  });
+
+  await setSessionCookie(token, session.expiresAt);
+
+  if (Math.random() < 0.01) {
+    await SessionService.deleteExpiredSessions().catch(() => 0);
+  }
 
-  return sessionToken;
+  return token;
 }
 
 /**
- * Get the current session user
+ * Look up the session for the current request, rotating its token and
+ * sliding its expiry as needed
  */
-export async function getSessionUser(): Promise<SessionUser | null> {
-  try {
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+export async function getCurrentSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
 
-    if (!sessionToken) {
-      return null;
+  if (!token) {
+    return null;
+  }
+
+  const session = await findSessionByToken(token);
+
+  if (!session) {
+    return null;
+  }
+
+  const refresh = planSessionRefresh(session, token);
+  if (refresh) {
+    try {
+      // Cookies can only be written from route handlers and server actions
+      await setSessionCookie(refresh.token, refresh.expiresAt);
+      await applySessionRefresh(session, token, refresh);
+    } catch (error) {
+      console.warn('Could not refresh session cookie:', error);
     }
+  }
 
-    // Decode session data
-    const sessionData = JSON.parse(Buffer.from(sessionToken, 'base64').toString());
-    
-    // Check if session is expired
-    if (Date.now() > sessionData.expiresAt) {
-      await destroySession();
+  return session;
+}
+
+/**
+ * Get the current session user
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  try {
+    const session = await getCurrentSession();
+    if (!session) {
       return null;
     }
 
     // Get user from database
-    const user = await UserService.getUserById(sessionData.userId);
+    const user = await UserService.getUserById(session.userId);
     if (!user) {
       await destroySession();
       return null;
     }
 
-    // Update user activity
-    await UserService.updateActivity(user.id);
-
-    return {
-      id: user.id,
-      name: user.name,
-      email: user.email || undefined,
-      role: user.role,
-      experienceLevel: user.experienceLevel,
-      onboardingCompleted: user.onboardingCompleted || false,
-    };
+    return toSessionUser(user);
   } catch (error) {
     console.error('Session error:', error);
-    await destroySession();
     return null;
   }
 }
@@ -98,7 +202,15 @@ export async function getSessionUser(): Promise<SessionUser | null> {
  */
 export async function destroySession(): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.delete(SESSION_COOKIE_NAME);
+  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+
+  if (token) {
+    const session = await findSessionByToken(token);
+    if (session) {
+      await SessionService.revokeSession(session.userId, session.id);
+    }
+    cookieStore.delete(SESSION_COOKIE_NAME);
+  }
 }
 
 /**
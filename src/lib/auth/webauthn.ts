@@ -0,0 +1,80 @@
+/**
+ * WebAuthn (passkey) helpers for TayyariAI
+ *
+ * The relying party defaults to the host the request came in on, which is
+ * right for local use. Deployments behind a proxy should set WEBAUTHN_RP_ID
+ * and WEBAUTHN_ORIGIN so browsers bind passkeys to the public domain.
+ */
+
+import type { NextRequest } from 'next/server';
+import { cookies } from 'next/headers';
+import type { AuthenticatorTransportFuture, WebAuthnCredential } from '@simplewebauthn/server';
+import type { Credential } from '@/lib/database/schema';
+
+const CHALLENGE_COOKIE_NAME = 'tayyari-webauthn-challenge';
+const CHALLENGE_COOKIE_MAX_AGE = 5 * 60; // 5 minutes, matches the stored challenge TTL
+
+export interface RelyingParty {
+  id: string;
+  name: string;
+  origin: string;
+}
+
+/**
+ * Resolve the relying party for a request
+ */
+export function getRelyingParty(request: NextRequest): RelyingParty {
+  return {
+    id: process.env.WEBAUTHN_RP_ID || request.nextUrl.hostname,
+    name: process.env.WEBAUTHN_RP_NAME || 'TayyariAI',
+    origin: process.env.WEBAUTHN_ORIGIN || request.nextUrl.origin,
+  };
+}
+
+/**
+ * Remember which stored challenge this browser is answering
+ */
+export async function setChallengeCookie(challengeId: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(CHALLENGE_COOKIE_NAME, challengeId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: CHALLENGE_COOKIE_MAX_AGE,
+    path: '/api/auth/passkey',
+  });
+}
+
+/**
+ * Read and clear the challenge cookie
+ */
+export async function takeChallengeCookie(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const challengeId = cookieStore.get(CHALLENGE_COOKIE_NAME)?.value || null;
+  cookieStore.delete({ name: CHALLENGE_COOKIE_NAME, path: '/api/auth/passkey' });
+  return challengeId;
+}
+
+/**
+ * Parse the stored transports list
+ */
+export function parseTransports(transports: string | null): AuthenticatorTransportFuture[] | undefined {
+  if (!transports) return undefined;
+  try {
+    return JSON.parse(transports) as AuthenticatorTransportFuture[];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert a stored passkey into the shape the verifier expects
+ */
+export function toWebAuthnCredential(credential: Credential): WebAuthnCredential {
+  return {
+    id: credential.credentialId || '',
+    publicKey: new Uint8Array(Buffer.from(credential.publicKey || '', 'base64url')),
+    counter: credential.counter || 0,
+    transports: parseTransports(credential.transports),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Bookmarks, reactions and replies on chat messages
+ *
+ * Bookmarked answers make up the Saved view and can be tagged to filter it.
+ * Reactions are a fixed set of emoji. A reply quotes an earlier message of the
+ * conversation, and the quote is passed to the model with the reply.
+ */
+
+export const REACTION_EMOJIS = ['👍', '❤️', '💡', '🤔', '🎉'] as const;
+
+export type ReactionEmoji = typeof REACTION_EMOJIS[number];
+
+export const SAVED_PAGE_SIZE = 20;
+export const MAX_SAVED_PAGE_SIZE = 50;
+export const MAX_BOOKMARK_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_BOOKMARK_NOTE_LENGTH = 1000;
+export const REPLY_QUOTE_LENGTH = 280;
+
+export function isReactionEmoji(value: unknown): value is ReactionEmoji {
+  return typeof value === 'string' && (REACTION_EMOJIS as readonly string[]).includes(value);
+}
+
+/**
+ * Trim, lowercase and de-duplicate tags; null when the value is not a list of
+ * at most MAX_BOOKMARK_TAGS tags of at most MAX_TAG_LENGTH characters
+ */
+export function normalizeTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(tag => typeof tag === 'string')) return null;
+
+  const tags = [...new Set(value.map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-')).filter(Boolean))];
+  if (tags.length > MAX_BOOKMARK_TAGS || tags.some(tag => tag.length > MAX_TAG_LENGTH)) return null;
+  return tags;
+}
+
+// Start of a message as shown above a reply to it
+export function quoteForReply(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > REPLY_QUOTE_LENGTH ? `${text.slice(0, REPLY_QUOTE_LENGTH - 1)}…` : text;
+}
+
+export interface MessageBookmarkInfo {
+  tags: string[];
+  note: string | null;
+  createdAt: string | null;
+}
+
+// The user's bookmark and reactions on one message
+export interface MessageAnnotations {
+  bookmark: MessageBookmarkInfo | null;
+  reactions: ReactionEmoji[];
+}
+
+export interface SavedMessage {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string | null;
+  context: string | null;
+  role: string;
+  content: string;
+  model: string | null;
+  tags: string[];
+  note: string | null;
+  savedAt: string | null;
+  messageCreatedAt: string | null;
+}
+
+export interface SavedMessagesPage {
+  items: SavedMessage[];
+  tags: Array<{ tag: string; count: number }>; // every tag the user has used, most used first
+  total: number;
+  hasMore: boolean;
+}
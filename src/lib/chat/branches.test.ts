@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { type BranchNode, findBranchLeaf, resolveActivePath } from './branches';
+
+// q1 -> a1, q1 edited to q2 -> a2 -> q3 -> a3, then q3 edited to q4 (no reply yet)
+const nodes: BranchNode[] = [
+  { id: 'q1', parentMessageId: null },
+  { id: 'a1', parentMessageId: 'q1' },
+  { id: 'q2', parentMessageId: null },
+  { id: 'a2', parentMessageId: 'q2' },
+  { id: 'q3', parentMessageId: 'a2' },
+  { id: 'a3', parentMessageId: 'q3' },
+  { id: 'q4', parentMessageId: 'a2' },
+];
+
+describe('resolveActivePath', () => {
+  test('follows the active message back to its root', () => {
+    const path = resolveActivePath(nodes, 'a1');
+
+    assert.deepEqual(path.ids, ['q1', 'a1']);
+    assert.deepEqual(path.branches, { q1: { index: 0, count: 2, siblingIds: ['q1', 'q2'] } });
+  });
+
+  test('reports the position of every edited message on the path', () => {
+    const path = resolveActivePath(nodes, 'a3');
+
+    assert.deepEqual(path.ids, ['q2', 'a2', 'q3', 'a3']);
+    assert.deepEqual(path.branches, {
+      q2: { index: 1, count: 2, siblingIds: ['q1', 'q2'] },
+      q3: { index: 0, count: 2, siblingIds: ['q3', 'q4'] },
+    });
+  });
+
+  test('continues from an active message down to its latest reply', () => {
+    assert.deepEqual(resolveActivePath(nodes, 'q2').ids, ['q2', 'a2', 'q4']);
+  });
+
+  test('falls back to the newest message when the active one is unset or stale', () => {
+    assert.deepEqual(resolveActivePath(nodes, null).ids, ['q2', 'a2', 'q4']);
+    assert.deepEqual(resolveActivePath(nodes, 'deleted').ids, ['q2', 'a2', 'q4']);
+    assert.deepEqual(resolveActivePath([], 'deleted'), { ids: [], branches: {} });
+  });
+
+  test('treats a message whose parent is gone as a root', () => {
+    const orphaned = nodes.filter(node => node.id !== 'a2');
+
+    assert.deepEqual(resolveActivePath(orphaned, 'a3').ids, ['q3', 'a3']);
+  });
+});
+
+describe('findBranchLeaf', () => {
+  test('picks the most recent child at every step', () => {
+    assert.equal(findBranchLeaf(nodes, 'q1'), 'a1');
+    assert.equal(findBranchLeaf(nodes, 'q2'), 'q4');
+    assert.equal(findBranchLeaf(nodes, 'q3'), 'a3');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Conversation branches
+ *
+ * Messages form a tree through parentMessageId: editing a message adds a
+ * sibling under the same parent and the reply continues from there. The
+ * conversation shows one path from a root to its active leaf.
+ */
+
+export interface BranchNode {
+  id: string;
+  parentMessageId: string | null;
+}
+
+export interface BranchPosition {
+  index: number; // 0-based position among the message's siblings
+  count: number;
+  siblingIds: string[]; // in creation order
+}
+
+export interface ActivePath {
+  ids: string[]; // root first
+  branches: Record<string, BranchPosition>; // only for messages with siblings
+}
+
+// Children of each message in creation order; roots (no parent, or a parent that no longer exists) under null
+function childrenByParent(nodes: BranchNode[]): Map<string | null, string[]> {
+  const ids = new Set(nodes.map(node => node.id));
+  const children = new Map<string | null, string[]>();
+
+  for (const node of nodes) {
+    const parent = node.parentMessageId && ids.has(node.parentMessageId) ? node.parentMessageId : null;
+    const siblings = children.get(parent);
+    if (siblings) {
+      siblings.push(node.id);
+    } else {
+      children.set(parent, [node.id]);
+    }
+  }
+  return children;
+}
+
+// Follow the most recent child down from a message to the end of its branch
+function latestLeaf(children: Map<string | null, string[]>, id: string): string {
+  const seen = new Set([id]);
+  let leaf = id;
+  for (let next = children.get(leaf); next?.length; next = children.get(leaf)) {
+    const child = next[next.length - 1];
+    if (seen.has(child)) break;
+    seen.add(child);
+    leaf = child;
+  }
+  return leaf;
+}
+
+/**
+ * The leaf to show when switching to the branch that starts at `id`.
+ * `nodes` must be in creation order.
+ */
+export function findBranchLeaf(nodes: BranchNode[], id: string): string {
+  return latestLeaf(childrenByParent(nodes), id);
+}
+
+/**
+ * The path from a root to the active leaf, falling back to the newest message
+ * when the active one is unset or gone. `nodes` must be in creation order.
+ */
+export function resolveActivePath(nodes: BranchNode[], activeMessageId: string | null): ActivePath {
+  if (nodes.length === 0) return { ids: [], branches: {} };
+
+  const children = childrenByParent(nodes);
+  const parents = new Map(nodes.map(node => [node.id, node.parentMessageId]));
+  const start = activeMessageId && parents.has(activeMessageId) ? activeMessageId : nodes[nodes.length - 1].id;
+
+  const ids: string[] = [];
+  const branches: Record<string, BranchPosition> = {};
+  const seen = new Set<string>();
+  for (let id: string | null = latestLeaf(children, start); id && !seen.has(id); ) {
+    seen.add(id);
+    ids.push(id);
+
+    const parentId: string | null = parents.get(id) ?? null;
+    const parent: string | null = parentId && parents.has(parentId) ? parentId : null;
+    const siblings = children.get(parent) ?? [id];
+    if (siblings.length > 1) {
+      branches[id] = { index: siblings.indexOf(id), count: siblings.length, siblingIds: siblings };
+    }
+    id = parent;
+  }
+
+  return { ids: ids.reverse(), branches };
+}
@@ -0,0 +1,47 @@
+/**
+ * Feedback on assistant answers
+ *
+ * A thumbs down can carry structured reasons and a free-text note; the
+ * feedback report aggregates them by reason, conversation context and model.
+ */
+
+export type FeedbackReason = 'incorrect' | 'unhelpful' | 'too_verbose' | 'wrong_language' | 'unsafe';
+
+export const FEEDBACK_REASONS: FeedbackReason[] = ['incorrect', 'unhelpful', 'too_verbose', 'wrong_language', 'unsafe'];
+
+export const FEEDBACK_REASON_LABELS: Record<FeedbackReason, string> = {
+  incorrect: 'Incorrect',
+  unhelpful: 'Not helpful',
+  too_verbose: 'Too verbose',
+  wrong_language: 'Wrong language',
+  unsafe: 'Unsafe or harmful',
+};
+
+export const MAX_FEEDBACK_NOTE_LENGTH = 1000;
+
+export function isFeedbackReason(value: unknown): value is FeedbackReason {
+  return typeof value === 'string' && (FEEDBACK_REASONS as string[]).includes(value);
+}
+
+// Share of rated answers that were rated positively, as a whole percentage
+export function getSatisfactionRate(positive: number, negative: number): number {
+  const total = positive + negative;
+  return total > 0 ? Math.round((positive / total) * 100) : 0;
+}
+
+export interface FeedbackGroup {
+  key: string | null; // context or model; null when unknown
+  positive: number;
+  negative: number;
+  satisfactionRate: number;
+}
+
+export interface FeedbackReport {
+  from: string | null;
+  to: string | null;
+  totals: { positive: number; negative: number; satisfactionRate: number; comparisons: number };
+  byReason: Array<{ reason: FeedbackReason; count: number }>; // every reason, most frequent first
+  withoutReason: number; // negative ratings that gave no reason
+  byContext: FeedbackGroup[];
+  byModel: FeedbackGroup[];
+}
@@ -0,0 +1,129 @@
+import '@/lib/database/testDatabase';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { NextRequest } from 'next/server';
+import { type MockServer, sendJson, startMockServer, testConfig } from '@/lib/ai/providers/mockServer';
+import { OpenAIProvider } from '@/lib/ai/providers/openaiProvider';
+import type { Conversation, Message } from '@/lib/database/schema';
+import { ChatService } from '@/lib/database/services/chatService';
+import { UserService } from '@/lib/database/services/userService';
+import { type ChatStreamEvent, streamAssistantReply } from './reply';
+
+const completionRequest = {
+  system: 'Be brief.',
+  messages: [{ role: 'user' as const, content: 'What is a heap?' }],
+};
+
+function chatRequest(signal?: AbortSignal): NextRequest {
+  return new NextRequest('http://localhost/api/chat/messages', { method: 'POST', signal });
+}
+
+async function readEvents(response: Response): Promise<ChatStreamEvent[]> {
+  const text = await response.text();
+  return text.split('\n\n').filter(Boolean).map(line => JSON.parse(line.replace(/^data: /, '')));
+}
+
+describe('streamAssistantReply', () => {
+  let server: MockServer | null = null;
+  let conversation: Conversation;
+  let question: Message;
+
+  beforeEach(async () => {
+    const user = await UserService.createUser({ name: 'Test', role: 'working', experienceLevel: 'intermediate' });
+    conversation = await ChatService.createConversation({ userId: user.id });
+    question = await ChatService.addMessage({ conversationId: conversation.id, role: 'user', content: 'What is a stack?' });
+    await ChatService.addMessage({ conversationId: conversation.id, role: 'assistant', content: 'LIFO.' });
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  async function ask(content: string) {
+    const before = await ChatService.getConversationWithMessages(conversation.id);
+    const activeMessageId = before?.messages[before.messages.length - 1].id ?? null;
+    const userMessage = await ChatService.addMessage({ conversationId: conversation.id, role: 'user', content });
+    return { userMessage, activeMessageId };
+  }
+
+  async function activeContents() {
+    const chat = await ChatService.getConversationWithMessages(conversation.id);
+    return chat?.messages.map(message => message.content);
+  }
+
+  test('saves the streamed reply under the user message', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[{"delta":{"content":"A priority queue."}}]}\n\n');
+      res.end('data: [DONE]\n\n');
+    });
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+    const { userMessage, activeMessageId } = await ask('What is a heap?');
+
+    const events = await readEvents(streamAssistantReply(chatRequest(), provider, completionRequest, userMessage, activeMessageId));
+
+    assert.deepEqual(events.map(event => event.type), ['start', 'delta', 'done']);
+    assert.deepEqual(await activeContents(), ['What is a stack?', 'LIFO.', 'What is a heap?', 'A priority queue.']);
+  });
+
+  test('takes the user message back when the provider fails before the first token', async () => {
+    server = await startMockServer((_, res) => sendJson(res, 500, { error: 'down' }));
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+    const { userMessage, activeMessageId } = await ask('What is a heap?');
+
+    const events = await readEvents(streamAssistantReply(chatRequest(), provider, completionRequest, userMessage, activeMessageId));
+
+    assert.deepEqual(events.map(event => event.type), ['start', 'error']);
+    assert.deepEqual(await activeContents(), ['What is a stack?', 'LIFO.']);
+    const stored = await ChatService.getConversation(conversation.id);
+    assert.equal(stored?.activeMessageId, activeMessageId);
+    assert.equal(stored?.messageCount, 2);
+  });
+
+  test('takes the user message back when the client aborts before the first token', async () => {
+    let received: () => void = () => {};
+    const requested = new Promise<void>(resolve => {
+      received = resolve;
+    });
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      received();
+    });
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+    const { userMessage, activeMessageId } = await ask('What is a heap?');
+    const controller = new AbortController();
+
+    const response = streamAssistantReply(chatRequest(controller.signal), provider, completionRequest, userMessage, activeMessageId);
+    const events = readEvents(response);
+    await requested;
+    controller.abort();
+
+    assert.deepEqual((await events).map(event => event.type), ['start']);
+    assert.deepEqual(await activeContents(), ['What is a stack?', 'LIFO.']);
+  });
+
+  test('keeps a partial reply as truncated', async () => {
+    server = await startMockServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[{"delta":{"content":"A tree"}}]}\n\n', () => res.destroy());
+    });
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+    const { userMessage, activeMessageId } = await ask('What is a heap?');
+
+    const events = await readEvents(streamAssistantReply(chatRequest(), provider, completionRequest, userMessage, activeMessageId));
+
+    const done = events.find(event => event.type === 'done');
+    assert.equal(done?.type === 'done' && done.message.truncated, true);
+    assert.deepEqual(await activeContents(), ['What is a stack?', 'LIFO.', 'What is a heap?', 'A tree']);
+  });
+
+  test('a failed regeneration leaves the answered message alone', async () => {
+    server = await startMockServer((_, res) => sendJson(res, 500, { error: 'down' }));
+    const provider = new OpenAIProvider(testConfig('openai', server.baseUrl));
+
+    await readEvents(streamAssistantReply(chatRequest(), provider, completionRequest, question));
+
+    assert.deepEqual(await activeContents(), ['What is a stack?', 'LIFO.']);
+  });
+});
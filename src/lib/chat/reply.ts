@@ -0,0 +1,178 @@
+/**
+ * Generating and saving assistant replies
+ *
+ * Shared by POST /api/chat/messages and POST /api/chat/messages/:id/regenerate.
+ */
+
+import type { NextRequest } from 'next/server';
+import { ChatService } from '@/lib/database/services/chatService';
+import { UserService } from '@/lib/database/services/userService';
+import { MockInterviewService } from '@/lib/database/services/mockInterviewService';
+import { buildInterviewerPrompt, buildSystemPrompt, toLLMMessages } from '@/lib/ai/prompts';
+import { safeJsonParse } from '@/lib/database/utils';
+import type { PhaseRecord } from '@/lib/interview/mock';
+import type { LLMCompletionRequest, LLMProvider } from '@/lib/ai/types';
+import type { Conversation, Message, MockInterview } from '@/lib/database/schema';
+
+export interface MessageResponse {
+  id: string;
+  parentMessageId: string | null;
+  replyToMessageId: string | null;
+  role: string;
+  content: string;
+  attachments?: any[] | null;
+  tokens?: number | null;
+  model?: string | null;
+  truncated?: boolean;
+  preferred?: boolean;
+  createdAt: string | null;
+}
+
+/**
+ * Events sent by the streaming variant, one JSON object per SSE `data:` line
+ */
+export type ChatStreamEvent =
+  | { type: 'start'; userMessage: MessageResponse }
+  | { type: 'delta'; content: string }
+  | { type: 'done'; message: MessageResponse }
+  | { type: 'error'; error: string };
+
+/**
+ * Build the completion request for the next assistant reply to `history`,
+ * which ends with the user message being answered
+ */
+export async function buildChatCompletion(
+  userId: string,
+  conversation: Conversation,
+  interview: MockInterview | null,
+  history: Message[],
+  model?: string
+): Promise<LLMCompletionRequest> {
+  const profile = await UserService.getUserById(userId);
+
+  return {
+    system: interview
+      ? buildInterviewerPrompt(
+          profile,
+          interview,
+          safeJsonParse<PhaseRecord[]>(interview.phases, []),
+          await MockInterviewService.getInterviewQuestion(interview)
+        )
+      : buildSystemPrompt(profile, conversation.context || 'general'),
+    messages: toLLMMessages(history),
+    model,
+  };
+}
+
+/**
+ * Stream the assistant reply as server-sent events and save it when the stream ends.
+ * For a newly added user message, pass the conversation's `activeMessageId` from
+ * before it was added: the message is taken back if no reply comes.
+ */
+export function streamAssistantReply(
+  request: NextRequest,
+  provider: LLMProvider,
+  completionRequest: LLMCompletionRequest,
+  userMessage: Message,
+  previousActiveMessageId?: string | null
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (abortController.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Stream already closed by the client
+        }
+      };
+
+      send({ type: 'start', userMessage: toMessageResponse(userMessage) });
+
+      let content = '';
+      let tokens: number | undefined;
+      let model = completionRequest.model || provider.defaultModel;
+      let truncated = false;
+
+      try {
+        for await (const event of provider.stream({ ...completionRequest, signal: abortController.signal })) {
+          if (event.type === 'delta') {
+            content += event.content;
+            send({ type: 'delta', content: event.content });
+          } else {
+            tokens = event.tokens;
+            model = event.model || model;
+          }
+        }
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('Stream message error:', error);
+          send({ type: 'error', error: 'Failed to generate response' });
+        }
+        truncated = true;
+      }
+
+      try {
+        // Nothing worth keeping if the provider failed before the first token
+        if (content) {
+          const aiMessage = await ChatService.addMessage({
+            conversationId: userMessage.conversationId,
+            parentMessageId: userMessage.id,
+            role: 'assistant',
+            content,
+            tokens: tokens ?? Math.ceil(content.length / 4),
+            model,
+            truncated,
+          });
+          send({ type: 'done', message: toMessageResponse(aiMessage) });
+        } else if (previousActiveMessageId !== undefined) {
+          // Don't leave an unanswered message on the branch for a retry to repeat
+          await ChatService.removeMessage(userMessage.id, previousActiveMessageId);
+        }
+      } catch (error) {
+        console.error('Save streamed message error:', error);
+        send({ type: 'error', error: 'Failed to save response' });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Shape a stored message for API responses
+ */
+export function toMessageResponse(message: Message): MessageResponse {
+  return {
+    id: message.id,
+    parentMessageId: message.parentMessageId,
+    replyToMessageId: message.replyToMessageId,
+    role: message.role,
+    content: message.content,
+    attachments: message.attachments ? JSON.parse(message.attachments) : null,
+    tokens: message.tokens,
+    model: message.model,
+    truncated: message.truncated || false,
+    preferred: message.preferred || false,
+    createdAt: message.createdAt,
+  };
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { HIGHLIGHT_END, HIGHLIGHT_START, MAX_SEARCH_TERMS, parseSearchDate, splitHighlights, toFtsQuery } from './search';
+
+describe('toFtsQuery', () => {
+  test('quotes every word and matches the last one as a prefix', () => {
+    assert.equal(toFtsQuery('binary search'), '"binary" "search"*');
+    assert.equal(toFtsQuery('binary search '), '"binary" "search"');
+  });
+
+  test('keeps quoted phrases together', () => {
+    assert.equal(toFtsQuery('"two pointers" window'), '"two pointers" "window"*');
+    assert.equal(toFtsQuery('window "two  pointers"'), '"window" "two pointers"');
+    assert.equal(toFtsQuery('"two pointers'), '"two" "pointers"*');
+  });
+
+  test('searches for FTS5 operators as plain words', () => {
+    assert.equal(toFtsQuery('heap AND stack'), '"heap" "AND" "stack"*');
+    assert.equal(toFtsQuery('NEAR(heap stack)'), '"NEAR" "heap" "stack"');
+    assert.equal(toFtsQuery('graph*'), '"graph"');
+    assert.equal(toFtsQuery('-trie title:dp ^bfs'), '"trie" "title" "dp" "bfs"*');
+  });
+
+  test('keeps letters and digits from any script', () => {
+    assert.equal(toFtsQuery('naïve O(n²) 二分'), '"naïve" "O" "n²" "二分"*');
+  });
+
+  test('returns null when there is nothing to search for', () => {
+    assert.equal(toFtsQuery(''), null);
+    assert.equal(toFtsQuery('   '), null);
+    assert.equal(toFtsQuery('"" * - ()'), null);
+  });
+
+  test(`stops after ${MAX_SEARCH_TERMS} terms`, () => {
+    const words = Array.from({ length: MAX_SEARCH_TERMS + 1 }, (_, index) => `w${index}`);
+    const query = toFtsQuery(words.join(' '));
+
+    assert.equal(query, words.slice(0, MAX_SEARCH_TERMS).map(word => `"${word}"`).join(' '));
+  });
+});
+
+describe('splitHighlights', () => {
+  test('splits marked runs from plain text', () => {
+    assert.deepEqual(splitHighlights(`a ${HIGHLIGHT_START}heap${HIGHLIGHT_END} sort`), [
+      { text: 'a ', match: false },
+      { text: 'heap', match: true },
+      { text: ' sort', match: false },
+    ]);
+    assert.deepEqual(splitHighlights(null), []);
+  });
+});
+
+describe('parseSearchDate', () => {
+  test('covers the whole day of a date-only upper bound', () => {
+    assert.equal(parseSearchDate('2025-01-31', 'from'), '2025-01-31T00:00:00.000Z');
+    assert.equal(parseSearchDate('2025-01-31', 'to'), '2025-02-01T00:00:00.000Z');
+    assert.equal(parseSearchDate('2025-01-31T10:00:00Z', 'to'), '2025-01-31T10:00:00.000Z');
+    assert.equal(parseSearchDate('yesterday', 'from'), null);
+  });
+});
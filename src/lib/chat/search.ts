@@ -0,0 +1,136 @@
+/**
+ * Chat search queries, filters and highlighted snippets
+ *
+ * Search runs against the messages_fts and conversations_fts indexes. User input
+ * is reduced to quoted terms before it reaches MATCH, so FTS5 operators typed
+ * by the user are searched for as plain words.
+ */
+
+export type SearchRole = 'user' | 'assistant';
+
+export const SEARCH_ROLES: SearchRole[] = ['user', 'assistant'];
+
+export const SEARCH_ROLE_LABELS: Record<SearchRole, string> = {
+  user: 'My messages',
+  assistant: 'AI replies',
+};
+
+// Conversation contexts a search can be narrowed to
+export const SEARCH_CONTEXTS: Record<string, string> = {
+  general: 'General',
+  dsa: 'DSA',
+  system_design: 'System Design',
+  behavioral: 'Behavioral',
+  code_review: 'Code Review',
+  mock_interview: 'Mock Interview',
+};
+
+export const SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+export const MAX_SEARCH_TERMS = 12;
+
+// Control characters wrapped around matched terms by snippet() and highlight()
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export interface ChatSearchFilters {
+  context?: string;
+  role?: SearchRole;
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface MessageSearchHit {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string | null;
+  context: string | null;
+  role: string;
+  snippet: HighlightPart[];
+  createdAt: string | null;
+}
+
+export interface ConversationSearchHit {
+  conversationId: string;
+  title: HighlightPart[];
+  context: string | null;
+  messageCount: number | null;
+  lastMessageAt: string | null;
+  createdAt: string | null;
+}
+
+export interface ChatSearchPage {
+  query: string;
+  messages: MessageSearchHit[];
+  conversations: ConversationSearchHit[]; // title matches, first page only
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export function isSearchRole(value: unknown): value is SearchRole {
+  return typeof value === 'string' && (SEARCH_ROLES as string[]).includes(value);
+}
+
+const quote = (term: string) => `"${term.replace(/"/g, '""')}"`;
+
+/**
+ * Turn free text into an FTS5 query: every word must match, "quoted phrases"
+ * match in order, and the last word matches as a prefix while the user is
+ * still typing it. Returns null when there is nothing to search for.
+ */
+export function toFtsQuery(input: string): string | null {
+  const terms: string[] = [];
+
+  for (const match of input.matchAll(/"([^"]*)"|[^\s"]+/g)) {
+    const words = (match[1] ?? match[0]).match(/[\p{L}\p{N}_]+/gu);
+    if (!words) continue;
+
+    if (match[1] !== undefined) {
+      terms.push(quote(words.join(' ')));
+    } else {
+      terms.push(...words.map(quote));
+    }
+  }
+  if (terms.length === 0) return null;
+
+  const query = terms.slice(0, MAX_SEARCH_TERMS);
+  if (terms.length <= MAX_SEARCH_TERMS && /[\p{L}\p{N}_]$/u.test(input)) {
+    query[query.length - 1] += '*';
+  }
+  return query.join(' ');
+}
+
+// Split a snippet() or highlight() result into plain and matched runs
+export function splitHighlights(value: string | null): HighlightPart[] {
+  if (!value) return [];
+
+  const parts: HighlightPart[] = [];
+  for (const [index, segment] of value.split(HIGHLIGHT_START).entries()) {
+    const [matched, rest] = index === 0 ? [null, segment] : segment.split(HIGHLIGHT_END, 2);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+/**
+ * Parse a from/to filter. Dates without a time cover the whole day, so
+ * to=2025-01-31 includes messages sent on the 31st. Returns null when invalid.
+ */
+export function parseSearchDate(value: string, bound: 'from' | 'to'): string | null {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) return null;
+
+  if (dateOnly && bound === 'to') {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString();
+}
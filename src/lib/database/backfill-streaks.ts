@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+
+/**
+ * Streak Backfill
+ *
+ * Recomputes every user's current streak, best streak and freezes from their
+ * completed study sessions. Run once after upgrading to study-based streaks;
+ * it is safe to run again at any time.
+ *
+ * Usage:
+ *   npm run db:backfill-streaks
+ */
+
+import { initializeDatabase } from './config';
+import { StreakService } from './services/streakService';
+
+async function main() {
+  try {
+    initializeDatabase();
+
+    const refreshed = await StreakService.refreshAllStreaks();
+    console.log(`\n✅ Streak backfill complete: ${refreshed} users updated`);
+  } catch (error) {
+    console.error('❌ Error during streak backfill:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
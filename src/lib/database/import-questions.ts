@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+
+/**
+ * Question Pack Importer
+ *
+ * Loads a JSON or YAML problem pack into the question bank. Questions are
+ * matched by slug, so running the same pack again updates them in place.
+ *
+ * Usage:
+ *   npm run db:import-questions -- <pack.json|pack.yaml> [--dry-run] [--source <name>]
+ *   npm run db:import-questions -- src/lib/database/packs/core.yaml
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { initializeDatabase } from './config';
+import { QuestionService } from './services/questionService';
+import { parseQuestionPack } from '../questions/pack';
+
+function parseArgs(argv: string[]) {
+  const args = { file: '', dryRun: false, source: '' };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      args.dryRun = true;
+    } else if (arg === '--source') {
+      args.source = argv[++i] || '';
+    } else if (!args.file) {
+      args.file = arg;
+    }
+  }
+
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.file) {
+    console.log('Usage: npm run db:import-questions -- <pack.json|pack.yaml> [--dry-run] [--source <name>]');
+    process.exit(1);
+  }
+
+  const filePath = path.resolve(process.cwd(), args.file);
+  if (!fs.existsSync(filePath)) {
+    console.error(`❌ File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  const format = extension === '.json' ? 'json' : extension === '.yaml' || extension === '.yml' ? 'yaml' : null;
+  if (!format) {
+    console.error('❌ Pack must be a .json, .yaml or .yml file');
+    process.exit(1);
+  }
+
+  console.log(`📦 Reading question pack: ${args.file}\n`);
+
+  let pack;
+  try {
+    pack = parseQuestionPack(fs.readFileSync(filePath, 'utf8'), format);
+  } catch (error) {
+    console.error('❌ Could not parse pack:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  for (const message of pack.errors) {
+    console.log(`   ⚠️  ${message}`);
+  }
+
+  const source = args.source || pack.name || path.basename(filePath, extension);
+  console.log(`   ${pack.questions.length} valid questions, ${pack.errors.length} skipped (source: ${source})`);
+
+  if (args.dryRun) {
+    for (const question of pack.questions) {
+      console.log(`   • [${question.category}/${question.difficulty}] ${question.title} (${question.slug}, ${question.testCases.length} test cases)`);
+    }
+    console.log('\n🔍 Dry run: nothing was written');
+    return;
+  }
+
+  try {
+    initializeDatabase();
+
+    let created = 0;
+    let updated = 0;
+
+    for (const question of pack.questions) {
+      const result = await QuestionService.upsertQuestion(
+        {
+          slug: question.slug,
+          title: question.title,
+          prompt: question.prompt,
+          category: question.category,
+          subcategory: question.subcategory || null,
+          difficulty: question.difficulty,
+          tags: JSON.stringify(question.tags),
+          hints: JSON.stringify(question.hints),
+          solutions: JSON.stringify(question.solutions),
+          source,
+          isActive: true,
+        },
+        question.companies,
+        question.testCases
+      );
+
+      if (result.created) created++;
+      else updated++;
+    }
+
+    console.log(`\n✅ Import complete: ${created} created, ${updated} updated`);
+  } catch (error) {
+    console.error('❌ Error during import:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1 @@
+ALTER TABLE `messages` ADD `truncated` integer DEFAULT false;
\ No newline at end of file
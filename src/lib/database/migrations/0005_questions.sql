@@ -0,0 +1,30 @@
+CREATE TABLE `question_companies` (
+	`id` text PRIMARY KEY NOT NULL,
+	`question_id` text NOT NULL,
+	`company` text NOT NULL,
+	`frequency` integer DEFAULT 1,
+	`last_asked_at` text,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_question_companies_question_company` ON `question_companies` (`question_id`,`company`);--> statement-breakpoint
+CREATE INDEX `idx_question_companies_company` ON `question_companies` (`company`);--> statement-breakpoint
+CREATE TABLE `questions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`slug` text NOT NULL,
+	`title` text NOT NULL,
+	`prompt` text NOT NULL,
+	`category` text NOT NULL,
+	`subcategory` text,
+	`difficulty` text NOT NULL,
+	`tags` text,
+	`hints` text,
+	`solutions` text,
+	`source` text,
+	`is_active` integer DEFAULT true,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now'))
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `questions_slug_unique` ON `questions` (`slug`);--> statement-breakpoint
+CREATE INDEX `idx_questions_category` ON `questions` (`category`,`difficulty`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `question_attempts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`question_id` text NOT NULL,
+	`verdict` text NOT NULL,
+	`time_spent` integer NOT NULL,
+	`language` text,
+	`code` text,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_question_attempts_user_question` ON `question_attempts` (`user_id`,`question_id`);--> statement-breakpoint
+CREATE INDEX `idx_question_attempts_user_created` ON `question_attempts` (`user_id`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `question_test_cases` (
+	`id` text PRIMARY KEY NOT NULL,
+	`question_id` text NOT NULL,
+	`position` integer NOT NULL,
+	`input` text NOT NULL,
+	`expected_output` text NOT NULL,
+	`is_hidden` integer DEFAULT false,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_question_test_cases_question` ON `question_test_cases` (`question_id`,`position`);
\ No newline at end of file
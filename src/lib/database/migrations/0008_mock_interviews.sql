@@ -0,0 +1,23 @@
+CREATE TABLE `mock_interviews` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`conversation_id` text,
+	`question_id` text,
+	`study_session_id` text,
+	`interview_type` text NOT NULL,
+	`status` text DEFAULT 'in_progress' NOT NULL,
+	`current_phase` text NOT NULL,
+	`phases` text NOT NULL,
+	`scorecard` text,
+	`overall_score` real,
+	`started_at` text NOT NULL,
+	`completed_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`study_session_id`) REFERENCES `study_sessions`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_mock_interviews_user` ON `mock_interviews` (`user_id`,`started_at`);--> statement-breakpoint
+CREATE INDEX `idx_mock_interviews_conversation` ON `mock_interviews` (`conversation_id`);
\ No newline at end of file
@@ -0,0 +1,53 @@
+CREATE TABLE `roadmap_phases` (
+	`id` text PRIMARY KEY NOT NULL,
+	`roadmap_id` text NOT NULL,
+	`key` text NOT NULL,
+	`position` integer NOT NULL,
+	`title` text NOT NULL,
+	`description` text,
+	`start_week` integer NOT NULL,
+	`end_week` integer NOT NULL,
+	`planned_hours` real NOT NULL,
+	FOREIGN KEY (`roadmap_id`) REFERENCES `roadmaps`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_roadmap_phases_roadmap` ON `roadmap_phases` (`roadmap_id`,`position`);--> statement-breakpoint
+CREATE TABLE `roadmap_tasks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`roadmap_id` text NOT NULL,
+	`phase_id` text NOT NULL,
+	`week` integer NOT NULL,
+	`position` integer NOT NULL,
+	`title` text NOT NULL,
+	`description` text,
+	`kind` text NOT NULL,
+	`track` text NOT NULL,
+	`topic` text,
+	`planned_hours` real NOT NULL,
+	`completed_at` text,
+	`study_session_id` text,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`roadmap_id`) REFERENCES `roadmaps`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`phase_id`) REFERENCES `roadmap_phases`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`study_session_id`) REFERENCES `study_sessions`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_roadmap_tasks_roadmap_week` ON `roadmap_tasks` (`roadmap_id`,`week`,`position`);--> statement-breakpoint
+CREATE INDEX `idx_roadmap_tasks_phase` ON `roadmap_tasks` (`phase_id`);--> statement-breakpoint
+CREATE TABLE `roadmaps` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`interview_type` text NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`start_date` text NOT NULL,
+	`target_date` text,
+	`total_weeks` integer NOT NULL,
+	`hours_per_week` real NOT NULL,
+	`total_hours` real NOT NULL,
+	`skipped_topics` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_roadmaps_user_status` ON `roadmaps` (`user_id`,`status`);
\ No newline at end of file
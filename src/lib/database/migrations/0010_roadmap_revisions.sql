@@ -0,0 +1,16 @@
+CREATE TABLE `roadmap_revisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`roadmap_id` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`strategy` text NOT NULL,
+	`reason` text NOT NULL,
+	`based_on` text,
+	`assessment` text NOT NULL,
+	`plan` text NOT NULL,
+	`diff` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')),
+	`resolved_at` text,
+	FOREIGN KEY (`roadmap_id`) REFERENCES `roadmaps`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_roadmap_revisions_roadmap_status` ON `roadmap_revisions` (`roadmap_id`,`status`);
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE `review_cards` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`source` text NOT NULL,
+	`question_id` text,
+	`message_id` text,
+	`category` text NOT NULL,
+	`topic` text,
+	`front` text NOT NULL,
+	`back` text NOT NULL,
+	`ease_factor` real DEFAULT 2.5 NOT NULL,
+	`interval_days` integer DEFAULT 0 NOT NULL,
+	`repetitions` integer DEFAULT 0 NOT NULL,
+	`lapses` integer DEFAULT 0 NOT NULL,
+	`due_at` text NOT NULL,
+	`last_reviewed_at` text,
+	`last_grade` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_review_cards_user_due` ON `review_cards` (`user_id`,`due_at`);--> statement-breakpoint
+CREATE INDEX `idx_review_cards_user_question` ON `review_cards` (`user_id`,`question_id`);--> statement-breakpoint
+CREATE INDEX `idx_review_cards_user_message` ON `review_cards` (`user_id`,`message_id`);
\ No newline at end of file
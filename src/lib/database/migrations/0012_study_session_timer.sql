@@ -0,0 +1,5 @@
+ALTER TABLE `study_sessions` ADD `status` text DEFAULT 'completed' NOT NULL;--> statement-breakpoint
+ALTER TABLE `study_sessions` ADD `timer_mode` text;--> statement-breakpoint
+ALTER TABLE `study_sessions` ADD `paused_at` text;--> statement-breakpoint
+ALTER TABLE `study_sessions` ADD `paused_seconds` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_study_sessions_user_status` ON `study_sessions` (`user_id`,`status`);
\ No newline at end of file
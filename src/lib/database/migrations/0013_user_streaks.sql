@@ -0,0 +1,4 @@
+ALTER TABLE `users` ADD `timezone` text DEFAULT 'UTC' NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `best_streak` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `streak_freezes` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `streak_goal_minutes` integer DEFAULT 15 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `progress_resets` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`scope` text NOT NULL,
+	`category` text,
+	`counts` text NOT NULL,
+	`snapshot` text,
+	`created_at` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`undone_at` text,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_progress_resets_user` ON `progress_resets` (`user_id`,`created_at`);
\ No newline at end of file
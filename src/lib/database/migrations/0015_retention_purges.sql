@@ -0,0 +1,13 @@
+CREATE TABLE `retention_purges` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`retention` text NOT NULL,
+	`cutoff` text NOT NULL,
+	`conversations` integer DEFAULT 0 NOT NULL,
+	`messages` integer DEFAULT 0 NOT NULL,
+	`study_sessions` integer DEFAULT 0 NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_retention_purges_user` ON `retention_purges` (`user_id`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `conversations` ADD `active_message_id` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `parent_message_id` text;--> statement-breakpoint
+UPDATE `messages` SET `parent_message_id` = (
+	SELECT `previous`.`id` FROM `messages` AS `previous`
+	WHERE `previous`.`conversation_id` = `messages`.`conversation_id` AND `previous`.rowid < `messages`.rowid
+	ORDER BY `previous`.rowid DESC LIMIT 1
+);
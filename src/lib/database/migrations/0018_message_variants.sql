@@ -0,0 +1,3 @@
+ALTER TABLE `messages` ADD `feedback_source` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `preferred` integer DEFAULT false;--> statement-breakpoint
+UPDATE `messages` SET `feedback_source` = 'rating' WHERE `feedback` IS NOT NULL;
@@ -0,0 +1 @@
+ALTER TABLE `messages` ADD `feedback_reasons` text;
\ No newline at end of file
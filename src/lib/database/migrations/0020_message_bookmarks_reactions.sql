@@ -0,0 +1,27 @@
+CREATE TABLE `message_bookmarks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`tags` text,
+	`note` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_message_bookmarks_user_message` ON `message_bookmarks` (`user_id`,`message_id`);--> statement-breakpoint
+CREATE INDEX `idx_message_bookmarks_user_created` ON `message_bookmarks` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `message_reactions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`emoji` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_message_reactions_user_message_emoji` ON `message_reactions` (`user_id`,`message_id`,`emoji`);--> statement-breakpoint
+CREATE INDEX `idx_message_reactions_message` ON `message_reactions` (`message_id`);--> statement-breakpoint
+ALTER TABLE `messages` ADD `reply_to_message_id` text;
\ No newline at end of file
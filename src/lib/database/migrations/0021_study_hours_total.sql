@@ -0,0 +1,22 @@
+-- users.total_study_hours follows every completed study session, however it was logged.
+-- Deleting a session takes its time off; retention purges put it back to keep the total.
+CREATE TRIGGER `study_hours_insert` AFTER INSERT ON `study_sessions` WHEN new.`status` = 'completed' BEGIN
+	UPDATE `users` SET `total_study_hours` = coalesce(`total_study_hours`, 0) + new.`duration` / 60.0 WHERE `id` = new.`user_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `study_hours_delete` AFTER DELETE ON `study_sessions` WHEN old.`status` = 'completed' BEGIN
+	UPDATE `users` SET `total_study_hours` = max(0, coalesce(`total_study_hours`, 0) - old.`duration` / 60.0) WHERE `id` = old.`user_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `study_hours_update` AFTER UPDATE OF `status`, `duration` ON `study_sessions` WHEN old.`status` = 'completed' OR new.`status` = 'completed' BEGIN
+	UPDATE `users` SET `total_study_hours` = max(0, coalesce(`total_study_hours`, 0)
+		+ (CASE WHEN new.`status` = 'completed' THEN new.`duration` ELSE 0 END
+		- CASE WHEN old.`status` = 'completed' THEN old.`duration` ELSE 0 END) / 60.0)
+	WHERE `id` = new.`user_id`;
+END;
+--> statement-breakpoint
+-- Only focus-timer sessions were counted before; purged sessions can't be recounted, so totals never go down here
+UPDATE `users` SET `total_study_hours` = max(coalesce(`total_study_hours`, 0), (
+	SELECT coalesce(sum(`duration`), 0) / 60.0 FROM `study_sessions`
+	WHERE `study_sessions`.`user_id` = `users`.`id` AND `study_sessions`.`status` = 'completed'
+));
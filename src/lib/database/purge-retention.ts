@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+/**
+ * Data Retention Job
+ *
+ * Deletes each user's conversations, messages and completed study sessions
+ * that were last active before their data retention window ('1year', '2years',
+ * '5years'; 'forever' keeps everything). Every purge is recorded in
+ * retention_purges. Run it daily, e.g. from cron.
+ *
+ * Usage:
+ *   npm run db:purge-retention -- [--dry-run]
+ */
+
+import { initializeDatabase } from './config';
+import { RetentionService } from './services/retentionService';
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+
+  try {
+    initializeDatabase();
+
+    const report = await RetentionService.runRetention({ dryRun });
+    console.log(`🧹 Checked ${report.usersChecked} users with a retention window\n`);
+
+    for (const purge of report.purges) {
+      console.log(`   • ${purge.userId} (${purge.retention}, before ${purge.cutoff}): ${purge.conversations} conversations, ${purge.messages} messages, ${purge.studySessions} study sessions`);
+    }
+
+    const { conversations, messages, studySessions } = report.totals;
+    if (dryRun) {
+      console.log(`\n🔍 Dry run: would delete ${conversations} conversations, ${messages} messages and ${studySessions} study sessions for ${report.purges.length} users; nothing was written`);
+      return;
+    }
+
+    console.log(`\n✅ Retention purge complete: deleted ${conversations} conversations, ${messages} messages and ${studySessions} study sessions for ${report.purges.length} users (${report.expiredSnapshots} expired reset snapshots dropped)`);
+  } catch (error) {
+    console.error('❌ Error during retention purge:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
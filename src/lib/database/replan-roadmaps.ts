@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+/**
+ * Roadmap Re-planning Job
+ *
+ * Checks every active roadmap against the user's recent study time and proposes a
+ * revised schedule for those that have fallen behind. Users see the proposal on
+ * their roadmap page and accept or reject it there. Safe to run repeatedly, e.g.
+ * once a day from cron: an unchanged roadmap keeps its pending proposal.
+ *
+ * Usage:
+ *   npm run db:replan-roadmaps -- [--dry-run]
+ */
+
+import { initializeDatabase } from './config';
+import { RoadmapService } from './services/roadmapService';
+import { RoadmapRevisionService } from './services/roadmapRevisionService';
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+
+  try {
+    initializeDatabase();
+
+    const active = await RoadmapService.getActiveRoadmaps();
+    console.log(`🗺️  Checking ${active.length} active roadmaps\n`);
+
+    let behind = 0;
+    for (const roadmap of active) {
+      const details = await RoadmapService.getRoadmap(roadmap.id);
+      if (!details) continue;
+
+      if (dryRun) {
+        const { assessment, proposal } = await RoadmapRevisionService.evaluateRoadmap(details);
+        if (!proposal) continue;
+
+        behind++;
+        console.log(`   • ${roadmap.id}: ${assessment.overdueHours} hrs overdue → ${proposal.strategy}`);
+        continue;
+      }
+
+      const { revision } = await RoadmapRevisionService.proposeRevision(details);
+      if (revision) behind++;
+    }
+
+    if (dryRun) {
+      console.log(`\n🔍 Dry run: ${behind} roadmaps behind, nothing was written`);
+      return;
+    }
+
+    console.log(`\n✅ Re-planning complete: ${behind} of ${active.length} roadmaps have a pending revision`);
+  } catch (error) {
+    console.error('❌ Error during re-planning:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real, blob } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, blob, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 
 // Users table - stores user onboarding and profile information
@@ -27,6 +27,7 @@ export const users = sqliteTable('users', {
   targetDate: text('target_date'), // ISO date string for target interview date
   hoursPerWeek: integer('hours_per_week').notNull().default(5),
   preferredStudyTime: text('preferred_study_time'), // 'morning', 'afternoon', 'evening'
+  timezone: text('timezone').notNull().default('UTC'), // IANA name, e.g. 'Asia/Kolkata'
   
   // Skills Assessment
   currentSkills: text('current_skills'), // JSON object with skill ratings
@@ -41,8 +42,11 @@ export const users = sqliteTable('users', {
   // Progress Tracking
   onboardingCompleted: integer('onboarding_completed', { mode: 'boolean' }).default(false),
   currentStreak: integer('current_streak').default(0),
+  bestStreak: integer('best_streak').notNull().default(0),
+  streakFreezes: integer('streak_freezes').notNull().default(0), // freezes held, each covers one missed day
+  streakGoalMinutes: integer('streak_goal_minutes').notNull().default(15), // study minutes a day needs to count
   totalStudyHours: real('total_study_hours').default(0),
-  lastActiveDate: text('last_active_date'),
+  lastActiveDate: text('last_active_date'), // last local date that counted towards the streak
   
   // Metadata
   createdAt: text('created_at').default(sql`(datetime('now'))`),
@@ -55,7 +59,7 @@ export const studySessions = sqliteTable('study_sessions', {
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   
   // Session Details
-  sessionType: text('session_type').notNull(), // 'dsa', 'system_design', 'behavioral', 'mock_interview'
+  sessionType: text('session_type').notNull(), // 'dsa', 'system_design', 'behavioral', 'mock_interview', 'review'
   topic: text('topic'), // specific topic covered
   duration: integer('duration').notNull(), // duration in minutes
   
@@ -68,11 +72,19 @@ export const studySessions = sqliteTable('study_sessions', {
   score: real('score'), // percentage score if applicable
   notes: text('notes'), // user notes from the session
   
+  // Timer state for sessions run live; sessions logged by other features are created completed
+  status: text('status').notNull().default('completed'), // 'active', 'paused', 'completed'
+  timerMode: text('timer_mode'), // 'stopwatch', 'pomodoro'
+  pausedAt: text('paused_at'), // set while paused
+  pausedSeconds: integer('paused_seconds').notNull().default(0), // total time spent paused
+
   // Metadata
   startedAt: text('started_at').notNull(),
   completedAt: text('completed_at'),
   createdAt: text('created_at').default(sql`(datetime('now'))`),
-});
+}, (table) => [
+  index('idx_study_sessions_user_status').on(table.userId, table.status),
+]);
 
 // Chat Conversations table - stores AI chat history
 export const conversations = sqliteTable('conversations', {
@@ -84,8 +96,9 @@ export const conversations = sqliteTable('conversations', {
   context: text('context'), // 'general', 'dsa', 'system_design', 'behavioral', 'code_review'
   
   // Metadata
-  messageCount: integer('message_count').default(0),
+  messageCount: integer('message_count').default(0), // every branch included
   lastMessageAt: text('last_message_at'),
+  activeMessageId: text('active_message_id'), // leaf of the branch being shown; the latest message when unset
   createdAt: text('created_at').default(sql`(datetime('now'))`),
   updatedAt: text('updated_at').default(sql`(datetime('now'))`),
 });
@@ -94,6 +107,10 @@ export const conversations = sqliteTable('conversations', {
 export const messages = sqliteTable('messages', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   conversationId: text('conversation_id').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  // Previous message on this branch; editing a message adds a sibling under the same parent.
+  // Not a foreign key so restores can insert in any order; a missing parent makes the message a root.
+  parentMessageId: text('parent_message_id'),
+  replyToMessageId: text('reply_to_message_id'), // earlier message this one quotes; not a foreign key, like parent_message_id
   
   // Message Details
   role: text('role').notNull(), // 'user', 'assistant'
@@ -103,10 +120,14 @@ export const messages = sqliteTable('messages', {
   attachments: text('attachments'), // JSON array of file information
   tokens: integer('tokens'), // token count for AI messages
   model: text('model'), // AI model used for response
+  truncated: integer('truncated', { mode: 'boolean' }).default(false), // response stopped before the model finished
   
   // User Feedback
   feedback: text('feedback'), // 'positive', 'negative', null
   feedbackNote: text('feedback_note'), // optional feedback details
+  feedbackReasons: text('feedback_reasons'), // JSON array of FeedbackReason, with negative feedback
+  feedbackSource: text('feedback_source'), // 'rating' (thumbs) or 'comparison' (picked between regenerated answers)
+  preferred: integer('preferred', { mode: 'boolean' }).default(false), // chosen among its regenerated siblings
   
   // Metadata
   createdAt: text('created_at').default(sql`(datetime('now'))`),
@@ -118,16 +139,16 @@ export const userProgress = sqliteTable('user_progress', {
   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   
   // Progress Area
-  category: text('category').notNull(), // 'dsa', 'system_design', 'behavioral'
+  category: text('category').notNull(), // 'dsa', 'system', 'behavioral'
   subcategory: text('subcategory'), // specific topic like 'arrays', 'graphs', 'caching'
   
-  // Progress Metrics
-  totalQuestions: integer('total_questions').default(0),
-  completedQuestions: integer('completed_questions').default(0),
-  correctAnswers: integer('correct_answers').default(0),
+  // Progress Metrics (derived from question_attempts)
+  totalQuestions: integer('total_questions').default(0), // attempts submitted
+  completedQuestions: integer('completed_questions').default(0), // distinct questions attempted
+  correctAnswers: integer('correct_answers').default(0), // distinct questions solved
   averageTime: real('average_time'), // average time per question in minutes
   
-  // Difficulty Progress
+  // Difficulty Progress (distinct questions solved)
   easyCompleted: integer('easy_completed').default(0),
   mediumCompleted: integer('medium_completed').default(0),
   hardCompleted: integer('hard_completed').default(0),
@@ -175,6 +196,360 @@ export const userSettings = sqliteTable('user_settings', {
   updatedAt: text('updated_at').default(sql`(datetime('now'))`),
 });
 
+// Credentials table - password hashes and WebAuthn passkeys used to sign in
+export const credentials = sqliteTable('credentials', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  
+  type: text('type').notNull(), // 'password', 'passkey'
+  
+  // Password credentials
+  passwordHash: text('password_hash'), // scrypt$N$r$p$salt$hash
+  
+  // Passkey credentials
+  credentialId: text('credential_id').unique(), // base64url WebAuthn credential ID
+  publicKey: text('public_key'), // base64url COSE public key
+  counter: integer('counter').default(0), // signature counter for clone detection
+  transports: text('transports'), // JSON array: ['internal', 'hybrid', 'usb', ...]
+  deviceType: text('device_type'), // 'singleDevice', 'multiDevice'
+  backedUp: integer('backed_up', { mode: 'boolean' }).default(false),
+  name: text('name'), // user-facing label, e.g. 'MacBook Touch ID'
+  
+  // Metadata
+  lastUsedAt: text('last_used_at'),
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+}, (table) => [
+  index('idx_credentials_user_id').on(table.userId),
+]);
+
+// Auth Challenges table - one-time WebAuthn challenges awaiting a response
+export const authChallenges = sqliteTable('auth_challenges', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }), // null for passkey sign-in
+  challenge: text('challenge').notNull(),
+  purpose: text('purpose').notNull(), // 'passkey_registration', 'passkey_authentication'
+  expiresAt: text('expires_at').notNull(), // ISO timestamp
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+});
+
+// Login Attempts table - used to rate-limit sign-in by account and by client address
+export const loginAttempts = sqliteTable('login_attempts', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  identifier: text('identifier').notNull(), // 'email:<address>' or 'ip:<address>'
+  success: integer('success', { mode: 'boolean' }).notNull(),
+  createdAt: text('created_at').notNull(), // ISO timestamp
+}, (table) => [
+  index('idx_login_attempts_identifier').on(table.identifier, table.createdAt),
+]);
+
+// Sessions table - server-side sessions; the cookie holds a random token whose hash is stored here
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull().unique(), // sha256 of the cookie token
+  previousTokenHash: text('previous_token_hash'), // still accepted briefly after rotation
+  
+  // Device info shown in account settings
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
+  
+  // Lifetime (ISO timestamps)
+  createdAt: text('created_at').notNull(),
+  lastSeenAt: text('last_seen_at').notNull(),
+  rotatedAt: text('rotated_at').notNull(),
+  expiresAt: text('expires_at').notNull(), // slides forward while the session is in use
+}, (table) => [
+  index('idx_sessions_user_id').on(table.userId),
+  index('idx_sessions_previous_token_hash').on(table.previousTokenHash),
+]);
+
+// Questions table - the practice problem bank
+export const questions = sqliteTable('questions', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  slug: text('slug').notNull().unique(), // stable key used by problem pack imports
+  
+  // Content
+  title: text('title').notNull(),
+  prompt: text('prompt').notNull(), // markdown
+  category: text('category').notNull(), // 'dsa', 'system', 'behavioral' (InterviewTypeKey)
+  subcategory: text('subcategory'), // e.g. 'arrays', 'graphs', 'caching', 'leadership'
+  difficulty: text('difficulty').notNull(), // 'easy', 'medium', 'hard'
+  tags: text('tags'), // JSON array of topic tags
+  hints: text('hints'), // JSON array of progressive hints
+  solutions: text('solutions'), // JSON array: [{ language, code, explanation }]
+  
+  // Provenance
+  source: text('source'), // problem pack name
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  
+  // Metadata
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+}, (table) => [
+  index('idx_questions_category').on(table.category, table.difficulty),
+]);
+
+// Question Companies table - which companies ask a question, and how often
+export const questionCompanies = sqliteTable('question_companies', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  questionId: text('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  company: text('company').notNull(),
+  frequency: integer('frequency').default(1), // reported occurrences
+  lastAskedAt: text('last_asked_at'), // ISO date of the latest report
+}, (table) => [
+  uniqueIndex('idx_question_companies_question_company').on(table.questionId, table.company),
+  index('idx_question_companies_company').on(table.company),
+]);
+
+// Question Test Cases table - stdin/stdout cases the judge runs submissions against
+export const questionTestCases = sqliteTable('question_test_cases', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  questionId: text('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(), // run order, starting at 0
+  input: text('input').notNull(), // fed to the program on stdin
+  expectedOutput: text('expected_output').notNull(), // compared ignoring trailing whitespace
+  isHidden: integer('is_hidden', { mode: 'boolean' }).default(false), // hidden cases never reveal input or output
+}, (table) => [
+  index('idx_question_test_cases_question').on(table.questionId, table.position),
+]);
+
+// Question Attempts table - every submission a user makes; userProgress is derived from these
+export const questionAttempts = sqliteTable('question_attempts', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  questionId: text('question_id').notNull().references(() => questions.id, { onDelete: 'cascade' }),
+  
+  // Outcome
+  verdict: text('verdict').notNull(), // 'accepted', 'wrong_answer', 'time_limit_exceeded', 'runtime_error', 'compile_error', 'attempted'
+  timeSpent: integer('time_spent').notNull(), // seconds
+  
+  // Submission
+  language: text('language'), // 'python', 'javascript', 'typescript', ...
+  code: text('code'),
+  
+  // Metadata
+  createdAt: text('created_at').notNull(), // ISO timestamp
+}, (table) => [
+  index('idx_question_attempts_user_question').on(table.userId, table.questionId),
+  index('idx_question_attempts_user_created').on(table.userId, table.createdAt),
+]);
+
+// Mock Interviews table - timed interview sessions run in a chat conversation
+export const mockInterviews = sqliteTable('mock_interviews', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  conversationId: text('conversation_id').references(() => conversations.id, { onDelete: 'set null' }),
+  questionId: text('question_id').references(() => questions.id, { onDelete: 'set null' }),
+  studySessionId: text('study_session_id').references(() => studySessions.id, { onDelete: 'set null' }),
+  
+  // Interview State
+  interviewType: text('interview_type').notNull(), // 'dsa', 'system', 'behavioral', 'full' (InterviewTypeKey)
+  status: text('status').notNull().default('in_progress'), // 'in_progress', 'completed', 'abandoned'
+  currentPhase: text('current_phase').notNull(), // 'intro', 'problem', 'follow_ups', 'wrap_up'
+  phases: text('phases').notNull(), // JSON array: [{ phase, plannedMinutes, startedAt, endedAt }]
+  
+  // Results
+  scorecard: text('scorecard'), // JSON rubric: { problemSolving, communication, codeQuality, summary, strengths, improvements }
+  overallScore: real('overall_score'), // percentage
+  
+  // Metadata
+  startedAt: text('started_at').notNull(), // ISO timestamp
+  completedAt: text('completed_at'),
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+}, (table) => [
+  index('idx_mock_interviews_user').on(table.userId, table.startedAt),
+  index('idx_mock_interviews_conversation').on(table.conversationId),
+]);
+
+// Roadmaps table - a generated study plan the user works through
+export const roadmaps = sqliteTable('roadmaps', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  
+  // Plan
+  interviewType: text('interview_type').notNull(), // 'dsa', 'system', 'behavioral', 'full' (InterviewTypeKey)
+  status: text('status').notNull().default('active'), // 'active', 'archived'
+  startDate: text('start_date').notNull(), // YYYY-MM-DD
+  targetDate: text('target_date'), // YYYY-MM-DD
+  totalWeeks: integer('total_weeks').notNull(),
+  hoursPerWeek: real('hours_per_week').notNull(),
+  totalHours: real('total_hours').notNull(),
+  skippedTopics: text('skipped_topics'), // JSON array of topic titles that did not fit
+  
+  // Metadata
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+}, (table) => [
+  index('idx_roadmaps_user_status').on(table.userId, table.status),
+]);
+
+// Roadmap Phases table - ordered stages of a roadmap
+export const roadmapPhases = sqliteTable('roadmap_phases', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  roadmapId: text('roadmap_id').notNull().references(() => roadmaps.id, { onDelete: 'cascade' }),
+  key: text('key').notNull(), // 'foundation', 'core', 'advanced', 'final'
+  position: integer('position').notNull(),
+  title: text('title').notNull(),
+  description: text('description'),
+  startWeek: integer('start_week').notNull(),
+  endWeek: integer('end_week').notNull(),
+  plannedHours: real('planned_hours').notNull(),
+}, (table) => [
+  index('idx_roadmap_phases_roadmap').on(table.roadmapId, table.position),
+]);
+
+// Roadmap Tasks table - the checklist items of a roadmap, one row per week slot
+export const roadmapTasks = sqliteTable('roadmap_tasks', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  roadmapId: text('roadmap_id').notNull().references(() => roadmaps.id, { onDelete: 'cascade' }),
+  phaseId: text('phase_id').notNull().references(() => roadmapPhases.id, { onDelete: 'cascade' }),
+  
+  // Task
+  week: integer('week').notNull(), // 1-based
+  position: integer('position').notNull(), // order within the week
+  title: text('title').notNull(),
+  description: text('description'),
+  kind: text('kind').notNull(), // 'learn', 'practice', 'review', 'mock'
+  track: text('track').notNull(), // 'dsa', 'system', 'behavioral'
+  topic: text('topic'), // roadmap topic key
+  plannedHours: real('planned_hours').notNull(),
+  
+  // Completion
+  completedAt: text('completed_at'), // ISO timestamp
+  studySessionId: text('study_session_id').references(() => studySessions.id, { onDelete: 'set null' }),
+  
+  // Metadata
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+}, (table) => [
+  index('idx_roadmap_tasks_roadmap_week').on(table.roadmapId, table.week, table.position),
+  index('idx_roadmap_tasks_phase').on(table.phaseId),
+]);
+
+// Roadmap Revisions table - re-planning proposals for a roadmap that fell behind
+export const roadmapRevisions = sqliteTable('roadmap_revisions', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  roadmapId: text('roadmap_id').notNull().references(() => roadmaps.id, { onDelete: 'cascade' }),
+  
+  // Proposal
+  status: text('status').notNull().default('pending'), // 'pending', 'accepted', 'rejected', 'superseded'
+  strategy: text('strategy').notNull(), // 'compress', 'drop_topics', 'extend_target'
+  reason: text('reason').notNull(),
+  basedOn: text('based_on'), // roadmap updated_at the proposal was computed from
+  assessment: text('assessment').notNull(), // JSON: planned vs actual hours and overdue work
+  plan: text('plan').notNull(), // JSON: revised settings and the rescheduled open tasks
+  diff: text('diff').notNull(), // JSON: what changes for the user
+  
+  // Metadata
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  resolvedAt: text('resolved_at'),
+}, (table) => [
+  index('idx_roadmap_revisions_roadmap_status').on(table.roadmapId, table.status),
+]);
+
+// Review Cards table - spaced-repetition cards for missed questions and saved answers
+export const reviewCards = sqliteTable('review_cards', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  
+  // Origin
+  source: text('source').notNull(), // 'attempt', 'feedback', 'bookmark'
+  questionId: text('question_id').references(() => questions.id, { onDelete: 'set null' }),
+  messageId: text('message_id').references(() => messages.id, { onDelete: 'set null' }),
+  
+  // Content (snapshot taken when the card is created)
+  category: text('category').notNull(), // 'dsa', 'system', 'behavioral', 'general'
+  topic: text('topic'),
+  front: text('front').notNull(), // markdown
+  back: text('back').notNull(), // markdown
+  
+  // Schedule (SM-2)
+  easeFactor: real('ease_factor').notNull().default(2.5),
+  intervalDays: integer('interval_days').notNull().default(0),
+  repetitions: integer('repetitions').notNull().default(0), // successful reviews in a row
+  lapses: integer('lapses').notNull().default(0),
+  dueAt: text('due_at').notNull(), // ISO timestamp
+  lastReviewedAt: text('last_reviewed_at'),
+  lastGrade: text('last_grade'), // 'again', 'hard', 'good', 'easy'
+  
+  // Metadata
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+}, (table) => [
+  index('idx_review_cards_user_due').on(table.userId, table.dueAt),
+  index('idx_review_cards_user_question').on(table.userId, table.questionId),
+  index('idx_review_cards_user_message').on(table.userId, table.messageId),
+]);
+
+// Progress Resets table - snapshot of the rows a progress reset deleted, kept so the reset can be undone
+export const progressResets = sqliteTable('progress_resets', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  
+  // What was reset
+  scope: text('scope').notNull(), // 'all', 'category', 'sessions', 'chat'
+  category: text('category'), // 'dsa', 'system', 'behavioral' for the category scope
+  counts: text('counts').notNull(), // JSON: deleted rows per table
+  snapshot: text('snapshot'), // JSON: deleted rows, cleared links and user stats; dropped once the undo window closes
+  
+  // Metadata
+  createdAt: text('created_at').notNull(), // ISO timestamp
+  expiresAt: text('expires_at').notNull(), // end of the undo window
+  undoneAt: text('undone_at'),
+}, (table) => [
+  index('idx_progress_resets_user').on(table.userId, table.createdAt),
+]);
+
+// Retention Purges table - audit log of data deleted under a user's data retention setting
+export const retentionPurges = sqliteTable('retention_purges', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  
+  // Policy applied
+  retention: text('retention').notNull(), // '1year', '2years', '5years'
+  cutoff: text('cutoff').notNull(), // ISO timestamp; data last active before this was deleted
+  
+  // Rows deleted
+  conversations: integer('conversations').notNull().default(0),
+  messages: integer('messages').notNull().default(0), // including those in deleted conversations
+  studySessions: integer('study_sessions').notNull().default(0),
+  
+  // Metadata
+  createdAt: text('created_at').notNull(), // ISO timestamp
+}, (table) => [
+  index('idx_retention_purges_user').on(table.userId, table.createdAt),
+]);
+
+// Message Bookmarks table - answers the user saved, shown in the Saved view
+export const messageBookmarks = sqliteTable('message_bookmarks', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  messageId: text('message_id').notNull().references(() => messages.id, { onDelete: 'cascade' }),
+  tags: text('tags'), // JSON array of lowercase tags
+  note: text('note'),
+  
+  // Metadata
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+}, (table) => [
+  uniqueIndex('idx_message_bookmarks_user_message').on(table.userId, table.messageId),
+  index('idx_message_bookmarks_user_created').on(table.userId, table.createdAt),
+]);
+
+// Message Reactions table - emoji reactions to messages, at most one of each emoji per user
+export const messageReactions = sqliteTable('message_reactions', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  messageId: text('message_id').notNull().references(() => messages.id, { onDelete: 'cascade' }),
+  emoji: text('emoji').notNull(), // one of REACTION_EMOJIS
+  
+  // Metadata
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+}, (table) => [
+  uniqueIndex('idx_message_reactions_user_message_emoji').on(table.userId, table.messageId, table.emoji),
+  index('idx_message_reactions_message').on(table.messageId),
+]);
+
 // Export types for TypeScript
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -188,3 +563,37 @@ export type UserProgress = typeof userProgress.$inferSelect;
 export type NewUserProgress = typeof userProgress.$inferInsert;
 export type UserSettings = typeof userSettings.$inferSelect;
 export type NewUserSettings = typeof userSettings.$inferInsert;
+export type Credential = typeof credentials.$inferSelect;
+export type NewCredential = typeof credentials.$inferInsert;
+export type AuthChallenge = typeof authChallenges.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
+export type Question = typeof questions.$inferSelect;
+export type NewQuestion = typeof questions.$inferInsert;
+export type QuestionCompany = typeof questionCompanies.$inferSelect;
+export type NewQuestionCompany = typeof questionCompanies.$inferInsert;
+export type QuestionTestCase = typeof questionTestCases.$inferSelect;
+export type NewQuestionTestCase = typeof questionTestCases.$inferInsert;
+export type MockInterview = typeof mockInterviews.$inferSelect;
+export type NewMockInterview = typeof mockInterviews.$inferInsert;
+export type QuestionAttempt = typeof questionAttempts.$inferSelect;
+export type NewQuestionAttempt = typeof questionAttempts.$inferInsert;
+export type Roadmap = typeof roadmaps.$inferSelect;
+export type NewRoadmap = typeof roadmaps.$inferInsert;
+export type RoadmapPhase = typeof roadmapPhases.$inferSelect;
+export type NewRoadmapPhase = typeof roadmapPhases.$inferInsert;
+export type RoadmapTask = typeof roadmapTasks.$inferSelect;
+export type NewRoadmapTask = typeof roadmapTasks.$inferInsert;
+export type RoadmapRevision = typeof roadmapRevisions.$inferSelect;
+export type NewRoadmapRevision = typeof roadmapRevisions.$inferInsert;
+export type ReviewCard = typeof reviewCards.$inferSelect;
+export type NewReviewCard = typeof reviewCards.$inferInsert;
+export type ProgressReset = typeof progressResets.$inferSelect;
+export type NewProgressReset = typeof progressResets.$inferInsert;
+export type RetentionPurge = typeof retentionPurges.$inferSelect;
+export type NewRetentionPurge = typeof retentionPurges.$inferInsert;
+export type MessageBookmark = typeof messageBookmarks.$inferSelect;
+export type NewMessageBookmark = typeof messageBookmarks.$inferInsert;
+export type MessageReaction = typeof messageReactions.$inferSelect;
+export type NewMessageReaction = typeof messageReactions.$inferInsert;
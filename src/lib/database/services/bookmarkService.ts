@@ -0,0 +1,134 @@
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { db } from '../config';
+import { conversations, messageBookmarks, messages, type MessageBookmark } from '../schema';
+import { safeJsonParse } from '../utils';
+import type { SavedMessagesPage } from '@/lib/chat/annotations';
+
+export interface BookmarkInput {
+  tags?: string[]; // already normalized; replaces the current tags when given
+  note?: string | null;
+}
+
+export interface SavedMessagesQuery {
+  tag?: string;
+  limit: number;
+  offset: number;
+}
+
+export class BookmarkService {
+  // Save an answer to the Saved view, or update the tags and note of an existing bookmark;
+  // `created` tells the two apart
+  static async saveBookmark(
+    userId: string,
+    messageId: string,
+    input: BookmarkInput = {}
+  ): Promise<{ bookmark: MessageBookmark; created: boolean }> {
+    const [message] = await db
+      .select({ role: messages.role, bookmarkId: messageBookmarks.id })
+      .from(messages)
+      .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+      .leftJoin(messageBookmarks, and(eq(messageBookmarks.messageId, messages.id), eq(messageBookmarks.userId, userId)))
+      .where(and(eq(messages.id, messageId), eq(conversations.userId, userId)))
+      .limit(1);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+    if (message.role !== 'assistant') {
+      throw new Error('Only answers can be saved');
+    }
+
+    try {
+      const changes = {
+        ...(input.tags !== undefined && { tags: JSON.stringify(input.tags) }),
+        ...(input.note !== undefined && { note: input.note || null }),
+      };
+
+      const [bookmark] = await db
+        .insert(messageBookmarks)
+        .values({ userId, messageId, tags: JSON.stringify(input.tags ?? []), note: input.note || null })
+        .onConflictDoUpdate({
+          target: [messageBookmarks.userId, messageBookmarks.messageId],
+          set: { ...changes, updatedAt: sql`(datetime('now'))` },
+        })
+        .returning();
+
+      console.log('✅ Bookmark saved:', bookmark.id);
+      return { bookmark, created: !message.bookmarkId };
+    } catch (error) {
+      console.error('❌ Error saving bookmark:', error);
+      throw new Error('Failed to save bookmark');
+    }
+  }
+
+  // Remove a message from the Saved view; false when it was not saved
+  static async removeBookmark(userId: string, messageId: string): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(messageBookmarks)
+        .where(and(eq(messageBookmarks.userId, userId), eq(messageBookmarks.messageId, messageId)));
+
+      return result.changes > 0;
+    } catch (error) {
+      console.error('❌ Error removing bookmark:', error);
+      throw new Error('Failed to remove bookmark');
+    }
+  }
+
+  // The Saved view: bookmarked answers across conversations, newest first, optionally with one tag
+  static async getSavedMessages(userId: string, query: SavedMessagesQuery): Promise<SavedMessagesPage> {
+    try {
+      const conditions = [eq(messageBookmarks.userId, userId)];
+      if (query.tag) {
+        conditions.push(sql`exists (select 1 from json_each(${messageBookmarks.tags}) where json_each.value = ${query.tag})`);
+      }
+
+      const rows = await db
+        .select({
+          messageId: messages.id,
+          conversationId: conversations.id,
+          conversationTitle: conversations.title,
+          context: conversations.context,
+          role: messages.role,
+          content: messages.content,
+          model: messages.model,
+          tags: messageBookmarks.tags,
+          note: messageBookmarks.note,
+          savedAt: messageBookmarks.createdAt,
+          messageCreatedAt: messages.createdAt,
+        })
+        .from(messageBookmarks)
+        .innerJoin(messages, eq(messages.id, messageBookmarks.messageId))
+        .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+        .where(and(...conditions))
+        .orderBy(desc(messageBookmarks.createdAt), desc(sql`${messageBookmarks}.rowid`))
+        .limit(query.limit + 1)
+        .offset(query.offset);
+
+      const [{ total }] = await db
+        .select({ total: sql<number>`count(*)` })
+        .from(messageBookmarks)
+        .where(and(...conditions));
+
+      const tags = await db.all<{ tag: string; count: number }>(sql`
+        select json_each.value as tag, count(*) as count
+        from ${messageBookmarks}, json_each(${messageBookmarks.tags})
+        where ${messageBookmarks.userId} = ${userId}
+        group by json_each.value
+        order by count desc, tag asc
+      `);
+
+      return {
+        items: rows.slice(0, query.limit).map(row => ({
+          ...row,
+          tags: safeJsonParse<string[]>(row.tags, []),
+        })),
+        tags,
+        total,
+        hasMore: rows.length > query.limit,
+      };
+    } catch (error) {
+      console.error('❌ Error fetching saved messages:', error);
+      throw new Error('Failed to fetch saved messages');
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import '../testDatabase';
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { db } from '../config';
+import { type Conversation, conversations, type Message } from '../schema';
+import { ChatService } from './chatService';
+import { UserService } from './userService';
+
+describe('ChatService.searchMessages', () => {
+  let userId: string;
+  let conversation: Conversation;
+  let original: Message;
+  let edited: Message;
+
+  // Q: "zebra question" -> A: "zebra answer", then Q edited to "giraffe question" -> A: "giraffe answer"
+  beforeEach(async () => {
+    userId = (await UserService.createUser({ name: 'Test', role: 'working', experienceLevel: 'intermediate' })).id;
+    conversation = await ChatService.createConversation({ userId });
+    original = await ChatService.addMessage({ conversationId: conversation.id, role: 'user', content: 'zebra question' });
+    await ChatService.addMessage({ conversationId: conversation.id, role: 'assistant', content: 'zebra answer' });
+    edited = await ChatService.addMessage({ conversationId: conversation.id, parentMessageId: null, role: 'user', content: 'giraffe question' });
+    await ChatService.addMessage({ conversationId: conversation.id, role: 'assistant', content: 'giraffe answer' });
+  });
+
+  async function search(query: string) {
+    const page = await ChatService.searchMessages(userId, query);
+    return { total: page.total, contents: page.messages.map(hit => hit.snippet.map(part => part.text).join('')).sort() };
+  }
+
+  function setActive(activeMessageId: string | null) {
+    db.update(conversations).set({ activeMessageId }).where(eq(conversations.id, conversation.id)).run();
+  }
+
+  test('skips messages replaced by an edit', async () => {
+    assert.deepEqual(await search('zebra'), { total: 0, contents: [] });
+    assert.deepEqual(await search('question'), { total: 1, contents: ['giraffe question'] });
+  });
+
+  test('follows the branch the conversation was switched to', async () => {
+    await ChatService.setActiveBranch(conversation.id, original.id);
+
+    assert.deepEqual(await search('answer'), { total: 1, contents: ['zebra answer'] });
+  });
+
+  test('continues from the active message down to the latest reply', async () => {
+    setActive(edited.id);
+
+    assert.deepEqual(await search('answer'), { total: 1, contents: ['giraffe answer'] });
+  });
+
+  test('falls back to the newest message when the active one is unset or gone', async () => {
+    setActive(null);
+    assert.deepEqual(await search('answer'), { total: 1, contents: ['giraffe answer'] });
+
+    setActive('missing-message');
+    assert.deepEqual(await search('answer'), { total: 1, contents: ['giraffe answer'] });
+  });
+
+  test('filters by context, including mock interview transcripts', async () => {
+    const interview = await ChatService.createConversation({ userId, context: 'mock_interview' });
+    await ChatService.addMessage({ conversationId: interview.id, role: 'user', content: 'zebra striping in tables' });
+
+    const page = await ChatService.searchMessages(userId, 'zebra', { context: 'mock_interview' });
+
+    assert.deepEqual(page.messages.map(hit => hit.conversationId), [interview.id]);
+  });
+});
@@ -1,6 +1,53 @@
-import { eq, desc, and, sql } from 'drizzle-orm';
+import { eq, asc, desc, and, or, ne, inArray, isNull, sql } from 'drizzle-orm';
 import { db } from '../config';
-import { conversations, messages, type Conversation, type NewConversation, type Message, type NewMessage } from '../schema';
+import { safeJsonParse } from '../utils';
+import {
+  conversations,
+  messageBookmarks,
+  messageReactions,
+  messages,
+  type Conversation,
+  type NewConversation,
+  type Message,
+  type NewMessage,
+} from '../schema';
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  SEARCH_PAGE_SIZE,
+  splitHighlights,
+  toFtsQuery,
+  type ChatSearchFilters,
+  type ChatSearchPage,
+  type ConversationSearchHit,
+} from '@/lib/chat/search';
+import {
+  FEEDBACK_REASONS,
+  getSatisfactionRate,
+  isFeedbackReason,
+  type FeedbackGroup,
+  type FeedbackReason,
+  type FeedbackReport,
+} from '@/lib/chat/feedback';
+import { isReactionEmoji, type MessageAnnotations, type ReactionEmoji } from '@/lib/chat/annotations';
+import { findBranchLeaf, resolveActivePath, type BranchNode, type BranchPosition } from '@/lib/chat/branches';
+
+const MAX_TITLE_MATCHES = 5;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Creation order; rowid breaks ties within a second, and timestamps mix ISO and SQLite formats
+const creationOrder = [sql`datetime(${messages.createdAt})`, sql`rowid`];
+
+// Every message's place in the conversation tree, in creation order
+function loadBranchNodes(tx: Transaction | typeof db, conversationId: string): BranchNode[] {
+  return tx
+    .select({ id: messages.id, parentMessageId: messages.parentMessageId })
+    .from(messages)
+    .where(eq(messages.conversationId, conversationId))
+    .orderBy(...creationOrder)
+    .all();
+}
 
 export class ChatService {
   // Create a new conversation
@@ -19,10 +66,11 @@ export class ChatService {
     }
   }
 
-  // Get conversation by ID with messages
+  // Get conversation by ID with the messages on its active branch
   static async getConversationWithMessages(conversationId: string): Promise<{
     conversation: Conversation;
     messages: Message[];
+    branches: Record<string, BranchPosition>;
   } | null> {
     try {
       const conversation = await db
@@ -37,11 +85,15 @@ export class ChatService {
         .select()
         .from(messages)
         .where(eq(messages.conversationId, conversationId))
-        .orderBy(messages.createdAt);
+        .orderBy(...creationOrder);
+
+      const path = resolveActivePath(conversationMessages, conversation[0].activeMessageId);
+      const byId = new Map(conversationMessages.map(message => [message.id, message]));
 
       return {
         conversation: conversation[0],
-        messages: conversationMessages,
+        messages: path.ids.map(id => byId.get(id) as Message),
+        branches: path.branches,
       };
     } catch (error) {
       console.error('❌ Error fetching conversation:', error);
@@ -49,6 +101,107 @@ export class ChatService {
     }
   }
 
+  // Get a page of the active branch, newest page first, returned in chronological order
+  static async getConversationMessages(
+    conversationId: string,
+    options: { limit?: number; before?: string } = {}
+  ): Promise<{ messages: Message[]; hasMore: boolean; branches: Record<string, BranchPosition> }> {
+    const { limit = 50, before } = options;
+
+    try {
+      const [conversation] = await db
+        .select({ activeMessageId: conversations.activeMessageId })
+        .from(conversations)
+        .where(eq(conversations.id, conversationId));
+      const path = resolveActivePath(loadBranchNodes(db, conversationId), conversation?.activeMessageId ?? null);
+
+      const end = before ? path.ids.indexOf(before) : path.ids.length;
+      const pageIds = path.ids.slice(Math.max(end - limit, 0), Math.max(end, 0));
+      const rows = pageIds.length === 0 ? [] : await db
+        .select()
+        .from(messages)
+        .where(inArray(messages.id, pageIds));
+      const byId = new Map(rows.map(message => [message.id, message]));
+
+      return {
+        messages: pageIds.map(id => byId.get(id) as Message),
+        hasMore: end - limit > 0,
+        branches: Object.fromEntries(pageIds.filter(id => path.branches[id]).map(id => [id, path.branches[id]])),
+      };
+    } catch (error) {
+      console.error('❌ Error fetching conversation messages:', error);
+      return { messages: [], hasMore: false, branches: {} };
+    }
+  }
+
+  // Show the branch that starts at a message, down to its latest reply; returns the new active leaf
+  static async setActiveBranch(conversationId: string, messageId: string): Promise<string | null> {
+    try {
+      const nodes = loadBranchNodes(db, conversationId);
+      if (!nodes.some(node => node.id === messageId)) return null;
+
+      const leaf = findBranchLeaf(nodes, messageId);
+      await db
+        .update(conversations)
+        .set({ activeMessageId: leaf })
+        .where(eq(conversations.id, conversationId));
+
+      return leaf;
+    } catch (error) {
+      console.error('❌ Error switching conversation branch:', error);
+      throw new Error('Failed to switch branch');
+    }
+  }
+
+  // Get a single message
+  static async getMessage(messageId: string): Promise<Message | null> {
+    try {
+      const [message] = await db
+        .select()
+        .from(messages)
+        .where(eq(messages.id, messageId))
+        .limit(1);
+
+      return message || null;
+    } catch (error) {
+      console.error('❌ Error fetching message:', error);
+      return null;
+    }
+  }
+
+  // Get a message only if it belongs to one of the user's conversations
+  static async getUserMessage(userId: string, messageId: string): Promise<Message | null> {
+    try {
+      const [row] = await db
+        .select({ message: messages })
+        .from(messages)
+        .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+        .where(and(eq(messages.id, messageId), eq(conversations.userId, userId)))
+        .limit(1);
+
+      return row?.message || null;
+    } catch (error) {
+      console.error('❌ Error fetching message:', error);
+      return null;
+    }
+  }
+
+  // Get a conversation without its messages
+  static async getConversation(conversationId: string): Promise<Conversation | null> {
+    try {
+      const [conversation] = await db
+        .select()
+        .from(conversations)
+        .where(eq(conversations.id, conversationId))
+        .limit(1);
+
+      return conversation || null;
+    } catch (error) {
+      console.error('❌ Error fetching conversation:', error);
+      return null;
+    }
+  }
+
   // Get user's conversations
   static async getUserConversations(userId: string, limit: number = 20): Promise<Conversation[]> {
     try {
@@ -56,7 +209,7 @@ export class ChatService {
         .select()
         .from(conversations)
         .where(eq(conversations.userId, userId))
-        .orderBy(desc(conversations.lastMessageAt))
+        .orderBy(desc(sql`coalesce(${conversations.lastMessageAt}, ${conversations.createdAt})`))
         .limit(limit);
     } catch (error) {
       console.error('❌ Error fetching user conversations:', error);
@@ -64,40 +217,90 @@ export class ChatService {
     }
   }
 
-  // Add message to conversation
+  // Add message to conversation; without a parentMessageId it continues the active branch
   static async addMessage(messageData: NewMessage): Promise<Message> {
     try {
-      const [newMessage] = await db.insert(messages).values(messageData).returning();
+      return db.transaction((tx) => {
+        let parentMessageId = messageData.parentMessageId;
+        if (parentMessageId === undefined) {
+          const conversation = tx
+            .select({ activeMessageId: conversations.activeMessageId })
+            .from(conversations)
+            .where(eq(conversations.id, messageData.conversationId))
+            .get();
+          const path = resolveActivePath(loadBranchNodes(tx, messageData.conversationId), conversation?.activeMessageId ?? null);
+          parentMessageId = path.ids[path.ids.length - 1] ?? null;
+        }
 
-      // Update conversation metadata
-      await db
-        .update(conversations)
-        .set({
-          messageCount: sql`${conversations.messageCount} + 1`,
-          lastMessageAt: sql`(datetime('now'))`,
-          updatedAt: sql`(datetime('now'))`,
-        })
-        .where(eq(conversations.id, messageData.conversationId));
+        const newMessage = tx.insert(messages).values({ ...messageData, parentMessageId }).returning().get();
+
+        // Update conversation metadata; the new message becomes the end of the active branch
+        tx.update(conversations)
+          .set({
+            messageCount: sql`${conversations.messageCount} + 1`,
+            lastMessageAt: sql`(datetime('now'))`,
+            updatedAt: sql`(datetime('now'))`,
+            activeMessageId: newMessage.id,
+          })
+          .where(eq(conversations.id, messageData.conversationId))
+          .run();
 
-      return newMessage;
+        return newMessage;
+      });
     } catch (error) {
       console.error('❌ Error adding message:', error);
       throw new Error('Failed to add message');
     }
   }
 
+  // Take back a message nothing has replied to, e.g. when its answer failed, and
+  // make `activeMessageId` the end of the active branch again
+  static async removeMessage(messageId: string, activeMessageId: string | null): Promise<boolean> {
+    try {
+      return db.transaction((tx) => {
+        const reply = tx
+          .select({ id: messages.id })
+          .from(messages)
+          .where(eq(messages.parentMessageId, messageId))
+          .limit(1)
+          .get();
+        if (reply) return false;
+
+        const removed = tx.delete(messages).where(eq(messages.id, messageId)).returning().get();
+        if (!removed) return false;
+
+        tx.update(conversations)
+          .set({
+            messageCount: sql`max(${conversations.messageCount} - 1, 0)`,
+            updatedAt: sql`(datetime('now'))`,
+            activeMessageId,
+          })
+          .where(eq(conversations.id, removed.conversationId))
+          .run();
+
+        return true;
+      });
+    } catch (error) {
+      console.error('❌ Error removing message:', error);
+      throw new Error('Failed to remove message');
+    }
+  }
+
   // Update message feedback
   static async updateMessageFeedback(
     messageId: string, 
     feedback: 'positive' | 'negative', 
-    feedbackNote?: string
+    feedbackNote?: string,
+    reasons: FeedbackReason[] = []
   ): Promise<boolean> {
     try {
       await db
         .update(messages)
         .set({
           feedback,
-          feedbackNote,
+          feedbackNote: feedbackNote || null,
+          feedbackReasons: reasons.length > 0 ? JSON.stringify(reasons) : null,
+          feedbackSource: 'rating',
         })
         .where(eq(messages.id, messageId));
 
@@ -109,6 +312,180 @@ export class ChatService {
     }
   }
 
+  // Prefer one of several answers to the same message and show it. The choice is recorded as
+  // positive feedback on it and negative feedback on the others, unless they were rated directly.
+  static async preferMessage(messageId: string): Promise<Message> {
+    const preferred = db.transaction((tx) => {
+      const message = tx.select().from(messages).where(eq(messages.id, messageId)).get();
+      if (!message) {
+        throw new Error('Message not found');
+      }
+      if (message.role !== 'assistant') {
+        throw new Error('Only answers can be compared');
+      }
+
+      const alternatives = message.parentMessageId === null ? [] : tx
+        .select({ id: messages.id })
+        .from(messages)
+        .where(and(
+          eq(messages.conversationId, message.conversationId),
+          eq(messages.parentMessageId, message.parentMessageId),
+          eq(messages.role, 'assistant'),
+          ne(messages.id, messageId)
+        ))
+        .all()
+        .map(row => row.id);
+      if (alternatives.length === 0) {
+        throw new Error('There are no other answers to compare');
+      }
+
+      tx.update(messages).set({ preferred: false }).where(inArray(messages.id, alternatives)).run();
+      tx.update(messages)
+        .set({ feedback: 'negative', feedbackSource: 'comparison' })
+        .where(and(
+          inArray(messages.id, alternatives),
+          or(isNull(messages.feedback), eq(messages.feedbackSource, 'comparison'))
+        ))
+        .run();
+
+      return tx
+        .update(messages)
+        .set({ preferred: true, feedback: 'positive', feedbackReasons: null, feedbackSource: 'comparison' })
+        .where(eq(messages.id, messageId))
+        .returning()
+        .get();
+    });
+
+    await ChatService.setActiveBranch(preferred.conversationId, preferred.id);
+    console.log(`✅ Preferred answer chosen: ${messageId}`);
+    return preferred;
+  }
+
+  // Feedback on the user's answers, optionally limited to messages sent in [from, to)
+  static async getFeedbackReport(userId: string, range: { from?: string; to?: string } = {}): Promise<FeedbackReport> {
+    try {
+      const conditions = [eq(conversations.userId, userId), sql`${messages.feedback} IS NOT NULL`];
+      if (range.from) conditions.push(sql`datetime(${messages.createdAt}) >= datetime(${range.from})`);
+      if (range.to) conditions.push(sql`datetime(${messages.createdAt}) < datetime(${range.to})`);
+
+      const counts = {
+        positive: sql<number>`coalesce(sum(case when ${messages.feedback} = 'positive' then 1 else 0 end), 0)`,
+        negative: sql<number>`coalesce(sum(case when ${messages.feedback} = 'negative' then 1 else 0 end), 0)`,
+      };
+      const grouped = async (column: typeof conversations.context | typeof messages.model): Promise<FeedbackGroup[]> => {
+        const rows = await db
+          .select({ key: column, ...counts })
+          .from(messages)
+          .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+          .where(and(...conditions))
+          .groupBy(column)
+          .orderBy(desc(sql`count(*)`));
+        return rows.map(row => ({ ...row, satisfactionRate: getSatisfactionRate(row.positive, row.negative) }));
+      };
+
+      const [totals] = await db
+        .select({ ...counts, comparisons: sql<number>`coalesce(sum(case when ${messages.preferred} then 1 else 0 end), 0)` })
+        .from(messages)
+        .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+        .where(and(...conditions));
+
+      // Reasons are a JSON array per message, so they are tallied here
+      const negative = await db
+        .select({ reasons: messages.feedbackReasons })
+        .from(messages)
+        .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+        .where(and(...conditions, eq(messages.feedback, 'negative')));
+      const reasonCounts = new Map<FeedbackReason, number>(FEEDBACK_REASONS.map(reason => [reason, 0]));
+      let withoutReason = 0;
+      for (const row of negative) {
+        const reasons = safeJsonParse<unknown[]>(row.reasons, []).filter(isFeedbackReason);
+        if (reasons.length === 0) withoutReason++;
+        for (const reason of new Set(reasons)) {
+          reasonCounts.set(reason, (reasonCounts.get(reason) ?? 0) + 1);
+        }
+      }
+
+      return {
+        from: range.from ?? null,
+        to: range.to ?? null,
+        totals: {
+          positive: totals?.positive ?? 0,
+          negative: totals?.negative ?? 0,
+          satisfactionRate: getSatisfactionRate(totals?.positive ?? 0, totals?.negative ?? 0),
+          comparisons: totals?.comparisons ?? 0,
+        },
+        byReason: [...reasonCounts]
+          .map(([reason, count]) => ({ reason, count }))
+          .sort((a, b) => b.count - a.count),
+        withoutReason,
+        byContext: await grouped(conversations.context),
+        byModel: await grouped(messages.model),
+      };
+    } catch (error) {
+      console.error('❌ Error building feedback report:', error);
+      throw new Error('Failed to build feedback report');
+    }
+  }
+
+  // The user's bookmarks and reactions on the given messages, keyed by message ID
+  static async getMessageAnnotations(userId: string, messageIds: string[]): Promise<Record<string, MessageAnnotations>> {
+    const annotations: Record<string, MessageAnnotations> = Object.fromEntries(
+      messageIds.map(id => [id, { bookmark: null, reactions: [] }])
+    );
+    if (messageIds.length === 0) return annotations;
+
+    try {
+      const bookmarkRows = await db
+        .select()
+        .from(messageBookmarks)
+        .where(and(eq(messageBookmarks.userId, userId), inArray(messageBookmarks.messageId, messageIds)));
+      for (const row of bookmarkRows) {
+        annotations[row.messageId].bookmark = {
+          tags: safeJsonParse<string[]>(row.tags, []),
+          note: row.note,
+          createdAt: row.createdAt,
+        };
+      }
+
+      const reactionRows = await db
+        .select({ messageId: messageReactions.messageId, emoji: messageReactions.emoji })
+        .from(messageReactions)
+        .where(and(eq(messageReactions.userId, userId), inArray(messageReactions.messageId, messageIds)))
+        .orderBy(asc(messageReactions.createdAt));
+      for (const row of reactionRows) {
+        if (isReactionEmoji(row.emoji)) annotations[row.messageId].reactions.push(row.emoji);
+      }
+
+      return annotations;
+    } catch (error) {
+      console.error('❌ Error fetching message annotations:', error);
+      return annotations;
+    }
+  }
+
+  // Add or remove one of the user's reactions to a message; returns the user's reactions afterwards
+  static async setReaction(userId: string, messageId: string, emoji: ReactionEmoji, reacted: boolean): Promise<ReactionEmoji[]> {
+    try {
+      if (reacted) {
+        await db.insert(messageReactions).values({ userId, messageId, emoji }).onConflictDoNothing();
+      } else {
+        await db
+          .delete(messageReactions)
+          .where(and(
+            eq(messageReactions.userId, userId),
+            eq(messageReactions.messageId, messageId),
+            eq(messageReactions.emoji, emoji)
+          ));
+      }
+
+      const annotations = await ChatService.getMessageAnnotations(userId, [messageId]);
+      return annotations[messageId].reactions;
+    } catch (error) {
+      console.error('❌ Error updating reaction:', error);
+      throw new Error('Failed to update reaction');
+    }
+  }
+
   // Update conversation title
   static async updateConversationTitle(conversationId: string, title: string): Promise<boolean> {
     try {
@@ -183,35 +560,130 @@ export class ChatService {
     }
   }
 
-  // Search messages in conversations
-  static async searchMessages(userId: string, query: string, limit: number = 10): Promise<Message[]> {
+  // Ranked full-text search over the user's messages, plus conversations whose title matches on the first page
+  static async searchMessages(
+    userId: string,
+    query: string,
+    filters: ChatSearchFilters = {},
+    limit: number = SEARCH_PAGE_SIZE,
+    offset: number = 0
+  ): Promise<ChatSearchPage> {
+    const page: ChatSearchPage = { query, messages: [], conversations: [], total: 0, limit, offset, hasMore: false };
+    const match = toFtsQuery(query);
+    if (!match) return page;
+
     try {
-      return await db
-        .select({
-          id: messages.id,
-          conversationId: messages.conversationId,
-          role: messages.role,
-          content: messages.content,
-          attachments: messages.attachments,
-          tokens: messages.tokens,
-          model: messages.model,
-          feedback: messages.feedback,
-          feedbackNote: messages.feedbackNote,
-          createdAt: messages.createdAt,
-        })
-        .from(messages)
-        .innerJoin(conversations, eq(conversations.id, messages.conversationId))
-        .where(
-          and(
-            eq(conversations.userId, userId),
-            sql`${messages.content} LIKE ${'%' + query + '%'}`
+      const conditions = [sql`messages_fts MATCH ${match}`, eq(conversations.userId, userId)];
+      if (filters.context) conditions.push(eq(conversations.context, filters.context));
+      if (filters.role) conditions.push(eq(messages.role, filters.role));
+      if (filters.from) conditions.push(sql`datetime(${messages.createdAt}) >= datetime(${filters.from})`);
+      if (filters.to) conditions.push(sql`datetime(${messages.createdAt}) < datetime(${filters.to})`);
+
+      const matching = sql`messages_fts
+        INNER JOIN ${messages} ON ${messages}.rowid = messages_fts.rowid
+        INNER JOIN ${conversations} ON ${conversations.id} = ${messages.conversationId}
+        WHERE ${sql.join(conditions, sql` AND `)}`;
+
+      // Only the branch each conversation shows is searched, not versions replaced by an edit.
+      // Like resolveActivePath: from the active message (or the newest) follow the latest
+      // replies down to a leaf, then the parents back up to the root.
+      const latest = sql`ORDER BY datetime(m.created_at) DESC, m.rowid DESC LIMIT 1`;
+      const activePath = sql`WITH RECURSIVE
+        start(id) AS (
+          SELECT coalesce(
+            (SELECT m.id FROM messages m WHERE m.id = c.active_message_id AND m.conversation_id = c.id),
+            (SELECT m.id FROM messages m WHERE m.conversation_id = c.id ${latest})
           )
-        )
-        .orderBy(desc(messages.createdAt))
-        .limit(limit);
+          FROM conversations c
+          WHERE c.id IN (SELECT ${messages.conversationId} FROM ${matching})
+        ),
+        branch(id) AS (
+          SELECT id FROM start WHERE id IS NOT NULL
+          UNION
+          SELECT (SELECT m.id FROM messages m WHERE m.parent_message_id = branch.id ${latest})
+          FROM branch
+          WHERE EXISTS (SELECT 1 FROM messages m WHERE m.parent_message_id = branch.id)
+        ),
+        active_path(id) AS (
+          SELECT id FROM branch WHERE NOT EXISTS (SELECT 1 FROM messages m WHERE m.parent_message_id = branch.id)
+          UNION
+          SELECT m.parent_message_id FROM active_path INNER JOIN messages m ON m.id = active_path.id
+          WHERE m.parent_message_id IS NOT NULL
+        )`;
+      const from = sql`${matching} AND ${messages.id} IN (SELECT id FROM active_path)`;
+
+      const rows = db.all<{
+        id: string;
+        conversationId: string;
+        title: string | null;
+        context: string | null;
+        role: string;
+        snippet: string | null;
+        createdAt: string | null;
+      }>(sql`
+        ${activePath}
+        SELECT ${messages.id} AS id, ${messages.conversationId} AS conversationId, ${conversations.title} AS title,
+          ${conversations.context} AS context, ${messages.role} AS role, ${messages.createdAt} AS createdAt,
+          snippet(messages_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 24) AS snippet
+        FROM ${from}
+        ORDER BY bm25(messages_fts), ${messages.createdAt} DESC
+        LIMIT ${limit} OFFSET ${offset}
+      `);
+      page.total = db.get<{ count: number }>(sql`${activePath} SELECT count(*) AS count FROM ${from}`)?.count ?? 0;
+      page.hasMore = offset + rows.length < page.total;
+      page.messages = rows.map(row => ({
+        messageId: row.id,
+        conversationId: row.conversationId,
+        conversationTitle: row.title,
+        context: row.context,
+        role: row.role,
+        snippet: splitHighlights(row.snippet),
+        createdAt: row.createdAt,
+      }));
+
+      // Titles have no role, so a role filter only returns messages
+      if (offset === 0 && !filters.role) {
+        page.conversations = ChatService.searchConversationTitles(userId, match, filters);
+      }
+      return page;
     } catch (error) {
       console.error('❌ Error searching messages:', error);
-      return [];
+      throw new Error('Failed to search messages');
     }
   }
+
+  private static searchConversationTitles(userId: string, match: string, filters: ChatSearchFilters): ConversationSearchHit[] {
+    const lastActive = sql`coalesce(${conversations.lastMessageAt}, ${conversations.createdAt})`;
+    const conditions = [sql`conversations_fts MATCH ${match}`, eq(conversations.userId, userId)];
+    if (filters.context) conditions.push(eq(conversations.context, filters.context));
+    if (filters.from) conditions.push(sql`datetime(${lastActive}) >= datetime(${filters.from})`);
+    if (filters.to) conditions.push(sql`datetime(${lastActive}) < datetime(${filters.to})`);
+
+    const rows = db.all<{
+      id: string;
+      title: string | null;
+      context: string | null;
+      messageCount: number | null;
+      lastMessageAt: string | null;
+      createdAt: string | null;
+    }>(sql`
+      SELECT ${conversations.id} AS id, ${conversations.context} AS context, ${conversations.messageCount} AS messageCount,
+        ${conversations.lastMessageAt} AS lastMessageAt, ${conversations.createdAt} AS createdAt,
+        highlight(conversations_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}) AS title
+      FROM conversations_fts
+      INNER JOIN ${conversations} ON ${conversations}.rowid = conversations_fts.rowid
+      WHERE ${sql.join(conditions, sql` AND `)}
+      ORDER BY bm25(conversations_fts), ${lastActive} DESC
+      LIMIT ${MAX_TITLE_MATCHES}
+    `);
+
+    return rows.map(row => ({
+      conversationId: row.id,
+      title: splitHighlights(row.title),
+      context: row.context,
+      messageCount: row.messageCount,
+      lastMessageAt: row.lastMessageAt,
+      createdAt: row.createdAt,
+    }));
+  }
 }
@@ -0,0 +1,236 @@
+import { eq, and, gte, lt, sql } from 'drizzle-orm';
+import { db } from '../config';
+import {
+  credentials,
+  authChallenges,
+  loginAttempts,
+  type Credential,
+  type NewCredential,
+} from '../schema';
+
+export type ChallengePurpose = 'passkey_registration' | 'passkey_authentication';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+export class CredentialService {
+  // Get the password credential for a user, if any
+  static async getPasswordCredential(userId: string): Promise<Credential | null> {
+    try {
+      const [credential] = await db
+        .select()
+        .from(credentials)
+        .where(and(eq(credentials.userId, userId), eq(credentials.type, 'password')))
+        .limit(1);
+
+      return credential || null;
+    } catch (error) {
+      console.error('❌ Error fetching password credential:', error);
+      return null;
+    }
+  }
+
+  // Create or replace the user's password hash
+  static async setPassword(userId: string, passwordHash: string): Promise<void> {
+    try {
+      const existing = await this.getPasswordCredential(userId);
+
+      if (existing) {
+        await db
+          .update(credentials)
+          .set({ passwordHash, updatedAt: sql`(datetime('now'))` })
+          .where(eq(credentials.id, existing.id));
+      } else {
+        await db.insert(credentials).values({ userId, type: 'password', passwordHash });
+      }
+
+      console.log(`✅ Password set for user: ${userId}`);
+    } catch (error) {
+      console.error('❌ Error setting password:', error);
+      throw new Error('Failed to set password');
+    }
+  }
+
+  // Check whether a user has any way to sign in
+  static async hasCredentials(userId: string): Promise<boolean> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(credentials)
+      .where(eq(credentials.userId, userId));
+
+    return (result[0]?.count || 0) > 0;
+  }
+
+  // List all credentials for a user
+  static async getUserCredentials(userId: string): Promise<Credential[]> {
+    try {
+      return await db
+        .select()
+        .from(credentials)
+        .where(eq(credentials.userId, userId))
+        .orderBy(credentials.createdAt);
+    } catch (error) {
+      console.error('❌ Error fetching credentials:', error);
+      return [];
+    }
+  }
+
+  // Store a newly registered passkey
+  static async addPasskey(data: Omit<NewCredential, 'type' | 'passwordHash'>): Promise<Credential> {
+    try {
+      const [credential] = await db
+        .insert(credentials)
+        .values({ ...data, type: 'passkey' })
+        .returning();
+
+      console.log(`✅ Passkey registered for user: ${data.userId}`);
+      return credential;
+    } catch (error) {
+      console.error('❌ Error adding passkey:', error);
+      throw new Error('Failed to add passkey');
+    }
+  }
+
+  // Find a passkey by its WebAuthn credential ID
+  static async getPasskeyByCredentialId(credentialId: string): Promise<Credential | null> {
+    try {
+      const [credential] = await db
+        .select()
+        .from(credentials)
+        .where(and(eq(credentials.credentialId, credentialId), eq(credentials.type, 'passkey')))
+        .limit(1);
+
+      return credential || null;
+    } catch (error) {
+      console.error('❌ Error fetching passkey:', error);
+      return null;
+    }
+  }
+
+  // Record a successful passkey assertion
+  static async updatePasskeyUsage(id: string, counter: number): Promise<void> {
+    await db
+      .update(credentials)
+      .set({
+        counter,
+        lastUsedAt: new Date().toISOString(),
+        updatedAt: sql`(datetime('now'))`,
+      })
+      .where(eq(credentials.id, id));
+  }
+
+  // Delete one of the user's credentials
+  static async deleteCredential(userId: string, credentialId: string): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(credentials)
+        .where(and(eq(credentials.id, credentialId), eq(credentials.userId, userId)))
+        .returning({ id: credentials.id });
+
+      return result.length > 0;
+    } catch (error) {
+      console.error('❌ Error deleting credential:', error);
+      return false;
+    }
+  }
+
+  // Store a WebAuthn challenge and return its ID
+  static async createChallenge(purpose: ChallengePurpose, challenge: string, userId?: string): Promise<string> {
+    // Opportunistically clear out expired challenges
+    await db.delete(authChallenges).where(lt(authChallenges.expiresAt, new Date().toISOString()));
+
+    const [row] = await db
+      .insert(authChallenges)
+      .values({
+        userId: userId || null,
+        challenge,
+        purpose,
+        expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString(),
+      })
+      .returning();
+
+    return row.id;
+  }
+
+  // Take a challenge out of the store; each challenge can be used once
+  static async consumeChallenge(
+    id: string,
+    purpose: ChallengePurpose,
+    userId?: string
+  ): Promise<string | null> {
+    const [row] = await db
+      .delete(authChallenges)
+      .where(and(eq(authChallenges.id, id), eq(authChallenges.purpose, purpose)))
+      .returning();
+
+    if (!row) return null;
+    if (row.expiresAt < new Date().toISOString()) return null;
+    if (userId && row.userId !== userId) return null;
+
+    return row.challenge;
+  }
+
+  // Record a sign-in attempt for rate limiting
+  static async recordLoginAttempt(identifier: string, success: boolean): Promise<void> {
+    try {
+      await db.insert(loginAttempts).values({
+        identifier,
+        success,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('❌ Error recording login attempt:', error);
+    }
+  }
+
+  // Count failed attempts within the window, optionally only those after the last success
+  static async countRecentFailures(
+    identifier: string,
+    windowMs: number,
+    resetOnSuccess: boolean = false
+  ): Promise<number> {
+    const windowStart = new Date(Date.now() - windowMs).toISOString();
+
+    let since = windowStart;
+
+    if (resetOnSuccess) {
+      const [lastSuccess] = await db
+        .select({ createdAt: loginAttempts.createdAt })
+        .from(loginAttempts)
+        .where(
+          and(
+            eq(loginAttempts.identifier, identifier),
+            eq(loginAttempts.success, true),
+            gte(loginAttempts.createdAt, windowStart)
+          )
+        )
+        .orderBy(sql`${loginAttempts.createdAt} DESC`)
+        .limit(1);
+
+      since = lastSuccess?.createdAt || windowStart;
+    }
+
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(loginAttempts)
+      .where(
+        and(
+          eq(loginAttempts.identifier, identifier),
+          eq(loginAttempts.success, false),
+          gte(loginAttempts.createdAt, since)
+        )
+      );
+
+    return result[0]?.count || 0;
+  }
+
+  // Delete attempts older than the given age
+  static async pruneLoginAttempts(olderThanMs: number): Promise<number> {
+    const cutoff = new Date(Date.now() - olderThanMs).toISOString();
+    const result = await db
+      .delete(loginAttempts)
+      .where(lt(loginAttempts.createdAt, cutoff))
+      .returning({ id: loginAttempts.id });
+
+    return result.length;
+  }
+}
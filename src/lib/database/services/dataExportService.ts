@@ -0,0 +1,276 @@
+import { createHash } from 'node:crypto';
+import { eq, and, asc, gt, inArray, getTableColumns, type SQL } from 'drizzle-orm';
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { db } from '../config';
+import {
+  conversations,
+  messageBookmarks,
+  messageReactions,
+  messages,
+  mockInterviews,
+  questionAttempts,
+  reviewCards,
+  roadmapPhases,
+  roadmapRevisions,
+  roadmapTasks,
+  roadmaps,
+  studySessions,
+  userProgress,
+  userSettings,
+  users,
+} from '../schema';
+import { toCsvLine, toCsvRecordLine } from '@/lib/export/csv';
+import {
+  EXPORT_FORMAT,
+  EXPORT_SCHEMA_VERSION,
+  EXPORT_TABLES,
+  toJsonLine,
+  type ExportFormat,
+  type ExportManifest,
+  type ExportManifestEntry,
+  type ExportRecord,
+  type ExportTable,
+} from '@/lib/export/manifest';
+import { createZip, type ZipEntry } from '@/lib/export/zip';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  tables?: readonly ExportTable[];
+  filenamePrefix?: string;
+}
+
+export interface DataExport {
+  stream: ReadableStream<Uint8Array>;
+  filename: string;
+  contentType: string;
+}
+
+export interface ExportSource {
+  table: SQLiteTable;
+  id: SQLiteColumn;
+  owned: (userId: string) => SQL;
+}
+
+const PAGE_SIZE = 500;
+
+const ownedConversationIds = (userId: string) =>
+  db.select({ id: conversations.id }).from(conversations).where(eq(conversations.userId, userId));
+
+const ownedRoadmapIds = (userId: string) =>
+  db.select({ id: roadmaps.id }).from(roadmaps).where(eq(roadmaps.userId, userId));
+
+// Where each exported table lives and which of its rows belong to a user
+const SOURCES: Record<ExportTable, ExportSource> = {
+  users: { table: users, id: users.id, owned: userId => eq(users.id, userId) },
+  user_settings: { table: userSettings, id: userSettings.id, owned: userId => eq(userSettings.userId, userId) },
+  user_progress: { table: userProgress, id: userProgress.id, owned: userId => eq(userProgress.userId, userId) },
+  study_sessions: { table: studySessions, id: studySessions.id, owned: userId => eq(studySessions.userId, userId) },
+  conversations: { table: conversations, id: conversations.id, owned: userId => eq(conversations.userId, userId) },
+  messages: { table: messages, id: messages.id, owned: userId => inArray(messages.conversationId, ownedConversationIds(userId)) },
+  message_bookmarks: { table: messageBookmarks, id: messageBookmarks.id, owned: userId => eq(messageBookmarks.userId, userId) },
+  message_reactions: { table: messageReactions, id: messageReactions.id, owned: userId => eq(messageReactions.userId, userId) },
+  question_attempts: { table: questionAttempts, id: questionAttempts.id, owned: userId => eq(questionAttempts.userId, userId) },
+  mock_interviews: { table: mockInterviews, id: mockInterviews.id, owned: userId => eq(mockInterviews.userId, userId) },
+  roadmaps: { table: roadmaps, id: roadmaps.id, owned: userId => eq(roadmaps.userId, userId) },
+  roadmap_phases: { table: roadmapPhases, id: roadmapPhases.id, owned: userId => inArray(roadmapPhases.roadmapId, ownedRoadmapIds(userId)) },
+  roadmap_tasks: { table: roadmapTasks, id: roadmapTasks.id, owned: userId => inArray(roadmapTasks.roadmapId, ownedRoadmapIds(userId)) },
+  roadmap_revisions: { table: roadmapRevisions, id: roadmapRevisions.id, owned: userId => inArray(roadmapRevisions.roadmapId, ownedRoadmapIds(userId)) },
+  review_cards: { table: reviewCards, id: reviewCards.id, owned: userId => eq(reviewCards.userId, userId) },
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'application/zip',
+  archive: 'application/zip',
+};
+
+const encoder = new TextEncoder();
+
+export function getExportSource(table: ExportTable): ExportSource {
+  return SOURCES[table];
+}
+
+// SQL column names of an exported table, keyed by their schema property
+export function getExportColumns(table: ExportTable): Array<[key: string, column: string]> {
+  return Object.entries(getTableColumns(SOURCES[table].table)).map(([key, column]) => [key, column.name]);
+}
+
+// A user's rows in one table, keyed by SQL column name, a page at a time in ID order
+async function* readPages(userId: string, table: ExportTable): AsyncGenerator<ExportRecord[]> {
+  const source = SOURCES[table];
+  const columns = getExportColumns(table);
+  const idKey = columns.find(([, column]) => column === source.id.name)?.[0] ?? 'id';
+  let lastId: string | null = null;
+
+  while (true) {
+    const rows = (await db
+      .select()
+      .from(source.table)
+      .where(lastId === null ? source.owned(userId) : and(source.owned(userId), gt(source.id, lastId)))
+      .orderBy(asc(source.id))
+      .limit(PAGE_SIZE)) as Array<Record<string, unknown>>;
+
+    if (rows.length > 0) {
+      yield rows.map(row => Object.fromEntries(
+        columns.map(([key, column]) => [column, (row[key] ?? null) as ExportRecord[string]])
+      ));
+    }
+    if (rows.length < PAGE_SIZE) return;
+    lastId = rows[rows.length - 1][idKey] as string;
+  }
+}
+
+interface TrackOptions {
+  header?: string; // written and hashed before the rows
+  hashPage?: (records: ExportRecord[], encoded: string) => string; // what the checksum covers, if not the written bytes
+}
+
+// Encode a table a page at a time, counting its rows and checksumming it into the manifest entry
+async function* trackedTable(
+  userId: string,
+  entry: ExportManifestEntry,
+  encodePage: (records: ExportRecord[]) => string,
+  options: TrackOptions = {}
+): AsyncGenerator<Uint8Array> {
+  const hash = createHash('sha256');
+  if (options.header) {
+    hash.update(options.header);
+    yield encoder.encode(options.header);
+  }
+
+  for await (const records of readPages(userId, entry.table)) {
+    const encoded = encodePage(records);
+    hash.update(options.hashPage ? options.hashPage(records, encoded) : encoded);
+    entry.rows += records.length;
+    yield encoder.encode(encoded);
+  }
+  entry.sha256 = hash.digest('hex');
+}
+
+function toReadableStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        console.error('❌ Error exporting data:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+export class DataExportService {
+  // Stream a user's data in the requested format; the manifest is written once every table has been read
+  static createExport(userId: string, options: ExportOptions, now: Date = new Date()): DataExport {
+    const tables = options.tables ?? EXPORT_TABLES;
+    const manifest: ExportManifest = {
+      format: EXPORT_FORMAT,
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: now.toISOString(),
+      userId,
+      tables: [],
+    };
+    const addEntry = (table: ExportTable, file: string | null): ExportManifestEntry => {
+      const entry: ExportManifestEntry = { table, file, rows: 0, sha256: '' };
+      manifest.tables.push(entry);
+      return entry;
+    };
+
+    let chunks: AsyncGenerator<Uint8Array>;
+    if (options.format === 'json') {
+      chunks = DataExportService.writeJson(userId, tables, manifest, addEntry);
+    } else {
+      chunks = createZip(DataExportService.zipEntries(userId, options.format, tables, manifest, addEntry), now);
+    }
+
+    const date = now.toISOString().split('T')[0];
+    const prefix = options.filenamePrefix || 'tayyari-data-export';
+    const suffix = options.format === 'json' ? '.json' : options.format === 'csv' ? '-csv.zip' : `-v${EXPORT_SCHEMA_VERSION}.zip`;
+
+    console.log(`✅ Data export started: ${userId} (${options.format})`);
+    return {
+      stream: toReadableStream(chunks),
+      filename: `${prefix}-${date}${suffix}`,
+      contentType: CONTENT_TYPES[options.format],
+    };
+  }
+
+  // One JSON document: { format, schemaVersion, exportedAt, userId, tables: { name: rows[] }, manifest }
+  private static async *writeJson(
+    userId: string,
+    tables: readonly ExportTable[],
+    manifest: ExportManifest,
+    addEntry: (table: ExportTable, file: string | null) => ExportManifestEntry
+  ): AsyncGenerator<Uint8Array> {
+    const header = {
+      format: manifest.format,
+      schemaVersion: manifest.schemaVersion,
+      exportedAt: manifest.exportedAt,
+      userId: manifest.userId,
+    };
+    yield encoder.encode(`${JSON.stringify(header).slice(0, -1)},"tables":{`);
+
+    for (const [index, table] of tables.entries()) {
+      yield encoder.encode(`${index > 0 ? ',' : ''}\n${JSON.stringify(table)}:[`);
+
+      const entry = addEntry(table, null);
+      yield* trackedTable(
+        userId,
+        entry,
+        records => records.map((record, i) => `${entry.rows + i > 0 ? ',' : ''}\n${JSON.stringify(record)}`).join(''),
+        { hashPage: records => records.map(toJsonLine).join('') }
+      );
+
+      yield encoder.encode('\n]');
+    }
+
+    yield encoder.encode(`\n},"manifest":${JSON.stringify(manifest)}}\n`);
+  }
+
+  // Zip entries for the CSV and archive formats, with manifest.json last
+  private static *zipEntries(
+    userId: string,
+    format: Exclude<ExportFormat, 'json'>,
+    tables: readonly ExportTable[],
+    manifest: ExportManifest,
+    addEntry: (table: ExportTable, file: string | null) => ExportManifestEntry
+  ): Generator<ZipEntry> {
+    for (const table of tables) {
+      if (format === 'csv') {
+        const columns = getExportColumns(table).map(([, column]) => column);
+        const entry = addEntry(table, `${table}.csv`);
+        yield {
+          name: `${table}.csv`,
+          data: trackedTable(
+            userId,
+            entry,
+            records => records.map(record => toCsvRecordLine(columns, record)).join(''),
+            { header: toCsvLine(columns) }
+          ),
+        };
+      } else {
+        const entry = addEntry(table, `data/${table}.jsonl`);
+        yield {
+          name: `data/${table}.jsonl`,
+          data: trackedTable(userId, entry, records => records.map(toJsonLine).join('')),
+        };
+      }
+    }
+
+    yield {
+      name: 'manifest.json',
+      data: (async function* () {
+        yield encoder.encode(`${JSON.stringify(manifest, null, 2)}\n`);
+      })(),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import '../testDatabase';
+import assert from 'node:assert/strict';
+import { beforeEach, describe, test } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { db } from '../config';
+import { type Conversation, type Message, messages } from '../schema';
+import { ChatService } from './chatService';
+import { DataExportService } from './dataExportService';
+import { DataImportService, type ParsedExport } from './dataImportService';
+import { UserService } from './userService';
+
+async function exportChats(userId: string): Promise<Buffer> {
+  const { stream } = DataExportService.createExport(userId, { format: 'json', tables: ['conversations', 'messages'] });
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+async function createUser(): Promise<string> {
+  return (await UserService.createUser({ name: 'Test', role: 'working', experienceLevel: 'intermediate' })).id;
+}
+
+async function conversationTitles(userId: string): Promise<Array<string | null>> {
+  return (await ChatService.getUserConversations(userId)).map(conversation => conversation.title).sort();
+}
+
+function storedMessages(conversationId: string): Message[] {
+  return db.select().from(messages).where(eq(messages.conversationId, conversationId)).all();
+}
+
+describe('DataImportService.importData', () => {
+  let userId: string;
+  let conversation: Conversation;
+  let parsed: ParsedExport;
+
+  beforeEach(async () => {
+    userId = await createUser();
+    conversation = await ChatService.createConversation({ userId, title: 'Heaps' });
+    await ChatService.addMessage({ conversationId: conversation.id, role: 'user', content: 'What is a heap?' });
+    await ChatService.addMessage({ conversationId: conversation.id, role: 'assistant', content: 'A priority queue.' });
+    parsed = DataImportService.parseExport(await exportChats(userId));
+  });
+
+  test('merge restores missing rows and keeps the ones already there', async () => {
+    await ChatService.deleteConversation(conversation.id);
+    await ChatService.createConversation({ userId, title: 'Tries' });
+
+    const report = await DataImportService.importData(userId, parsed, { mode: 'merge' });
+
+    assert.equal(report.tables.conversations.inserted, 1);
+    assert.equal(report.tables.messages.inserted, 2);
+    assert.deepEqual(await conversationTitles(userId), ['Heaps', 'Tries']);
+
+    const again = await DataImportService.importData(userId, parsed, { mode: 'merge' });
+    assert.equal(again.tables.conversations.existing, 1);
+    assert.equal(again.tables.messages.existing, 2);
+    assert.equal(again.tables.messages.inserted, 0);
+  });
+
+  test('replace drops rows the export does not have', async () => {
+    await ChatService.createConversation({ userId, title: 'Tries' });
+
+    const report = await DataImportService.importData(userId, parsed, { mode: 'replace' });
+
+    assert.equal(report.tables.conversations.deleted, 2);
+    assert.equal(report.tables.conversations.inserted, 1);
+    assert.deepEqual(await conversationTitles(userId), ['Heaps']);
+    assert.equal((await ChatService.getConversation(conversation.id))?.messageCount, 2);
+  });
+
+  test('a dry run reports the counts without writing anything', async () => {
+    const other = await createUser();
+    await ChatService.createConversation({ userId, title: 'Tries' });
+
+    const merge = await DataImportService.importData(other, parsed, { mode: 'merge', dryRun: true });
+    const replace = await DataImportService.importData(userId, parsed, { mode: 'replace', dryRun: true });
+
+    assert.equal(merge.dryRun, true);
+    assert.equal(merge.tables.messages.inserted, 2);
+    assert.deepEqual(await conversationTitles(other), []);
+    assert.equal(replace.tables.conversations.deleted, 2);
+    assert.deepEqual(await conversationTitles(userId), ['Heaps', 'Tries']);
+    assert.equal(storedMessages(conversation.id).length, 2);
+  });
+
+  test('rows whose ids belong to another account get new ids, stable across imports', async () => {
+    const other = await createUser();
+
+    const report = await DataImportService.importData(other, parsed, { mode: 'merge' });
+
+    assert.equal(report.tables.conversations.remapped, 1);
+    assert.equal(report.tables.messages.remapped, 2);
+    const [copy] = await ChatService.getUserConversations(other);
+    assert.notEqual(copy.id, conversation.id);
+    const copied = storedMessages(copy.id);
+    const question = copied.find(message => message.role === 'user');
+    const answer = copied.find(message => message.role === 'assistant');
+    assert.equal(answer?.parentMessageId, question?.id);
+    assert.equal(copy.activeMessageId, answer?.id);
+    assert.equal(storedMessages(conversation.id).length, 2);
+
+    const again = await DataImportService.importData(other, parsed, { mode: 'merge' });
+    assert.equal(again.tables.conversations.existing, 1);
+    assert.equal(again.tables.messages.existing, 2);
+    assert.equal((await ChatService.getUserConversations(other)).length, 1);
+  });
+});
+
+describe('DataImportService.parseExport', () => {
+  test('rejects an export whose rows no longer match the checksum', async () => {
+    const userId = await createUser();
+    await ChatService.createConversation({ userId, title: 'Heaps' });
+    const document = JSON.parse((await exportChats(userId)).toString('utf8'));
+    document.tables.conversations[0].title = 'Edited';
+
+    assert.throws(
+      () => DataImportService.parseExport(Buffer.from(JSON.stringify(document))),
+      { message: 'Invalid export: checksum mismatch for conversations' }
+    );
+  });
+});
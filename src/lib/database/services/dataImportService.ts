@@ -0,0 +1,467 @@
+import { createHash } from 'node:crypto';
+import { eq, and, getTableColumns, inArray, isNull, sql, TransactionRollbackError } from 'drizzle-orm';
+import { db } from '../config';
+import { conversations, questions, roadmaps, userSettings, users } from '../schema';
+import { getExportColumns, getExportSource } from './dataExportService';
+import { ProgressService } from './progressService';
+import { StreakService } from './streakService';
+import {
+  EXPORT_FORMAT,
+  EXPORT_SCHEMA_VERSION,
+  EXPORT_TABLES,
+  toJsonLine,
+  type ExportManifest,
+  type ExportManifestEntry,
+  type ExportRecord,
+  type ExportTable,
+} from '@/lib/export/manifest';
+import {
+  IMPORT_TABLES,
+  MAX_IMPORT_BYTES,
+  type ImportMode,
+  type ImportReport,
+  type ImportTable,
+} from '@/lib/export/import';
+import { readZip } from '@/lib/export/zip';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ParsedExport {
+  manifest: ExportManifest;
+  tables: Partial<Record<ExportTable, ExportRecord[]>>;
+}
+
+export interface ImportOptions {
+  mode: ImportMode;
+  dryRun?: boolean;
+}
+
+// A column pointing at another imported table, or at the shared question bank
+interface Reference {
+  column: string;
+  table: ImportTable | 'questions';
+  required: boolean; // rows whose reference cannot be resolved are skipped rather than unlinked
+}
+
+const REFERENCES: Partial<Record<ImportTable, Reference[]>> = {
+  conversations: [{ column: 'active_message_id', table: 'messages', required: false }],
+  messages: [
+    { column: 'conversation_id', table: 'conversations', required: true },
+    { column: 'parent_message_id', table: 'messages', required: false },
+    { column: 'reply_to_message_id', table: 'messages', required: false },
+  ],
+  message_bookmarks: [{ column: 'message_id', table: 'messages', required: true }],
+  message_reactions: [{ column: 'message_id', table: 'messages', required: true }],
+  question_attempts: [{ column: 'question_id', table: 'questions', required: true }],
+  mock_interviews: [
+    { column: 'conversation_id', table: 'conversations', required: false },
+    { column: 'question_id', table: 'questions', required: false },
+    { column: 'study_session_id', table: 'study_sessions', required: false },
+  ],
+  roadmap_phases: [{ column: 'roadmap_id', table: 'roadmaps', required: true }],
+  roadmap_tasks: [
+    { column: 'roadmap_id', table: 'roadmaps', required: true },
+    { column: 'phase_id', table: 'roadmap_phases', required: true },
+    { column: 'study_session_id', table: 'study_sessions', required: false },
+  ],
+  roadmap_revisions: [{ column: 'roadmap_id', table: 'roadmaps', required: true }],
+  review_cards: [
+    { column: 'question_id', table: 'questions', required: false },
+    { column: 'message_id', table: 'messages', required: false },
+  ],
+};
+
+// Columns that are unique per account besides the ID; a row matching one already here is kept as it is
+const NATURAL_KEYS: Partial<Record<ImportTable, string[]>> = {
+  message_bookmarks: ['user_id', 'message_id'],
+  message_reactions: ['user_id', 'message_id', 'emoji'],
+};
+
+const CHUNK_SIZE = 100;
+
+function chunks<T>(rows: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+    result.push(rows.slice(i, i + CHUNK_SIZE));
+  }
+  return result;
+}
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid export: ${reason}`);
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Stable ID for a row whose exported ID belongs to another account, so importing the same export again finds it
+function accountScopedId(userId: string, table: ImportTable, id: string): string {
+  const hex = sha256(`${userId}:${table}:${id}`);
+  const variant = ((Number.parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function isRecord(value: unknown): value is ExportRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string, what: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw invalid(`${what} is not valid JSON`);
+  }
+}
+
+function checkManifest(value: unknown): ExportManifest {
+  if (!isRecord(value) || value.format !== EXPORT_FORMAT) {
+    throw invalid('not a Tayyari export');
+  }
+
+  const version = value.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw invalid('missing schema version');
+  }
+  if (version > EXPORT_SCHEMA_VERSION) {
+    throw invalid(`schema version ${version} is newer than this app supports (${EXPORT_SCHEMA_VERSION})`);
+  }
+
+  const manifest = value as unknown as ExportManifest;
+  if (!Array.isArray(manifest.tables)) {
+    throw invalid('manifest lists no tables');
+  }
+  for (const entry of manifest.tables) {
+    if (!EXPORT_TABLES.includes(entry.table)) {
+      throw invalid(`unknown table ${entry.table}`);
+    }
+  }
+  return manifest;
+}
+
+function checkRows(entry: ExportManifestEntry, rows: unknown[], checksum: string): ExportRecord[] {
+  if (checksum !== entry.sha256) {
+    throw invalid(`checksum mismatch for ${entry.table}`);
+  }
+  if (rows.length !== entry.rows) {
+    throw invalid(`row count mismatch for ${entry.table}`);
+  }
+  if (!rows.every(row => isRecord(row) && typeof row.id === 'string')) {
+    throw invalid(`${entry.table} has rows without an id`);
+  }
+  return rows as ExportRecord[];
+}
+
+// A zip with manifest.json and data/<table>.jsonl files
+function parseArchive(bytes: Buffer): ParsedExport {
+  let files: Map<string, Buffer>;
+  try {
+    files = readZip(bytes, MAX_IMPORT_BYTES * 10);
+  } catch (error) {
+    throw invalid(error instanceof Error ? error.message : 'unreadable zip archive');
+  }
+
+  const manifestFile = files.get('manifest.json');
+  if (!manifestFile) {
+    throw invalid('manifest.json is missing');
+  }
+
+  const manifest = checkManifest(parseJson(manifestFile.toString('utf8'), 'manifest.json'));
+  const tables: ParsedExport['tables'] = {};
+  for (const entry of manifest.tables) {
+    if (entry.file?.endsWith('.csv')) {
+      throw invalid('CSV exports cannot be imported; export as JSON or archive instead');
+    }
+    const file = entry.file ? files.get(entry.file) : undefined;
+    if (!file) {
+      throw invalid(`${entry.file || entry.table} is missing`);
+    }
+
+    const rows = file.toString('utf8').split('\n').filter(Boolean).map(line => parseJson(line, entry.file as string));
+    tables[entry.table] = checkRows(entry, rows, sha256(file));
+  }
+
+  return { manifest, tables };
+}
+
+// A single JSON document from the json export format
+function parseDocument(bytes: Buffer): ParsedExport {
+  const document = parseJson(bytes.toString('utf8'), 'file');
+  if (!isRecord(document)) {
+    throw invalid('not a Tayyari export');
+  }
+
+  const manifest = checkManifest((document as Record<string, unknown>).manifest);
+  const data = (document as Record<string, unknown>).tables as Record<string, unknown> | undefined;
+  const tables: ParsedExport['tables'] = {};
+  for (const entry of manifest.tables) {
+    const rows = data?.[entry.table];
+    if (!Array.isArray(rows)) {
+      throw invalid(`${entry.table} is missing`);
+    }
+    const checksum = sha256(rows.map(row => (isRecord(row) ? toJsonLine(row) : '')).join(''));
+    tables[entry.table] = checkRows(entry, rows, checksum);
+  }
+
+  return { manifest, tables };
+}
+
+// Drop the account's rows in the tables being restored, children first
+function deleteOwned(tx: Transaction, userId: string, parsed: ParsedExport, report: ImportReport) {
+  for (const table of [...IMPORT_TABLES].reverse()) {
+    if (!parsed.tables[table]) continue;
+
+    const source = getExportSource(table);
+    report.tables[table].deleted = tx.delete(source.table).where(source.owned(userId)).run().changes;
+  }
+}
+
+// Point a kept row's optional references back at restored rows, where nothing has been set since
+function relink(tx: Transaction, table: ImportTable, id: string, row: ExportRecord, ids: Map<ImportTable, Map<string, string>>) {
+  const source = getExportSource(table);
+  const columns = getTableColumns(source.table);
+
+  for (const reference of REFERENCES[table] ?? []) {
+    const target = row[reference.column];
+    if (reference.required || reference.table === 'questions' || typeof target !== 'string') continue;
+
+    const mapped = ids.get(reference.table)?.get(target);
+    const key = Object.keys(columns).find(candidate => columns[candidate].name === reference.column);
+    if (!mapped || !key) continue;
+
+    tx.update(source.table)
+      .set({ [key]: mapped })
+      .where(and(eq(source.id, id), isNull(columns[key])))
+      .run();
+  }
+}
+
+export class DataImportService {
+  // Read an uploaded export and check its schema version, row counts and checksums
+  static parseExport(bytes: Buffer): ParsedExport {
+    if (bytes.length > MAX_IMPORT_BYTES) {
+      throw invalid('file is too large');
+    }
+
+    // Zip local file header signature
+    return bytes.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))
+      ? parseArchive(bytes)
+      : parseDocument(bytes);
+  }
+
+  // Restore an export into the account; a dry run reports the same counts and then rolls back
+  static async importData(userId: string, parsed: ParsedExport, options: ImportOptions): Promise<ImportReport> {
+    const dryRun = options.dryRun === true;
+    const report: ImportReport = {
+      mode: options.mode,
+      dryRun,
+      schemaVersion: parsed.manifest.schemaVersion,
+      exportedAt: parsed.manifest.exportedAt,
+      tables: Object.fromEntries(IMPORT_TABLES.map(table => [table, {
+        incoming: parsed.tables[table]?.length ?? 0,
+        inserted: 0,
+        existing: 0,
+        remapped: 0,
+        skipped: 0,
+        deleted: 0,
+      }])) as ImportReport['tables'],
+    };
+
+    try {
+      db.transaction((tx) => {
+        if (options.mode === 'replace') {
+          deleteOwned(tx, userId, parsed, report);
+        }
+
+        // Old ID -> ID in this account, for every imported row that ends up present
+        const ids = new Map<ImportTable, Map<string, string>>();
+        const knownQuestions = new Map<string, boolean>();
+        const questionExists = (id: string) => {
+          if (!knownQuestions.has(id)) {
+            knownQuestions.set(id, !!tx.select({ id: questions.id }).from(questions).where(eq(questions.id, id)).get());
+          }
+          return knownQuestions.get(id) as boolean;
+        };
+
+        let hasSettings = !!tx.select({ id: userSettings.id }).from(userSettings).where(eq(userSettings.userId, userId)).get();
+        let hasActiveRoadmap = !!tx
+          .select({ id: roadmaps.id })
+          .from(roadmaps)
+          .where(and(eq(roadmaps.userId, userId), eq(roadmaps.status, 'active')))
+          .get();
+        let importedMinutes = 0;
+        // Inserted rows with optional links to rows that had not been read yet, relinked once every table is in
+        const deferred: Array<[table: ImportTable, id: string, row: ExportRecord]> = [];
+
+        for (const table of IMPORT_TABLES) {
+          const source = getExportSource(table);
+          const columns = getExportColumns(table);
+          const hasUserId = columns.some(([, column]) => column === 'user_id');
+          const tableIds = new Map<string, string>();
+          const counts = report.tables[table];
+          ids.set(table, tableIds);
+
+          for (const chunk of chunks(parsed.tables[table] ?? [])) {
+            const chunkIds = chunk.map(row => row.id as string);
+            const existing = new Set(
+              tx.select({ id: source.id }).from(source.table).where(inArray(source.id, chunkIds)).all().map(row => row.id as string)
+            );
+            const owned = new Set(existing.size === 0 ? [] : tx
+              .select({ id: source.id })
+              .from(source.table)
+              .where(and(inArray(source.id, [...existing]), source.owned(userId)))
+              .all()
+              .map(row => row.id as string));
+
+            const remappedIds = new Map(chunkIds
+              .filter(id => existing.has(id) && !owned.has(id))
+              .map(id => [id, accountScopedId(userId, table, id)]));
+            const remappedExisting = new Set(remappedIds.size === 0 ? [] : tx
+              .select({ id: source.id })
+              .from(source.table)
+              .where(inArray(source.id, [...remappedIds.values()]))
+              .all()
+              .map(row => row.id as string));
+
+            const values: Array<Record<string, unknown>> = [];
+            for (const row of chunk) {
+              const oldId = row.id as string;
+              const remappedId = remappedIds.get(oldId);
+              const presentId = owned.has(oldId)
+                ? oldId
+                : remappedId && remappedExisting.has(remappedId) ? remappedId : null;
+              if (presentId) {
+                tableIds.set(oldId, presentId);
+                counts.existing++;
+                relink(tx, table, presentId, row, ids);
+                continue;
+              }
+
+              // An open timer cannot be resumed from an export
+              if (table === 'study_sessions' && (row.status === 'active' || row.status === 'paused')) {
+                counts.skipped++;
+                continue;
+              }
+              if (table === 'user_settings' && hasSettings) {
+                counts.existing++;
+                continue;
+              }
+
+              const record: ExportRecord = { ...row };
+              if (hasUserId) {
+                record.user_id = userId;
+              }
+
+              let resolved = true;
+              let isDeferred = false;
+              for (const reference of REFERENCES[table] ?? []) {
+                const target = row[reference.column];
+                if (typeof target !== 'string') continue;
+
+                const mapped = reference.table === 'questions'
+                  ? (questionExists(target) ? target : null)
+                  : ids.get(reference.table)?.get(target) ?? null;
+                if (mapped === null && reference.required) {
+                  resolved = false;
+                  break;
+                }
+                if (mapped === null && reference.table !== 'questions') isDeferred = true;
+                record[reference.column] = mapped;
+              }
+              if (!resolved) {
+                counts.skipped++;
+                continue;
+              }
+
+              const naturalKey = NATURAL_KEYS[table];
+              if (naturalKey) {
+                const tableColumns = getTableColumns(source.table);
+                const match = naturalKey.map(column => {
+                  const key = columns.find(([, name]) => name === column)?.[0] as string;
+                  return eq(tableColumns[key], record[column]);
+                });
+                if (tx.select({ id: source.id }).from(source.table).where(and(...match)).get()) {
+                  counts.existing++;
+                  continue;
+                }
+              }
+
+              // Keep the account to a single active roadmap
+              if (table === 'roadmaps' && record.status === 'active') {
+                if (hasActiveRoadmap) record.status = 'archived';
+                hasActiveRoadmap = true;
+              }
+
+              // The ID is taken by another account's row, so insert under a new one
+              if (remappedId) {
+                record.id = remappedId;
+                counts.remapped++;
+              }
+              tableIds.set(oldId, record.id as string);
+              if (isDeferred) deferred.push([table, record.id as string, row]);
+
+              if (table === 'study_sessions') importedMinutes += Number(record.duration) || 0;
+              if (table === 'user_settings') hasSettings = true;
+
+              values.push(Object.fromEntries(
+                columns.filter(([, column]) => column in record).map(([key, column]) => [key, record[column]])
+              ));
+              counts.inserted++;
+            }
+
+            if (values.length > 0) {
+              try {
+                tx.insert(source.table).values(values).run();
+              } catch (error) {
+                console.error(`❌ Error importing ${table}:`, error);
+                throw invalid(`${table} rows could not be restored`);
+              }
+            }
+          }
+        }
+
+        for (const [table, id, row] of deferred) {
+          relink(tx, table, id, row, ids);
+        }
+
+        if (report.tables.messages.inserted > 0) {
+          tx.update(conversations)
+            .set({ messageCount: sql`(select count(*) from messages where messages.conversation_id = ${conversations.id})` })
+            .where(eq(conversations.userId, userId))
+            .run();
+        }
+
+        // Inserting sessions already added their hours; a full replace takes the exported total instead
+        const exportedUser = parsed.tables.users?.[0];
+        const exportedHours = options.mode === 'replace' && parsed.tables.study_sessions
+          ? Number(exportedUser?.total_study_hours ?? importedMinutes / 60) || 0
+          : undefined;
+        tx.update(users)
+          .set({
+            totalStudyHours: exportedHours,
+            bestStreak: sql`max(${users.bestStreak}, ${Number(exportedUser?.best_streak) || 0})`,
+            updatedAt: sql`(datetime('now'))`,
+          })
+          .where(eq(users.id, userId))
+          .run();
+
+        if (dryRun) {
+          tx.rollback();
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) {
+        if (error instanceof Error && error.message.startsWith('Invalid export')) throw error;
+        console.error('❌ Error importing data:', error);
+        throw new Error('Failed to import data');
+      }
+    }
+
+    if (!dryRun) {
+      await ProgressService.rebuildUserProgress(userId);
+      await StreakService.refreshStreak(userId);
+      console.log(`✅ Data imported: ${userId} (${options.mode})`);
+    }
+    return report;
+  }
+}
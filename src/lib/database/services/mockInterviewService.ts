@@ -0,0 +1,241 @@
+import { eq, and, desc, isNotNull } from 'drizzle-orm';
+import { db } from '../config';
+import {
+  mockInterviews,
+  questions,
+  studySessions,
+  type MockInterview,
+  type Message,
+  type Question,
+  type User,
+} from '../schema';
+import { safeJsonParse } from '../utils';
+import { ChatService } from './chatService';
+import { QuestionService } from './questionService';
+import { interviewTypes, type InterviewTypeKey } from '@/data/onboarding';
+import {
+  MOCK_INTERVIEW_PHASES,
+  PROBLEM_CATEGORY,
+  buildOpeningMessage,
+  buildPhasePlan,
+  buildTransitionMessage,
+  scoreScorecard,
+  type MockInterviewPhase,
+  type PhaseRecord,
+  type Scorecard,
+} from '@/lib/interview/mock';
+
+/**
+ * Close the running phase and, if given, start the next one
+ */
+function switchPhase(phases: PhaseRecord[], next: MockInterviewPhase | null, at: string): PhaseRecord[] {
+  return phases.map(record => {
+    if (record.startedAt && !record.endedAt) return { ...record, endedAt: at };
+    if (next && record.phase === next) return { ...record, startedAt: at };
+    return record;
+  });
+}
+
+export class MockInterviewService {
+  // Start an interview: pick a problem, open the backing conversation and post the interviewer's greeting
+  static async startInterview(user: User, interviewType: InterviewTypeKey): Promise<{
+    interview: MockInterview;
+    question: Question | null;
+    openingMessage: Message;
+  }> {
+    try {
+      const previous = await db
+        .select({ questionId: mockInterviews.questionId })
+        .from(mockInterviews)
+        .where(and(eq(mockInterviews.userId, user.id), isNotNull(mockInterviews.questionId)));
+
+      const question = await QuestionService.pickRandomQuestion({
+        category: PROBLEM_CATEGORY[interviewType],
+        difficulty: user.difficultyPreference || undefined,
+        excludeIds: previous.map(row => row.questionId).filter((id): id is string => !!id),
+      });
+
+      const label = interviewTypes.find(type => type.key === interviewType)?.label || interviewType;
+      const conversation = await ChatService.createConversation({
+        userId: user.id,
+        title: `Mock Interview: ${label}`,
+        context: 'mock_interview',
+      });
+
+      const startedAt = new Date().toISOString();
+      const phases = buildPhasePlan(interviewType, startedAt);
+
+      const [interview] = await db
+        .insert(mockInterviews)
+        .values({
+          userId: user.id,
+          conversationId: conversation.id,
+          questionId: question?.id || null,
+          interviewType,
+          currentPhase: MOCK_INTERVIEW_PHASES[0],
+          phases: JSON.stringify(phases),
+          startedAt,
+        })
+        .returning();
+
+      const openingMessage = await ChatService.addMessage({
+        conversationId: conversation.id,
+        role: 'assistant',
+        content: buildOpeningMessage(user.name, label, phases),
+      });
+
+      console.log(`✅ Mock interview started: ${interview.id}`);
+      return { interview, question, openingMessage };
+    } catch (error) {
+      console.error('❌ Error starting mock interview:', error);
+      throw new Error('Failed to start mock interview');
+    }
+  }
+
+  // Get an interview by ID
+  static async getInterview(interviewId: string): Promise<MockInterview | null> {
+    const [interview] = await db
+      .select()
+      .from(mockInterviews)
+      .where(eq(mockInterviews.id, interviewId))
+      .limit(1);
+
+    return interview || null;
+  }
+
+  // Get the interview running in a conversation
+  static async getInterviewByConversation(conversationId: string): Promise<MockInterview | null> {
+    const [interview] = await db
+      .select()
+      .from(mockInterviews)
+      .where(eq(mockInterviews.conversationId, conversationId))
+      .limit(1);
+
+    return interview || null;
+  }
+
+  // Get the interview's problem, if one was picked
+  static async getInterviewQuestion(interview: MockInterview): Promise<Question | null> {
+    if (!interview.questionId) return null;
+
+    const [question] = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.id, interview.questionId))
+      .limit(1);
+
+    return question || null;
+  }
+
+  // List a user's interviews, newest first
+  static async getUserInterviews(userId: string, limit: number = 20): Promise<MockInterview[]> {
+    try {
+      return await db
+        .select()
+        .from(mockInterviews)
+        .where(eq(mockInterviews.userId, userId))
+        .orderBy(desc(mockInterviews.startedAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('❌ Error fetching mock interviews:', error);
+      return [];
+    }
+  }
+
+  // Move to the next phase and post the interviewer's transition message
+  static async advancePhase(interview: MockInterview): Promise<{ interview: MockInterview; message: Message | null }> {
+    const index = MOCK_INTERVIEW_PHASES.indexOf(interview.currentPhase as MockInterviewPhase);
+    const next = MOCK_INTERVIEW_PHASES[index + 1];
+    if (!next) {
+      throw new Error('Interview is already in its last phase');
+    }
+
+    const now = new Date().toISOString();
+    const phases = switchPhase(safeJsonParse<PhaseRecord[]>(interview.phases, []), next, now);
+
+    const [updated] = await db
+      .update(mockInterviews)
+      .set({ currentPhase: next, phases: JSON.stringify(phases) })
+      .where(eq(mockInterviews.id, interview.id))
+      .returning();
+
+    const content = buildTransitionMessage(next, await MockInterviewService.getInterviewQuestion(interview));
+    const message = content && interview.conversationId
+      ? await ChatService.addMessage({ conversationId: interview.conversationId, role: 'assistant', content })
+      : null;
+
+    return { interview: updated, message };
+  }
+
+  // Finish an interview with its scorecard and log it as a study session
+  static async completeInterview(interview: MockInterview, scorecard: Scorecard): Promise<MockInterview> {
+    try {
+      const question = await MockInterviewService.getInterviewQuestion(interview);
+      const completedAt = new Date().toISOString();
+      const overallScore = scoreScorecard(scorecard);
+      const minutes = Math.round((new Date(completedAt).getTime() - new Date(interview.startedAt).getTime()) / 60_000);
+      const label = interviewTypes.find(type => type.key === interview.interviewType)?.label || interview.interviewType;
+
+      return db.transaction((tx) => {
+        const studySession = tx
+          .insert(studySessions)
+          .values({
+            userId: interview.userId,
+            sessionType: 'mock_interview',
+            topic: question ? `${label}: ${question.title}` : label,
+            duration: Math.max(1, minutes),
+            questionsAttempted: 1,
+            questionsCompleted: 1,
+            difficultyLevel: question?.difficulty || null,
+            score: overallScore,
+            notes: scorecard.summary || null,
+            startedAt: interview.startedAt,
+            completedAt,
+          })
+          .returning()
+          .get();
+
+        // Grading takes a while, so another request may have completed the interview meanwhile
+        const updated = tx
+          .update(mockInterviews)
+          .set({
+            status: 'completed',
+            phases: JSON.stringify(switchPhase(safeJsonParse<PhaseRecord[]>(interview.phases, []), null, completedAt)),
+            scorecard: JSON.stringify(scorecard),
+            overallScore,
+            studySessionId: studySession.id,
+            completedAt,
+          })
+          .where(and(eq(mockInterviews.id, interview.id), eq(mockInterviews.status, 'in_progress')))
+          .returning()
+          .get();
+
+        if (!updated) {
+          throw new Error('Mock interview has ended');
+        }
+
+        return updated;
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Mock interview has ended') throw error;
+      console.error('❌ Error completing mock interview:', error);
+      throw new Error('Failed to complete mock interview');
+    }
+  }
+
+  // End an interview early without a score
+  static async abandonInterview(interview: MockInterview): Promise<MockInterview> {
+    const now = new Date().toISOString();
+    const [updated] = await db
+      .update(mockInterviews)
+      .set({
+        status: 'abandoned',
+        phases: JSON.stringify(switchPhase(safeJsonParse<PhaseRecord[]>(interview.phases, []), null, now)),
+        completedAt: now,
+      })
+      .where(eq(mockInterviews.id, interview.id))
+      .returning();
+
+    return updated;
+  }
+}
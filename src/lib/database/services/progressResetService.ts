@@ -0,0 +1,423 @@
+import { eq, and, desc, gt, inArray, isNotNull, isNull, lte, or, sql } from 'drizzle-orm';
+import { db } from '../config';
+import {
+  conversations,
+  messageBookmarks,
+  messageReactions,
+  messages,
+  mockInterviews,
+  progressResets,
+  questionAttempts,
+  questions,
+  reviewCards,
+  roadmapTasks,
+  studySessions,
+  userProgress,
+  users,
+  type Conversation,
+  type Message,
+  type MessageBookmark,
+  type MessageReaction,
+  type MockInterview,
+  type ProgressReset,
+  type QuestionAttempt,
+  type ReviewCard,
+  type StudySession,
+} from '../schema';
+import { safeJsonParse } from '../utils';
+import { ProgressService, SESSION_TYPES } from './progressService';
+import { StreakService } from './streakService';
+import { RESET_UNDO_HOURS, type ResetCounts, type ResetScope } from '@/lib/progress/reset';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ResetInput {
+  scope: ResetScope;
+  category?: string | null; // required for the category scope
+}
+
+// Everything needed to put a reset back. userProgress is not kept: it is rebuilt from the restored attempts.
+interface ResetSnapshot {
+  conversations: Conversation[];
+  messages: Message[];
+  messageBookmarks?: MessageBookmark[]; // missing from snapshots taken before bookmarks existed
+  messageReactions?: MessageReaction[];
+  studySessions: StudySession[];
+  questionAttempts: QuestionAttempt[];
+  mockInterviews: MockInterview[];
+  reviewCards: ReviewCard[];
+  // Links from rows the reset kept to rows it deleted; the foreign keys set these to null
+  links: {
+    roadmapTasks: Array<{ id: string; studySessionId: string | null }>;
+    mockInterviews: Array<{ id: string; studySessionId: string | null; conversationId: string | null }>;
+    reviewCards: Array<{ id: string; messageId: string | null }>;
+  };
+  studyHours: number; // taken off users.totalStudyHours; older snapshots only count focus-timer sessions
+  bestStreak: number | null; // best streak before the reset cleared it
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const CHUNK_SIZE = 100;
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    result.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return result;
+}
+
+/**
+ * Read the rows a reset will delete, plus the links to them that deleting will clear
+ */
+function collectSnapshot(tx: Transaction, userId: string, input: ResetInput, bestStreak: number): ResetSnapshot {
+  const { scope } = input;
+  const category = scope === 'category' ? input.category || null : null;
+  const coversProgress = scope === 'all' || scope === 'category';
+
+  const sessionRows = scope === 'chat' ? [] : tx
+    .select()
+    .from(studySessions)
+    .where(and(
+      eq(studySessions.userId, userId),
+      category ? eq(studySessions.sessionType, SESSION_TYPES[category] || category) : undefined
+    ))
+    .all();
+
+  const attemptRows = !coversProgress ? [] : tx
+    .select()
+    .from(questionAttempts)
+    .where(and(
+      eq(questionAttempts.userId, userId),
+      category
+        ? inArray(questionAttempts.questionId, tx.select({ id: questions.id }).from(questions).where(eq(questions.category, category)))
+        : undefined
+    ))
+    .all();
+
+  const interviewRows = !coversProgress ? [] : tx
+    .select()
+    .from(mockInterviews)
+    .where(and(eq(mockInterviews.userId, userId), category ? eq(mockInterviews.interviewType, category) : undefined))
+    .all();
+
+  const cardRows = !coversProgress ? [] : tx
+    .select()
+    .from(reviewCards)
+    .where(and(eq(reviewCards.userId, userId), category ? eq(reviewCards.category, category) : undefined))
+    .all();
+
+  const conversationRows = scope !== 'chat' ? [] : tx
+    .select()
+    .from(conversations)
+    .where(eq(conversations.userId, userId))
+    .all();
+
+  const conversationIds = conversationRows.map(row => row.id);
+  const messageRows = conversationIds.length === 0 ? [] : tx
+    .select()
+    .from(messages)
+    .where(inArray(messages.conversationId, conversationIds))
+    .all();
+
+  const sessionIds = sessionRows.map(row => row.id);
+  const messageIds = messageRows.map(row => row.id);
+
+  const bookmarkRows = messageIds.length === 0 ? [] : tx
+    .select()
+    .from(messageBookmarks)
+    .where(inArray(messageBookmarks.messageId, messageIds))
+    .all();
+
+  const reactionRows = messageIds.length === 0 ? [] : tx
+    .select()
+    .from(messageReactions)
+    .where(inArray(messageReactions.messageId, messageIds))
+    .all();
+  const deletedInterviews = new Set(interviewRows.map(row => row.id));
+  const deletedCards = new Set(cardRows.map(row => row.id));
+
+  const taskLinks = sessionIds.length === 0 ? [] : tx
+    .select({ id: roadmapTasks.id, studySessionId: roadmapTasks.studySessionId })
+    .from(roadmapTasks)
+    .where(inArray(roadmapTasks.studySessionId, sessionIds))
+    .all();
+
+  const interviewLinks = sessionIds.length === 0 && conversationIds.length === 0 ? [] : tx
+    .select({ id: mockInterviews.id, studySessionId: mockInterviews.studySessionId, conversationId: mockInterviews.conversationId })
+    .from(mockInterviews)
+    .where(and(
+      eq(mockInterviews.userId, userId),
+      or(inArray(mockInterviews.studySessionId, sessionIds), inArray(mockInterviews.conversationId, conversationIds))
+    ))
+    .all()
+    .filter(link => !deletedInterviews.has(link.id));
+
+  const cardLinks = messageIds.length === 0 ? [] : tx
+    .select({ id: reviewCards.id, messageId: reviewCards.messageId })
+    .from(reviewCards)
+    .where(and(eq(reviewCards.userId, userId), inArray(reviewCards.messageId, messageIds)))
+    .all()
+    .filter(link => !deletedCards.has(link.id));
+
+  // Deleting these takes them off totalStudyHours
+  const completedMinutes = sessionRows
+    .filter(row => row.status === 'completed')
+    .reduce((sum, row) => sum + row.duration, 0);
+
+  return {
+    conversations: conversationRows,
+    messages: messageRows,
+    messageBookmarks: bookmarkRows,
+    messageReactions: reactionRows,
+    studySessions: sessionRows,
+    questionAttempts: attemptRows,
+    mockInterviews: interviewRows,
+    reviewCards: cardRows,
+    links: {
+      roadmapTasks: taskLinks,
+      mockInterviews: interviewLinks,
+      reviewCards: cardLinks,
+    },
+    studyHours: completedMinutes / 60,
+    bestStreak: scope === 'all' || scope === 'sessions' ? bestStreak : null,
+  };
+}
+
+export class ProgressResetService {
+  // Delete a slice of the user's data, keeping a snapshot that can be restored for RESET_UNDO_HOURS
+  static async resetProgress(userId: string, input: ResetInput, now: Date = new Date()): Promise<{
+    reset: ProgressReset;
+    counts: ResetCounts;
+  }> {
+    try {
+      const result = db.transaction((tx) => {
+        const user = tx.select({ bestStreak: users.bestStreak }).from(users).where(eq(users.id, userId)).get();
+        const snapshot = collectSnapshot(tx, userId, input, user?.bestStreak || 0);
+
+        const progressMatch = and(
+          eq(userProgress.userId, userId),
+          input.scope === 'category' && input.category ? eq(userProgress.category, input.category) : undefined
+        );
+        const progressCount = input.scope === 'all' || input.scope === 'category'
+          ? tx.select({ count: sql<number>`count(*)` }).from(userProgress).where(progressMatch).get()?.count || 0
+          : 0;
+        if (progressCount > 0) {
+          tx.delete(userProgress).where(progressMatch).run();
+        }
+
+        for (const ids of chunks(snapshot.reviewCards.map(row => row.id))) {
+          tx.delete(reviewCards).where(inArray(reviewCards.id, ids)).run();
+        }
+        for (const ids of chunks(snapshot.mockInterviews.map(row => row.id))) {
+          tx.delete(mockInterviews).where(inArray(mockInterviews.id, ids)).run();
+        }
+        for (const ids of chunks(snapshot.questionAttempts.map(row => row.id))) {
+          tx.delete(questionAttempts).where(inArray(questionAttempts.id, ids)).run();
+        }
+        for (const ids of chunks(snapshot.studySessions.map(row => row.id))) {
+          tx.delete(studySessions).where(inArray(studySessions.id, ids)).run();
+        }
+        // Messages, and their bookmarks and reactions, go with their conversations
+        for (const ids of chunks(snapshot.conversations.map(row => row.id))) {
+          tx.delete(conversations).where(inArray(conversations.id, ids)).run();
+        }
+
+        tx.update(users)
+          .set({
+            ...(snapshot.bestStreak !== null && { bestStreak: 0 }),
+            updatedAt: sql`(datetime('now'))`,
+          })
+          .where(eq(users.id, userId))
+          .run();
+
+        // Snapshots are only kept while they can still be used
+        tx.update(progressResets)
+          .set({ snapshot: null })
+          .where(and(eq(progressResets.userId, userId), lte(progressResets.expiresAt, now.toISOString()), isNotNull(progressResets.snapshot)))
+          .run();
+
+        const counts: ResetCounts = {
+          progress: progressCount,
+          attempts: snapshot.questionAttempts.length,
+          studySessions: snapshot.studySessions.length,
+          reviewCards: snapshot.reviewCards.length,
+          mockInterviews: snapshot.mockInterviews.length,
+          conversations: snapshot.conversations.length,
+          messages: snapshot.messages.length,
+        };
+
+        const reset = tx
+          .insert(progressResets)
+          .values({
+            userId,
+            scope: input.scope,
+            category: input.scope === 'category' ? input.category || null : null,
+            counts: JSON.stringify(counts),
+            snapshot: JSON.stringify(snapshot),
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + RESET_UNDO_HOURS * HOUR_MS).toISOString(),
+          })
+          .returning()
+          .get();
+
+        return { reset, counts };
+      });
+
+      await StreakService.refreshStreak(userId, now);
+
+      console.log(`✅ Progress reset: ${result.reset.id} (${input.scope})`);
+      return result;
+    } catch (error) {
+      console.error('❌ Error resetting progress:', error);
+      throw new Error('Failed to reset progress');
+    }
+  }
+
+  // Get a reset by ID
+  static async getReset(resetId: string): Promise<ProgressReset | null> {
+    const [reset] = await db
+      .select()
+      .from(progressResets)
+      .where(eq(progressResets.id, resetId))
+      .limit(1);
+
+    return reset || null;
+  }
+
+  // Resets the user can still undo, newest first
+  static async getUndoableResets(userId: string, now: Date = new Date()): Promise<ProgressReset[]> {
+    return db
+      .select()
+      .from(progressResets)
+      .where(and(
+        eq(progressResets.userId, userId),
+        isNull(progressResets.undoneAt),
+        gt(progressResets.expiresAt, now.toISOString())
+      ))
+      .orderBy(desc(progressResets.createdAt));
+  }
+
+  // Put back everything a reset deleted and relink the rows that pointed at it
+  static async undoReset(reset: ProgressReset, now: Date = new Date()): Promise<ResetCounts> {
+    if (reset.undoneAt) {
+      throw new Error('Reset has already been undone');
+    }
+
+    if (!reset.snapshot || reset.expiresAt <= now.toISOString()) {
+      throw new Error('Undo window has expired');
+    }
+
+    db.transaction((tx) => {
+      // Read the snapshot from the stored row rather than the caller's copy, which
+      // may predate another undo or a purge
+      const current = tx
+        .select({ snapshot: progressResets.snapshot })
+        .from(progressResets)
+        .where(and(eq(progressResets.id, reset.id), isNull(progressResets.undoneAt)))
+        .get();
+      if (!current) {
+        throw new Error('Reset has already been undone');
+      }
+
+      const snapshot = safeJsonParse<ResetSnapshot | null>(current.snapshot, null);
+      if (!snapshot) {
+        throw new Error('Undo window has expired');
+      }
+      const studyHours = tx.select({ total: users.totalStudyHours }).from(users).where(eq(users.id, reset.userId)).get()?.total || 0;
+
+      const claimed = tx
+        .update(progressResets)
+        .set({ undoneAt: now.toISOString(), snapshot: null })
+        .where(and(eq(progressResets.id, reset.id), isNull(progressResets.undoneAt)))
+        .returning({ id: progressResets.id })
+        .get();
+      if (!claimed) {
+        throw new Error('Reset has already been undone');
+      }
+
+      // Parents before children so foreign keys resolve
+      for (const rows of chunks(snapshot.conversations)) {
+        tx.insert(conversations).values(rows).onConflictDoNothing().run();
+      }
+      for (const rows of chunks(snapshot.messages)) {
+        tx.insert(messages).values(rows).onConflictDoNothing().run();
+      }
+      for (const rows of chunks(snapshot.messageBookmarks ?? [])) {
+        tx.insert(messageBookmarks).values(rows).onConflictDoNothing().run();
+      }
+      for (const rows of chunks(snapshot.messageReactions ?? [])) {
+        tx.insert(messageReactions).values(rows).onConflictDoNothing().run();
+      }
+      for (const rows of chunks(snapshot.studySessions)) {
+        tx.insert(studySessions).values(rows).onConflictDoNothing().run();
+      }
+      for (const rows of chunks(snapshot.questionAttempts)) {
+        tx.insert(questionAttempts).values(rows).onConflictDoNothing().run();
+      }
+      for (const rows of chunks(snapshot.mockInterviews)) {
+        tx.insert(mockInterviews).values(rows).onConflictDoNothing().run();
+      }
+      for (const rows of chunks(snapshot.reviewCards)) {
+        tx.insert(reviewCards).values(rows).onConflictDoNothing().run();
+      }
+
+      // Restore links only where nothing new has been set since the reset
+      for (const link of snapshot.links.roadmapTasks) {
+        tx.update(roadmapTasks)
+          .set({ studySessionId: link.studySessionId })
+          .where(and(eq(roadmapTasks.id, link.id), isNull(roadmapTasks.studySessionId)))
+          .run();
+      }
+      for (const link of snapshot.links.mockInterviews) {
+        if (link.studySessionId) {
+          tx.update(mockInterviews)
+            .set({ studySessionId: link.studySessionId })
+            .where(and(eq(mockInterviews.id, link.id), isNull(mockInterviews.studySessionId)))
+            .run();
+        }
+        if (link.conversationId) {
+          tx.update(mockInterviews)
+            .set({ conversationId: link.conversationId })
+            .where(and(eq(mockInterviews.id, link.id), isNull(mockInterviews.conversationId)))
+            .run();
+        }
+      }
+      for (const link of snapshot.links.reviewCards) {
+        tx.update(reviewCards)
+          .set({ messageId: link.messageId })
+          .where(and(eq(reviewCards.id, link.id), isNull(reviewCards.messageId)))
+          .run();
+      }
+
+      tx.update(users)
+        .set({
+          // Restoring the sessions added all of them back; give back exactly what the reset took off
+          totalStudyHours: studyHours + snapshot.studyHours,
+          ...(snapshot.bestStreak !== null && { bestStreak: sql`max(${users.bestStreak}, ${snapshot.bestStreak})` }),
+          updatedAt: sql`(datetime('now'))`,
+        })
+        .where(eq(users.id, reset.userId))
+        .run();
+    });
+
+    if (reset.scope === 'all' || reset.scope === 'category') {
+      await ProgressService.rebuildUserProgress(reset.userId);
+    }
+    await StreakService.refreshStreak(reset.userId, now);
+
+    console.log(`✅ Progress reset undone: ${reset.id}`);
+    return safeJsonParse<ResetCounts>(reset.counts, {} as ResetCounts);
+  }
+
+  // Drop snapshots whose undo window has closed, for every user
+  static async purgeExpiredSnapshots(now: Date = new Date()): Promise<number> {
+    const purged = await db
+      .update(progressResets)
+      .set({ snapshot: null })
+      .where(and(lte(progressResets.expiresAt, now.toISOString()), isNotNull(progressResets.snapshot)))
+      .returning({ id: progressResets.id });
+
+    return purged.length;
+  }
+}
@@ -0,0 +1,395 @@
+import { eq, and, desc, lt, isNull, sql, type SQL } from 'drizzle-orm';
+import { db } from '../config';
+import {
+  questions,
+  questionAttempts,
+  studySessions,
+  userProgress,
+  type Question,
+  type QuestionAttempt,
+  type StudySession,
+  type UserProgress,
+} from '../schema';
+import { queueQuestionReview } from './reviewService';
+
+export type AttemptVerdict =
+  | 'accepted'
+  | 'wrong_answer'
+  | 'time_limit_exceeded'
+  | 'runtime_error'
+  | 'compile_error'
+  | 'attempted';
+
+export const ATTEMPT_VERDICTS: AttemptVerdict[] = [
+  'accepted',
+  'wrong_answer',
+  'time_limit_exceeded',
+  'runtime_error',
+  'compile_error',
+  'attempted',
+];
+
+// Verdicts that put the question in the user's review queue
+export const FAILED_VERDICTS: AttemptVerdict[] = [
+  'wrong_answer',
+  'time_limit_exceeded',
+  'runtime_error',
+  'compile_error',
+];
+
+export interface RecordAttemptInput {
+  userId: string;
+  questionId: string;
+  verdict: AttemptVerdict;
+  timeSpent: number; // seconds
+  language?: string | null;
+  code?: string | null;
+}
+
+export interface JudgedSubmission {
+  passed: number;
+  total: number;
+  score: number; // percentage of test cases passed
+}
+
+export interface AttemptFilters {
+  questionId?: string;
+  category?: string;
+  verdict?: string;
+  before?: string; // ISO timestamp cursor
+  limit?: number;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WeeklyProgress {
+  week: string; // M/D of the first day
+  sessions: number;
+  hours: number;
+  questions: number;
+}
+
+// studySessions.sessionType for each question category
+export const SESSION_TYPES: Record<string, string> = {
+  dsa: 'dsa',
+  system: 'system_design',
+  behavioral: 'behavioral',
+};
+
+/**
+ * Current and best run of consecutive UTC days, given distinct days newest first
+ */
+function computeStreaks(days: string[]): { current: number; best: number } {
+  if (days.length === 0) return { current: 0, best: 0 };
+
+  let best = 1;
+  let run = 1;
+  let current = 0;
+
+  const today = new Date().toISOString().split('T')[0];
+  const yesterday = new Date(Date.now() - DAY_MS).toISOString().split('T')[0];
+  const startsRecently = days[0] === today || days[0] === yesterday;
+
+  for (let i = 1; i <= days.length; i++) {
+    const consecutive = i < days.length
+      && new Date(days[i - 1]).getTime() - new Date(days[i]).getTime() === DAY_MS;
+
+    if (consecutive) {
+      run++;
+    } else {
+      if (current === 0 && startsRecently) current = run;
+      best = Math.max(best, run);
+      run = 1;
+    }
+  }
+
+  return { current, best };
+}
+
+/**
+ * Rebuild one (category, subcategory) progress row from attempts, then refresh
+ * the category's streak on all of its rows
+ */
+function recomputeProgress(tx: Transaction, userId: string, category: string, subcategory: string | null): void {
+  const subcategoryMatch = subcategory === null ? isNull(questions.subcategory) : eq(questions.subcategory, subcategory);
+  const solvedDistinct = (difficulty?: string) => difficulty
+    ? sql<number>`count(distinct case when ${questionAttempts.verdict} = 'accepted' and ${questions.difficulty} = ${difficulty} then ${questionAttempts.questionId} end)`
+    : sql<number>`count(distinct case when ${questionAttempts.verdict} = 'accepted' then ${questionAttempts.questionId} end)`;
+
+  const stats = tx
+    .select({
+      attempts: sql<number>`count(*)`,
+      attempted: sql<number>`count(distinct ${questionAttempts.questionId})`,
+      solved: solvedDistinct(),
+      easy: solvedDistinct('easy'),
+      medium: solvedDistinct('medium'),
+      hard: solvedDistinct('hard'),
+      averageSeconds: sql<number | null>`avg(${questionAttempts.timeSpent})`,
+      lastPracticed: sql<string | null>`max(${questionAttempts.createdAt})`,
+    })
+    .from(questionAttempts)
+    .innerJoin(questions, eq(questions.id, questionAttempts.questionId))
+    .where(and(eq(questionAttempts.userId, userId), eq(questions.category, category), subcategoryMatch))
+    .get();
+
+  const rowMatch = and(
+    eq(userProgress.userId, userId),
+    eq(userProgress.category, category),
+    subcategory === null ? isNull(userProgress.subcategory) : eq(userProgress.subcategory, subcategory)
+  );
+
+  if (!stats || stats.attempts === 0) {
+    tx.delete(userProgress).where(rowMatch).run();
+  } else {
+    const values = {
+      totalQuestions: stats.attempts,
+      completedQuestions: stats.attempted,
+      correctAnswers: stats.solved,
+      averageTime: stats.averageSeconds === null ? null : Math.round((stats.averageSeconds / 60) * 10) / 10,
+      easyCompleted: stats.easy,
+      mediumCompleted: stats.medium,
+      hardCompleted: stats.hard,
+      lastPracticed: stats.lastPracticed,
+    };
+
+    const existing = tx.select({ id: userProgress.id }).from(userProgress).where(rowMatch).get();
+    if (existing) {
+      tx.update(userProgress)
+        .set({ ...values, updatedAt: sql`(datetime('now'))` })
+        .where(eq(userProgress.id, existing.id))
+        .run();
+    } else {
+      tx.insert(userProgress).values({ userId, category, subcategory, ...values }).run();
+    }
+  }
+
+  // Streaks are tracked per category, across all of its subcategories
+  const days = tx
+    .selectDistinct({ day: sql<string>`date(${questionAttempts.createdAt})` })
+    .from(questionAttempts)
+    .innerJoin(questions, eq(questions.id, questionAttempts.questionId))
+    .where(and(eq(questionAttempts.userId, userId), eq(questions.category, category)))
+    .orderBy(desc(sql`date(${questionAttempts.createdAt})`))
+    .all()
+    .map(row => row.day);
+
+  const streaks = computeStreaks(days);
+  tx.update(userProgress)
+    .set({ currentStreak: streaks.current, bestStreak: streaks.best })
+    .where(and(eq(userProgress.userId, userId), eq(userProgress.category, category)))
+    .run();
+}
+
+/**
+ * Insert an attempt and recompute the progress row it belongs to
+ */
+function insertAttempt(tx: Transaction, input: RecordAttemptInput): {
+  attempt: QuestionAttempt;
+  question: Question;
+  progress: UserProgress | null;
+} {
+  const question = tx.select().from(questions).where(eq(questions.id, input.questionId)).get();
+  if (!question) {
+    throw new Error('Question not found');
+  }
+
+  const attempt = tx
+    .insert(questionAttempts)
+    .values({
+      userId: input.userId,
+      questionId: input.questionId,
+      verdict: input.verdict,
+      timeSpent: Math.max(0, Math.round(input.timeSpent)),
+      language: input.language || null,
+      code: input.code || null,
+      createdAt: new Date().toISOString(),
+    })
+    .returning()
+    .get();
+
+  recomputeProgress(tx, input.userId, question.category, question.subcategory);
+
+  if (FAILED_VERDICTS.includes(input.verdict)) {
+    queueQuestionReview(tx, input.userId, question);
+  }
+
+  const progress = tx
+    .select()
+    .from(userProgress)
+    .where(
+      and(
+        eq(userProgress.userId, input.userId),
+        eq(userProgress.category, question.category),
+        question.subcategory === null
+          ? isNull(userProgress.subcategory)
+          : eq(userProgress.subcategory, question.subcategory)
+      )
+    )
+    .get();
+
+  return { attempt, question, progress: progress || null };
+}
+
+export class ProgressService {
+  // Record an attempt and update the derived progress in the same transaction
+  static async recordAttempt(input: RecordAttemptInput): Promise<{
+    attempt: QuestionAttempt;
+    question: Question;
+    progress: UserProgress | null;
+  }> {
+    try {
+      return db.transaction(tx => insertAttempt(tx, input));
+    } catch (error) {
+      console.error('❌ Error recording attempt:', error);
+      throw error instanceof Error && error.message === 'Question not found'
+        ? error
+        : new Error('Failed to record attempt');
+    }
+  }
+
+  // Record a judged submission as an attempt plus a study session scored by its pass rate
+  static async recordSubmission(input: RecordAttemptInput, judged: JudgedSubmission): Promise<{
+    attempt: QuestionAttempt;
+    question: Question;
+    progress: UserProgress | null;
+    studySession: StudySession;
+  }> {
+    try {
+      return db.transaction((tx) => {
+        const recorded = insertAttempt(tx, input);
+        const completedAt = recorded.attempt.createdAt;
+        const timeSpent = recorded.attempt.timeSpent;
+
+        const studySession = tx
+          .insert(studySessions)
+          .values({
+            userId: input.userId,
+            sessionType: SESSION_TYPES[recorded.question.category] || recorded.question.category,
+            topic: recorded.question.subcategory || recorded.question.title,
+            duration: Math.max(1, Math.round(timeSpent / 60)),
+            questionsAttempted: 1,
+            questionsCompleted: input.verdict === 'accepted' ? 1 : 0,
+            difficultyLevel: recorded.question.difficulty,
+            score: judged.score,
+            notes: `${recorded.question.title}: ${input.verdict} (${judged.passed}/${judged.total} tests passed)`,
+            startedAt: new Date(new Date(completedAt).getTime() - timeSpent * 1000).toISOString(),
+            completedAt,
+          })
+          .returning()
+          .get();
+
+        return { ...recorded, studySession };
+      });
+    } catch (error) {
+      console.error('❌ Error recording submission:', error);
+      throw error instanceof Error && error.message === 'Question not found'
+        ? error
+        : new Error('Failed to record submission');
+    }
+  }
+
+  // List a user's attempts, newest first
+  static async getAttempts(userId: string, filters: AttemptFilters = {}): Promise<Array<QuestionAttempt & {
+    questionTitle: string;
+    category: string;
+    difficulty: string;
+  }>> {
+    try {
+      const conditions: SQL[] = [eq(questionAttempts.userId, userId)];
+      if (filters.questionId) conditions.push(eq(questionAttempts.questionId, filters.questionId));
+      if (filters.category) conditions.push(eq(questions.category, filters.category));
+      if (filters.verdict) conditions.push(eq(questionAttempts.verdict, filters.verdict));
+      if (filters.before) conditions.push(lt(questionAttempts.createdAt, filters.before));
+
+      const rows = await db
+        .select({
+          attempt: questionAttempts,
+          questionTitle: questions.title,
+          category: questions.category,
+          difficulty: questions.difficulty,
+        })
+        .from(questionAttempts)
+        .innerJoin(questions, eq(questions.id, questionAttempts.questionId))
+        .where(and(...conditions))
+        .orderBy(desc(questionAttempts.createdAt))
+        .limit(filters.limit ?? 20);
+
+      return rows.map(row => ({
+        ...row.attempt,
+        questionTitle: row.questionTitle,
+        category: row.category,
+        difficulty: row.difficulty,
+      }));
+    } catch (error) {
+      console.error('❌ Error fetching attempts:', error);
+      return [];
+    }
+  }
+
+  // Rebuild every progress row for a user from their attempts
+  static async rebuildUserProgress(userId: string): Promise<UserProgress[]> {
+    try {
+      return db.transaction((tx) => {
+        tx.delete(userProgress).where(eq(userProgress.userId, userId)).run();
+
+        const areas = tx
+          .selectDistinct({ category: questions.category, subcategory: questions.subcategory })
+          .from(questionAttempts)
+          .innerJoin(questions, eq(questions.id, questionAttempts.questionId))
+          .where(eq(questionAttempts.userId, userId))
+          .all();
+
+        for (const area of areas) {
+          recomputeProgress(tx, userId, area.category, area.subcategory);
+        }
+
+        return tx.select().from(userProgress).where(eq(userProgress.userId, userId)).all();
+      });
+    } catch (error) {
+      console.error('❌ Error rebuilding progress:', error);
+      throw new Error('Failed to rebuild progress');
+    }
+  }
+
+  // Study totals for each of the last `weeks` seven-day windows, oldest first
+  static async getWeeklyProgress(userId: string, weeks = 4): Promise<WeeklyProgress[]> {
+    const result: WeeklyProgress[] = [];
+    const now = new Date();
+
+    for (let i = 0; i < weeks; i++) {
+      const weekStart = new Date(now);
+      weekStart.setDate(now.getDate() - (7 * (i + 1)));
+      weekStart.setHours(0, 0, 0, 0);
+
+      const weekEnd = new Date(weekStart);
+      weekEnd.setDate(weekStart.getDate() + 7);
+
+      const [totals] = await db
+        .select({
+          count: sql<number>`count(*)`,
+          totalDuration: sql<number>`sum(${studySessions.duration})`,
+          totalQuestions: sql<number>`sum(${studySessions.questionsCompleted})`,
+        })
+        .from(studySessions)
+        .where(
+          and(
+            eq(studySessions.userId, userId),
+            eq(studySessions.status, 'completed'),
+            sql`date(${studySessions.createdAt}) >= date(${weekStart.toISOString()})`,
+            sql`date(${studySessions.createdAt}) < date(${weekEnd.toISOString()})`
+          )
+        );
+
+      result.unshift({
+        week: `${weekStart.getMonth() + 1}/${weekStart.getDate()}`,
+        sessions: totals?.count || 0,
+        hours: Math.round((totals?.totalDuration || 0) / 60 * 10) / 10,
+        questions: totals?.totalQuestions || 0,
+      });
+    }
+
+    return result;
+  }
+}
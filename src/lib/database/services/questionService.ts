@@ -0,0 +1,331 @@
+import { eq, and, or, inArray, desc, asc, sql, type SQL } from 'drizzle-orm';
+import { db } from '../config';
+import {
+  questions,
+  questionCompanies,
+  questionTestCases,
+  type Question,
+  type NewQuestion,
+  type QuestionCompany,
+  type QuestionTestCase,
+} from '../schema';
+
+export type QuestionWithCompanies = Question & { companies: QuestionCompany[] };
+
+export type QuestionSort = 'title' | 'difficulty' | 'frequency' | 'newest';
+
+export interface QuestionFilters {
+  category?: string;
+  subcategory?: string;
+  difficulty?: string;
+  company?: string;
+  tag?: string;
+  search?: string;
+  sort?: QuestionSort;
+  limit?: number;
+  offset?: number;
+}
+
+export interface CompanyInput {
+  company: string;
+  frequency: number;
+  lastAskedAt?: string;
+}
+
+export interface TestCaseInput {
+  input: string;
+  expectedOutput: string;
+  isHidden: boolean;
+}
+
+const difficultyRank = sql`case ${questions.difficulty} when 'easy' then 1 when 'medium' then 2 when 'hard' then 3 else 4 end`;
+
+function buildConditions(filters: QuestionFilters): SQL[] {
+  const conditions: SQL[] = [eq(questions.isActive, true)];
+
+  if (filters.category) conditions.push(eq(questions.category, filters.category));
+  if (filters.subcategory) conditions.push(eq(questions.subcategory, filters.subcategory.toLowerCase()));
+  if (filters.difficulty) conditions.push(eq(questions.difficulty, filters.difficulty));
+
+  if (filters.company) {
+    conditions.push(sql`exists (
+      select 1 from ${questionCompanies}
+      where ${questionCompanies.questionId} = ${questions.id}
+        and lower(${questionCompanies.company}) = lower(${filters.company})
+    )`);
+  }
+
+  if (filters.tag) {
+    conditions.push(sql`exists (
+      select 1 from json_each(${questions.tags}) where lower(json_each.value) = lower(${filters.tag})
+    )`);
+  }
+
+  if (filters.search) {
+    const pattern = `%${filters.search.replace(/[%_]/g, match => `\\${match}`)}%`;
+    const search = or(
+      sql`${questions.title} like ${pattern} escape '\\'`,
+      sql`${questions.prompt} like ${pattern} escape '\\'`
+    );
+    if (search) conditions.push(search);
+  }
+
+  return conditions;
+}
+
+export class QuestionService {
+  // List questions matching the filters, with the total match count for pagination
+  static async listQuestions(filters: QuestionFilters = {}): Promise<{
+    questions: QuestionWithCompanies[];
+    total: number;
+  }> {
+    try {
+      const where = and(...buildConditions(filters));
+
+      // Frequency counts reports from the filtered company when one is given
+      const frequency = filters.company
+        ? sql`(select coalesce(sum(${questionCompanies.frequency}), 0) from ${questionCompanies}
+            where ${questionCompanies.questionId} = ${questions.id}
+              and lower(${questionCompanies.company}) = lower(${filters.company}))`
+        : sql`(select coalesce(sum(${questionCompanies.frequency}), 0) from ${questionCompanies}
+            where ${questionCompanies.questionId} = ${questions.id})`;
+
+      const orderBy = {
+        title: [asc(questions.title)],
+        difficulty: [asc(difficultyRank), asc(questions.title)],
+        frequency: [desc(frequency), asc(questions.title)],
+        newest: [desc(questions.createdAt), desc(sql`rowid`)],
+      }[filters.sort || 'difficulty'];
+
+      const rows = await db
+        .select()
+        .from(questions)
+        .where(where)
+        .orderBy(...orderBy)
+        .limit(filters.limit ?? 20)
+        .offset(filters.offset ?? 0);
+
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(questions)
+        .where(where);
+
+      return {
+        questions: await this.attachCompanies(rows),
+        total: count,
+      };
+    } catch (error) {
+      console.error('❌ Error listing questions:', error);
+      return { questions: [], total: 0 };
+    }
+  }
+
+  // Get a question by ID
+  static async getQuestionById(questionId: string): Promise<QuestionWithCompanies | null> {
+    try {
+      const [question] = await db
+        .select()
+        .from(questions)
+        .where(eq(questions.id, questionId))
+        .limit(1);
+
+      if (!question) return null;
+
+      const [withCompanies] = await this.attachCompanies([question]);
+      return withCompanies;
+    } catch (error) {
+      console.error('❌ Error fetching question:', error);
+      return null;
+    }
+  }
+
+  // Get a question by its slug
+  static async getQuestionBySlug(slug: string): Promise<Question | null> {
+    const [question] = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.slug, slug))
+      .limit(1);
+
+    return question || null;
+  }
+
+  // Create or update a question by slug and replace its company tags and test cases
+  static async upsertQuestion(
+    data: NewQuestion,
+    companies: CompanyInput[] = [],
+    testCases: TestCaseInput[] = []
+  ): Promise<{ question: Question; created: boolean }> {
+    try {
+      return db.transaction((tx) => {
+        const existing = tx
+          .select({ id: questions.id })
+          .from(questions)
+          .where(eq(questions.slug, data.slug))
+          .get();
+
+        const question = existing
+          ? tx
+              .update(questions)
+              .set({ ...data, updatedAt: sql`(datetime('now'))` })
+              .where(eq(questions.id, existing.id))
+              .returning()
+              .get()
+          : tx.insert(questions).values(data).returning().get();
+
+        tx.delete(questionCompanies).where(eq(questionCompanies.questionId, question.id)).run();
+
+        // Merge duplicate company names, summing their frequencies
+        const merged = new Map<string, CompanyInput>();
+        for (const entry of companies) {
+          const key = entry.company.toLowerCase();
+          const previous = merged.get(key);
+          merged.set(key, previous
+            ? { ...previous, frequency: previous.frequency + entry.frequency }
+            : entry);
+        }
+
+        if (merged.size > 0) {
+          tx.insert(questionCompanies)
+            .values([...merged.values()].map(entry => ({
+              questionId: question.id,
+              company: entry.company,
+              frequency: entry.frequency,
+              lastAskedAt: entry.lastAskedAt || null,
+            })))
+            .run();
+        }
+
+        tx.delete(questionTestCases).where(eq(questionTestCases.questionId, question.id)).run();
+        if (testCases.length > 0) {
+          tx.insert(questionTestCases)
+            .values(testCases.map((testCase, position) => ({
+              questionId: question.id,
+              position,
+              input: testCase.input,
+              expectedOutput: testCase.expectedOutput,
+              isHidden: testCase.isHidden,
+            })))
+            .run();
+        }
+
+        return { question, created: !existing };
+      });
+    } catch (error) {
+      console.error('❌ Error saving question:', error);
+      throw new Error('Failed to save question');
+    }
+  }
+
+  // Pick a random active question, preferring the given difficulty and skipping excluded IDs when possible
+  static async pickRandomQuestion(options: {
+    category: string;
+    difficulty?: string;
+    excludeIds?: string[];
+  }): Promise<Question | null> {
+    try {
+      const base = and(eq(questions.isActive, true), eq(questions.category, options.category));
+      const excluded = options.excludeIds?.length
+        ? sql`${questions.id} not in (${sql.join(options.excludeIds.map(id => sql`${id}`), sql`, `)})`
+        : undefined;
+
+      const candidates = [
+        and(base, excluded, options.difficulty ? eq(questions.difficulty, options.difficulty) : undefined),
+        and(base, excluded),
+        base,
+      ];
+
+      for (const where of candidates) {
+        const [question] = await db
+          .select()
+          .from(questions)
+          .where(where)
+          .orderBy(sql`random()`)
+          .limit(1);
+        if (question) return question;
+      }
+
+      return null;
+    } catch (error) {
+      console.error('❌ Error picking question:', error);
+      return null;
+    }
+  }
+
+  // Get a question's judge test cases in run order
+  static async getTestCases(questionId: string, options: { includeHidden?: boolean } = {}): Promise<QuestionTestCase[]> {
+    try {
+      return await db
+        .select()
+        .from(questionTestCases)
+        .where(options.includeHidden
+          ? eq(questionTestCases.questionId, questionId)
+          : and(eq(questionTestCases.questionId, questionId), eq(questionTestCases.isHidden, false)))
+        .orderBy(asc(questionTestCases.position));
+    } catch (error) {
+      console.error('❌ Error fetching test cases:', error);
+      return [];
+    }
+  }
+
+  // Hide a question from listings without losing attempt history
+  static async deactivateQuestion(questionId: string): Promise<boolean> {
+    const result = await db
+      .update(questions)
+      .set({ isActive: false, updatedAt: sql`(datetime('now'))` })
+      .where(eq(questions.id, questionId))
+      .returning({ id: questions.id });
+
+    return result.length > 0;
+  }
+
+  // Distinct values available for filtering, with counts
+  static async getFacets(category?: string): Promise<{
+    subcategories: Array<{ value: string; count: number }>;
+    companies: Array<{ value: string; count: number }>;
+  }> {
+    try {
+      const scope = category
+        ? and(eq(questions.isActive, true), eq(questions.category, category))
+        : eq(questions.isActive, true);
+
+      const subcategories = await db
+        .select({ value: questions.subcategory, count: sql<number>`count(*)` })
+        .from(questions)
+        .where(and(scope, sql`${questions.subcategory} is not null`))
+        .groupBy(questions.subcategory)
+        .orderBy(asc(questions.subcategory));
+
+      const companies = await db
+        .select({ value: questionCompanies.company, count: sql<number>`count(distinct ${questionCompanies.questionId})` })
+        .from(questionCompanies)
+        .innerJoin(questions, eq(questions.id, questionCompanies.questionId))
+        .where(scope)
+        .groupBy(questionCompanies.company)
+        .orderBy(desc(sql`count(distinct ${questionCompanies.questionId})`));
+
+      return {
+        subcategories: subcategories.map(row => ({ value: row.value || '', count: row.count })),
+        companies,
+      };
+    } catch (error) {
+      console.error('❌ Error fetching question facets:', error);
+      return { subcategories: [], companies: [] };
+    }
+  }
+
+  private static async attachCompanies(rows: Question[]): Promise<QuestionWithCompanies[]> {
+    if (rows.length === 0) return [];
+
+    const companyRows = await db
+      .select()
+      .from(questionCompanies)
+      .where(inArray(questionCompanies.questionId, rows.map(row => row.id)))
+      .orderBy(desc(questionCompanies.frequency));
+
+    return rows.map(row => ({
+      ...row,
+      companies: companyRows.filter(company => company.questionId === row.id),
+    }));
+  }
+}
@@ -0,0 +1,190 @@
+import { eq, and, inArray, notInArray, sql } from 'drizzle-orm';
+import { db } from '../config';
+import { conversations, messages, retentionPurges, studySessions, userSettings, users } from '../schema';
+import { ProgressResetService } from './progressResetService';
+import { StreakService } from './streakService';
+import { DEFAULT_DATA_RETENTION, getRetentionCutoff, isDataRetention, type DataRetention } from '@/lib/privacy/retention';
+
+export interface PurgeCounts {
+  conversations: number;
+  messages: number; // including those in purged conversations
+  studySessions: number;
+}
+
+export interface UserPurge extends PurgeCounts {
+  userId: string;
+  retention: DataRetention;
+  cutoff: string;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  usersChecked: number;
+  purges: UserPurge[]; // only users with something to delete
+  totals: PurgeCounts;
+  expiredSnapshots: number;
+}
+
+export interface RetentionOptions {
+  dryRun?: boolean;
+  now?: Date;
+}
+
+const CHUNK_SIZE = 100;
+
+function chunks<T>(rows: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+    result.push(rows.slice(i, i + CHUNK_SIZE));
+  }
+  return result;
+}
+
+// Timestamps are a mix of ISO strings and SQLite datetime('now') values, so compare them through datetime()
+const before = (value: unknown, cutoff: string) => sql`datetime(${value}) < datetime(${cutoff})`;
+
+export class RetentionService {
+  // Each user's retention setting; users without settings get the default window
+  static async getRetentionPolicies(): Promise<Array<{ userId: string; retention: DataRetention }>> {
+    const rows = await db
+      .select({ userId: users.id, retention: userSettings.dataRetention })
+      .from(users)
+      .leftJoin(userSettings, eq(userSettings.userId, users.id));
+
+    const policies = new Map<string, DataRetention>();
+    for (const row of rows) {
+      if (!policies.has(row.userId)) {
+        policies.set(row.userId, isDataRetention(row.retention) ? row.retention : DEFAULT_DATA_RETENTION);
+      }
+    }
+    return [...policies].map(([userId, retention]) => ({ userId, retention }));
+  }
+
+  // Delete one user's conversations, messages and completed study sessions last active before the cutoff
+  static async purgeUser(userId: string, retention: DataRetention, cutoff: Date, dryRun = false, now: Date = new Date()): Promise<UserPurge> {
+    const cutoffISO = cutoff.toISOString();
+
+    const purge = db.transaction((tx) => {
+      const isOld = and(
+        eq(conversations.userId, userId),
+        before(sql`coalesce(${conversations.lastMessageAt}, ${conversations.updatedAt}, ${conversations.createdAt})`, cutoffISO)
+      );
+      const oldConversationIds = tx.select({ id: conversations.id }).from(conversations).where(isOld);
+
+      const oldConversations = oldConversationIds.all().map(row => row.id);
+      const messagesInOld = tx
+        .select({ count: sql<number>`count(*)` })
+        .from(messages)
+        .where(inArray(messages.conversationId, oldConversationIds))
+        .get()?.count ?? 0;
+
+      // Old messages in conversations that are still in use
+      const oldMessages = tx
+        .select({ id: messages.id, conversationId: messages.conversationId })
+        .from(messages)
+        .where(and(
+          inArray(messages.conversationId, tx.select({ id: conversations.id }).from(conversations).where(eq(conversations.userId, userId))),
+          notInArray(messages.conversationId, oldConversationIds),
+          before(messages.createdAt, cutoffISO)
+        ))
+        .all();
+
+      // Sessions still running are left alone
+      const oldSessions = tx
+        .select({ id: studySessions.id })
+        .from(studySessions)
+        .where(and(
+          eq(studySessions.userId, userId),
+          eq(studySessions.status, 'completed'),
+          before(sql`coalesce(${studySessions.completedAt}, ${studySessions.startedAt})`, cutoffISO)
+        ))
+        .all()
+        .map(row => row.id);
+
+      const result: UserPurge = {
+        userId,
+        retention,
+        cutoff: cutoffISO,
+        conversations: oldConversations.length,
+        messages: messagesInOld + oldMessages.length,
+        studySessions: oldSessions.length,
+      };
+      if (dryRun || (result.conversations === 0 && result.messages === 0 && result.studySessions === 0)) {
+        return result;
+      }
+
+      for (const ids of chunks(oldConversations)) {
+        tx.delete(conversations).where(inArray(conversations.id, ids)).run();
+      }
+      for (const ids of chunks(oldMessages.map(message => message.id))) {
+        tx.delete(messages).where(inArray(messages.id, ids)).run();
+      }
+      for (const ids of chunks([...new Set(oldMessages.map(message => message.conversationId))])) {
+        tx.update(conversations)
+          .set({ messageCount: sql`(select count(*) from messages where messages.conversation_id = ${conversations.id})` })
+          .where(inArray(conversations.id, ids))
+          .run();
+      }
+      // Deleting sessions takes them off the study hours, which outlive the sessions themselves
+      const studyHours = tx.select({ total: users.totalStudyHours }).from(users).where(eq(users.id, userId)).get()?.total;
+      for (const ids of chunks(oldSessions)) {
+        tx.delete(studySessions).where(inArray(studySessions.id, ids)).run();
+      }
+      if (oldSessions.length > 0) {
+        tx.update(users).set({ totalStudyHours: studyHours }).where(eq(users.id, userId)).run();
+      }
+
+      tx.insert(retentionPurges)
+        .values({
+          userId,
+          retention,
+          cutoff: cutoffISO,
+          conversations: result.conversations,
+          messages: result.messages,
+          studySessions: result.studySessions,
+          createdAt: now.toISOString(),
+        })
+        .run();
+
+      return result;
+    });
+
+    if (!dryRun && purge.studySessions > 0) {
+      await StreakService.refreshStreak(userId, now);
+    }
+    return purge;
+  }
+
+  // Apply every user's retention window, and drop reset snapshots whose undo window has closed
+  static async runRetention(options: RetentionOptions = {}): Promise<RetentionReport> {
+    const dryRun = options.dryRun === true;
+    const now = options.now ?? new Date();
+    const report: RetentionReport = {
+      dryRun,
+      usersChecked: 0,
+      purges: [],
+      totals: { conversations: 0, messages: 0, studySessions: 0 },
+      expiredSnapshots: dryRun ? 0 : await ProgressResetService.purgeExpiredSnapshots(now),
+    };
+
+    for (const { userId, retention } of await RetentionService.getRetentionPolicies()) {
+      const cutoff = getRetentionCutoff(retention, now);
+      if (!cutoff) continue;
+
+      report.usersChecked++;
+      try {
+        const purge = await RetentionService.purgeUser(userId, retention, cutoff, dryRun, now);
+        if (purge.conversations === 0 && purge.messages === 0 && purge.studySessions === 0) continue;
+
+        report.purges.push(purge);
+        report.totals.conversations += purge.conversations;
+        report.totals.messages += purge.messages;
+        report.totals.studySessions += purge.studySessions;
+      } catch (error) {
+        console.error(`❌ Error purging data for ${userId}:`, error);
+      }
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,294 @@
+import { eq, and, asc, desc, gte, lte, lt, sql } from 'drizzle-orm';
+import { db } from '../config';
+import {
+  conversations,
+  messages,
+  reviewCards,
+  studySessions,
+  type NewReviewCard,
+  type Question,
+  type ReviewCard,
+  type StudySession,
+} from '../schema';
+import { safeJsonParse } from '../utils';
+import { scheduleReview, type ReviewGrade } from '@/lib/review/scheduler';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type ReviewCardSource = 'attempt' | 'feedback' | 'bookmark';
+
+export interface ReviewQueue {
+  cards: ReviewCard[];
+  counts: {
+    due: number; // due by the end of today (UTC)
+    reviewedToday: number;
+    total: number;
+  };
+}
+
+export interface GradeCardInput {
+  grade: ReviewGrade;
+  duration?: number; // seconds spent on the card
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SITTING_GAP_MS = 30 * 60 * 1000; // reviews closer together than this share a study session
+
+const CONTEXT_CATEGORIES: Record<string, string> = {
+  dsa: 'dsa',
+  system_design: 'system',
+  behavioral: 'behavioral',
+};
+
+function startOfDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function questionCardContent(question: Question): Pick<NewReviewCard, 'category' | 'topic' | 'front' | 'back'> {
+  const solutions = safeJsonParse<Array<{ language?: string; code?: string; explanation?: string }>>(question.solutions, []);
+  const hints = safeJsonParse<string[]>(question.hints, []);
+  const solution = solutions[0];
+
+  let back = 'Solve it again from scratch, then compare with your last attempt.';
+  if (solution) {
+    back = [
+      solution.explanation,
+      solution.code && `\`\`\`${solution.language || ''}\n${solution.code}\n\`\`\``,
+    ].filter(Boolean).join('\n\n');
+  } else if (hints.length > 0) {
+    back = hints.map(hint => `- ${hint}`).join('\n');
+  }
+
+  return {
+    category: question.category,
+    topic: question.subcategory,
+    front: `**${question.title}**\n\n${question.prompt}`,
+    back,
+  };
+}
+
+/**
+ * Put a missed question in the user's review queue. A card that already exists
+ * keeps its history but comes due again right away.
+ */
+export function queueQuestionReview(tx: Transaction, userId: string, question: Question, now: Date = new Date()): ReviewCard {
+  const existing = tx
+    .select()
+    .from(reviewCards)
+    .where(and(eq(reviewCards.userId, userId), eq(reviewCards.questionId, question.id)))
+    .get();
+
+  if (existing) {
+    if (existing.dueAt <= now.toISOString()) return existing;
+    return tx
+      .update(reviewCards)
+      .set({ dueAt: now.toISOString(), updatedAt: sql`(datetime('now'))` })
+      .where(eq(reviewCards.id, existing.id))
+      .returning()
+      .get();
+  }
+
+  return tx
+    .insert(reviewCards)
+    .values({
+      userId,
+      source: 'attempt',
+      questionId: question.id,
+      ...questionCardContent(question),
+      dueAt: now.toISOString(),
+    })
+    .returning()
+    .get();
+}
+
+export class ReviewService {
+  // Turn an assistant answer into a card; null when the message is not the user's assistant reply
+  static async addMessageCard(userId: string, messageId: string, source: Exclude<ReviewCardSource, 'attempt'>): Promise<ReviewCard | null> {
+    const [row] = await db
+      .select({ message: messages, conversation: conversations })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(eq(messages.id, messageId))
+      .limit(1);
+
+    if (!row || row.conversation.userId !== userId || row.message.role !== 'assistant') {
+      return null;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(reviewCards)
+      .where(and(eq(reviewCards.userId, userId), eq(reviewCards.messageId, messageId)))
+      .limit(1);
+    if (existing) return existing;
+
+    // The question the answer was for
+    const [prompt] = await db
+      .select({ content: messages.content })
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, row.message.conversationId),
+        eq(messages.role, 'user'),
+        lte(messages.createdAt, row.message.createdAt || new Date().toISOString())
+      ))
+      .orderBy(desc(messages.createdAt))
+      .limit(1);
+
+    const note = row.message.feedbackNote?.trim();
+
+    try {
+      const [card] = await db
+        .insert(reviewCards)
+        .values({
+          userId,
+          source,
+          messageId,
+          category: CONTEXT_CATEGORIES[row.conversation.context || ''] || 'general',
+          topic: row.conversation.title,
+          front: prompt?.content || `Saved answer from "${row.conversation.title || 'a conversation'}"`,
+          back: note ? `${row.message.content}\n\n> Your note: ${note}` : row.message.content,
+          dueAt: new Date().toISOString(),
+        })
+        .returning();
+
+      console.log(`✅ Review card created: ${card.id} (${source})`);
+      return card;
+    } catch (error) {
+      console.error('❌ Error creating review card:', error);
+      throw new Error('Failed to create review card');
+    }
+  }
+
+  // Cards due by the end of today, most overdue first
+  static async getQueue(userId: string, limit = 50, now: Date = new Date()): Promise<ReviewQueue> {
+    const endOfDay = new Date(startOfDay(now).getTime() + DAY_MS).toISOString();
+    const dueFilter = and(eq(reviewCards.userId, userId), lt(reviewCards.dueAt, endOfDay));
+
+    const cards = await db
+      .select()
+      .from(reviewCards)
+      .where(dueFilter)
+      .orderBy(asc(reviewCards.dueAt))
+      .limit(limit);
+
+    const [counts] = await db
+      .select({
+        total: sql<number>`count(*)`,
+        due: sql<number>`sum(case when ${reviewCards.dueAt} < ${endOfDay} then 1 else 0 end)`,
+        reviewedToday: sql<number>`sum(case when ${reviewCards.lastReviewedAt} >= ${startOfDay(now).toISOString()} then 1 else 0 end)`,
+      })
+      .from(reviewCards)
+      .where(eq(reviewCards.userId, userId));
+
+    return {
+      cards,
+      counts: {
+        due: counts?.due || 0,
+        reviewedToday: counts?.reviewedToday || 0,
+        total: counts?.total || 0,
+      },
+    };
+  }
+
+  // Get a single card
+  static async getCard(cardId: string): Promise<ReviewCard | null> {
+    const [card] = await db
+      .select()
+      .from(reviewCards)
+      .where(eq(reviewCards.id, cardId))
+      .limit(1);
+
+    return card || null;
+  }
+
+  // Grade a review, schedule the card's next one and log it in the current review sitting
+  static async gradeCard(card: ReviewCard, input: GradeCardInput, now: Date = new Date()): Promise<{
+    card: ReviewCard;
+    studySession: StudySession;
+  }> {
+    const next = scheduleReview(card, input.grade, now);
+    const passed = input.grade === 'again' ? 0 : 1;
+    const nowIso = now.toISOString();
+
+    try {
+      return db.transaction((tx) => {
+        const updated = tx
+          .update(reviewCards)
+          .set({
+            ...next,
+            lastReviewedAt: nowIso,
+            lastGrade: input.grade,
+            updatedAt: sql`(datetime('now'))`,
+          })
+          .where(eq(reviewCards.id, card.id))
+          .returning()
+          .get();
+
+        const sitting = tx
+          .select()
+          .from(studySessions)
+          .where(and(
+            eq(studySessions.userId, card.userId),
+            eq(studySessions.sessionType, 'review'),
+            gte(studySessions.completedAt, new Date(now.getTime() - SITTING_GAP_MS).toISOString()),
+            lte(studySessions.completedAt, nowIso)
+          ))
+          .orderBy(desc(studySessions.completedAt))
+          .get();
+
+        if (sitting) {
+          const attempted = (sitting.questionsAttempted || 0) + 1;
+          const completed = (sitting.questionsCompleted || 0) + passed;
+          const studySession = tx
+            .update(studySessions)
+            .set({
+              questionsAttempted: attempted,
+              questionsCompleted: completed,
+              score: Math.round((completed / attempted) * 100),
+              duration: Math.max(1, Math.round((now.getTime() - new Date(sitting.startedAt).getTime()) / 60000)),
+              completedAt: nowIso,
+            })
+            .where(eq(studySessions.id, sitting.id))
+            .returning()
+            .get();
+
+          return { card: updated, studySession };
+        }
+
+        const seconds = Math.max(1, Math.round(input.duration ?? 60));
+        const studySession = tx
+          .insert(studySessions)
+          .values({
+            userId: card.userId,
+            sessionType: 'review',
+            topic: 'Spaced repetition',
+            duration: Math.max(1, Math.round(seconds / 60)),
+            questionsAttempted: 1,
+            questionsCompleted: passed,
+            score: passed * 100,
+            startedAt: new Date(now.getTime() - seconds * 1000).toISOString(),
+            completedAt: nowIso,
+          })
+          .returning()
+          .get();
+
+        return { card: updated, studySession };
+      });
+    } catch (error) {
+      console.error('❌ Error grading review card:', error);
+      throw new Error('Failed to grade review card');
+    }
+  }
+
+  // Remove a card from the queue for good
+  static async deleteCard(cardId: string): Promise<boolean> {
+    try {
+      await db.delete(reviewCards).where(eq(reviewCards.id, cardId));
+      console.log(`✅ Review card deleted: ${cardId}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting review card:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
+import { db } from '../config';
+import {
+  roadmaps,
+  roadmapPhases,
+  roadmapTasks,
+  roadmapRevisions,
+  type Roadmap,
+  type RoadmapRevision,
+} from '../schema';
+import { safeJsonParse } from '../utils';
+import { ProgressService } from './progressService';
+import { RoadmapService, type RoadmapDetails } from './roadmapService';
+import { UserService } from './userService';
+import { topicPriorities } from '@/lib/roadmap/generator';
+import { roadmapInputFromUser } from '@/lib/roadmap/profile';
+import { planRevision, type RoadmapAssessment, type RevisionPlan, type RevisionProposal } from '@/lib/roadmap/replan';
+
+const PACE_WEEKS = 4;
+
+export class RoadmapRevisionService {
+  // Compare a roadmap with recent study time; the proposal is not saved
+  static async evaluateRoadmap(details: RoadmapDetails, now: Date = new Date()): Promise<{
+    assessment: RoadmapAssessment;
+    proposal: RevisionProposal | null;
+  }> {
+    const { roadmap, tasks } = details;
+    const [weeklyProgress, user] = await Promise.all([
+      ProgressService.getWeeklyProgress(roadmap.userId, PACE_WEEKS),
+      UserService.getUserById(roadmap.userId),
+    ]);
+
+    return planRevision({
+      roadmap,
+      tasks,
+      recentWeeklyHours: weeklyProgress.map(week => week.hours),
+      priorities: user ? topicPriorities(roadmapInputFromUser(user)) : {},
+      now,
+    });
+  }
+
+  // Propose a revision when the roadmap has fallen behind
+  static async proposeRevision(details: RoadmapDetails, now: Date = new Date()): Promise<{
+    assessment: RoadmapAssessment;
+    revision: RoadmapRevision | null;
+  }> {
+    const { roadmap } = details;
+    const { assessment, proposal } = await RoadmapRevisionService.evaluateRoadmap(details, now);
+
+    if (!proposal) return { assessment, revision: null };
+
+    // Nothing has changed since the pending proposal was made
+    const pending = await RoadmapRevisionService.getPendingRevision(roadmap.id);
+    const pendingAssessment = safeJsonParse<Partial<RoadmapAssessment>>(pending?.assessment ?? null, {});
+    if (
+      pending
+      && pending.basedOn === roadmap.updatedAt
+      && pendingAssessment.currentWeek === assessment.currentWeek
+      && pendingAssessment.remainingHours === assessment.remainingHours
+    ) {
+      return { assessment, revision: pending };
+    }
+
+    try {
+      const revision = db.transaction((tx) => {
+        tx.update(roadmapRevisions)
+          .set({ status: 'superseded', resolvedAt: now.toISOString() })
+          .where(and(eq(roadmapRevisions.roadmapId, roadmap.id), eq(roadmapRevisions.status, 'pending')))
+          .run();
+
+        return tx
+          .insert(roadmapRevisions)
+          .values({
+            roadmapId: roadmap.id,
+            strategy: proposal.strategy,
+            reason: proposal.reason,
+            basedOn: roadmap.updatedAt,
+            assessment: JSON.stringify(assessment),
+            plan: JSON.stringify(proposal.plan),
+            diff: JSON.stringify(proposal.diff),
+          })
+          .returning()
+          .get();
+      });
+
+      console.log(`✅ Roadmap revision proposed: ${revision.id} (${revision.strategy})`);
+      return { assessment, revision };
+    } catch (error) {
+      console.error('❌ Error proposing roadmap revision:', error);
+      throw new Error('Failed to propose roadmap revision');
+    }
+  }
+
+  // Get a revision together with the roadmap it belongs to
+  static async getRevision(revisionId: string): Promise<{ revision: RoadmapRevision; roadmap: Roadmap } | null> {
+    const [row] = await db
+      .select({ revision: roadmapRevisions, roadmap: roadmaps })
+      .from(roadmapRevisions)
+      .innerJoin(roadmaps, eq(roadmapRevisions.roadmapId, roadmaps.id))
+      .where(eq(roadmapRevisions.id, revisionId))
+      .limit(1);
+
+    return row || null;
+  }
+
+  // Get the proposal still waiting for the user's answer, if any
+  static async getPendingRevision(roadmapId: string): Promise<RoadmapRevision | null> {
+    const [revision] = await db
+      .select()
+      .from(roadmapRevisions)
+      .where(and(eq(roadmapRevisions.roadmapId, roadmapId), eq(roadmapRevisions.status, 'pending')))
+      .orderBy(desc(roadmapRevisions.createdAt))
+      .limit(1);
+
+    return revision || null;
+  }
+
+  // Replace the roadmap's open tasks with the revised schedule
+  static async acceptRevision(revision: RoadmapRevision): Promise<RoadmapDetails> {
+    if (revision.status !== 'pending') {
+      throw new Error('Revision is no longer pending');
+    }
+
+    // Tasks ticked off or reopened since the proposal would be lost or duplicated
+    const details = await RoadmapService.getRoadmap(revision.roadmapId);
+    const openHours = details?.tasks
+      .filter(task => !task.completedAt)
+      .reduce((sum, task) => sum + task.plannedHours, 0);
+    if (
+      !details
+      || details.roadmap.status !== 'active'
+      || details.roadmap.updatedAt !== revision.basedOn
+      || openHours !== safeJsonParse<Partial<RoadmapAssessment>>(revision.assessment, {}).remainingHours
+    ) {
+      throw new Error('Roadmap has changed since this revision was proposed');
+    }
+
+    const { roadmap, phases } = details;
+    const plan = safeJsonParse<RevisionPlan>(revision.plan, {
+      hoursPerWeek: roadmap.hoursPerWeek,
+      totalWeeks: roadmap.totalWeeks,
+      targetDate: roadmap.targetDate,
+      droppedTopics: [],
+      tasks: [],
+    });
+
+    try {
+      db.transaction((tx) => {
+        tx.delete(roadmapTasks)
+          .where(and(eq(roadmapTasks.roadmapId, roadmap.id), isNull(roadmapTasks.completedAt)))
+          .run();
+
+        if (plan.tasks.length > 0) {
+          tx.insert(roadmapTasks)
+            .values(plan.tasks.map(task => ({
+              roadmapId: roadmap.id,
+              phaseId: task.phaseId,
+              week: task.week,
+              position: task.position,
+              title: task.title,
+              description: task.description,
+              kind: task.kind,
+              track: task.track,
+              topic: task.topic,
+              plannedHours: task.hours,
+            })))
+            .run();
+        }
+
+        // Phases follow their tasks; a phase left without any is removed
+        const tasks = tx.select().from(roadmapTasks).where(eq(roadmapTasks.roadmapId, roadmap.id)).all();
+        for (const phase of phases) {
+          const phaseTasks = tasks.filter(task => task.phaseId === phase.id);
+          if (phaseTasks.length === 0) {
+            tx.delete(roadmapPhases).where(eq(roadmapPhases.id, phase.id)).run();
+            continue;
+          }
+
+          tx.update(roadmapPhases)
+            .set({
+              startWeek: Math.min(...phaseTasks.map(task => task.week)),
+              endWeek: Math.max(...phaseTasks.map(task => task.week)),
+              plannedHours: phaseTasks.reduce((sum, task) => sum + task.plannedHours, 0),
+            })
+            .where(eq(roadmapPhases.id, phase.id))
+            .run();
+        }
+
+        const skippedTopics = safeJsonParse<string[]>(roadmap.skippedTopics, []);
+        tx.update(roadmaps)
+          .set({
+            hoursPerWeek: plan.hoursPerWeek,
+            totalWeeks: plan.totalWeeks,
+            targetDate: plan.targetDate,
+            totalHours: tasks.reduce((sum, task) => sum + task.plannedHours, 0),
+            skippedTopics: JSON.stringify([...skippedTopics, ...plan.droppedTopics]),
+            updatedAt: sql`(datetime('now'))`,
+          })
+          .where(eq(roadmaps.id, roadmap.id))
+          .run();
+
+        tx.update(roadmapRevisions)
+          .set({ status: 'accepted', resolvedAt: new Date().toISOString() })
+          .where(eq(roadmapRevisions.id, revision.id))
+          .run();
+      });
+    } catch (error) {
+      console.error('❌ Error applying roadmap revision:', error);
+      throw new Error('Failed to apply roadmap revision');
+    }
+
+    console.log(`✅ Roadmap revision accepted: ${revision.id}`);
+    const updated = await RoadmapService.getRoadmap(roadmap.id);
+    if (!updated) throw new Error('Failed to apply roadmap revision');
+    return updated;
+  }
+
+  // Turn a proposal down; the roadmap stays as it is
+  static async rejectRevision(revision: RoadmapRevision): Promise<RoadmapRevision> {
+    if (revision.status !== 'pending') {
+      throw new Error('Revision is no longer pending');
+    }
+
+    const [rejected] = await db
+      .update(roadmapRevisions)
+      .set({ status: 'rejected', resolvedAt: new Date().toISOString() })
+      .where(eq(roadmapRevisions.id, revision.id))
+      .returning();
+
+    return rejected;
+  }
+}
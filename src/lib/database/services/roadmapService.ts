@@ -0,0 +1,253 @@
+import { eq, and, asc, desc, isNull, sql } from 'drizzle-orm';
+import { db } from '../config';
+import {
+  roadmaps,
+  roadmapPhases,
+  roadmapTasks,
+  studySessions,
+  type Roadmap,
+  type RoadmapPhase,
+  type RoadmapTask,
+} from '../schema';
+import { SESSION_TYPES } from './progressService';
+import { roadmapTopics } from '@/data/roadmapTopics';
+import type { GeneratedRoadmap } from '@/lib/roadmap/generator';
+
+export interface RoadmapDetails {
+  roadmap: Roadmap;
+  phases: RoadmapPhase[];
+  tasks: RoadmapTask[];
+}
+
+export interface CompleteTaskInput {
+  duration?: number; // minutes actually spent; defaults to the planned time
+  notes?: string | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class RoadmapService {
+  // Save a generated plan as the user's active roadmap, archiving the previous one
+  static async createRoadmap(userId: string, plan: GeneratedRoadmap): Promise<RoadmapDetails> {
+    try {
+      const details = db.transaction((tx) => {
+        tx.update(roadmaps)
+          .set({ status: 'archived', updatedAt: sql`(datetime('now'))` })
+          .where(and(eq(roadmaps.userId, userId), eq(roadmaps.status, 'active')))
+          .run();
+
+        const roadmap = tx
+          .insert(roadmaps)
+          .values({
+            userId,
+            interviewType: plan.interviewType,
+            startDate: plan.startDate,
+            targetDate: plan.targetDate,
+            totalWeeks: plan.totalWeeks,
+            hoursPerWeek: plan.hoursPerWeek,
+            totalHours: plan.totalHours,
+            skippedTopics: JSON.stringify(plan.skippedTopics),
+          })
+          .returning()
+          .get();
+
+        const phases = plan.phases.map((phase, position) => tx
+          .insert(roadmapPhases)
+          .values({
+            roadmapId: roadmap.id,
+            key: phase.key,
+            position,
+            title: phase.title,
+            description: phase.description,
+            startWeek: phase.startWeek,
+            endWeek: phase.endWeek,
+            plannedHours: phase.hours,
+          })
+          .returning()
+          .get()
+        );
+
+        const phaseIds = Object.fromEntries(phases.map(phase => [phase.key, phase.id]));
+        const taskRows = plan.weeks.flatMap(week => week.tasks.map((task, position) => ({
+          roadmapId: roadmap.id,
+          phaseId: phaseIds[task.phase],
+          week: week.week,
+          position,
+          title: task.title,
+          description: task.description,
+          kind: task.kind,
+          track: task.track,
+          topic: task.topic,
+          plannedHours: task.hours,
+        })));
+
+        const tasks = taskRows.length > 0
+          ? tx.insert(roadmapTasks).values(taskRows).returning().all()
+          : [];
+
+        return { roadmap, phases, tasks };
+      });
+
+      console.log(`✅ Roadmap created: ${details.roadmap.id} (${details.tasks.length} tasks)`);
+      return details;
+    } catch (error) {
+      console.error('❌ Error creating roadmap:', error);
+      throw new Error('Failed to create roadmap');
+    }
+  }
+
+  // Get a roadmap with its phases and tasks in plan order
+  static async getRoadmap(roadmapId: string): Promise<RoadmapDetails | null> {
+    const [roadmap] = await db
+      .select()
+      .from(roadmaps)
+      .where(eq(roadmaps.id, roadmapId))
+      .limit(1);
+
+    if (!roadmap) return null;
+    return RoadmapService.loadDetails(roadmap);
+  }
+
+  // Get the roadmap the user is currently following
+  static async getActiveRoadmap(userId: string): Promise<RoadmapDetails | null> {
+    const [roadmap] = await db
+      .select()
+      .from(roadmaps)
+      .where(and(eq(roadmaps.userId, userId), eq(roadmaps.status, 'active')))
+      .orderBy(desc(roadmaps.createdAt))
+      .limit(1);
+
+    if (!roadmap) return null;
+    return RoadmapService.loadDetails(roadmap);
+  }
+
+  // Every roadmap currently being followed, across users
+  static async getActiveRoadmaps(): Promise<Roadmap[]> {
+    return db
+      .select()
+      .from(roadmaps)
+      .where(eq(roadmaps.status, 'active'))
+      .orderBy(asc(roadmaps.createdAt));
+  }
+
+  private static async loadDetails(roadmap: Roadmap): Promise<RoadmapDetails> {
+    const phases = await db
+      .select()
+      .from(roadmapPhases)
+      .where(eq(roadmapPhases.roadmapId, roadmap.id))
+      .orderBy(asc(roadmapPhases.position));
+
+    const tasks = await db
+      .select()
+      .from(roadmapTasks)
+      .where(eq(roadmapTasks.roadmapId, roadmap.id))
+      .orderBy(asc(roadmapTasks.week), asc(roadmapTasks.position));
+
+    return { roadmap, phases, tasks };
+  }
+
+  // Get a task together with the roadmap it belongs to
+  static async getTask(taskId: string): Promise<{ task: RoadmapTask; roadmap: Roadmap } | null> {
+    const [row] = await db
+      .select({ task: roadmapTasks, roadmap: roadmaps })
+      .from(roadmapTasks)
+      .innerJoin(roadmaps, eq(roadmapTasks.roadmapId, roadmaps.id))
+      .where(eq(roadmapTasks.id, taskId))
+      .limit(1);
+
+    return row || null;
+  }
+
+  // Check off a task and log the time as a study session
+  static async completeTask(task: RoadmapTask, roadmap: Roadmap, input: CompleteTaskInput = {}): Promise<RoadmapTask> {
+    if (task.completedAt) return task;
+
+    try {
+      const completedAt = new Date();
+      const duration = Math.max(1, Math.round(input.duration ?? task.plannedHours * 60));
+      const topic = roadmapTopics.find(entry => entry.key === task.topic)?.title || task.title;
+
+      return db.transaction((tx) => {
+        const studySession = tx
+          .insert(studySessions)
+          .values({
+            userId: roadmap.userId,
+            sessionType: task.kind === 'mock' ? 'mock_interview' : SESSION_TYPES[task.track] || task.track,
+            topic,
+            duration,
+            notes: input.notes || `Roadmap week ${task.week}: ${task.title}`,
+            startedAt: new Date(completedAt.getTime() - duration * MINUTE_MS).toISOString(),
+            completedAt: completedAt.toISOString(),
+          })
+          .returning()
+          .get();
+
+        tx.update(roadmaps)
+          .set({ updatedAt: sql`(datetime('now'))` })
+          .where(eq(roadmaps.id, roadmap.id))
+          .run();
+
+        const completed = tx
+          .update(roadmapTasks)
+          .set({ completedAt: completedAt.toISOString(), studySessionId: studySession.id })
+          .where(and(eq(roadmapTasks.id, task.id), isNull(roadmapTasks.completedAt)))
+          .returning()
+          .get();
+
+        // Another request checked it off first; throwing rolls back the session logged above
+        if (!completed) {
+          throw new Error('Roadmap task is already completed');
+        }
+        return completed;
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Roadmap task is already completed') {
+        return (await RoadmapService.getTask(task.id))?.task ?? task;
+      }
+      console.error('❌ Error completing roadmap task:', error);
+      throw new Error('Failed to complete roadmap task');
+    }
+  }
+
+  // Uncheck a task and remove the study session it logged
+  static async reopenTask(task: RoadmapTask): Promise<RoadmapTask> {
+    if (!task.completedAt) return task;
+
+    try {
+      return db.transaction((tx) => {
+        const reopened = tx
+          .update(roadmapTasks)
+          .set({ completedAt: null, studySessionId: null })
+          .where(eq(roadmapTasks.id, task.id))
+          .returning()
+          .get();
+
+        if (task.studySessionId) {
+          tx.delete(studySessions).where(eq(studySessions.id, task.studySessionId)).run();
+        }
+
+        tx.update(roadmaps)
+          .set({ updatedAt: sql`(datetime('now'))` })
+          .where(eq(roadmaps.id, task.roadmapId))
+          .run();
+
+        return reopened;
+      });
+    } catch (error) {
+      console.error('❌ Error reopening roadmap task:', error);
+      throw new Error('Failed to reopen roadmap task');
+    }
+  }
+
+  // Delete a roadmap with its phases and tasks; logged study sessions are kept
+  static async deleteRoadmap(roadmapId: string): Promise<boolean> {
+    try {
+      await db.delete(roadmaps).where(eq(roadmaps.id, roadmapId));
+      console.log(`✅ Roadmap deleted: ${roadmapId}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting roadmap:', error);
+      return false;
+    }
+  }
+}
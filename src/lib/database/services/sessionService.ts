@@ -0,0 +1,116 @@
+import { eq, and, ne, or, lt, gte, desc } from 'drizzle-orm';
+import { db } from '../config';
+import { sessions, type Session, type NewSession } from '../schema';
+
+export class SessionService {
+  // Store a new session
+  static async createSession(data: NewSession): Promise<Session> {
+    try {
+      const [session] = await db.insert(sessions).values(data).returning();
+      return session;
+    } catch (error) {
+      console.error('❌ Error creating session:', error);
+      throw new Error('Failed to create session');
+    }
+  }
+
+  // Find a live session by its current token hash, or by the previous one while
+  // it is still inside the rotation grace window
+  static async getSessionByTokenHash(tokenHash: string, graceStart: string): Promise<Session | null> {
+    try {
+      const [session] = await db
+        .select()
+        .from(sessions)
+        .where(
+          and(
+            or(
+              eq(sessions.tokenHash, tokenHash),
+              and(eq(sessions.previousTokenHash, tokenHash), gte(sessions.rotatedAt, graceStart))
+            ),
+            gte(sessions.expiresAt, new Date().toISOString())
+          )
+        )
+        .limit(1);
+
+      return session || null;
+    } catch (error) {
+      console.error('❌ Error fetching session:', error);
+      return null;
+    }
+  }
+
+  // Record activity and slide the expiry forward
+  static async touchSession(id: string, expiresAt: string): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ lastSeenAt: new Date().toISOString(), expiresAt })
+      .where(eq(sessions.id, id));
+  }
+
+  // Replace the session token, keeping the old one valid for a short grace period
+  static async rotateSessionToken(id: string, tokenHash: string, previousTokenHash: string): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ tokenHash, previousTokenHash, rotatedAt: new Date().toISOString() })
+      .where(eq(sessions.id, id));
+  }
+
+  // List a user's live sessions, most recently used first
+  static async getUserSessions(userId: string): Promise<Session[]> {
+    try {
+      return await db
+        .select()
+        .from(sessions)
+        .where(and(eq(sessions.userId, userId), gte(sessions.expiresAt, new Date().toISOString())))
+        .orderBy(desc(sessions.lastSeenAt));
+    } catch (error) {
+      console.error('❌ Error fetching user sessions:', error);
+      return [];
+    }
+  }
+
+  // Revoke a single session belonging to the user
+  static async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(sessions)
+        .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)))
+        .returning({ id: sessions.id });
+
+      return result.length > 0;
+    } catch (error) {
+      console.error('❌ Error revoking session:', error);
+      return false;
+    }
+  }
+
+  // Revoke all of a user's sessions, optionally keeping one
+  static async revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    try {
+      const result = await db
+        .delete(sessions)
+        .where(
+          exceptSessionId
+            ? and(eq(sessions.userId, userId), ne(sessions.id, exceptSessionId))
+            : eq(sessions.userId, userId)
+        )
+        .returning({ id: sessions.id });
+
+      console.log(`✅ Revoked ${result.length} sessions for user: ${userId}`);
+      return result.length;
+    } catch (error) {
+      console.error('❌ Error revoking sessions:', error);
+      throw new Error('Failed to revoke sessions');
+    }
+  }
+
+  // Delete sessions past their expiry
+  static async deleteExpiredSessions(): Promise<number> {
+    const result = await db
+      .delete(sessions)
+      .where(lt(sessions.expiresAt, new Date().toISOString()))
+      .returning({ id: sessions.id });
+
+    return result.length;
+  }
+}
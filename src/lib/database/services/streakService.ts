@@ -0,0 +1,83 @@
+import { eq, and, sql } from 'drizzle-orm';
+import { db } from '../config';
+import { studySessions, users } from '../schema';
+import { computeStreak, toLocalDate, type StreakState } from '@/lib/study/streaks';
+
+export interface StreakSummary extends StreakState {
+  timezone: string;
+}
+
+export interface StreakSettingsInput {
+  timezone?: string;
+  goalMinutes?: number;
+}
+
+export class StreakService {
+  // Recompute a user's streak from their completed study sessions and store it on the user
+  static async refreshStreak(userId: string, now: Date = new Date()): Promise<StreakSummary | null> {
+    try {
+      const [user] = await db
+        .select({ timezone: users.timezone, goalMinutes: users.streakGoalMinutes, bestStreak: users.bestStreak })
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+      if (!user) return null;
+
+      const sessions = await db
+        .select({ duration: studySessions.duration, startedAt: studySessions.startedAt, completedAt: studySessions.completedAt })
+        .from(studySessions)
+        .where(and(eq(studySessions.userId, userId), eq(studySessions.status, 'completed')));
+
+      const minutesByDay: Record<string, number> = {};
+      for (const session of sessions) {
+        const day = toLocalDate(session.completedAt || session.startedAt, user.timezone);
+        minutesByDay[day] = (minutesByDay[day] || 0) + session.duration;
+      }
+
+      const state = computeStreak(minutesByDay, toLocalDate(now, user.timezone), user.goalMinutes);
+      // Best streak never goes down, even if the sessions behind it are deleted
+      const best = Math.max(user.bestStreak, state.best);
+
+      await db
+        .update(users)
+        .set({
+          currentStreak: state.current,
+          bestStreak: best,
+          streakFreezes: state.freezes,
+          lastActiveDate: state.lastActiveDate,
+        })
+        .where(eq(users.id, userId));
+
+      return { ...state, best, timezone: user.timezone };
+    } catch (error) {
+      console.error('❌ Error refreshing streak:', error);
+      return null;
+    }
+  }
+
+  // Change the user's timezone or daily goal and recompute the streak under the new rules
+  static async updateStreakSettings(userId: string, input: StreakSettingsInput): Promise<StreakSummary | null> {
+    await db
+      .update(users)
+      .set({
+        ...(input.timezone !== undefined && { timezone: input.timezone }),
+        ...(input.goalMinutes !== undefined && { streakGoalMinutes: input.goalMinutes }),
+        updatedAt: sql`(datetime('now'))`,
+      })
+      .where(eq(users.id, userId));
+
+    console.log(`✅ Streak settings updated: ${userId}`);
+    return StreakService.refreshStreak(userId);
+  }
+
+  // Recompute every user's streak, e.g. after changing the rules
+  static async refreshAllStreaks(): Promise<number> {
+    const rows = await db.select({ id: users.id }).from(users);
+
+    let refreshed = 0;
+    for (const row of rows) {
+      if (await StreakService.refreshStreak(row.id)) refreshed++;
+    }
+    return refreshed;
+  }
+}
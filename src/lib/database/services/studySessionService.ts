@@ -0,0 +1,175 @@
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { db } from '../config';
+import { studySessions, type StudySession } from '../schema';
+import { StreakService } from './streakService';
+import { getActiveSeconds, type TimerMode } from '@/lib/study/timer';
+
+export interface StartSessionInput {
+  sessionType: string;
+  topic?: string | null;
+  difficultyLevel?: string | null;
+  timerMode?: TimerMode;
+}
+
+export interface CompleteSessionInput {
+  questionsAttempted?: number;
+  questionsCompleted?: number;
+  score?: number | null;
+  notes?: string | null;
+}
+
+const OPEN_STATUSES = ['active', 'paused'];
+
+function secondsBetween(from: string, to: Date): number {
+  return Math.max(0, Math.round((to.getTime() - new Date(from).getTime()) / 1000));
+}
+
+export class StudySessionService {
+  // Start a live session; a user runs at most one at a time
+  static async startSession(userId: string, input: StartSessionInput, now: Date = new Date()): Promise<StudySession> {
+    const session = db.transaction((tx) => {
+      const open = tx
+        .select({ id: studySessions.id })
+        .from(studySessions)
+        .where(and(eq(studySessions.userId, userId), inArray(studySessions.status, OPEN_STATUSES)))
+        .get();
+      if (open) {
+        throw new Error('A study session is already running');
+      }
+
+      return tx
+        .insert(studySessions)
+        .values({
+          userId,
+          sessionType: input.sessionType,
+          topic: input.topic || null,
+          difficultyLevel: input.difficultyLevel || null,
+          duration: 0,
+          status: 'active',
+          timerMode: input.timerMode || 'stopwatch',
+          startedAt: now.toISOString(),
+        })
+        .returning()
+        .get();
+    });
+
+    console.log(`✅ Study session started: ${session.id}`);
+    return session;
+  }
+
+  // Get a session by ID
+  static async getSession(sessionId: string): Promise<StudySession | null> {
+    const [session] = await db
+      .select()
+      .from(studySessions)
+      .where(eq(studySessions.id, sessionId))
+      .limit(1);
+
+    return session || null;
+  }
+
+  // The user's running or paused session, if any
+  static async getOpenSession(userId: string): Promise<StudySession | null> {
+    const [session] = await db
+      .select()
+      .from(studySessions)
+      .where(and(eq(studySessions.userId, userId), inArray(studySessions.status, OPEN_STATUSES)))
+      .limit(1);
+
+    return session || null;
+  }
+
+  // List a user's sessions, newest first
+  static async getUserSessions(userId: string, limit: number = 20): Promise<StudySession[]> {
+    try {
+      return await db
+        .select()
+        .from(studySessions)
+        .where(eq(studySessions.userId, userId))
+        .orderBy(desc(studySessions.startedAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('❌ Error fetching study sessions:', error);
+      return [];
+    }
+  }
+
+  // Stop the clock without ending the session
+  static async pauseSession(session: StudySession, now: Date = new Date()): Promise<StudySession> {
+    const [updated] = await db
+      .update(studySessions)
+      .set({ status: 'paused', pausedAt: now.toISOString() })
+      .where(and(eq(studySessions.id, session.id), eq(studySessions.status, 'active')))
+      .returning();
+
+    if (!updated) {
+      throw new Error('Study session is not running');
+    }
+    return updated;
+  }
+
+  // Restart the clock, counting the pause towards pausedSeconds
+  static async resumeSession(session: StudySession, now: Date = new Date()): Promise<StudySession> {
+    const [updated] = await db
+      .update(studySessions)
+      .set({
+        status: 'active',
+        pausedAt: null,
+        pausedSeconds: session.pausedSeconds + secondsBetween(session.pausedAt || now.toISOString(), now),
+      })
+      .where(and(eq(studySessions.id, session.id), eq(studySessions.status, 'paused')))
+      .returning();
+
+    if (!updated) {
+      throw new Error('Study session is not paused');
+    }
+    return updated;
+  }
+
+  // End a session, record its focused time and update the streak; a trigger adds it to the user's study hours
+  static async completeSession(session: StudySession, input: CompleteSessionInput = {}, now: Date = new Date()): Promise<StudySession> {
+    const pausedSeconds = session.pausedSeconds
+      + (session.status === 'paused' && session.pausedAt ? secondsBetween(session.pausedAt, now) : 0);
+    const completedAt = now.toISOString();
+    const activeSeconds = getActiveSeconds({ ...session, pausedAt: null, pausedSeconds, completedAt });
+    const duration = Math.max(1, Math.round(activeSeconds / 60));
+
+    const [completed] = await db
+      .update(studySessions)
+      .set({
+        status: 'completed',
+        duration,
+        pausedAt: null,
+        pausedSeconds,
+        questionsAttempted: input.questionsAttempted ?? session.questionsAttempted,
+        questionsCompleted: input.questionsCompleted ?? session.questionsCompleted,
+        score: input.score ?? session.score,
+        notes: input.notes ?? session.notes,
+        completedAt,
+      })
+      .where(and(eq(studySessions.id, session.id), inArray(studySessions.status, OPEN_STATUSES)))
+      .returning();
+
+    if (!completed) {
+      throw new Error('Study session is already completed');
+    }
+
+    await StreakService.refreshStreak(session.userId);
+
+    console.log(`✅ Study session completed: ${completed.id} (${duration} min)`);
+    return completed;
+  }
+
+  // Throw away a session that is still running
+  static async discardSession(session: StudySession): Promise<void> {
+    const [deleted] = await db
+      .delete(studySessions)
+      .where(and(eq(studySessions.id, session.id), inArray(studySessions.status, OPEN_STATUSES)))
+      .returning({ id: studySessions.id });
+
+    if (!deleted) {
+      throw new Error('Study session is already completed');
+    }
+    console.log(`✅ Study session discarded: ${session.id}`);
+  }
+}
@@ -1,6 +1,7 @@
 import { eq, desc, and, sql } from 'drizzle-orm';
 import { db } from '../config';
 import { users, userSettings, userProgress, studySessions, type User, type NewUser, type NewUserSettings } from '../schema';
+import { StreakService } from './streakService';
 
 export class UserService {
   // Create a new user with onboarding data
@@ -51,6 +52,22 @@ export class UserService {
     }
   }
 
+  // Get user by email (uses the unique email index)
+  static async getUserByEmail(email: string): Promise<User | null> {
+    try {
+      const [user] = await db
+        .select()
+        .from(users)
+        .where(eq(users.email, normalizeEmail(email)))
+        .limit(1);
+
+      return user || null;
+    } catch (error) {
+      console.error('❌ Error fetching user by email:', error);
+      return null;
+    }
+  }
+
   // Update user onboarding completion
   static async completeOnboarding(userId: string, onboardingData: Partial<NewUser>): Promise<boolean> {
     try {
@@ -71,48 +88,6 @@ export class UserService {
     }
   }
 
-  // Update user's last active date and streak
-  static async updateActivity(userId: string): Promise<void> {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const user = await this.getUserById(userId);
-      
-      if (!user) return;
-
-      let newStreak = user.currentStreak;
-      const lastActive = user.lastActiveDate;
-      
-      if (lastActive) {
-        const lastActiveDate = new Date(lastActive);
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        
-        if (lastActiveDate.toISOString().split('T')[0] === yesterday.toISOString().split('T')[0]) {
-          // Consecutive day, increment streak
-          newStreak = (user.currentStreak || 0) + 1;
-        } else if (lastActiveDate.toISOString().split('T')[0] !== today) {
-          // Missed days, reset streak
-          newStreak = 1;
-        }
-      } else {
-        // First activity
-        newStreak = 1;
-      }
-
-      await db
-        .update(users)
-        .set({
-          lastActiveDate: today,
-          currentStreak: newStreak,
-          updatedAt: sql`(datetime('now'))`,
-        })
-        .where(eq(users.id, userId));
-
-    } catch (error) {
-      console.error('❌ Error updating user activity:', error);
-    }
-  }
-
   // Get user's study statistics
   static async getUserStats(userId: string): Promise<{
     totalStudyHours: number;
@@ -143,6 +118,7 @@ export class UserService {
         .where(
           and(
             eq(studySessions.userId, userId),
+            eq(studySessions.status, 'completed'),
             sql`date(${studySessions.createdAt}) >= date(${weekAgo.toISOString()})`
           )
         );
@@ -156,9 +132,11 @@ export class UserService {
         .from(userProgress)
         .where(eq(userProgress.userId, userId));
 
+      const streak = await StreakService.refreshStreak(userId);
+
       return {
         totalStudyHours: user.totalStudyHours || 0,
-        currentStreak: user.currentStreak || 0,
+        currentStreak: streak?.current ?? (user.currentStreak || 0),
         sessionsThisWeek: recentSessions.length,
         completedQuestions: progress[0]?.totalCompleted || 0,
         averageScore: Math.round(progress[0]?.averageScore || 0),
@@ -201,3 +179,17 @@ export class UserService {
     }
   }
 }
+
+/**
+ * Normalize an email address for storage and lookup
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Basic shape check for an email address
+ */
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) && email.length <= 254;
+}
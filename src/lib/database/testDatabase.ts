@@ -0,0 +1,33 @@
+/**
+ * Scratch database for service tests
+ *
+ * Import this before anything that loads the database config: it points
+ * DATABASE_PATH at a new file in a temporary directory and builds the schema
+ * there from the migration files. The directory is removed when the process exits.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+const migrationsFolder = path.join(process.cwd(), 'src/lib/database/migrations');
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tayyari-test-'));
+const databasePath = path.join(directory, 'test.db');
+
+// Journal entries whose file is missing were folded into the first migration
+const journal: { entries: Array<{ tag: string }> } = JSON.parse(
+  fs.readFileSync(path.join(migrationsFolder, 'meta/_journal.json'), 'utf8')
+);
+const files = journal.entries
+  .map(entry => path.join(migrationsFolder, `${entry.tag}.sql`))
+  .filter(file => fs.existsSync(file));
+
+const sqlite = new Database(databasePath);
+for (const file of [...files, path.join(migrationsFolder, 'add_settings_columns.sql')]) {
+  sqlite.exec(fs.readFileSync(file, 'utf8'));
+}
+sqlite.close();
+
+process.env.DATABASE_PATH = databasePath;
+process.on('exit', () => fs.rmSync(directory, { recursive: true, force: true }));
@@ -134,6 +134,9 @@ export class DatabaseUtils {
 
       if (vacuumDatabase) {
         await db.run(sql`VACUUM`);
+        // VACUUM may renumber rowids, which the chat search indexes are keyed by
+        await db.run(sql`INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')`);
+        await db.run(sql`INSERT INTO conversations_fts(conversations_fts) VALUES ('rebuild')`);
       }
 
       return {
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { diffOutput, judgeSubmission } from './judge';
+import { runCode } from './sandbox';
+
+// Judging runs real programs, which needs the namespace sandbox
+const sandboxAvailable = runCode({ language: 'javascript', code: '' }).then(
+  () => true,
+  error => error.message !== 'Sandbox unavailable'
+);
+
+describe('diffOutput', () => {
+  test('ignores trailing whitespace and trailing blank lines', () => {
+    assert.deepEqual(diffOutput('1\n2\n', '1  \r\n2\n\n\n'), []);
+  });
+
+  test('reports changed, missing and extra lines', () => {
+    assert.deepEqual(diffOutput('1\n2\n3', '1\n4'), [
+      { line: 2, expected: '2', actual: '4' },
+      { line: 3, expected: '3', actual: null },
+    ]);
+    assert.deepEqual(diffOutput('1', '1\n2'), [{ line: 2, expected: null, actual: '2' }]);
+  });
+});
+
+describe('judgeSubmission', () => {
+  const testCases = [
+    { input: '1 2\n', expectedOutput: '3\n', isHidden: false },
+    { input: '5 5\n', expectedOutput: '10\n', isHidden: true },
+  ];
+
+  test('accepts a correct program and hides hidden cases', async (t) => {
+    if (!await sandboxAvailable) return t.skip('sandbox unavailable');
+
+    const code = 'const [a, b] = require("fs").readFileSync(0, "utf8").split(" ").map(Number); console.log(a + b);';
+    const result = await judgeSubmission('javascript', code, testCases);
+
+    assert.equal(result.verdict, 'accepted');
+    assert.equal(result.score, 100);
+    assert.equal(result.cases[0].actualOutput, '3\n');
+    assert.deepEqual(Object.keys(result.cases[1]).sort(), ['durationMs', 'hidden', 'index', 'verdict']);
+  });
+
+  test('the first failing case decides the verdict', async (t) => {
+    if (!await sandboxAvailable) return t.skip('sandbox unavailable');
+
+    const code = 'const [a, b] = require("fs").readFileSync(0, "utf8").split(" ").map(Number); if (a === b) throw new Error("same"); console.log(a * b);';
+    const result = await judgeSubmission('javascript', code, testCases);
+
+    assert.equal(result.verdict, 'wrong_answer');
+    assert.deepEqual(result.cases.map(entry => entry.verdict), ['wrong_answer', 'runtime_error']);
+    assert.deepEqual(result.cases[0].diff, [{ line: 1, expected: '3', actual: '2' }]);
+    assert.equal(result.passed, 0);
+  });
+
+  test('compile errors skip every case', async (t) => {
+    if (!await sandboxAvailable) return t.skip('sandbox unavailable');
+
+    const result = await judgeSubmission('typescript', 'const x: number = ;', testCases);
+
+    assert.equal(result.verdict, 'compile_error');
+    assert.match(result.compileOutput || '', /main\.ts\(1,19\): error TS/);
+    assert.deepEqual(result.cases, []);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Test-case judge for coding questions
+ *
+ * Runs a submission against a question's stdin/stdout test cases and grades
+ * each case. Output is compared line by line, ignoring trailing whitespace and
+ * trailing blank lines. Hidden cases report only their verdict and runtime.
+ */
+
+import type { AttemptVerdict } from '@/lib/database/services/progressService';
+import { withProgram } from './sandbox';
+import type { ExecutionLanguage, ExecutionResult } from './languages';
+
+export type JudgeVerdict = Exclude<AttemptVerdict, 'attempted'>;
+
+export interface JudgeTestCase {
+  input: string;
+  expectedOutput: string;
+  isHidden: boolean | null;
+}
+
+export interface OutputDiffLine {
+  line: number; // 1-based
+  expected: string | null; // null when the output has extra lines
+  actual: string | null; // null when the output is missing lines
+}
+
+export interface JudgeCaseResult {
+  index: number;
+  hidden: boolean;
+  verdict: JudgeVerdict;
+  durationMs: number;
+  // Only filled in for visible cases
+  input?: string;
+  expectedOutput?: string;
+  actualOutput?: string;
+  stderr?: string;
+  diff?: OutputDiffLine[];
+}
+
+export interface JudgeResult {
+  verdict: JudgeVerdict;
+  passed: number;
+  total: number;
+  score: number; // percentage of cases passed
+  compileOutput: string | null;
+  stats: {
+    totalDurationMs: number;
+    maxDurationMs: number;
+    averageDurationMs: number;
+  };
+  cases: JudgeCaseResult[];
+}
+
+const CASE_TIME_LIMIT_MS = 2000;
+const MAX_DIFF_LINES = 20;
+
+function normalizeOutput(output: string): string[] {
+  const lines = output.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd());
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Lines where the actual output differs from the expected output
+ */
+export function diffOutput(expected: string, actual: string): OutputDiffLine[] {
+  const expectedLines = normalizeOutput(expected);
+  const actualLines = normalizeOutput(actual);
+  const diff: OutputDiffLine[] = [];
+
+  for (let i = 0; i < Math.max(expectedLines.length, actualLines.length) && diff.length < MAX_DIFF_LINES; i++) {
+    const expectedLine = expectedLines[i] ?? null;
+    const actualLine = actualLines[i] ?? null;
+    if (expectedLine !== actualLine) {
+      diff.push({ line: i + 1, expected: expectedLine, actual: actualLine });
+    }
+  }
+
+  return diff;
+}
+
+function gradeCase(result: ExecutionResult, expectedOutput: string): { verdict: JudgeVerdict; diff: OutputDiffLine[] } {
+  if (result.timedOut) return { verdict: 'time_limit_exceeded', diff: [] };
+  if (result.exitCode !== 0 || result.outputTruncated) return { verdict: 'runtime_error', diff: [] };
+
+  const diff = diffOutput(expectedOutput, result.stdout);
+  return { verdict: diff.length === 0 ? 'accepted' : 'wrong_answer', diff };
+}
+
+/**
+ * Run a submission against every test case, in order
+ *
+ * The overall verdict is the first failing case's verdict, or accepted when all pass.
+ */
+export async function judgeSubmission(
+  language: ExecutionLanguage,
+  code: string,
+  testCases: JudgeTestCase[]
+): Promise<JudgeResult> {
+  return withProgram(language, code, async (program) => {
+    // Nothing runs when the program doesn't compile
+    if (program.compileError !== null) {
+      return {
+        verdict: 'compile_error',
+        passed: 0,
+        total: testCases.length,
+        score: 0,
+        compileOutput: program.compileError,
+        stats: { totalDurationMs: 0, maxDurationMs: 0, averageDurationMs: 0 },
+        cases: [],
+      };
+    }
+
+    const cases: JudgeCaseResult[] = [];
+
+    for (const [index, testCase] of testCases.entries()) {
+      const result = await program.run(testCase.input, CASE_TIME_LIMIT_MS);
+      const { verdict, diff } = gradeCase(result, testCase.expectedOutput);
+
+      cases.push({
+        index,
+        hidden: !!testCase.isHidden,
+        verdict,
+        durationMs: result.durationMs,
+        ...(testCase.isHidden ? {} : {
+          input: testCase.input,
+          expectedOutput: testCase.expectedOutput,
+          actualOutput: result.stdout,
+          stderr: result.stderr,
+          diff,
+        }),
+      });
+    }
+
+    const passed = cases.filter(result => result.verdict === 'accepted').length;
+    const durations = cases.map(result => result.durationMs);
+    const totalDurationMs = durations.reduce((sum, duration) => sum + duration, 0);
+
+    return {
+      verdict: cases.find(result => result.verdict !== 'accepted')?.verdict ?? 'accepted',
+      passed,
+      total: testCases.length,
+      score: testCases.length > 0 ? Math.round((passed / testCases.length) * 1000) / 10 : 0,
+      compileOutput: null,
+      stats: {
+        totalDurationMs,
+        maxDurationMs: durations.length > 0 ? Math.max(...durations) : 0,
+        averageDurationMs: durations.length > 0 ? Math.round(totalDurationMs / durations.length) : 0,
+      },
+      cases,
+    };
+  });
+}
@@ -0,0 +1,28 @@
+/**
+ * Languages that can be run by the code execution sandbox
+ *
+ * Shared by the API route and the editor, so it must stay free of Node imports.
+ */
+
+export type ExecutionLanguage = 'javascript' | 'typescript' | 'python';
+
+export const EXECUTION_LANGUAGES: ExecutionLanguage[] = ['javascript', 'typescript', 'python'];
+
+export const MAX_EXECUTION_CODE_LENGTH = 100_000;
+export const MAX_EXECUTION_STDIN_LENGTH = 100_000;
+
+export function isExecutionLanguage(value: unknown): value is ExecutionLanguage {
+  return typeof value === 'string' && EXECUTION_LANGUAGES.includes(value as ExecutionLanguage);
+}
+
+export interface ExecutionResult {
+  language: ExecutionLanguage;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  compileError: boolean;
+  outputTruncated: boolean;
+  durationMs: number;
+}
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+import { getExecutionLimits, runCode } from './sandbox';
+
+const sandboxAvailable = runCode({ language: 'javascript', code: '' }).then(
+  () => true,
+  error => error.message !== 'Sandbox unavailable'
+);
+
+const pythonAvailable = runCode({ language: 'python', code: '' }).then(() => true, () => false);
+
+describe('runCode', () => {
+  test('runs a program with stdin and reports its exit code', async (t) => {
+    if (!await sandboxAvailable) return t.skip('sandbox unavailable');
+
+    const result = await runCode({
+      language: 'javascript',
+      code: 'process.stdout.write(require("fs").readFileSync(0, "utf8").toUpperCase()); process.exit(3);',
+      stdin: 'hello',
+    });
+
+    assert.equal(result.stdout, 'HELLO');
+    assert.equal(result.exitCode, 3);
+    assert.equal(result.timedOut, false);
+  });
+
+  test('python cannot see the app or write outside its directory', async (t) => {
+    if (!await pythonAvailable) return t.skip('python sandbox unavailable');
+
+    const appFile = path.resolve('package.json');
+    const code = [
+      'import os',
+      `print(os.path.exists(${JSON.stringify(appFile)}))`,
+      'try:',
+      '    open("/escape.txt", "w")',
+      'except OSError as error:',
+      '    print(type(error).__name__)',
+      'open("note.txt", "w").write("ok")',
+      'print(open("note.txt").read())',
+    ].join('\n');
+
+    const result = await runCode({ language: 'python', code });
+
+    assert.equal(result.stdout, 'False\nOSError\nok\n');
+    assert.equal(existsSync('/escape.txt'), false);
+  });
+
+  test('the time limit kills detached children too', async (t) => {
+    if (!await pythonAvailable) return t.skip('python sandbox unavailable');
+
+    const marker = `tayyari-sandbox-test-${process.pid}`;
+    const code = [
+      'import os, sys',
+      'if os.fork() == 0:',
+      '    os.setsid()',
+      `    os.execv(sys.executable, [sys.executable, "-c", "import time; time.sleep(30)", "${marker}"])`,
+      'else:',
+      '    import time; time.sleep(30)',
+    ].join('\n');
+
+    const result = await runCode({ language: 'python', code, timeLimitMs: 1000 });
+    await new Promise(resolve => setTimeout(resolve, 200)); // the namespace is torn down asynchronously
+
+    const survivors = readdirSync('/proc').filter(entry => {
+      try {
+        return /^\d+$/.test(entry) && readFileSync(`/proc/${entry}/cmdline`, 'utf8').includes(marker);
+      } catch {
+        return false; // exited while scanning
+      }
+    });
+
+    assert.equal(result.timedOut, true);
+    assert.deepEqual(survivors, []);
+  });
+
+  test('python is refused without the sandbox', async (t) => {
+    if (await sandboxAvailable) return t.skip('sandbox available');
+
+    await assert.rejects(
+      runCode({ language: 'python', code: 'print(1)' }, { ...getExecutionLimits(), isolation: 'off' }),
+      { message: 'Sandbox unavailable' }
+    );
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Local Code Execution Sandbox
+ *
+ * Runs user code in a short-lived subprocess inside a throwaway directory:
+ *   - the program runs in fresh user, mount, PID and network namespaces
+ *     (`unshare -rnmpf`); its root is a small tmpfs holding read-only binds of the
+ *     system and interpreter directories, so the app's files, the database and
+ *     the rest of the host filesystem are not visible, and only /work is writable
+ *   - it runs without capabilities, so it cannot remount or escape that root
+ *   - CPU time, data segment size, file size and process count are capped with `prlimit`
+ *   - a wall-clock timer kills the run; the PID namespace ends with it, which
+ *     takes down every descendant, including ones that called setsid
+ *   - the environment is rebuilt from scratch, so server secrets never leak in
+ *   - Node additionally runs under the permission model, which blocks child
+ *     processes and filesystem access outside the working directory
+ *
+ * Programs are syntax-checked before they run (TypeScript is transpiled, Python is
+ * byte-compiled), so compile errors are reported apart from runtime errors.
+ *
+ * Configuration (environment):
+ *   EXECUTION_TIME_LIMIT_MS       - wall-clock limit per run (default: 5000)
+ *   EXECUTION_MEMORY_LIMIT_MB     - memory limit per run (default: 256)
+ *   EXECUTION_OUTPUT_LIMIT_BYTES  - stdout/stderr kept per stream (default: 65536)
+ *   EXECUTION_PROCESS_LIMIT       - processes and threads per run (default: 64)
+ *   EXECUTION_MAX_CONCURRENT      - runs allowed at the same time (default: 2)
+ *   EXECUTION_ISOLATION           - 'required' (default) refuses to run when namespaces
+ *                                   are unavailable; 'off' runs JavaScript and TypeScript
+ *                                   without them. Python always needs the namespaces.
+ *   EXECUTION_PYTHON_BIN          - Python interpreter (default: python3)
+ */
+
+import { execFile, spawn } from 'child_process';
+import { mkdir, mkdtemp, realpath, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { Script } from 'vm';
+import type { ExecutionLanguage, ExecutionResult } from './languages';
+
+export interface ExecutionLimits {
+  timeLimitMs: number;
+  memoryLimitMb: number;
+  outputLimitBytes: number;
+  processLimit: number;
+  maxConcurrent: number;
+  isolation: 'required' | 'off';
+  pythonBin: string;
+}
+
+export interface ExecutionRequest {
+  language: ExecutionLanguage;
+  code: string;
+  stdin?: string;
+  timeLimitMs?: number;
+}
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read the sandbox limits from environment variables
+ */
+export function getExecutionLimits(env: NodeJS.ProcessEnv = process.env): ExecutionLimits {
+  return {
+    timeLimitMs: parsePositive(env.EXECUTION_TIME_LIMIT_MS, 5000),
+    memoryLimitMb: parsePositive(env.EXECUTION_MEMORY_LIMIT_MB, 256),
+    outputLimitBytes: parsePositive(env.EXECUTION_OUTPUT_LIMIT_BYTES, 64 * 1024),
+    processLimit: parsePositive(env.EXECUTION_PROCESS_LIMIT, 64),
+    maxConcurrent: parsePositive(env.EXECUTION_MAX_CONCURRENT, 2),
+    isolation: env.EXECUTION_ISOLATION === 'off' ? 'off' : 'required',
+    pythonBin: env.EXECUTION_PYTHON_BIN || 'python3',
+  };
+}
+
+// Host directories every sandbox can read: binaries and shared libraries
+const SYSTEM_PATHS = ['/usr', '/bin', '/lib', '/lib32', '/lib64', '/sbin'];
+
+// Where the run directory appears inside the sandbox
+const SANDBOX_WORK_DIR = '/work';
+
+const UNSHARE_ARGS = ['-rnmpf', '--kill-child'];
+
+/**
+ * Shell script that builds the sandbox root and runs the program in it. It starts
+ * as root of the new user namespace, so the mounts stay private to the run.
+ * Arguments: the run directory (holding `work/` and an empty `root/`), the host
+ * directories to expose read-only, `--`, then the command.
+ */
+const SANDBOX_SCRIPT = [
+  'set -e',
+  'root="$1/root"; work="$1/work"; shift',
+  'mount -t tmpfs -o size=1m,mode=755 sandbox "$root"',
+  'mkdir "$root/work" "$root/proc" "$root/dev" "$root/.old"',
+  'while [ "$1" != "--" ]; do',
+  '  if [ -L "$1" ]; then ln -s "$(readlink "$1")" "$root$1"',
+  '  elif [ -e "$1" ]; then mkdir -p "$root$1"; mount --rbind "$1" "$root$1"; mount -o remount,bind,ro "$root$1"; fi',
+  '  shift',
+  'done',
+  'shift',
+  'for device in null zero random urandom; do touch "$root/dev/$device"; mount --bind "/dev/$device" "$root/dev/$device"; done',
+  'mount --bind "$work" "$root/work"',
+  'mount -t proc proc "$root/proc"',
+  'mount -o remount,bind,ro "$root"',
+  'cd "$root"',
+  'pivot_root . .old',
+  'umount -l /.old',
+  `cd ${SANDBOX_WORK_DIR}`,
+  'exec setpriv --no-new-privs --inh-caps=-all --bounding-set=-all -- "$@"',
+].join('\n');
+
+/**
+ * Host directories to expose, without ones already inside another entry
+ * (the sandbox root is read-only, so nested mount points could not be created)
+ */
+function visiblePaths(interpreterPaths: string[]): string[] {
+  const paths: string[] = [];
+  for (const candidate of [...SYSTEM_PATHS, ...interpreterPaths]) {
+    if (!paths.some(existing => candidate === existing || candidate.startsWith(`${existing}/`))) {
+      paths.push(candidate);
+    }
+  }
+  return paths;
+}
+
+async function createRunDirectory(): Promise<string> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'tayyari-exec-'));
+  await mkdir(path.join(directory, 'work'));
+  await mkdir(path.join(directory, 'root'));
+  return directory;
+}
+
+let sandboxCheck: Promise<boolean> | null = null;
+
+/**
+ * Whether this host lets an unprivileged process build the sandbox
+ */
+function canIsolate(): Promise<boolean> {
+  if (!sandboxCheck) {
+    sandboxCheck = (async () => {
+      if (process.platform !== 'linux') return false;
+
+      const directory = await createRunDirectory();
+      try {
+        const args = [...UNSHARE_ARGS, '/bin/sh', '-c', SANDBOX_SCRIPT, 'sandbox', directory, ...SYSTEM_PATHS, '--', 'true'];
+        return await new Promise<boolean>(resolve => {
+          execFile('unshare', args, { timeout: 5000 }, error => resolve(!error));
+        });
+      } finally {
+        await rm(directory, { recursive: true, force: true }).catch(() => {});
+      }
+    })();
+  }
+  return sandboxCheck;
+}
+
+interface Interpreter {
+  executable: string;
+  directories: string[]; // installation directories the sandbox must expose
+}
+
+const pythonChecks = new Map<string, Promise<Interpreter>>();
+
+/**
+ * Find the real Python executable and installation behind the configured
+ * command, which may be a shim that does not work inside the sandbox
+ */
+function resolvePython(pythonBin: string): Promise<Interpreter> {
+  let check = pythonChecks.get(pythonBin);
+  if (!check) {
+    const script = 'import sys; print(sys.executable); print(sys.prefix); print(sys.base_prefix)';
+    check = new Promise<string>((resolve, reject) => {
+      execFile(pythonBin, ['-I', '-c', script], { timeout: 5000 }, (error, stdout) => (error ? reject(error) : resolve(stdout)));
+    }).then(async stdout => {
+      const [executable, ...prefixes] = stdout.trim().split('\n');
+      return { executable, directories: await Promise.all(prefixes.map(prefix => realpath(prefix))) };
+    });
+    check.catch(() => pythonChecks.delete(pythonBin));
+    pythonChecks.set(pythonBin, check);
+  }
+  return check;
+}
+
+async function resolveInterpreter(language: ExecutionLanguage, limits: ExecutionLimits): Promise<Interpreter> {
+  if (language === 'python') {
+    return resolvePython(limits.pythonBin);
+  }
+  const executable = await realpath(process.execPath);
+  return { executable, directories: [path.dirname(path.dirname(executable))] };
+}
+
+/**
+ * Strip TypeScript types, returning JavaScript or the syntax errors
+ */
+function transpileTypeScript(code: string): { output: string; errors: string[] } {
+  const result = ts.transpileModule(code, {
+    fileName: 'main.ts',
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+    },
+  });
+
+  const errors = (result.diagnostics || [])
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      if (!diagnostic.file || diagnostic.start === undefined) return message;
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return `main.ts(${line + 1},${character + 1}): error TS${diagnostic.code}: ${message}`;
+    });
+
+  return { output: result.outputText, errors };
+}
+
+const MODULE_WRAPPER = '(function (exports, require, module, __filename, __dirname) { ';
+
+/**
+ * Parse JavaScript without running it, the same way Node wraps a CommonJS module
+ */
+function checkJavaScriptSyntax(code: string): string | null {
+  try {
+    new Script(`${MODULE_WRAPPER}${code}\n})`, { filename: 'main.js' });
+    return null;
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) return null;
+
+    // Stack starts "main.js:<line>", the source line, then a caret; drop the wrapper from the first source line
+    const lines = (error.stack || `SyntaxError: ${error.message}`).split('\n    at ')[0].trim().split('\n');
+    if (lines[1]?.startsWith(MODULE_WRAPPER)) {
+      lines[1] = lines[1].slice(MODULE_WRAPPER.length);
+      lines[2] = lines[2]?.slice(MODULE_WRAPPER.length) ?? '';
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Command line for running the program file in the working directory
+ */
+function buildCommand(language: ExecutionLanguage, workDir: string, interpreter: string, limits: ExecutionLimits): string[] {
+  if (language === 'python') {
+    return [interpreter, '-I', '-B', 'main.py'];
+  }
+
+  const args = [interpreter, `--max-old-space-size=${limits.memoryLimitMb}`, '--no-warnings'];
+  if (process.allowedNodeEnvironmentFlags.has('--experimental-permission')) {
+    args.push('--experimental-permission', `--allow-fs-read=${workDir}${path.sep}`);
+  }
+  args.push('main.js');
+  return args;
+}
+
+function emptyResult(language: ExecutionLanguage): ExecutionResult {
+  return {
+    language,
+    stdout: '',
+    stderr: '',
+    exitCode: null,
+    signal: null,
+    timedOut: false,
+    compileError: false,
+    outputTruncated: false,
+    durationMs: 0,
+  };
+}
+
+interface SpawnOptions {
+  language: ExecutionLanguage;
+  directory: string;
+  stdin: string;
+  timeLimitMs: number;
+  isolated: boolean;
+  mounts: string[];
+  limits: ExecutionLimits;
+}
+
+/**
+ * Run one command under the resource limits and collect its output
+ */
+function spawnSandboxed(command: string[], options: SpawnOptions): Promise<ExecutionResult> {
+  const { directory, limits, timeLimitMs } = options;
+
+  const cpuSeconds = Math.ceil(timeLimitMs / 1000) + 1;
+  const fileSizeBytes = 2 * 1024 * 1024;
+
+  const workDir = options.isolated ? SANDBOX_WORK_DIR : path.join(directory, 'work');
+  const [file, ...args] = options.isolated
+    ? [
+        'unshare', ...UNSHARE_ARGS, '/bin/sh', '-c', SANDBOX_SCRIPT, 'sandbox', directory, ...options.mounts, '--',
+        'prlimit',
+        `--cpu=${cpuSeconds}`,
+        `--data=${limits.memoryLimitMb * 1024 * 1024}`,
+        `--nproc=${limits.processLimit}`,
+        `--fsize=${fileSizeBytes}`,
+        '--core=0',
+        '--',
+        ...command,
+      ]
+    : [
+        // Only Node runs here, and its permission model already blocks child processes
+        '/bin/sh', '-c',
+        [
+          `ulimit -t ${cpuSeconds}`,
+          `ulimit -d ${limits.memoryLimitMb * 1024}`,
+          `ulimit -f ${fileSizeBytes / 1024}`,
+          'ulimit -c 0',
+          'exec "$@"',
+        ].join(' && '),
+        'sandbox', ...command,
+      ];
+
+  // Built from scratch so none of the server's variables reach the program
+  const env: NodeJS.ProcessEnv = {
+    NODE_ENV: 'production',
+    PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+    HOME: workDir,
+    TMPDIR: workDir,
+    LANG: 'C.UTF-8',
+    PYTHONIOENCODING: 'utf-8',
+  };
+
+  return new Promise<ExecutionResult>((resolve, reject) => {
+    const startedAt = process.hrtime.bigint();
+    const child = spawn(file, args, {
+      cwd: path.join(directory, 'work'),
+      detached: true, // own process group; killing it also ends the PID namespace
+      env,
+    });
+
+    const result = emptyResult(options.language);
+    const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+    const sizes = { stdout: 0, stderr: 0 };
+
+    const killGroup = () => {
+      if (child.pid === undefined) return;
+      try {
+        process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    };
+
+    const timer = setTimeout(() => {
+      result.timedOut = true;
+      killGroup();
+    }, timeLimitMs);
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      const remaining = limits.outputLimitBytes - sizes[stream];
+      if (remaining > 0) {
+        output[stream].push(chunk.subarray(0, remaining));
+      }
+      sizes[stream] += chunk.length;
+      if (sizes[stream] > limits.outputLimitBytes && !result.outputTruncated) {
+        result.outputTruncated = true;
+        killGroup();
+      }
+    };
+
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    // The program may exit without reading its input
+    child.stdin.on('error', () => {});
+    child.stdin.end(options.stdin);
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      resolve({
+        ...result,
+        stdout: Buffer.concat(output.stdout).toString('utf8'),
+        stderr: Buffer.concat(output.stderr).toString('utf8'),
+        exitCode,
+        signal,
+        durationMs: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e6),
+      });
+    });
+  });
+}
+
+export interface SandboxProgram {
+  language: ExecutionLanguage;
+  compileError: string | null;
+  run(stdin?: string, timeLimitMs?: number): Promise<ExecutionResult>;
+}
+
+let runningCount = 0;
+
+/**
+ * Compile a program once and hand it to `use`, which may run it against any
+ * number of inputs. The program holds one execution slot until `use` settles.
+ */
+export async function withProgram<T>(
+  language: ExecutionLanguage,
+  code: string,
+  use: (program: SandboxProgram) => Promise<T>,
+  limits: ExecutionLimits = getExecutionLimits()
+): Promise<T> {
+  const isolated = await canIsolate();
+  if (!isolated && (limits.isolation === 'required' || language === 'python')) {
+    throw new Error('Sandbox unavailable');
+  }
+
+  if (runningCount >= limits.maxConcurrent) {
+    throw new Error('Execution capacity reached');
+  }
+
+  runningCount++;
+  let directory: string | null = null;
+
+  try {
+    const interpreter = await resolveInterpreter(language, limits);
+    directory = await createRunDirectory();
+    const workDir = isolated ? SANDBOX_WORK_DIR : path.join(directory, 'work');
+    const spawnOptions = {
+      language,
+      directory,
+      stdin: '',
+      timeLimitMs: limits.timeLimitMs,
+      isolated,
+      mounts: visiblePaths(interpreter.directories),
+      limits,
+    };
+
+    let source = code;
+    let compileError: string | null = null;
+    if (language === 'typescript') {
+      const { output, errors } = transpileTypeScript(code);
+      source = output;
+      compileError = errors.length > 0 ? errors.join('\n') : null;
+    } else if (language === 'javascript') {
+      compileError = checkJavaScriptSyntax(code);
+    }
+
+    await writeFile(path.join(directory, 'work', language === 'python' ? 'main.py' : 'main.js'), source);
+
+    if (language === 'python') {
+      const check = await spawnSandboxed([interpreter.executable, '-I', '-m', 'py_compile', 'main.py'], spawnOptions);
+      if (check.exitCode !== 0) {
+        compileError = check.stderr.trim() || 'Compilation failed';
+      }
+    }
+
+    const command = buildCommand(language, workDir, interpreter.executable, limits);
+
+    return await use({
+      language,
+      compileError,
+      run: async (stdin = '', timeLimitMs = limits.timeLimitMs) => {
+        if (compileError !== null) {
+          return { ...emptyResult(language), stderr: compileError, compileError: true };
+        }
+        return spawnSandboxed(command, {
+          ...spawnOptions,
+          stdin,
+          timeLimitMs: Math.min(timeLimitMs, limits.timeLimitMs),
+        });
+      },
+    });
+  } finally {
+    runningCount--;
+    if (directory) {
+      await rm(directory, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Run a program once in the sandbox and collect its output
+ */
+export function runCode(request: ExecutionRequest, limits: ExecutionLimits = getExecutionLimits()): Promise<ExecutionResult> {
+  return withProgram(request.language, request.code, program => program.run(request.stdin, request.timeLimitMs), limits);
+}
@@ -0,0 +1,19 @@
+/**
+ * CSV encoding (RFC 4180) for data exports
+ */
+
+import type { ExportRecord } from './manifest';
+
+function escapeCsvValue(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: Array<string | number | boolean | null>): string {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`;
+}
+
+export function toCsvRecordLine(columns: string[], record: ExportRecord): string {
+  return toCsvLine(columns.map(column => record[column] ?? null));
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { describeImportReport, IMPORT_TABLES, type ImportReport, type ImportTableReport } from './import';
+import { EXPORT_TABLES } from './manifest';
+
+function report(counts: Partial<Record<string, Partial<ImportTableReport>>>): ImportReport {
+  const empty = { incoming: 0, inserted: 0, existing: 0, remapped: 0, skipped: 0, deleted: 0 };
+  return {
+    mode: 'merge',
+    dryRun: true,
+    schemaVersion: 2,
+    exportedAt: '2026-05-01T12:00:00.000Z',
+    tables: Object.fromEntries(IMPORT_TABLES.map(table => [table, { ...empty, ...counts[table] }])) as ImportReport['tables'],
+  };
+}
+
+describe('IMPORT_TABLES', () => {
+  test('leaves out the account row and derived progress', () => {
+    const tables: string[] = IMPORT_TABLES;
+    assert.ok(!tables.includes('users') && !tables.includes('user_progress'));
+    assert.equal(IMPORT_TABLES.length, EXPORT_TABLES.length - 2);
+  });
+});
+
+describe('describeImportReport', () => {
+  test('lists added rows per table', () => {
+    const summary = describeImportReport(report({
+      conversations: { inserted: 2 },
+      messages: { inserted: 120 },
+      study_sessions: { existing: 3 },
+    }));
+
+    assert.equal(summary, 'adds 2 conversations, 120 messages; keeps 3 rows already here');
+  });
+
+  test('mentions deleted and skipped rows', () => {
+    const summary = describeImportReport(report({
+      study_sessions: { deleted: 4, skipped: 1 },
+    }));
+
+    assert.equal(summary, 'adds nothing; removes 4 existing rows; skips 1 rows that cannot be restored');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Data import options and reports
+ *
+ * An import restores a Tayyari export into the signed-in account. Category
+ * progress is not imported; it is rebuilt from the imported attempts.
+ */
+
+import { EXPORT_TABLES, type ExportTable } from './manifest';
+
+export type ImportMode = 'merge' | 'replace';
+
+export const IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  merge: 'Merge',
+  replace: 'Replace',
+};
+
+export const IMPORT_MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  merge: 'Add the rows this account does not have yet and keep existing ones',
+  replace: 'Delete this account\'s rows in every table the export contains, then restore the export',
+};
+
+export const IMPORT_TABLES = EXPORT_TABLES.filter(
+  (table): table is Exclude<ExportTable, 'users' | 'user_progress'> => table !== 'users' && table !== 'user_progress'
+);
+
+export type ImportTable = typeof IMPORT_TABLES[number];
+
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+export interface ImportTableReport {
+  incoming: number; // rows in the export
+  inserted: number;
+  existing: number; // already in this account, kept as they are
+  remapped: number; // inserted under a new ID because the old one belongs to another account
+  skipped: number; // left out, e.g. open study sessions or attempts at questions missing from the bank
+  deleted: number; // removed from this account first (replace mode)
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  schemaVersion: number;
+  exportedAt: string;
+  tables: Record<ImportTable, ImportTableReport>;
+}
+
+// Human-readable summary such as "120 messages added, 3 study sessions kept"
+export function describeImportReport(report: ImportReport): string {
+  const added = Object.entries(report.tables)
+    .filter(([, counts]) => counts.inserted > 0)
+    .map(([table, counts]) => `${counts.inserted} ${table.replace(/_/g, ' ')}`);
+  const existing = Object.values(report.tables).reduce((sum, counts) => sum + counts.existing, 0);
+  const deleted = Object.values(report.tables).reduce((sum, counts) => sum + counts.deleted, 0);
+  const skipped = Object.values(report.tables).reduce((sum, counts) => sum + counts.skipped, 0);
+
+  const parts = [added.length > 0 ? `adds ${added.join(', ')}` : 'adds nothing'];
+  if (deleted > 0) parts.push(`removes ${deleted} existing rows`);
+  if (existing > 0) parts.push(`keeps ${existing} rows already here`);
+  if (skipped > 0) parts.push(`skips ${skipped} rows that cannot be restored`);
+  return parts.join('; ');
+}
@@ -0,0 +1,71 @@
+/**
+ * Data export format
+ *
+ * Every export carries EXPORT_SCHEMA_VERSION and a manifest listing each table
+ * with its row count and the sha256 of its rows. Bump the version whenever an
+ * exported column is added, removed or changes meaning.
+ */
+
+export const EXPORT_FORMAT = 'tayyari-export';
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export type ExportFormat = 'json' | 'csv' | 'archive';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'archive'];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV (zip)',
+  archive: 'Archive (zip)',
+};
+
+// User-owned tables, parents before children so they can be inserted in this order
+export const EXPORT_TABLES = [
+  'users',
+  'user_settings',
+  'user_progress',
+  'study_sessions',
+  'conversations',
+  'messages',
+  'message_bookmarks',
+  'message_reactions',
+  'question_attempts',
+  'mock_interviews',
+  'roadmaps',
+  'roadmap_phases',
+  'roadmap_tasks',
+  'roadmap_revisions',
+  'review_cards',
+] as const;
+
+export type ExportTable = typeof EXPORT_TABLES[number];
+
+// Tables included in the progress-only export
+export const PROGRESS_EXPORT_TABLES: ExportTable[] = [
+  'user_progress',
+  'study_sessions',
+  'question_attempts',
+];
+
+// A row keyed by SQL column name
+export type ExportRecord = Record<string, string | number | boolean | null>;
+
+export interface ExportManifestEntry {
+  table: ExportTable;
+  file: string | null; // path inside a zip export, null for JSON
+  rows: number;
+  sha256: string; // of the table's rows as JSON lines, or of the CSV file
+}
+
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  userId: string;
+  tables: ExportManifestEntry[];
+}
+
+// One JSON line per row; the JSON and archive checksums are taken over these bytes
+export function toJsonLine(record: ExportRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
@@ -0,0 +1,190 @@
+/**
+ * Zip archives for data export and import
+ *
+ * The writer deflates entries as their data arrives and writes sizes in data
+ * descriptors, so nothing has to be buffered. The reader works on an archive
+ * held in memory. Zip64 is not supported, which limits an archive to 4 GB.
+ */
+
+import { Readable, pipeline } from 'node:stream';
+import { createDeflateRaw, inflateRawSync } from 'node:zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: AsyncIterable<Uint8Array>;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, bytes: Uint8Array): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+const FLAGS = 0x0808; // sizes in data descriptor, UTF-8 names
+const DEFLATE = 8;
+const VERSION = 20;
+
+export async function* createZip(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>, modified: Date = new Date()): AsyncGenerator<Uint8Array> {
+  const { time, date } = dosDateTime(modified);
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const headerOffset = offset;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(FLAGS, 6);
+    local.writeUInt16LE(DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt16LE(name.length, 26);
+    yield local;
+    yield name;
+    offset += local.length + name.length;
+
+    let crc = 0;
+    let size = 0;
+    async function* measured() {
+      for await (const chunk of entry.data) {
+        crc = updateCrc32(crc, chunk);
+        size += chunk.length;
+        yield chunk;
+      }
+    }
+
+    const deflate = createDeflateRaw();
+    pipeline(Readable.from(measured()), deflate, () => {});
+    let compressedSize = 0;
+    for await (const chunk of deflate) {
+      compressedSize += chunk.length;
+      yield chunk;
+    }
+    offset += compressedSize;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    yield descriptor;
+    offset += descriptor.length;
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(VERSION, 6);
+    header.writeUInt16LE(FLAGS, 8);
+    header.writeUInt16LE(DEFLATE, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(compressedSize, 20);
+    header.writeUInt32LE(size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(headerOffset, 42);
+    central.push(header, name);
+  }
+
+  const directory = Buffer.concat(central);
+  yield directory;
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield end;
+}
+
+// Read every file in an archive, checking sizes and CRCs; `maxBytes` caps the total uncompressed size
+export function readZip(archive: Buffer, maxBytes: number): Map<string, Buffer> {
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Invalid zip archive');
+  }
+
+  const count = archive.readUInt16LE(end + 10);
+  let pointer = archive.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let total = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (pointer + 46 > archive.length || archive.readUInt32LE(pointer) !== 0x02014b50) {
+      throw new Error('Invalid zip archive');
+    }
+    const method = archive.readUInt16LE(pointer + 10);
+    const crc = archive.readUInt32LE(pointer + 16);
+    const compressedSize = archive.readUInt32LE(pointer + 20);
+    const size = archive.readUInt32LE(pointer + 24);
+    const nameLength = archive.readUInt16LE(pointer + 28);
+    const extraLength = archive.readUInt16LE(pointer + 30);
+    const commentLength = archive.readUInt16LE(pointer + 32);
+    const headerOffset = archive.readUInt32LE(pointer + 42);
+    const name = archive.toString('utf8', pointer + 46, pointer + 46 + nameLength);
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    total += size;
+    if (total > maxBytes) {
+      throw new Error('Zip archive is too large');
+    }
+    if (headerOffset + 30 > archive.length || archive.readUInt32LE(headerOffset) !== 0x04034b50) {
+      throw new Error('Invalid zip archive');
+    }
+
+    const start = headerOffset + 30 + archive.readUInt16LE(headerOffset + 26) + archive.readUInt16LE(headerOffset + 28);
+    const raw = archive.subarray(start, start + compressedSize);
+    let data: Buffer;
+    if (method === 0) {
+      data = raw;
+    } else if (method === DEFLATE) {
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new Error(`Corrupt zip entry: ${name}`);
+      }
+    } else {
+      throw new Error(`Unsupported zip compression in ${name}`);
+    }
+
+    if (data.length !== size || updateCrc32(0, data) !== crc) {
+      throw new Error(`Corrupt zip entry: ${name}`);
+    }
+    if (!name.endsWith('/')) {
+      files.set(name, data);
+    }
+  }
+
+  return files;
+}
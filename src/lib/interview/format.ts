@@ -0,0 +1,34 @@
+/**
+ * API shapes for mock interview rows
+ */
+
+import type { MockInterview, Question } from '@/lib/database/schema';
+import { safeJsonParse } from '@/lib/database/utils';
+import { getPhaseEndsAt, type PhaseRecord, type Scorecard } from './mock';
+
+export function toMockInterviewResponse(interview: MockInterview, question: Question | null = null) {
+  const phases = safeJsonParse<PhaseRecord[]>(interview.phases, []);
+
+  return {
+    id: interview.id,
+    interviewType: interview.interviewType,
+    status: interview.status,
+    currentPhase: interview.currentPhase,
+    phases,
+    phaseEndsAt: interview.status === 'in_progress' ? getPhaseEndsAt(phases) : null,
+    conversationId: interview.conversationId,
+    question: question && {
+      id: question.id,
+      title: question.title,
+      category: question.category,
+      difficulty: question.difficulty,
+    },
+    scorecard: safeJsonParse<Scorecard | null>(interview.scorecard, null),
+    overallScore: interview.overallScore,
+    studySessionId: interview.studySessionId,
+    startedAt: interview.startedAt,
+    completedAt: interview.completedAt,
+  };
+}
+
+export type MockInterviewResponse = ReturnType<typeof toMockInterviewResponse>;
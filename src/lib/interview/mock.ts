@@ -0,0 +1,188 @@
+/**
+ * Mock interview format: phases, time boxes and the scoring rubric
+ *
+ * An interview moves through fixed phases in order. Each phase has a time box;
+ * the client counts down and advances, and the interviewer persona is told how
+ * much time is left so it can steer the conversation.
+ */
+
+import type { InterviewTypeKey } from '@/data/onboarding';
+import type { QuestionCategory } from '@/lib/questions/pack';
+
+export type MockInterviewPhase = 'intro' | 'problem' | 'follow_ups' | 'wrap_up';
+export type MockInterviewStatus = 'in_progress' | 'completed' | 'abandoned';
+
+export const MOCK_INTERVIEW_PHASES: MockInterviewPhase[] = ['intro', 'problem', 'follow_ups', 'wrap_up'];
+
+export const PHASE_LABELS: Record<MockInterviewPhase, string> = {
+  intro: 'Introduction',
+  problem: 'Problem',
+  follow_ups: 'Follow-ups',
+  wrap_up: 'Wrap-up',
+};
+
+// Minutes per phase for each interview type
+const PHASE_MINUTES: Record<InterviewTypeKey, Record<MockInterviewPhase, number>> = {
+  dsa: { intro: 5, problem: 30, follow_ups: 10, wrap_up: 5 },
+  system: { intro: 5, problem: 35, follow_ups: 10, wrap_up: 5 },
+  behavioral: { intro: 5, problem: 20, follow_ups: 15, wrap_up: 5 },
+  full: { intro: 5, problem: 35, follow_ups: 15, wrap_up: 5 },
+};
+
+// Question bank category used for the problem phase; a full interview leads with coding
+export const PROBLEM_CATEGORY: Record<InterviewTypeKey, QuestionCategory> = {
+  dsa: 'dsa',
+  system: 'system',
+  behavioral: 'behavioral',
+  full: 'dsa',
+};
+
+export interface PhaseRecord {
+  phase: MockInterviewPhase;
+  plannedMinutes: number;
+  startedAt: string | null; // ISO timestamp
+  endedAt: string | null;
+}
+
+export interface RubricScore {
+  score: number | null; // 1-5, null when the criterion did not apply
+  notes: string;
+}
+
+export interface Scorecard {
+  problemSolving: RubricScore;
+  communication: RubricScore;
+  codeQuality: RubricScore;
+  summary: string;
+  strengths: string[];
+  improvements: string[];
+}
+
+export const RUBRIC_CRITERIA: Array<{ key: 'problemSolving' | 'communication' | 'codeQuality'; label: string; description: string }> = [
+  {
+    key: 'problemSolving',
+    label: 'Problem Solving',
+    description: 'Clarifies requirements, finds a working approach, reasons about trade-offs and complexity',
+  },
+  {
+    key: 'communication',
+    label: 'Communication',
+    description: 'Thinks aloud, explains decisions clearly, responds well to hints and follow-ups',
+  },
+  {
+    key: 'codeQuality',
+    label: 'Code Quality',
+    description: 'Correct, readable, well-structured code with edge cases handled (design clarity for non-coding rounds)',
+  },
+];
+
+/**
+ * Phase records for a new interview, with the first phase already running
+ */
+export function buildPhasePlan(type: InterviewTypeKey, startedAt: string): PhaseRecord[] {
+  return MOCK_INTERVIEW_PHASES.map((phase, index) => ({
+    phase,
+    plannedMinutes: PHASE_MINUTES[type][phase],
+    startedAt: index === 0 ? startedAt : null,
+    endedAt: null,
+  }));
+}
+
+/**
+ * When the running phase's time box ends, or null if no phase is running
+ */
+export function getPhaseEndsAt(phases: PhaseRecord[]): string | null {
+  const current = phases.find(record => record.startedAt && !record.endedAt);
+  if (!current?.startedAt) return null;
+  return new Date(new Date(current.startedAt).getTime() + current.plannedMinutes * 60_000).toISOString();
+}
+
+/**
+ * Overall score as a percentage, averaged over the criteria that applied
+ */
+export function scoreScorecard(scorecard: Scorecard): number {
+  const scores = RUBRIC_CRITERIA
+    .map(criterion => scorecard[criterion.key].score)
+    .filter((score): score is number => score !== null);
+
+  if (scores.length === 0) return 0;
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  return Math.round((average / 5) * 1000) / 10;
+}
+
+function parseRubricScore(value: unknown): RubricScore {
+  const entry = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const score = typeof entry.score === 'number' && Number.isFinite(entry.score)
+    ? Math.min(5, Math.max(1, Math.round(entry.score)))
+    : null;
+  return { score, notes: typeof entry.notes === 'string' ? entry.notes.trim() : '' };
+}
+
+function parseStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+    : [];
+}
+
+/**
+ * Parse the grader's reply, which should contain a single JSON object
+ */
+export function parseScorecard(reply: string): Scorecard | null {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const scorecard: Scorecard = {
+    problemSolving: parseRubricScore(raw.problemSolving),
+    communication: parseRubricScore(raw.communication),
+    codeQuality: parseRubricScore(raw.codeQuality),
+    summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+    strengths: parseStringList(raw.strengths),
+    improvements: parseStringList(raw.improvements),
+  };
+
+  // A grade without the core criteria is not usable
+  if (scorecard.problemSolving.score === null || scorecard.communication.score === null) {
+    return null;
+  }
+
+  return scorecard;
+}
+
+/**
+ * The interviewer's first message, posted when the interview starts
+ */
+export function buildOpeningMessage(candidateName: string, typeLabel: string, phases: PhaseRecord[]): string {
+  const totalMinutes = phases.reduce((sum, record) => sum + record.plannedMinutes, 0);
+  return [
+    `Hi ${candidateName}, thanks for joining! I'll be your interviewer for this ${typeLabel} round.`,
+    `We have about ${totalMinutes} minutes: a quick introduction, then the main problem, some follow-up questions, and time for your questions at the end.`,
+    '',
+    'To start, could you briefly walk me through your background?',
+  ].join('\n');
+}
+
+/**
+ * The interviewer's message when a new phase begins
+ */
+export function buildTransitionMessage(phase: MockInterviewPhase, question: { title: string; prompt: string } | null): string {
+  switch (phase) {
+    case 'problem':
+      return question
+        ? `Thanks! Let's move on to the problem.\n\n**${question.title}**\n\n${question.prompt}\n\nTake a moment to read it, and feel free to ask clarifying questions before you start.`
+        : "Thanks! Let's move on to the main problem. Let me know when you're ready and I'll share it.";
+    case 'follow_ups':
+      return "Let's go a little deeper with some follow-up questions. Before I start, is there anything you'd like to add to or change in your answer?";
+    case 'wrap_up':
+      return "We're almost out of time. Do you have any questions for me?";
+    default:
+      return '';
+  }
+}
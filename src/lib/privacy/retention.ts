@@ -0,0 +1,40 @@
+/**
+ * Data retention windows
+ *
+ * Conversations, messages and study sessions last active before a user's
+ * window are purged by the retention job (npm run db:purge-retention).
+ */
+
+export type DataRetention = '1year' | '2years' | '5years' | 'forever';
+
+export const DATA_RETENTION_OPTIONS: DataRetention[] = ['1year', '2years', '5years', 'forever'];
+
+export const DEFAULT_DATA_RETENTION: DataRetention = '2years';
+
+export const DATA_RETENTION_LABELS: Record<DataRetention, string> = {
+  '1year': '1 Year',
+  '2years': '2 Years',
+  '5years': '5 Years',
+  forever: 'Until I delete my account',
+};
+
+const RETENTION_YEARS: Record<DataRetention, number | null> = {
+  '1year': 1,
+  '2years': 2,
+  '5years': 5,
+  forever: null,
+};
+
+export function isDataRetention(value: unknown): value is DataRetention {
+  return DATA_RETENTION_OPTIONS.includes(value as DataRetention);
+}
+
+// Oldest moment data is kept from, or null when it is kept forever. Unknown values fall back to the default.
+export function getRetentionCutoff(retention: string | null | undefined, now: Date = new Date()): Date | null {
+  const years = RETENTION_YEARS[isDataRetention(retention) ? retention : DEFAULT_DATA_RETENTION];
+  if (years === null) return null;
+
+  const cutoff = new Date(now);
+  cutoff.setUTCFullYear(cutoff.getUTCFullYear() - years);
+  return cutoff;
+}
@@ -0,0 +1,21 @@
+/**
+ * API shapes for progress resets
+ */
+
+import type { ProgressReset } from '@/lib/database/schema';
+import { safeJsonParse } from '@/lib/database/utils';
+import type { ResetCounts } from './reset';
+
+export function toProgressResetResponse(reset: ProgressReset) {
+  return {
+    id: reset.id,
+    scope: reset.scope,
+    category: reset.category,
+    counts: safeJsonParse<ResetCounts | null>(reset.counts, null),
+    createdAt: reset.createdAt,
+    expiresAt: reset.expiresAt,
+    undoneAt: reset.undoneAt,
+  };
+}
+
+export type ProgressResetResponse = ReturnType<typeof toProgressResetResponse>;
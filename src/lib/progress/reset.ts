@@ -0,0 +1,63 @@
+/**
+ * Progress reset scopes
+ *
+ * A reset deletes one slice of the user's data and keeps a snapshot of it for
+ * RESET_UNDO_HOURS so it can be restored.
+ */
+
+export type ResetScope = 'all' | 'category' | 'sessions' | 'chat';
+
+export const RESET_SCOPES: ResetScope[] = ['all', 'category', 'sessions', 'chat'];
+
+export const RESET_SCOPE_LABELS: Record<ResetScope, string> = {
+  all: 'All progress',
+  category: 'One category',
+  sessions: 'Study sessions',
+  chat: 'Chat history',
+};
+
+export const RESET_SCOPE_DESCRIPTIONS: Record<ResetScope, string> = {
+  all: 'Question attempts, category progress, study sessions, review cards, mock interviews, study hours and streaks',
+  category: 'Attempts, progress, study sessions, review cards and mock interviews for one category',
+  sessions: 'Every logged study session and the study hours and streak built from them',
+  chat: 'All conversations and their messages',
+};
+
+// Question categories a category reset can target
+export const RESET_CATEGORIES: Record<string, string> = {
+  dsa: 'DSA',
+  system: 'System Design',
+  behavioral: 'Behavioral',
+};
+
+export const RESET_UNDO_HOURS = 24;
+
+// Rows deleted per table
+export interface ResetCounts {
+  progress: number;
+  attempts: number;
+  studySessions: number;
+  reviewCards: number;
+  mockInterviews: number;
+  conversations: number;
+  messages: number;
+}
+
+const COUNT_LABELS: Record<keyof ResetCounts, string> = {
+  progress: 'category progress rows',
+  attempts: 'question attempts',
+  studySessions: 'study sessions',
+  reviewCards: 'review cards',
+  mockInterviews: 'mock interviews',
+  conversations: 'conversations',
+  messages: 'messages',
+};
+
+// Human-readable summary such as "12 question attempts, 3 study sessions"
+export function describeResetCounts(counts: ResetCounts): string {
+  const parts = (Object.keys(COUNT_LABELS) as Array<keyof ResetCounts>)
+    .filter(key => counts[key] > 0)
+    .map(key => `${counts[key]} ${COUNT_LABELS[key]}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'nothing';
+}
@@ -0,0 +1,59 @@
+/**
+ * API shapes for question bank rows
+ */
+
+import type { QuestionWithCompanies } from '@/lib/database/services/questionService';
+import type { QuestionTestCase } from '@/lib/database/schema';
+import type { ReferenceSolution } from './pack';
+
+function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List view: no prompt body, hints or solutions
+ */
+export function toQuestionSummary(question: QuestionWithCompanies) {
+  return {
+    id: question.id,
+    slug: question.slug,
+    title: question.title,
+    category: question.category,
+    subcategory: question.subcategory,
+    difficulty: question.difficulty,
+    tags: parseJsonArray<string>(question.tags),
+    companies: question.companies.map(company => ({
+      name: company.company,
+      frequency: company.frequency,
+    })),
+    hintCount: parseJsonArray<string>(question.hints).length,
+  };
+}
+
+/**
+ * Detail view; reference solutions are opt-in so they aren't spoiled by default,
+ * and hidden test cases are only counted
+ */
+export function toQuestionDetail(
+  question: QuestionWithCompanies,
+  includeSolutions: boolean = false,
+  testCases: QuestionTestCase[] = []
+) {
+  return {
+    ...toQuestionSummary(question),
+    prompt: question.prompt,
+    hints: parseJsonArray<string>(question.hints),
+    solutions: includeSolutions ? parseJsonArray<ReferenceSolution>(question.solutions) : undefined,
+    testCases: testCases
+      .filter(testCase => !testCase.isHidden)
+      .map(testCase => ({ input: testCase.input, expectedOutput: testCase.expectedOutput })),
+    hiddenTestCaseCount: testCases.filter(testCase => testCase.isHidden).length,
+    source: question.source,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Problem pack format for the question bank
+ *
+ * A pack is a JSON or YAML document with a `questions` array (or a bare
+ * array). Entries are keyed by `slug`, so re-importing a pack updates
+ * questions in place instead of duplicating them.
+ *
+ * ```yaml
+ * name: core-dsa
+ * questions:
+ *   - slug: two-sum
+ *     title: Two Sum
+ *     category: dsa
+ *     subcategory: arrays
+ *     difficulty: easy
+ *     prompt: |
+ *       Given an array of integers...
+ *     tags: [hash-map]
+ *     companies:
+ *       - { name: Google, frequency: 12 }
+ *       - Amazon
+ *     hints: [Try a hash map]
+ *     solutions:
+ *       - language: python
+ *         code: ...
+ *     testCases:
+ *       - { input: "2 7 11 15\n9", output: "0 1" }
+ *       - { input: "3 3\n6", output: "0 1", hidden: true }
+ * ```
+ *
+ * Test cases are stdin/stdout pairs used by the judge; hidden cases never show
+ * their input or expected output to the user.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import type { InterviewTypeKey } from '@/data/onboarding';
+
+// 'full' is a mix of the others, so questions always belong to a concrete type
+export type QuestionCategory = Exclude<InterviewTypeKey, 'full'>;
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUESTION_CATEGORIES: QuestionCategory[] = ['dsa', 'system', 'behavioral'];
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+export interface ReferenceSolution {
+  language?: string;
+  code?: string;
+  explanation?: string;
+}
+
+export interface CompanyTag {
+  company: string;
+  frequency: number;
+  lastAskedAt?: string;
+}
+
+export interface PackTestCase {
+  input: string;
+  expectedOutput: string;
+  isHidden: boolean;
+}
+
+export interface QuestionPackEntry {
+  slug: string;
+  title: string;
+  prompt: string;
+  category: QuestionCategory;
+  subcategory?: string;
+  difficulty: QuestionDifficulty;
+  tags: string[];
+  hints: string[];
+  solutions: ReferenceSolution[];
+  companies: CompanyTag[];
+  testCases: PackTestCase[];
+}
+
+export interface ParsedQuestionPack {
+  name: string | null;
+  questions: QuestionPackEntry[];
+  errors: string[];
+}
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function asStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+}
+
+function parseCompanies(value: unknown): CompanyTag[] {
+  if (!Array.isArray(value)) return [];
+
+  const companies: CompanyTag[] = [];
+  for (const item of value) {
+    if (typeof item === 'string' && item.trim()) {
+      companies.push({ company: item.trim(), frequency: 1 });
+    } else if (item && typeof item === 'object') {
+      const { name, company, frequency, lastAskedAt } = item as Record<string, unknown>;
+      const label = typeof name === 'string' ? name : typeof company === 'string' ? company : '';
+      if (!label.trim()) continue;
+      companies.push({
+        company: label.trim(),
+        frequency: typeof frequency === 'number' && frequency > 0 ? Math.round(frequency) : 1,
+        lastAskedAt: typeof lastAskedAt === 'string' ? lastAskedAt : undefined,
+      });
+    }
+  }
+  return companies;
+}
+
+function parseSolutions(value: unknown): ReferenceSolution[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map(item => ({
+      language: typeof item.language === 'string' ? item.language : undefined,
+      code: typeof item.code === 'string' ? item.code : undefined,
+      explanation: typeof item.explanation === 'string' ? item.explanation : undefined,
+    }))
+    .filter(solution => solution.code || solution.explanation);
+}
+
+// YAML turns bare values like `42` into numbers, so accept those as text too
+function asText(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return null;
+}
+
+function parseTestCases(value: unknown): PackTestCase[] {
+  if (!Array.isArray(value)) return [];
+
+  const testCases: PackTestCase[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const { input, output, expected, hidden } = item as Record<string, unknown>;
+    const expectedOutput = asText(output ?? expected);
+    if (expectedOutput === null) continue;
+    testCases.push({
+      input: asText(input) ?? '',
+      expectedOutput,
+      isHidden: hidden === true,
+    });
+  }
+  return testCases;
+}
+
+/**
+ * Validate a single pack entry, returning the entry or an error message
+ */
+export function parseQuestionEntry(raw: unknown, index: number): QuestionPackEntry | string {
+  if (!raw || typeof raw !== 'object') {
+    return `Entry ${index}: expected an object`;
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const title = typeof entry.title === 'string' ? entry.title.trim() : '';
+  const label = title ? `"${title}"` : `Entry ${index}`;
+
+  if (!title) return `${label}: title is required`;
+  if (typeof entry.prompt !== 'string' || !entry.prompt.trim()) return `${label}: prompt is required`;
+
+  const category = typeof entry.category === 'string' ? entry.category.toLowerCase() : '';
+  if (!QUESTION_CATEGORIES.includes(category as QuestionCategory)) {
+    return `${label}: category must be one of ${QUESTION_CATEGORIES.join(', ')}`;
+  }
+
+  const difficulty = typeof entry.difficulty === 'string' ? entry.difficulty.toLowerCase() : '';
+  if (!QUESTION_DIFFICULTIES.includes(difficulty as QuestionDifficulty)) {
+    return `${label}: difficulty must be one of ${QUESTION_DIFFICULTIES.join(', ')}`;
+  }
+
+  const slug = slugify(typeof entry.slug === 'string' && entry.slug.trim() ? entry.slug : title);
+  if (!slug) return `${label}: could not derive a slug`;
+
+  return {
+    slug,
+    title,
+    prompt: entry.prompt.trim(),
+    category: category as QuestionCategory,
+    subcategory: typeof entry.subcategory === 'string' && entry.subcategory.trim()
+      ? entry.subcategory.trim().toLowerCase()
+      : undefined,
+    difficulty: difficulty as QuestionDifficulty,
+    tags: asStringArray(entry.tags).map(tag => tag.toLowerCase()),
+    hints: asStringArray(entry.hints),
+    solutions: parseSolutions(entry.solutions),
+    companies: parseCompanies(entry.companies),
+    testCases: parseTestCases(entry.testCases),
+  };
+}
+
+/**
+ * Parse a JSON or YAML problem pack
+ */
+export function parseQuestionPack(content: string, format: 'json' | 'yaml'): ParsedQuestionPack {
+  const document: unknown = format === 'json' ? JSON.parse(content) : parseYaml(content);
+
+  const rawQuestions = Array.isArray(document)
+    ? document
+    : document && typeof document === 'object' && Array.isArray((document as Record<string, unknown>).questions)
+      ? (document as { questions: unknown[] }).questions
+      : null;
+
+  if (!rawQuestions) {
+    return { name: null, questions: [], errors: ['Pack must be an array or an object with a "questions" array'] };
+  }
+
+  const name = !Array.isArray(document) && typeof (document as Record<string, unknown>).name === 'string'
+    ? (document as { name: string }).name
+    : null;
+
+  const questions: QuestionPackEntry[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  rawQuestions.forEach((raw, index) => {
+    const result = parseQuestionEntry(raw, index);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else if (seen.has(result.slug)) {
+      errors.push(`Entry ${index}: duplicate slug "${result.slug}"`);
+    } else {
+      seen.add(result.slug);
+      questions.push(result);
+    }
+  });
+
+  return { name, questions, errors };
+}
@@ -0,0 +1,28 @@
+/**
+ * API shapes for review cards
+ */
+
+import type { ReviewCard } from '@/lib/database/schema';
+
+export function toReviewCardResponse(card: ReviewCard) {
+  return {
+    id: card.id,
+    source: card.source,
+    questionId: card.questionId,
+    messageId: card.messageId,
+    category: card.category,
+    topic: card.topic,
+    front: card.front,
+    back: card.back,
+    easeFactor: card.easeFactor,
+    intervalDays: card.intervalDays,
+    repetitions: card.repetitions,
+    lapses: card.lapses,
+    dueAt: card.dueAt,
+    lastReviewedAt: card.lastReviewedAt,
+    lastGrade: card.lastGrade,
+    createdAt: card.createdAt,
+  };
+}
+
+export type ReviewCardResponse = ReturnType<typeof toReviewCardResponse>;
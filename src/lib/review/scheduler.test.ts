@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { formatNextReview, type ReviewState, scheduleReview } from './scheduler';
+
+const NEW_CARD: ReviewState = { easeFactor: 2.5, intervalDays: 0, repetitions: 0, lapses: 0 };
+const now = new Date('2026-05-01T12:00:00Z');
+
+describe('scheduleReview', () => {
+  test('first reviews use fixed intervals', () => {
+    assert.deepEqual(scheduleReview(NEW_CARD, 'good', now), {
+      easeFactor: 2.5,
+      intervalDays: 1,
+      repetitions: 1,
+      lapses: 0,
+      dueAt: '2026-05-02T12:00:00.000Z',
+    });
+    assert.equal(scheduleReview(NEW_CARD, 'easy', now).intervalDays, 4);
+    assert.equal(scheduleReview({ ...NEW_CARD, repetitions: 1, intervalDays: 1 }, 'good', now).intervalDays, 6);
+  });
+
+  test('again resets the card and brings it back in ten minutes', () => {
+    const scheduled = scheduleReview({ easeFactor: 2.5, intervalDays: 15, repetitions: 3, lapses: 1 }, 'again', now);
+
+    assert.deepEqual(scheduled, {
+      easeFactor: 1.96,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 2,
+      dueAt: '2026-05-01T12:10:00.000Z',
+    });
+  });
+
+  test('grades adjust the ease factor', () => {
+    assert.equal(scheduleReview(NEW_CARD, 'hard', now).easeFactor, 2.36);
+    assert.equal(scheduleReview(NEW_CARD, 'easy', now).easeFactor, 2.6);
+    assert.equal(scheduleReview({ ...NEW_CARD, easeFactor: 1.3 }, 'again', now).easeFactor, 1.3);
+  });
+
+  test('later intervals grow by the ease factor', () => {
+    const state: ReviewState = { easeFactor: 2.5, intervalDays: 6, repetitions: 2, lapses: 0 };
+
+    assert.equal(scheduleReview(state, 'good', now).intervalDays, 15);
+    assert.equal(scheduleReview(state, 'hard', now).intervalDays, 7);
+    assert.equal(scheduleReview(state, 'easy', now).intervalDays, 20);
+  });
+
+  test('intervals are capped at a year', () => {
+    const state: ReviewState = { easeFactor: 2.5, intervalDays: 300, repetitions: 5, lapses: 0 };
+
+    assert.equal(scheduleReview(state, 'good', now).intervalDays, 365);
+  });
+});
+
+describe('formatNextReview', () => {
+  test('labels minutes, days, months and years', () => {
+    assert.equal(formatNextReview(NEW_CARD, 'again'), '10m');
+    assert.equal(formatNextReview({ easeFactor: 2.5, intervalDays: 6, repetitions: 2, lapses: 0 }, 'good'), '15d');
+    assert.equal(formatNextReview({ easeFactor: 2.5, intervalDays: 20, repetitions: 3, lapses: 0 }, 'good'), '2mo');
+    assert.equal(formatNextReview({ easeFactor: 2.5, intervalDays: 300, repetitions: 5, lapses: 0 }, 'good'), '1y');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Spaced-repetition scheduling (SM-2)
+ *
+ * Each review is graded again / hard / good / easy, which map to SM-2 quality
+ * scores 1 / 3 / 4 / 5. "Again" resets the card and brings it back in ten
+ * minutes; the other grades grow the interval by the card's ease factor, with
+ * hard and easy nudging it down or up the way most flashcard apps do.
+ */
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface ScheduledReview extends ReviewState {
+  dueAt: string; // ISO timestamp
+}
+
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+// Intervals in days for the first two successful reviews
+const FIRST_INTERVALS: Record<Exclude<ReviewGrade, 'again'>, number> = { hard: 1, good: 1, easy: 4 };
+const SECOND_INTERVALS: Record<Exclude<ReviewGrade, 'again'>, number> = { hard: 3, good: 6, easy: 8 };
+
+const HARD_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+const RELEARN_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function nextEase(easeFactor: number, quality: number): number {
+  const ease = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return Math.max(MIN_EASE, Math.round(ease * 100) / 100);
+}
+
+/**
+ * Schedule the next review of a card after it was graded at `now`
+ */
+export function scheduleReview(state: ReviewState, grade: ReviewGrade, now: Date = new Date()): ScheduledReview {
+  const easeFactor = nextEase(state.easeFactor, QUALITY[grade]);
+
+  if (grade === 'again') {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: state.lapses + 1,
+      dueAt: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000).toISOString(),
+    };
+  }
+
+  let intervalDays: number;
+  if (state.repetitions === 0) {
+    intervalDays = FIRST_INTERVALS[grade];
+  } else if (state.repetitions === 1) {
+    intervalDays = SECOND_INTERVALS[grade];
+  } else {
+    const previous = Math.max(1, state.intervalDays);
+    const good = Math.round(previous * state.easeFactor);
+    intervalDays = grade === 'hard'
+      ? Math.max(previous + 1, Math.round(previous * HARD_FACTOR))
+      : grade === 'easy'
+        ? Math.round(good * EASY_BONUS)
+        : good;
+  }
+
+  intervalDays = Math.min(MAX_INTERVAL_DAYS, intervalDays);
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Short label for when a card would come back, e.g. "10m", "6d", "3mo"
+ */
+export function formatNextReview(state: ReviewState, grade: ReviewGrade): string {
+  const { intervalDays } = scheduleReview(state, grade);
+  if (intervalDays === 0) return `${RELEARN_MINUTES}m`;
+  if (intervalDays < 30) return `${intervalDays}d`;
+  if (intervalDays < 365) return `${Math.round(intervalDays / 30)}mo`;
+  return `${Math.round(intervalDays / 365)}y`;
+}
@@ -0,0 +1,114 @@
+/**
+ * API shapes for saved roadmaps
+ */
+
+import type { Roadmap, RoadmapPhase, RoadmapRevision, RoadmapTask } from '@/lib/database/schema';
+import { safeJsonParse } from '@/lib/database/utils';
+import type { RevisionDiff, RoadmapAssessment } from './replan';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RoadmapProgress {
+  completedTasks: number;
+  totalTasks: number;
+  completedHours: number;
+  plannedHours: number;
+  percent: number; // share of planned hours completed
+}
+
+function summarizeTasks(tasks: RoadmapTask[]): RoadmapProgress {
+  const done = tasks.filter(task => task.completedAt);
+  const plannedHours = tasks.reduce((sum, task) => sum + task.plannedHours, 0);
+  const completedHours = done.reduce((sum, task) => sum + task.plannedHours, 0);
+
+  return {
+    completedTasks: done.length,
+    totalTasks: tasks.length,
+    completedHours,
+    plannedHours,
+    percent: plannedHours > 0 ? Math.round((completedHours / plannedHours) * 100) : 0,
+  };
+}
+
+function toTaskResponse(task: RoadmapTask) {
+  return {
+    id: task.id,
+    phaseId: task.phaseId,
+    week: task.week,
+    title: task.title,
+    description: task.description,
+    kind: task.kind,
+    track: task.track,
+    topic: task.topic,
+    plannedHours: task.plannedHours,
+    completed: Boolean(task.completedAt),
+    completedAt: task.completedAt,
+    studySessionId: task.studySessionId,
+  };
+}
+
+export type RoadmapTaskResponse = ReturnType<typeof toTaskResponse>;
+
+/**
+ * A saved roadmap with progress per phase and its tasks grouped by week
+ */
+export function toRoadmapResponse(roadmap: Roadmap, phases: RoadmapPhase[], tasks: RoadmapTask[], now: Date = new Date()) {
+  const start = new Date(`${roadmap.startDate}T00:00:00Z`);
+  const elapsedWeeks = Math.floor((now.getTime() - start.getTime()) / (7 * DAY_MS)) + 1;
+
+  return {
+    id: roadmap.id,
+    interviewType: roadmap.interviewType,
+    status: roadmap.status,
+    startDate: roadmap.startDate,
+    targetDate: roadmap.targetDate,
+    totalWeeks: roadmap.totalWeeks,
+    hoursPerWeek: roadmap.hoursPerWeek,
+    totalHours: roadmap.totalHours,
+    currentWeek: Math.min(roadmap.totalWeeks, Math.max(1, elapsedWeeks)),
+    skippedTopics: safeJsonParse<string[]>(roadmap.skippedTopics, []),
+    progress: summarizeTasks(tasks),
+    phases: phases.map(phase => ({
+      id: phase.id,
+      key: phase.key,
+      title: phase.title,
+      description: phase.description,
+      startWeek: phase.startWeek,
+      endWeek: phase.endWeek,
+      plannedHours: phase.plannedHours,
+      progress: summarizeTasks(tasks.filter(task => task.phaseId === phase.id)),
+    })),
+    weeks: Array.from({ length: roadmap.totalWeeks }, (_, index) => {
+      const weekTasks = tasks.filter(task => task.week === index + 1);
+      return {
+        week: index + 1,
+        startDate: new Date(start.getTime() + index * 7 * DAY_MS).toISOString().slice(0, 10),
+        progress: summarizeTasks(weekTasks),
+        tasks: weekTasks.map(toTaskResponse),
+      };
+    }),
+    createdAt: roadmap.createdAt,
+    updatedAt: roadmap.updatedAt,
+  };
+}
+
+export type RoadmapResponse = ReturnType<typeof toRoadmapResponse>;
+
+/**
+ * A re-planning proposal and what it would change
+ */
+export function toRevisionResponse(revision: RoadmapRevision) {
+  return {
+    id: revision.id,
+    roadmapId: revision.roadmapId,
+    status: revision.status,
+    strategy: revision.strategy,
+    reason: revision.reason,
+    assessment: safeJsonParse<RoadmapAssessment | null>(revision.assessment, null),
+    diff: safeJsonParse<RevisionDiff | null>(revision.diff, null),
+    createdAt: revision.createdAt,
+    resolvedAt: revision.resolvedAt,
+  };
+}
+
+export type RoadmapRevisionResponse = ReturnType<typeof toRevisionResponse>;
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { floorHalf, generateRoadmap, MAX_WEEKS, roundHalf, scheduleTasks, topicPriorities, weeksUntil } from './generator';
+
+const startDate = new Date('2026-01-05T00:00:00Z');
+
+describe('half-hour rounding', () => {
+  test('floorHalf and roundHalf work in half-hour steps', () => {
+    assert.equal(floorHalf(2.7), 2.5);
+    assert.equal(floorHalf(0.4), 0);
+    assert.equal(roundHalf(2.7), 2.5);
+    assert.equal(roundHalf(2.8), 3);
+  });
+});
+
+describe('weeksUntil', () => {
+  test('counts whole weeks up to the target date', () => {
+    assert.equal(weeksUntil('2026-01-26', startDate), 3);
+    assert.equal(weeksUntil('2026-01-27', startDate), 4);
+  });
+
+  test('falls back to eight weeks and stays within bounds', () => {
+    assert.equal(weeksUntil(null, startDate), 8);
+    assert.equal(weeksUntil('not a date', startDate), 8);
+    assert.equal(weeksUntil('2025-12-01', startDate), 1);
+    assert.equal(weeksUntil('2030-01-01', startDate), MAX_WEEKS);
+  });
+});
+
+describe('scheduleTasks', () => {
+  test('splits tasks that do not fit in a week', () => {
+    const weeks = scheduleTasks([{ title: 'A', hours: 3 }, { title: 'B', hours: 2 }], 2, 4);
+
+    assert.deepEqual(weeks, [
+      [{ title: 'A', hours: 3 }, { title: 'B (part 1)', hours: 1 }],
+      [{ title: 'B (part 2)', hours: 1 }],
+    ]);
+  });
+
+  test('puts the overflow in the last week and respects hours already used', () => {
+    assert.deepEqual(scheduleTasks([{ title: 'A', hours: 5 }], 1, 2), [[{ title: 'A', hours: 5 }]]);
+    assert.deepEqual(scheduleTasks([{ title: 'A', hours: 1 }], 2, 4, [4]), [[], [{ title: 'A', hours: 1 }]]);
+  });
+});
+
+describe('generateRoadmap', () => {
+  test('fills every week with the weekly hours', () => {
+    const roadmap = generateRoadmap({ interviewType: 'full', hoursPerWeek: 10, targetDate: '2026-03-02', startDate });
+
+    assert.equal(roadmap.totalWeeks, 8);
+    assert.equal(roadmap.totalHours, 80);
+    assert.equal(roadmap.weeks.length, 8);
+    assert.equal(roadmap.weeks.reduce((sum, week) => sum + week.hours, 0), 80);
+    assert.ok(roadmap.weeks.every(week => week.hours === 10));
+    assert.equal(roadmap.weeks[1].startDate, '2026-01-12');
+    assert.equal(roadmap.weeks[1].endDate, '2026-01-18');
+  });
+
+  test('keeps the end of the plan for mock interviews unless they are turned off', () => {
+    const withMocks = generateRoadmap({ interviewType: 'dsa', hoursPerWeek: 6, startDate });
+    const withoutMocks = generateRoadmap({ interviewType: 'dsa', hoursPerWeek: 6, includeMocks: false, startDate });
+
+    assert.ok(withMocks.mockInterviewCount > 0);
+    assert.equal(withMocks.phases[withMocks.phases.length - 1].key, 'final');
+    assert.equal(withoutMocks.mockInterviewCount, 0);
+    assert.equal(withoutMocks.phases[withoutMocks.phases.length - 1].title, 'Final Review');
+  });
+
+  test('drops the lowest-priority topics when time is short', () => {
+    const short = generateRoadmap({ interviewType: 'dsa', hoursPerWeek: 2, targetDate: '2026-01-19', startDate });
+    const long = generateRoadmap({ interviewType: 'dsa', hoursPerWeek: 20, startDate });
+
+    assert.ok(short.skippedTopics.length > 0);
+    assert.ok(short.topicCount < long.topicCount);
+    assert.equal(short.topicCount + short.skippedTopics.length, long.topicCount + long.skippedTopics.length);
+  });
+
+  test('weak areas get priority over strong ones', () => {
+    const priorities = topicPriorities({ interviewType: 'dsa', hoursPerWeek: 8, weakAreas: ['Graphs'], strongAreas: ['trees'] });
+
+    assert.ok(priorities.graphs > priorities.trees);
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Study Roadmap Generator
+ *
+ * Turns the onboarding answers into a week-by-week plan:
+ *   - the number of weeks runs up to the target date (8 weeks when none is set)
+ *   - each week is filled with tasks up to the user's weekly hours
+ *   - topics are weighted by weak and strong areas and experience level; when time
+ *     is short, the lowest-priority topics are dropped and listed in `skippedTopics`
+ *   - the last stretch of the plan is kept for mock interviews and review
+ *
+ * Hours are handled in half-hour steps so weekly totals add up exactly.
+ */
+
+import type { InterviewTypeKey } from '@/data/onboarding';
+import { roadmapTopics, type RoadmapTopic, type RoadmapTrack, type TopicLevel } from '@/data/roadmapTopics';
+
+export type RoadmapPhaseKey = TopicLevel | 'final';
+export type RoadmapTaskKind = 'learn' | 'practice' | 'review' | 'mock';
+
+export interface RoadmapInput {
+  interviewType: InterviewTypeKey;
+  hoursPerWeek: number;
+  targetDate?: string | null;
+  experienceLevel?: string | null;
+  weakAreas?: string[];
+  strongAreas?: string[];
+  includeMocks?: boolean;
+  startDate?: Date;
+}
+
+export interface RoadmapTask {
+  title: string;
+  description: string;
+  kind: RoadmapTaskKind;
+  track: RoadmapTrack;
+  topic: string | null; // topic key; null for mock interviews and final review
+  phase: RoadmapPhaseKey;
+  hours: number;
+}
+
+export interface RoadmapWeek {
+  week: number; // 1-based
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  hours: number;
+  focus: string[];
+  tasks: RoadmapTask[];
+}
+
+export interface RoadmapPhase {
+  key: RoadmapPhaseKey;
+  title: string;
+  description: string;
+  startWeek: number;
+  endWeek: number;
+  hours: number;
+  topics: string[];
+}
+
+export interface GeneratedRoadmap {
+  interviewType: InterviewTypeKey;
+  startDate: string;
+  targetDate: string | null;
+  totalWeeks: number;
+  hoursPerWeek: number;
+  totalHours: number;
+  topicCount: number;
+  mockInterviewCount: number;
+  phases: RoadmapPhase[];
+  weeks: RoadmapWeek[];
+  skippedTopics: string[];
+}
+
+const DEFAULT_WEEKS = 8;
+export const MAX_WEEKS = 52;
+const MAX_HOURS_PER_WEEK = 80;
+const MIN_TOPIC_HOURS = 2;
+const FINAL_SHARE = 0.15; // of total hours, for mocks and review
+const MOCK_HOURS = 1;
+const MAX_MOCKS = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TRACKS: RoadmapTrack[] = ['dsa', 'system', 'behavioral'];
+const LEVELS: TopicLevel[] = ['foundation', 'core', 'advanced'];
+
+const TRACK_SHARES: Record<InterviewTypeKey, Partial<Record<RoadmapTrack, number>>> = {
+  dsa: { dsa: 1 },
+  system: { system: 1 },
+  behavioral: { behavioral: 1 },
+  full: { dsa: 0.45, system: 0.35, behavioral: 0.2 },
+};
+
+// Beginners spend longer on foundations; advanced candidates skim them
+const LEVEL_FACTORS: Record<string, Record<TopicLevel, number>> = {
+  beginner: { foundation: 1.3, core: 1, advanced: 0.7 },
+  intermediate: { foundation: 1, core: 1, advanced: 1 },
+  advanced: { foundation: 0.7, core: 1, advanced: 1.2 },
+};
+
+const WEAK_AREA_FACTOR = 1.5;
+const STRONG_AREA_FACTOR = 0.6;
+
+const PRACTICE: Record<RoadmapTrack, { verb: string; singular: string; plural: string; perHour: number; review: string; mock: string }> = {
+  dsa: {
+    verb: 'Solve',
+    singular: 'problem',
+    plural: 'problems',
+    perHour: 1.5,
+    review: 'Re-solve the problems you struggled with, without notes',
+    mock: 'Coding',
+  },
+  system: {
+    verb: 'Work through',
+    singular: 'design exercise',
+    plural: 'design exercises',
+    perHour: 0.5,
+    review: 'Redo one design from memory and compare the trade-offs',
+    mock: 'System Design',
+  },
+  behavioral: {
+    verb: 'Draft',
+    singular: 'STAR story',
+    plural: 'STAR stories',
+    perHour: 1,
+    review: 'Rehearse your stories out loud and tighten each to two minutes',
+    mock: 'Behavioral',
+  },
+};
+
+export const PHASE_INFO: Record<RoadmapPhaseKey, { title: string; description: string }> = {
+  foundation: { title: 'Foundations', description: 'Core building blocks and patterns' },
+  core: { title: 'Core Topics', description: 'The topics most interviews are built on' },
+  advanced: { title: 'Advanced Topics', description: 'Harder patterns and deeper trade-offs' },
+  final: { title: 'Mock Interviews & Review', description: 'Timed practice and revisiting weak spots' },
+};
+
+const PHASE_ORDER: RoadmapPhaseKey[] = [...LEVELS, 'final'];
+
+export function floorHalf(value: number): number {
+  return Math.floor(value * 2) / 2;
+}
+
+export function roundHalf(value: number): number {
+  return Math.round(value * 2) / 2;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function normalizeArea(area: string): string {
+  return area.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Whole weeks from `from` until the target date; at least one
+ */
+export function weeksUntil(targetDate: string | null | undefined, from: Date = new Date()): number {
+  const target = targetDate ? new Date(targetDate) : null;
+  if (!target || Number.isNaN(target.getTime())) return DEFAULT_WEEKS;
+
+  const days = Math.ceil((target.getTime() - from.getTime()) / DAY_MS);
+  return Math.min(MAX_WEEKS, Math.max(1, Math.ceil(days / 7)));
+}
+
+function topicWeight(topic: RoadmapTopic, input: RoadmapInput, weak: Set<string>, strong: Set<string>): number {
+  const levels = LEVEL_FACTORS[input.experienceLevel || ''] || LEVEL_FACTORS.intermediate;
+  let weight = topic.baseHours * levels[topic.level];
+  if (topic.areas.some(area => weak.has(area))) weight *= WEAK_AREA_FACTOR;
+  else if (topic.areas.some(area => strong.has(area))) weight *= STRONG_AREA_FACTOR;
+  return weight;
+}
+
+/**
+ * Priority of every catalogue topic for this user; higher is more important.
+ * Weights are scaled by their track's average so topics compare across tracks.
+ */
+export function topicPriorities(input: RoadmapInput): Record<string, number> {
+  const weak = new Set((input.weakAreas || []).map(normalizeArea));
+  const strong = new Set((input.strongAreas || []).map(normalizeArea));
+  const weights = roadmapTopics.map(topic => ({ topic, weight: topicWeight(topic, input, weak, strong) }));
+
+  return Object.fromEntries(weights.map(({ topic, weight }) => {
+    const track = weights.filter(entry => entry.topic.track === topic.track);
+    const average = track.reduce((sum, entry) => sum + entry.weight, 0) / track.length;
+    return [topic.key, weight / average];
+  }));
+}
+
+/**
+ * Split a track's hours across its topics, dropping the lowest-priority topics
+ * until every remaining one gets enough time to be worth starting
+ */
+function allocateTopics(
+  candidates: Array<{ topic: RoadmapTopic; weight: number }>,
+  budget: number
+): { allocated: Array<{ topic: RoadmapTopic; hours: number; weight: number }>; skipped: RoadmapTopic[] } {
+  const skipped: RoadmapTopic[] = [];
+  let included = [...candidates];
+
+  if (floorHalf(budget) < 0.5) {
+    return { allocated: [], skipped: included.map(entry => entry.topic) };
+  }
+
+  while (included.length > 1) {
+    const totalWeight = included.reduce((sum, entry) => sum + entry.weight, 0);
+    const smallest = Math.min(...included.map(entry => budget * entry.weight / totalWeight));
+    if (smallest >= MIN_TOPIC_HOURS) break;
+
+    // Drop the lowest weight; among ties, the one studied last
+    let dropIndex = 0;
+    included.forEach((entry, index) => {
+      if (entry.weight <= included[dropIndex].weight) dropIndex = index;
+    });
+    skipped.push(included[dropIndex].topic);
+    included = included.filter((_, index) => index !== dropIndex);
+  }
+
+  const totalWeight = included.reduce((sum, entry) => sum + entry.weight, 0);
+  const allocated = included.map(entry => ({
+    ...entry,
+    hours: floorHalf(budget * entry.weight / totalWeight),
+  }));
+
+  // Hand the rounding remainder to the highest-priority topics
+  let leftover = floorHalf(budget - allocated.reduce((sum, entry) => sum + entry.hours, 0));
+  const byWeight = [...allocated].sort((a, b) => b.weight - a.weight);
+  for (let i = 0; leftover >= 0.5; i = (i + 1) % byWeight.length) {
+    byWeight[i].hours += 0.5;
+    leftover -= 0.5;
+  }
+
+  return { allocated: allocated.filter(entry => entry.hours > 0), skipped };
+}
+
+function buildTopicTasks(topic: RoadmapTopic, hours: number): RoadmapTask[] {
+  const practice = PRACTICE[topic.track];
+  const base = { track: topic.track, topic: topic.key, phase: topic.level };
+
+  let learnHours = Math.max(0.5, floorHalf(hours * 0.3));
+  const reviewHours = hours >= 4 ? Math.max(0.5, floorHalf(hours * 0.15)) : 0;
+  let practiceHours = hours - learnHours - reviewHours;
+  if (practiceHours < 0.5) {
+    learnHours = hours - reviewHours;
+    practiceHours = 0;
+  }
+
+  const tasks: RoadmapTask[] = [
+    { ...base, title: `Learn ${topic.title}`, description: topic.learn, kind: 'learn', hours: learnHours },
+  ];
+
+  if (practiceHours > 0) {
+    const count = Math.max(1, Math.round(practiceHours * practice.perHour));
+    const items = topic.practice.slice(0, count);
+    const extra = count - items.length;
+    tasks.push({
+      ...base,
+      title: `${practice.verb} ${count} ${count === 1 ? practice.singular : practice.plural}: ${topic.title}`,
+      description: extra > 0 ? `${items.join(', ')}, plus ${extra} more` : items.join(', '),
+      kind: 'practice',
+      hours: practiceHours,
+    });
+  }
+
+  if (reviewHours > 0) {
+    tasks.push({ ...base, title: `Review ${topic.title}`, description: practice.review, kind: 'review', hours: reviewHours });
+  }
+
+  return tasks;
+}
+
+function buildFinalTasks(hours: number, tracks: RoadmapTrack[], includeMocks: boolean, reviewTopics: string[]): RoadmapTask[] {
+  const tasks: RoadmapTask[] = [];
+  let remaining = hours;
+
+  if (includeMocks) {
+    const mocks = Math.min(MAX_MOCKS, Math.max(1, Math.floor(hours * 0.6 / MOCK_HOURS)));
+    for (let i = 0; i < mocks && remaining >= MOCK_HOURS; i++) {
+      const track = tracks[i % tracks.length];
+      tasks.push({
+        title: `Mock interview: ${PRACTICE[track].mock}`,
+        description: 'Timed interview with a scored rubric on the Mock Interview page',
+        kind: 'mock',
+        track,
+        topic: null,
+        phase: 'final',
+        hours: MOCK_HOURS,
+      });
+      remaining -= MOCK_HOURS;
+    }
+  }
+
+  if (remaining >= 0.5) {
+    tasks.push({
+      title: 'Review weak areas',
+      description: reviewTopics.length > 0
+        ? `Revisit ${reviewTopics.slice(0, 4).join(', ')}`
+        : 'Revisit the topics you found hardest',
+      kind: 'review',
+      track: tracks[0],
+      topic: null,
+      phase: 'final',
+      hours: remaining,
+    });
+  }
+
+  return tasks;
+}
+
+/**
+ * Lay tasks out week by week, splitting a task when it does not fit in the current week.
+ * `alreadyUsed` holds hours already taken in each week.
+ */
+export function scheduleTasks<T extends { title: string; hours: number }>(
+  tasks: T[],
+  totalWeeks: number,
+  hoursPerWeek: number,
+  alreadyUsed: number[] = []
+): T[][] {
+  const weeks: T[][] = Array.from({ length: totalWeeks }, () => []);
+  const used = Array.from({ length: totalWeeks }, (_, index) => alreadyUsed[index] || 0);
+  let week = 0;
+
+  for (const task of tasks) {
+    let remaining = task.hours;
+    let part = 1;
+
+    while (remaining > 0) {
+      const space = hoursPerWeek - used[week];
+      const isLastWeek = week === totalWeeks - 1;
+      if (space < 0.5 && !isLastWeek) {
+        week++;
+        continue;
+      }
+
+      // Anything left over once the plan runs out of weeks lands in the last week
+      const chunk = isLastWeek ? remaining : Math.min(remaining, space);
+      const isSplit = part > 1 || chunk < remaining;
+      weeks[week].push({ ...task, title: isSplit ? `${task.title} (part ${part})` : task.title, hours: chunk });
+      used[week] += chunk;
+      remaining -= chunk;
+      part++;
+    }
+  }
+
+  return weeks;
+}
+
+/**
+ * Build a week-by-week study plan
+ */
+export function generateRoadmap(input: RoadmapInput): GeneratedRoadmap {
+  const start = input.startDate || new Date();
+  const totalWeeks = weeksUntil(input.targetDate, start);
+  const hoursPerWeek = Math.min(MAX_HOURS_PER_WEEK, Math.max(1, roundHalf(input.hoursPerWeek || 0)));
+  const totalHours = totalWeeks * hoursPerWeek;
+  const includeMocks = input.includeMocks !== false;
+
+  const weak = new Set((input.weakAreas || []).map(normalizeArea));
+  const strong = new Set((input.strongAreas || []).map(normalizeArea));
+
+  const shares = TRACK_SHARES[input.interviewType] || TRACK_SHARES.dsa;
+  const tracks = TRACKS.filter(track => shares[track]);
+
+  // Keep the end of the plan for mocks and review once there is enough time for both
+  const finalHours = totalHours >= 4 ? Math.max(1, roundHalf(totalHours * FINAL_SHARE)) : 0;
+  const studyHours = totalHours - finalHours;
+
+  const trackBudgets = tracks.map(track => floorHalf(studyHours * (shares[track] || 0)));
+  trackBudgets[0] += studyHours - trackBudgets.reduce((sum, hours) => sum + hours, 0);
+
+  const selected: Array<{ topic: RoadmapTopic; hours: number; weight: number }> = [];
+  const skipped: RoadmapTopic[] = [];
+  tracks.forEach((track, index) => {
+    const candidates = roadmapTopics
+      .filter(topic => topic.track === track)
+      .map(topic => ({ topic, weight: topicWeight(topic, input, weak, strong) }));
+    const result = allocateTopics(candidates, trackBudgets[index]);
+    selected.push(...result.allocated);
+    skipped.push(...result.skipped);
+  });
+
+  // Study order: level first, then track, then catalogue order
+  selected.sort((a, b) =>
+    LEVELS.indexOf(a.topic.level) - LEVELS.indexOf(b.topic.level)
+    || TRACKS.indexOf(a.topic.track) - TRACKS.indexOf(b.topic.track)
+    || roadmapTopics.indexOf(a.topic) - roadmapTopics.indexOf(b.topic)
+  );
+
+  const weakTopics = selected
+    .filter(entry => entry.topic.areas.some(area => weak.has(area)))
+    .map(entry => entry.topic.title);
+
+  const tasks = [
+    ...selected.flatMap(entry => buildTopicTasks(entry.topic, entry.hours)),
+    ...buildFinalTasks(finalHours, tracks, includeMocks, weakTopics),
+  ];
+
+  const topicTitles = new Map(roadmapTopics.map(topic => [topic.key, topic.title]));
+  const weeks: RoadmapWeek[] = scheduleTasks(tasks, totalWeeks, hoursPerWeek).map((weekTasks, index) => ({
+    week: index + 1,
+    startDate: toDateString(new Date(start.getTime() + index * 7 * DAY_MS)),
+    endDate: toDateString(new Date(start.getTime() + (index * 7 + 6) * DAY_MS)),
+    hours: weekTasks.reduce((sum, task) => sum + task.hours, 0),
+    focus: [...new Set(weekTasks.map(task =>
+      task.topic ? topicTitles.get(task.topic) || task.topic : task.kind === 'mock' ? 'Mock interviews' : 'Review'
+    ))],
+    tasks: weekTasks,
+  }));
+
+  const phases: RoadmapPhase[] = PHASE_ORDER.flatMap(key => {
+    const phaseWeeks = weeks.filter(week => week.tasks.some(task => task.phase === key));
+    if (phaseWeeks.length === 0) return [];
+
+    const phaseTasks = phaseWeeks.flatMap(week => week.tasks.filter(task => task.phase === key));
+    const info = key === 'final' && !includeMocks
+      ? { title: 'Final Review', description: 'Revisiting weak spots before the interview' }
+      : PHASE_INFO[key];
+
+    return [{
+      key,
+      ...info,
+      startWeek: phaseWeeks[0].week,
+      endWeek: phaseWeeks[phaseWeeks.length - 1].week,
+      hours: phaseTasks.reduce((sum, task) => sum + task.hours, 0),
+      topics: [...new Set(phaseTasks.map(task =>
+        task.topic ? topicTitles.get(task.topic) || task.topic : task.kind === 'mock' ? 'Mock interviews' : 'Weak-area review'
+      ))],
+    }];
+  });
+
+  const target = input.targetDate ? new Date(input.targetDate) : null;
+
+  return {
+    interviewType: input.interviewType,
+    startDate: toDateString(start),
+    targetDate: target && !Number.isNaN(target.getTime()) ? toDateString(target) : null,
+    totalWeeks,
+    hoursPerWeek,
+    totalHours,
+    topicCount: selected.length,
+    mockInterviewCount: tasks.filter(task => task.kind === 'mock').length,
+    phases,
+    weeks,
+    skippedTopics: skipped.map(topic => topic.title),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Markdown rendering of a generated roadmap for the plan viewer
+ */
+
+import type { GeneratedRoadmap } from './generator';
+
+function formatHours(hours: number): string {
+  return `${hours} hr${hours === 1 ? '' : 's'}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export function roadmapToMarkdown(roadmap: GeneratedRoadmap): string {
+  const lines = [
+    '# Personalized Prep Roadmap',
+    '',
+    `> ${roadmap.totalWeeks} week${roadmap.totalWeeks === 1 ? '' : 's'} at ${formatHours(roadmap.hoursPerWeek)}/week (${formatHours(roadmap.totalHours)} total)` +
+      (roadmap.targetDate ? `, ending ${formatDate(roadmap.targetDate)}.` : '.'),
+  ];
+
+  if (roadmap.skippedTopics.length > 0) {
+    lines.push('', `Not enough time for: ${roadmap.skippedTopics.join(', ')}. Add hours per week or move your target date to include them.`);
+  }
+
+  for (const week of roadmap.weeks) {
+    lines.push(
+      '',
+      `## Week ${week.week}: ${week.focus.join(', ') || 'Catch-up'}`,
+      `*${formatDate(week.startDate)} – ${formatDate(week.endDate)} • ${formatHours(week.hours)}*`,
+      ''
+    );
+    for (const task of week.tasks) {
+      lines.push(`- [ ] **${task.title}** (${formatHours(task.hours)}) — ${task.description}`);
+    }
+  }
+
+  return lines.join('\n');
+}
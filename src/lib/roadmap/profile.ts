@@ -0,0 +1,23 @@
+/**
+ * Roadmap generator input from a stored user profile
+ */
+
+import type { InterviewTypeKey } from '@/data/onboarding';
+import type { User } from '@/lib/database/schema';
+import { safeJsonParse } from '@/lib/database/utils';
+import type { RoadmapInput } from './generator';
+
+export function roadmapInputFromUser(user: User): RoadmapInput {
+  const interviewTypes = safeJsonParse<InterviewTypeKey[]>(user.interviewTypes, []);
+  const preferences = safeJsonParse<Record<string, string>>(user.notificationPreferences, {});
+
+  return {
+    interviewType: interviewTypes[0] || 'dsa',
+    hoursPerWeek: user.hoursPerWeek || 0,
+    targetDate: user.targetDate,
+    experienceLevel: user.experienceLevel,
+    weakAreas: safeJsonParse<string[]>(user.weakAreas, []),
+    strongAreas: safeJsonParse<string[]>(user.strongAreas, []),
+    includeMocks: preferences.mocks !== 'No',
+  };
+}
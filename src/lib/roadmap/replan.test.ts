@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { roadmapTopics } from '@/data/roadmapTopics';
+import type { Roadmap, RoadmapTask } from '@/lib/database/schema';
+import { planRevision, type ReplanInput } from './replan';
+
+// Four weeks at 4 hrs/week, two 2-hour tasks a week, one topic per week
+const roadmap = {
+  id: 'roadmap',
+  startDate: '2026-01-05',
+  targetDate: '2026-02-02',
+  totalWeeks: 4,
+  hoursPerWeek: 4,
+} as Roadmap;
+const topics = ['arrays-hashing', 'two-pointers', 'trees', 'graphs'];
+const priorities = { 'arrays-hashing': 3, 'two-pointers': 2, trees: 3, graphs: 1 };
+
+// Week 3 starts on 2026-01-19
+const weekThree = new Date('2026-01-19T12:00:00Z');
+
+/** The roadmap's tasks with the first `completed` of them ticked off */
+function tasksWithCompleted(completed: number): RoadmapTask[] {
+  return topics.flatMap((topic, index) => [0, 1].map(position => ({
+    id: `${topic}-${position}`,
+    roadmapId: roadmap.id,
+    phaseId: 'phase',
+    week: index + 1,
+    position,
+    title: `${topic} ${position === 0 ? 'learn' : 'practice'}`,
+    description: null,
+    kind: position === 0 ? 'learn' : 'practice',
+    track: 'dsa',
+    topic,
+    plannedHours: 2,
+    completedAt: null,
+    studySessionId: null,
+    createdAt: null,
+  }))).map((task, index) => index < completed ? { ...task, completedAt: '2026-01-10T10:00:00.000Z' } : task);
+}
+
+function replan(input: Partial<ReplanInput> & { completed: number }) {
+  const { completed, ...rest } = input;
+  return planRevision({ roadmap, tasks: tasksWithCompleted(completed), recentWeeklyHours: [4, 4], priorities, now: weekThree, ...rest });
+}
+
+describe('planRevision', () => {
+  test('proposes nothing while the roadmap is on track', () => {
+    const { assessment, proposal } = replan({ completed: 4 });
+
+    assert.equal(assessment.behind, false);
+    assert.equal(proposal, null);
+  });
+
+  test('compresses a small backlog into the remaining weeks', () => {
+    const { assessment, proposal } = replan({ completed: 3 });
+
+    assert.equal(assessment.currentWeek, 3);
+    assert.equal(assessment.overdueHours, 2);
+    assert.equal(assessment.behind, true);
+    assert.equal(proposal?.strategy, 'compress');
+    assert.equal(proposal.plan.hoursPerWeek, 5);
+    assert.equal(proposal.plan.totalWeeks, 4);
+    assert.equal(proposal.plan.targetDate, '2026-02-02');
+    assert.ok(proposal.plan.tasks.every(task => task.week >= 3 && task.week <= 4));
+    assert.deepEqual(
+      proposal.diff.tasks.map(task => [task.title, task.fromWeek]),
+      [['two-pointers practice', 2]]
+    );
+  });
+
+  test('moves the target date out when the recent pace is too slow to catch up', () => {
+    const { assessment, proposal } = replan({ completed: 3, recentWeeklyHours: [4, 2] });
+
+    assert.equal(assessment.averageWeeklyHours, 3);
+    assert.equal(proposal?.strategy, 'extend_target');
+    assert.equal(proposal.plan.hoursPerWeek, 3);
+    assert.equal(proposal.plan.totalWeeks, 6);
+    assert.equal(proposal.plan.targetDate, '2026-02-16');
+    assert.deepEqual(proposal.plan.droppedTopics, []);
+  });
+
+  test('drops the lowest-priority topic when that is enough to keep the date', () => {
+    const hours: Record<string, number> = { trees: 3, graphs: 1.5 };
+    const tasks = tasksWithCompleted(3).map(task => ({ ...task, plannedHours: hours[task.topic ?? ''] ?? task.plannedHours }));
+
+    const graphs = roadmapTopics.find(topic => topic.key === 'graphs')?.title;
+
+    const { proposal } = replan({ completed: 3, tasks });
+
+    assert.equal(proposal?.strategy, 'drop_topics');
+    assert.deepEqual(proposal.plan.droppedTopics, [graphs]);
+    assert.equal(proposal.plan.hoursPerWeek, 4);
+    assert.equal(proposal.plan.targetDate, '2026-02-02');
+    assert.ok(proposal.diff.tasks.some(task => task.change === 'dropped' && task.topic === graphs));
+  });
+
+  test('extends from the current week once the target date has passed', () => {
+    const now = new Date('2026-02-16T12:00:00Z'); // week 7 of a 4-week plan
+    const { assessment, proposal } = replan({ completed: 2, now, recentWeeklyHours: [4, 0, 0, 0, 0, 0] });
+
+    assert.equal(assessment.currentWeek, 7);
+    assert.equal(assessment.remainingWeeks, 0);
+    assert.equal(assessment.overdueHours, 12);
+    assert.equal(proposal?.strategy, 'extend_target');
+    assert.equal(proposal.plan.hoursPerWeek, 2);
+    assert.equal(proposal.plan.totalWeeks, 12);
+    assert.equal(proposal.plan.targetDate, '2026-03-30');
+    assert.ok(proposal.plan.tasks.every(task => task.week >= 7 && task.week <= 12));
+    assert.equal(proposal.plan.tasks.reduce((sum, task) => sum + task.hours, 0), 12);
+  });
+
+  test('keeps at least half the planned hours after weeks without study', () => {
+    const { assessment, proposal } = replan({ completed: 2, recentWeeklyHours: [0, 0] });
+
+    assert.equal(assessment.averageWeeklyHours, 0);
+    assert.equal(proposal?.strategy, 'extend_target');
+    assert.equal(proposal.plan.hoursPerWeek, 2);
+    assert.equal(proposal.plan.totalWeeks, 8);
+    assert.equal(proposal.plan.targetDate, '2026-03-02');
+    assert.match(proposal.reason, /averaged 0 of 4 planned hrs\/week/);
+    assert.ok(proposal.diff.weeks.every(week => Number.isFinite(week.after)));
+  });
+});
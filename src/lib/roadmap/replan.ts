@@ -0,0 +1,386 @@
+/**
+ * Roadmap Re-planning
+ *
+ * Compares a saved roadmap with what the user has actually done and, once they
+ * have fallen behind, proposes a revised schedule for the open tasks:
+ *   - compress: fit the open work into the remaining weeks with up to 25% more hours a week
+ *   - drop_topics: keep the weekly hours and drop the lowest-priority unfinished topics
+ *   - extend_target: keep every topic and move the target date out
+ *
+ * Plans without a target date are extended rather than trimmed. The weekly hours of
+ * a revision follow the recent study pace, but never fall below half the plan.
+ */
+
+import type { Roadmap, RoadmapTask } from '@/lib/database/schema';
+import { roadmapTopics } from '@/data/roadmapTopics';
+import { MAX_WEEKS, floorHalf, roundHalf, scheduleTasks } from './generator';
+
+export type ReplanStrategy = 'compress' | 'drop_topics' | 'extend_target';
+
+export interface ReplanInput {
+  roadmap: Roadmap;
+  tasks: RoadmapTask[];
+  recentWeeklyHours: number[]; // actual study hours in each of the last full weeks, oldest first
+  priorities: Record<string, number>; // topic key -> priority, see topicPriorities
+  now?: Date;
+}
+
+export interface RoadmapAssessment {
+  currentWeek: number; // keeps counting once the plan's last week has passed
+  plannedHoursToDate: number;
+  completedHoursToDate: number;
+  overdueHours: number;
+  overdueTasks: number;
+  overdueTopics: string[];
+  plannedWeeklyHours: number;
+  averageWeeklyHours: number | null; // null until a full week has passed
+  remainingHours: number;
+  remainingWeeks: number;
+  behind: boolean;
+}
+
+export interface RevisedTask {
+  phaseId: string;
+  week: number;
+  position: number;
+  title: string;
+  description: string | null;
+  kind: string;
+  track: string;
+  topic: string | null;
+  hours: number;
+}
+
+export interface RevisionPlan {
+  hoursPerWeek: number;
+  totalWeeks: number;
+  targetDate: string | null;
+  droppedTopics: string[];
+  tasks: RevisedTask[]; // replaces every open task of the roadmap
+}
+
+export interface RevisionTaskChange {
+  change: 'moved' | 'dropped';
+  title: string;
+  kind: string;
+  topic: string | null;
+  hours: number;
+  fromWeek: number;
+  toWeek: number | null;
+}
+
+export interface RevisionDiff {
+  hoursPerWeek: { before: number; after: number };
+  totalWeeks: { before: number; after: number };
+  targetDate: { before: string | null; after: string | null };
+  droppedTopics: string[];
+  weeks: Array<{ week: number; before: number; after: number }>; // planned hours from the current week on
+  tasks: RevisionTaskChange[];
+}
+
+export interface RevisionProposal {
+  strategy: ReplanStrategy;
+  reason: string;
+  plan: RevisionPlan;
+  diff: RevisionDiff;
+}
+
+// An open task, with the parts of a split task merged back together
+interface OpenTask {
+  ref: number;
+  phaseId: string;
+  title: string;
+  description: string | null;
+  kind: string;
+  track: string;
+  topic: string | null;
+  hours: number;
+  fromWeek: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BEHIND_SHARE = 0.2; // of the hours planned so far
+const MIN_BEHIND_HOURS = 1;
+const COMPRESS_LIMIT = 1.25;
+const MAX_DROP_SHARE = 0.3; // of the open topic hours
+const MIN_PACE_SHARE = 0.5;
+const PART_SUFFIX = / \(part \d+\)$/;
+
+const topicTitles = new Map(roadmapTopics.map(topic => [topic.key, topic.title]));
+
+function ceilHalf(value: number): number {
+  return Math.ceil(value * 2 - 1e-9) / 2;
+}
+
+function sumHours<T>(items: T[], hours: (item: T) => number): number {
+  return items.reduce((sum, item) => sum + hours(item), 0);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function topicTitle(key: string): string {
+  return topicTitles.get(key) || key;
+}
+
+function sortTasks(tasks: RoadmapTask[]): RoadmapTask[] {
+  return [...tasks].sort((a, b) => a.week - b.week || a.position - b.position);
+}
+
+function collectOpenTasks(tasks: RoadmapTask[]): OpenTask[] {
+  const open: OpenTask[] = [];
+  const parts = new Map<string, OpenTask>();
+
+  for (const task of tasks) {
+    if (task.completedAt) continue;
+
+    const isPart = PART_SUFFIX.test(task.title);
+    const title = task.title.replace(PART_SUFFIX, '');
+    const key = `${task.phaseId}|${task.kind}|${task.topic || ''}|${title}`;
+    const existing = isPart ? parts.get(key) : undefined;
+    if (existing) {
+      existing.hours += task.plannedHours;
+      continue;
+    }
+
+    const entry: OpenTask = {
+      ref: open.length,
+      phaseId: task.phaseId,
+      title,
+      description: task.description,
+      kind: task.kind,
+      track: task.track,
+      topic: task.topic,
+      hours: task.plannedHours,
+      fromWeek: task.week,
+    };
+    if (isPart) parts.set(key, entry);
+    open.push(entry);
+  }
+
+  return open;
+}
+
+/**
+ * Planned vs actual progress of a roadmap as of `now`
+ */
+export function assessRoadmap(input: ReplanInput): RoadmapAssessment {
+  const { roadmap } = input;
+  const now = input.now || new Date();
+  const start = new Date(`${roadmap.startDate}T00:00:00Z`);
+  const currentWeek = Math.max(1, Math.floor((now.getTime() - start.getTime()) / (7 * DAY_MS)) + 1);
+  const elapsedWeeks = currentWeek - 1;
+
+  const due = input.tasks.filter(task => task.week < currentWeek);
+  const overdue = due.filter(task => !task.completedAt);
+  const plannedHoursToDate = sumHours(due, task => task.plannedHours);
+  const overdueHours = sumHours(overdue, task => task.plannedHours);
+
+  // Only weeks that fall inside the plan count towards the pace
+  const recent = elapsedWeeks > 0 ? input.recentWeeklyHours.slice(-elapsedWeeks) : [];
+  const averageWeeklyHours = recent.length > 0
+    ? Math.round(sumHours(recent, hours => hours) / recent.length * 10) / 10
+    : null;
+
+  return {
+    currentWeek,
+    plannedHoursToDate,
+    completedHoursToDate: plannedHoursToDate - overdueHours,
+    overdueHours,
+    overdueTasks: overdue.length,
+    overdueTopics: [...new Set(overdue.flatMap(task => task.topic ? [topicTitle(task.topic)] : []))],
+    plannedWeeklyHours: roadmap.hoursPerWeek,
+    averageWeeklyHours,
+    remainingHours: sumHours(input.tasks.filter(task => !task.completedAt), task => task.plannedHours),
+    remainingWeeks: Math.max(0, roadmap.totalWeeks - currentWeek + 1),
+    behind: overdueHours >= Math.max(MIN_BEHIND_HOURS, plannedHoursToDate * BEHIND_SHARE),
+  };
+}
+
+/**
+ * Pick the lowest-priority unfinished topics whose open hours cover `excess`.
+ * Topics not yet started go first; returns null when that would drop too much.
+ */
+function pickTopicsToDrop(open: OpenTask[], tasks: RoadmapTask[], priorities: Record<string, number>, excess: number): string[] | null {
+  const topics = [...new Set(open.flatMap(task => task.topic ? [task.topic] : []))].map((key, order) => ({
+    key,
+    order,
+    hours: sumHours(open.filter(task => task.topic === key), task => task.hours),
+    started: tasks.some(task => task.topic === key && task.completedAt),
+    priority: priorities[key] ?? 0,
+  }));
+
+  const candidates = [...topics].sort((a, b) =>
+    Number(a.started) - Number(b.started) || a.priority - b.priority || b.order - a.order
+  );
+
+  const dropped: string[] = [];
+  let freed = 0;
+  for (const topic of candidates) {
+    if (freed >= excess) break;
+    dropped.push(topic.key);
+    freed += topic.hours;
+  }
+
+  const topicHours = sumHours(topics, topic => topic.hours);
+  return freed >= excess && freed <= topicHours * MAX_DROP_SHARE ? dropped : null;
+}
+
+function describeShortfall(assessment: RoadmapAssessment): string {
+  const pace = assessment.averageWeeklyHours !== null && assessment.averageWeeklyHours < assessment.plannedWeeklyHours
+    ? ` and you've averaged ${assessment.averageWeeklyHours} of ${assessment.plannedWeeklyHours} planned hrs/week`
+    : '';
+  const tasks = assessment.overdueTasks === 1 ? '1 task' : `${assessment.overdueTasks} tasks`;
+  return `${tasks} (${assessment.overdueHours} hrs) from earlier weeks ${assessment.overdueTasks === 1 ? 'is' : 'are'} still open${pace}`;
+}
+
+/**
+ * Propose a revised schedule when the roadmap has fallen behind; null when it is on track
+ */
+export function planRevision(input: ReplanInput): { assessment: RoadmapAssessment; proposal: RevisionProposal | null } {
+  const assessment = assessRoadmap(input);
+  if (!assessment.behind) return { assessment, proposal: null };
+
+  const { roadmap } = input;
+  const tasks = sortTasks(input.tasks);
+  const open = collectOpenTasks(tasks);
+  const firstWeek = assessment.currentWeek;
+  const remainingWeeks = assessment.remainingWeeks;
+  const remainingHours = sumHours(open, task => task.hours);
+
+  // Hours already ticked off in the weeks still ahead
+  const usedAhead = (weeks: number) => Array.from({ length: weeks }, (_, index) =>
+    sumHours(tasks.filter(task => task.completedAt && task.week === firstWeek + index), task => task.plannedHours)
+  );
+  const usedAheadHours = sumHours(usedAhead(remainingWeeks), hours => hours);
+
+  const plannedHours = roadmap.hoursPerWeek;
+  const minimumPace = Math.max(1, roundHalf(plannedHours * MIN_PACE_SHARE));
+  const capacity = assessment.averageWeeklyHours === null
+    ? plannedHours
+    : Math.min(plannedHours, Math.max(minimumPace, floorHalf(assessment.averageWeeklyHours)));
+
+  const shortfall = describeShortfall(assessment);
+
+  const build = (strategy: ReplanStrategy, reason: string, hoursPerWeek: number, totalWeeks: number, targetDate: string | null, droppedKeys: string[]): RevisionProposal => {
+    const kept = open.filter(task => !task.topic || !droppedKeys.includes(task.topic));
+    const span = totalWeeks - firstWeek + 1;
+    const scheduled = scheduleTasks(kept, span, hoursPerWeek, usedAhead(span));
+
+    const revised: RevisedTask[] = [];
+    const toWeek = new Map<number, number>();
+    scheduled.forEach((weekTasks, index) => {
+      const week = firstWeek + index;
+      const offset = tasks.filter(task => task.week === week).reduce((max, task) => Math.max(max, task.position + 1), 0);
+      weekTasks.forEach((task, position) => {
+        if (!toWeek.has(task.ref)) toWeek.set(task.ref, week);
+        revised.push({
+          phaseId: task.phaseId,
+          week,
+          position: offset + position,
+          title: task.title,
+          description: task.description,
+          kind: task.kind,
+          track: task.track,
+          topic: task.topic,
+          hours: task.hours,
+        });
+      });
+    });
+
+    const lastWeek = Math.max(roadmap.totalWeeks, totalWeeks);
+    const droppedTopics = droppedKeys.map(topicTitle);
+
+    return {
+      strategy,
+      reason,
+      plan: { hoursPerWeek, totalWeeks, targetDate, droppedTopics, tasks: revised },
+      diff: {
+        hoursPerWeek: { before: roadmap.hoursPerWeek, after: hoursPerWeek },
+        totalWeeks: { before: roadmap.totalWeeks, after: totalWeeks },
+        targetDate: { before: roadmap.targetDate, after: targetDate },
+        droppedTopics,
+        weeks: Array.from({ length: Math.max(0, lastWeek - firstWeek + 1) }, (_, index) => {
+          const week = firstWeek + index;
+          return {
+            week,
+            before: sumHours(tasks.filter(task => task.week === week), task => task.plannedHours),
+            after: sumHours(tasks.filter(task => task.completedAt && task.week === week), task => task.plannedHours)
+              + sumHours(revised.filter(task => task.week === week), task => task.hours),
+          };
+        }),
+        tasks: open.flatMap((task): RevisionTaskChange[] => {
+          const week = toWeek.get(task.ref) ?? null;
+          if (week === task.fromWeek) return [];
+          return [{
+            change: week === null ? 'dropped' : 'moved',
+            title: task.title,
+            kind: task.kind,
+            topic: task.topic ? topicTitle(task.topic) : null,
+            hours: task.hours,
+            fromWeek: task.fromWeek,
+            toWeek: week,
+          }];
+        }),
+      },
+    };
+  };
+
+  // 1. Squeeze the open work into the weeks that are left
+  if (remainingWeeks > 0) {
+    const required = (remainingHours + usedAheadHours) / remainingWeeks;
+    if (required <= capacity * COMPRESS_LIMIT) {
+      const hoursPerWeek = Math.max(capacity, ceilHalf(required));
+      return {
+        assessment,
+        proposal: build(
+          'compress',
+          `${shortfall}. Fit the open work into the remaining ${remainingWeeks} ${remainingWeeks === 1 ? 'week' : 'weeks'} at ${hoursPerWeek} hrs/week.`,
+          hoursPerWeek,
+          roadmap.totalWeeks,
+          roadmap.targetDate,
+          []
+        ),
+      };
+    }
+  }
+
+  // 2. Keep the target date by dropping low-priority topics
+  if (roadmap.targetDate && remainingWeeks > 0) {
+    const excess = remainingHours - (capacity * remainingWeeks - usedAheadHours);
+    const dropped = pickTopicsToDrop(open, tasks, input.priorities, excess);
+    if (dropped) {
+      return {
+        assessment,
+        proposal: build(
+          'drop_topics',
+          `${shortfall}. Keep ${capacity} hrs/week and drop ${dropped.length === 1 ? '1 lower-priority topic' : `${dropped.length} lower-priority topics`} to finish by ${roadmap.targetDate}.`,
+          capacity,
+          roadmap.totalWeeks,
+          roadmap.targetDate,
+          dropped
+        ),
+      };
+    }
+  }
+
+  // 3. Keep every topic and give the plan more weeks
+  const weeksNeeded = Math.max(1, Math.ceil((remainingHours + usedAheadHours) / capacity));
+  const totalWeeks = Math.max(firstWeek, Math.min(MAX_WEEKS, firstWeek - 1 + weeksNeeded));
+  const targetDate = roadmap.targetDate ? addDays(roadmap.targetDate, (totalWeeks - roadmap.totalWeeks) * 7) : null;
+
+  return {
+    assessment,
+    proposal: build(
+      'extend_target',
+      targetDate
+        ? `${shortfall}. Keep every topic at ${capacity} hrs/week and move the target date to ${targetDate}.`
+        : `${shortfall}. Keep every topic at ${capacity} hrs/week and extend the plan to ${totalWeeks} weeks.`,
+      capacity,
+      totalWeeks,
+      targetDate,
+      []
+    ),
+  };
+}
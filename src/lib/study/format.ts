@@ -0,0 +1,28 @@
+/**
+ * API shapes for study sessions
+ */
+
+import type { StudySession } from '@/lib/database/schema';
+import { getActiveSeconds } from './timer';
+
+export function toStudySessionResponse(session: StudySession, now: Date = new Date()) {
+  return {
+    id: session.id,
+    sessionType: session.sessionType,
+    topic: session.topic,
+    status: session.status,
+    timerMode: session.timerMode,
+    duration: session.duration,
+    activeSeconds: getActiveSeconds(session, now),
+    questionsAttempted: session.questionsAttempted,
+    questionsCompleted: session.questionsCompleted,
+    difficultyLevel: session.difficultyLevel,
+    score: session.score,
+    notes: session.notes,
+    pausedAt: session.pausedAt,
+    startedAt: session.startedAt,
+    completedAt: session.completedAt,
+  };
+}
+
+export type StudySessionResponse = ReturnType<typeof toStudySessionResponse>;
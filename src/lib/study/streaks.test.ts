@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { computeStreak, isValidTimeZone, MAX_FREEZES, toLocalDate } from './streaks';
+
+function days(from: string, count: number, minutes = 30): Record<string, number> {
+  const result: Record<string, number> = {};
+  const date = new Date(`${from}T00:00:00Z`);
+  for (let i = 0; i < count; i++) {
+    result[date.toISOString().slice(0, 10)] = minutes;
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return result;
+}
+
+describe('toLocalDate', () => {
+  test('uses the calendar date of the given timezone', () => {
+    const at = '2026-03-01T23:30:00Z';
+    assert.equal(toLocalDate(at, 'UTC'), '2026-03-01');
+    assert.equal(toLocalDate(at, 'Asia/Kolkata'), '2026-03-02');
+    assert.equal(toLocalDate(new Date(at), 'America/Los_Angeles'), '2026-03-01');
+  });
+
+  test('isValidTimeZone rejects unknown names', () => {
+    assert.equal(isValidTimeZone('Europe/Berlin'), true);
+    assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+  });
+});
+
+describe('computeStreak', () => {
+  test('counts consecutive days that meet the goal', () => {
+    const streak = computeStreak(days('2026-01-01', 3), '2026-01-03', 15);
+
+    assert.equal(streak.current, 3);
+    assert.equal(streak.best, 3);
+    assert.equal(streak.lastActiveDate, '2026-01-03');
+    assert.equal(streak.todayMinutes, 30);
+  });
+
+  test('days below the goal do not count', () => {
+    const streak = computeStreak({ '2026-01-01': 10 }, '2026-01-01', 15);
+
+    assert.equal(streak.current, 0);
+    assert.equal(streak.lastActiveDate, null);
+    assert.equal(streak.todayMinutes, 10);
+  });
+
+  test('today does not break the streak before it qualifies', () => {
+    const streak = computeStreak(days('2026-01-01', 2), '2026-01-03', 15);
+
+    assert.equal(streak.current, 2);
+    assert.equal(streak.todayMinutes, 0);
+  });
+
+  test('a missed day without a freeze resets the streak but keeps the best', () => {
+    const minutes = { ...days('2026-01-01', 2), ...days('2026-01-04', 1) };
+    const streak = computeStreak(minutes, '2026-01-05', 15);
+
+    assert.equal(streak.current, 1);
+    assert.equal(streak.best, 2);
+    assert.deepEqual(streak.frozenDays, []);
+  });
+
+  test('a week of streak earns a freeze that covers a missed day', () => {
+    const minutes = { ...days('2026-01-01', 7), ...days('2026-01-09', 1) };
+    const streak = computeStreak(minutes, '2026-01-09', 15);
+
+    assert.equal(streak.current, 8);
+    assert.equal(streak.freezes, 0);
+    assert.deepEqual(streak.frozenDays, ['2026-01-08']);
+  });
+
+  test('freezes are capped', () => {
+    const streak = computeStreak(days('2026-01-01', 28), '2026-01-28', 15);
+
+    assert.equal(streak.current, 28);
+    assert.equal(streak.freezes, MAX_FREEZES);
+  });
+
+  test('days after today are ignored', () => {
+    const streak = computeStreak(days('2026-01-01', 5), '2026-01-02', 15);
+
+    assert.equal(streak.current, 2);
+    assert.equal(streak.lastActiveDate, '2026-01-02');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Study streaks
+ *
+ * A day counts towards the streak when the user logs at least their daily goal
+ * of study minutes, with days taken in the user's own timezone. Every week of
+ * streak earns a freeze (up to two held at once); a missed day spends one
+ * automatically instead of breaking the streak. Today never breaks a streak:
+ * until it qualifies the streak runs through yesterday.
+ */
+
+export const DEFAULT_STREAK_GOAL_MINUTES = 15;
+export const STREAK_GOAL_OPTIONS = [5, 10, 15, 30, 45, 60];
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_FREEZES = 2;
+
+export interface StreakState {
+  current: number;
+  best: number;
+  freezes: number;
+  lastActiveDate: string | null; // last day that met the goal
+  frozenDays: string[]; // missed days covered by a freeze in the current streak
+  today: string;
+  todayMinutes: number;
+  goalMinutes: number;
+}
+
+/**
+ * Whether the runtime knows an IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function toLocalDate(at: Date | string, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(typeof at === 'string' ? new Date(at) : at);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+function nextDay(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Replay a user's study days from the first qualifying one up to `today`
+ */
+export function computeStreak(minutesByDay: Record<string, number>, today: string, goalMinutes: number): StreakState {
+  const qualifies = (day: string) => (minutesByDay[day] || 0) >= goalMinutes;
+  const days = Object.keys(minutesByDay).filter(day => day <= today && qualifies(day)).sort();
+
+  let current = 0;
+  let best = 0;
+  let freezes = 0;
+  let towardsFreeze = 0;
+  let frozenDays: string[] = [];
+
+  for (let day = days[0]; day && day <= today; day = nextDay(day)) {
+    if (qualifies(day)) {
+      current++;
+      best = Math.max(best, current);
+      towardsFreeze++;
+      if (towardsFreeze === FREEZE_EVERY_DAYS) {
+        towardsFreeze = 0;
+        freezes = Math.min(MAX_FREEZES, freezes + 1);
+      }
+    } else if (day === today) {
+      break;
+    } else if (current > 0 && freezes > 0) {
+      freezes--;
+      frozenDays.push(day);
+    } else {
+      current = 0;
+      towardsFreeze = 0;
+      frozenDays = [];
+    }
+  }
+
+  return {
+    current,
+    best,
+    freezes,
+    lastActiveDate: days[days.length - 1] || null,
+    frozenDays,
+    today,
+    todayMinutes: minutesByDay[today] || 0,
+    goalMinutes,
+  };
+}
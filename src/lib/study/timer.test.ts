@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getActiveSeconds, MAX_SESSION_HOURS } from './timer';
+
+const startedAt = '2026-03-02T09:00:00.000Z';
+
+describe('getActiveSeconds', () => {
+  test('leaves out paused time', () => {
+    const session = { startedAt, completedAt: '2026-03-02T10:00:00.000Z', pausedAt: null, pausedSeconds: 600 };
+
+    assert.equal(getActiveSeconds(session), 3000);
+  });
+
+  test('stops at the pause of a paused session', () => {
+    const session = { startedAt, completedAt: null, pausedAt: '2026-03-02T09:30:00.000Z', pausedSeconds: 0 };
+
+    assert.equal(getActiveSeconds(session, new Date('2026-03-05T09:00:00.000Z')), 1800);
+  });
+
+  test('a timer left running records at most MAX_SESSION_HOURS', () => {
+    const session = { startedAt, completedAt: null, pausedAt: null, pausedSeconds: 0 };
+
+    assert.equal(getActiveSeconds(session, new Date('2026-03-05T09:00:00.000Z')), MAX_SESSION_HOURS * 3600);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Focus timer helpers
+ *
+ * A live study session runs from `startedAt` until it is completed; time spent
+ * paused is left out of its duration, which stops growing at MAX_SESSION_HOURS
+ * so a timer left running doesn't log days of study. In Pomodoro mode the timer
+ * pauses the session for a break after every 25 focused minutes.
+ */
+
+export type StudySessionStatus = 'active' | 'paused' | 'completed';
+export type TimerMode = 'stopwatch' | 'pomodoro';
+
+export const TIMER_MODES: TimerMode[] = ['stopwatch', 'pomodoro'];
+
+// Session types a user can start from the timer
+export const TIMED_SESSION_TYPES: Record<string, string> = {
+  dsa: 'DSA',
+  system_design: 'System Design',
+  behavioral: 'Behavioral',
+};
+
+// Longest focused time one session can record
+export const MAX_SESSION_HOURS = 4;
+
+export const POMODORO = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4, // pomodoros
+};
+
+export interface TimedSession {
+  startedAt: string;
+  completedAt: string | null;
+  pausedAt: string | null;
+  pausedSeconds: number;
+}
+
+/**
+ * Seconds of focused time in a session as of `now`, at most MAX_SESSION_HOURS
+ */
+export function getActiveSeconds(session: TimedSession, now: Date = new Date()): number {
+  const end = session.completedAt || session.pausedAt || now.toISOString();
+  const elapsed = (new Date(end).getTime() - new Date(session.startedAt).getTime()) / 1000;
+  return Math.min(MAX_SESSION_HOURS * 3600, Math.max(0, Math.floor(elapsed - session.pausedSeconds)));
+}
+
+/**
+ * Pomodoros finished so far and seconds left in the current one
+ */
+export function getPomodoroState(activeSeconds: number): { completed: number; focusRemaining: number } {
+  const focusSeconds = POMODORO.focusMinutes * 60;
+  return {
+    completed: Math.floor(activeSeconds / focusSeconds),
+    focusRemaining: focusSeconds - (activeSeconds % focusSeconds),
+  };
+}
+
+/**
+ * Break length after the given number of finished pomodoros
+ */
+export function getBreakSeconds(completedPomodoros: number): number {
+  const long = completedPomodoros > 0 && completedPomodoros % POMODORO.longBreakEvery === 0;
+  return (long ? POMODORO.longBreakMinutes : POMODORO.shortBreakMinutes) * 60;
+}
+
+/**
+ * Clock display, e.g. "04:59" or "1:02:03"
+ */
+export function formatClock(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mm = String(m).padStart(2, '0');
+  const ss = String(s).padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}